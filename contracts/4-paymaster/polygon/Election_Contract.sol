@@ -1,13 +1,14 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "./NICAccessControl.sol";
 
 /**
  * @title ElectionContract
  * @dev A smart contract for managing elections with candidates and voters
+ * @notice Elections are created by ELECTION_ADMIN_ROLE; no votes are accepted while paused
  */
-contract ElectionContract is Ownable {
+contract ElectionContract is NICAccessControl {
     // Structs
     struct Candidate {
         string name;
@@ -52,10 +53,12 @@ contract ElectionContract is Ownable {
         uint256 candidateIndex
     );
 
-    constructor() Ownable(msg.sender) {}
+    constructor() {
+        _grantRole(ELECTION_ADMIN_ROLE, msg.sender);
+    }
 
     /**
-     * @dev Create a new election (only owner)
+     * @dev Create a new election (ELECTION_ADMIN_ROLE only)
      * @param _electionTitle Title of the election
      * @param _description Description of the election
      * @param _startDate Start date/time as Unix timestamp
@@ -70,7 +73,7 @@ contract ElectionContract is Ownable {
         uint256 _endDate,
         Candidate[] memory _candidates,
         string[] memory _voterNICs
-    ) public onlyOwner {
+    ) public onlyRole(ELECTION_ADMIN_ROLE) {
         require(_startDate < _endDate, "Start date must be before end date");
         require(_candidates.length > 0, "Must have at least one candidate");
         require(_voterNICs.length > 0, "Must have at least one voter");
@@ -120,7 +123,7 @@ contract ElectionContract is Ownable {
         uint256 _electionId,
         string memory _voterNIC,
         uint256 _candidateIndex
-    ) public {
+    ) public whenNotPaused {
         require(elections[_electionId].exists, "Election does not exist");
         require(
             block.timestamp >= elections[_electionId].startDate,
@@ -0,0 +1,231 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+/**
+ * @title EncryptedTally
+ * @dev Exponential ElGamal on the BN254 curve (alt_bn128 precompiles) for encrypted vote totals
+ * @notice A vote m for one candidate is encrypted under the election's tally public key H = s*G as
+ * (a, b) = (r*G, m*G + r*H). Ciphertexts add up component-wise, so the sum of the ballots encrypts
+ * each candidate's total, which the holder of s decrypts with a proof instead of opening any ballot.
+ * Proofs are non-interactive Chaum-Pedersen proofs (Fiat-Shamir with keccak256 over abi.encode);
+ * utils/encryptedTally.ts builds them with the same encoding.
+ */
+library EncryptedTally {
+    // BN254 base field (point coordinates)
+    uint256 internal constant FIELD_MODULUS =
+        21888242871839275222246405745257275088696311157297823662689037894645226208583;
+
+    // BN254 group order (scalars, challenges and responses)
+    uint256 internal constant GROUP_ORDER =
+        21888242871839275222246405745257275088548364400416034343698204186575808495617;
+
+    // (0, 0) is the point at infinity, as in the precompiles
+    struct G1Point {
+        uint256 x;
+        uint256 y;
+    }
+
+    // Encryption of m: a = r*G, b = m*G + r*H
+    struct Ciphertext {
+        G1Point a;
+        G1Point b;
+    }
+
+    // Disjunctive proof that a ciphertext encrypts 0 or 1 (branch 0 and branch 1 challenges and responses)
+    struct BitProof {
+        uint256 c0;
+        uint256 c1;
+        uint256 z0;
+        uint256 z1;
+    }
+
+    // Proof that two points share a discrete logarithm (challenge and response)
+    struct EqualityProof {
+        uint256 c;
+        uint256 z;
+    }
+
+    // One ciphertext per candidate, each a 0/1 vote, adding up to exactly one vote
+    struct Ballot {
+        Ciphertext[] ciphertexts;
+        BitProof[] bitProofs;
+        EqualityProof sumProof;
+    }
+
+    // Decrypted total of one candidate: share = s*a, so b - share = count*G
+    struct Decryption {
+        uint256 count;
+        G1Point share;
+        EqualityProof proof;
+    }
+
+    /**
+     * @dev Check that a point can be used as a tally public key
+     * @param _point Point to check
+     * @return bool True if the point is on the curve and is not the point at infinity
+     */
+    function isValidPublicKey(G1Point memory _point) internal pure returns (bool) {
+        if (_point.x >= FIELD_MODULUS || _point.y >= FIELD_MODULUS) return false;
+        if (_point.x == 0 && _point.y == 0) return false;
+        uint256 x3 = mulmod(mulmod(_point.x, _point.x, FIELD_MODULUS), _point.x, FIELD_MODULUS);
+        return mulmod(_point.y, _point.y, FIELD_MODULUS) == addmod(x3, 3, FIELD_MODULUS);
+    }
+
+    /**
+     * @dev Hash the ciphertexts of a ballot into the field
+     * @param _ciphertexts Ballot ciphertexts
+     * @return uint256 keccak256(abi.encode(ciphertexts)) mod GROUP_ORDER (the voting circuit's commitment input)
+     */
+    function hashCiphertexts(Ciphertext[] calldata _ciphertexts) internal pure returns (uint256) {
+        return uint256(keccak256(abi.encode(_ciphertexts))) % GROUP_ORDER;
+    }
+
+    /**
+     * @dev Verify that a ballot holds exactly one vote for one candidate
+     * @param _ballot Ciphertexts with their bit proofs and sum proof
+     * @param _publicKey Tally public key H
+     * @param _context Hash binding the proofs to the election and voter (no reuse in another ballot)
+     * @return bool True if every ciphertext encrypts 0 or 1 and they encrypt 1 in total
+     * @notice Reverts if a ciphertext point is not on the curve
+     */
+    function verifyBallot(
+        Ballot calldata _ballot,
+        G1Point memory _publicKey,
+        bytes32 _context
+    ) internal view returns (bool) {
+        uint256 candidates = _ballot.ciphertexts.length;
+        if (_ballot.bitProofs.length != candidates) return false;
+
+        G1Point memory sumA = G1Point(0, 0);
+        G1Point memory sumB = G1Point(0, 0);
+        for (uint256 i = 0; i < candidates; i++) {
+            Ciphertext memory ciphertext = _ballot.ciphertexts[i];
+            if (!_verifyBit(ciphertext, _ballot.bitProofs[i], _publicKey, _context, i)) return false;
+            sumA = add(sumA, ciphertext.a);
+            sumB = add(sumB, ciphertext.b);
+        }
+
+        // The sum encrypts 1: (sumA, sumB - G) = (R*G, R*H) for the summed randomness R
+        return _verifyEquality(
+            sumA,
+            sub(sumB, G1Point(1, 2)),
+            _ballot.sumProof,
+            G1Point(1, 2),
+            _publicKey,
+            keccak256(abi.encode(_context, candidates))
+        );
+    }
+
+    /**
+     * @dev Verify the decryption of a candidate's encrypted total
+     * @param _total Sum of the candidate's ciphertexts
+     * @param _decryption Count, decryption share and its proof
+     * @param _publicKey Tally public key H
+     * @param _context Hash binding the proof to the election
+     * @param _index Candidate index
+     * @return bool True if the share is s*a for the tally secret key s and b - share = count*G
+     */
+    function verifyDecryption(
+        Ciphertext memory _total,
+        Decryption calldata _decryption,
+        G1Point memory _publicKey,
+        bytes32 _context,
+        uint256 _index
+    ) internal view returns (bool) {
+        // log_G(H) == log_a(share): the share was computed with the tally secret key
+        bool validShare = _verifyEquality(
+            _publicKey,
+            _decryption.share,
+            _decryption.proof,
+            G1Point(1, 2),
+            _total.a,
+            keccak256(abi.encode(_context, _index))
+        );
+        if (!validShare) return false;
+        G1Point memory decrypted = sub(_total.b, _decryption.share);
+        G1Point memory expected = mul(G1Point(1, 2), _decryption.count);
+        return decrypted.x == expected.x && decrypted.y == expected.y;
+    }
+
+    /**
+     * @dev Add two ciphertexts (the result encrypts the sum of their votes)
+     */
+    function addCiphertexts(Ciphertext memory _x, Ciphertext memory _y) internal view returns (Ciphertext memory) {
+        return Ciphertext(add(_x.a, _y.a), add(_x.b, _y.b));
+    }
+
+    /**
+     * @dev Verify that a ciphertext encrypts 0 or 1 (one branch is simulated, c0 + c1 is the challenge)
+     */
+    function _verifyBit(
+        Ciphertext memory _ciphertext,
+        BitProof calldata _proof,
+        G1Point memory _publicKey,
+        bytes32 _context,
+        uint256 _index
+    ) private view returns (bool) {
+        G1Point memory g = G1Point(1, 2);
+        // Branch m: z*G - c*a and z*H - c*(b - m*G)
+        G1Point memory a0 = sub(mul(g, _proof.z0), mul(_ciphertext.a, _proof.c0));
+        G1Point memory b0 = sub(mul(_publicKey, _proof.z0), mul(_ciphertext.b, _proof.c0));
+        G1Point memory a1 = sub(mul(g, _proof.z1), mul(_ciphertext.a, _proof.c1));
+        G1Point memory b1 = sub(mul(_publicKey, _proof.z1), mul(sub(_ciphertext.b, g), _proof.c1));
+
+        uint256 challenge = uint256(
+            keccak256(abi.encode(_context, _index, _publicKey, _ciphertext, a0, b0, a1, b1))
+        ) % GROUP_ORDER;
+        return addmod(_proof.c0, _proof.c1, GROUP_ORDER) == challenge;
+    }
+
+    /**
+     * @dev Verify log_base1(x) == log_base2(y): t1 = z*base1 - c*x, t2 = z*base2 - c*y and
+     * c = keccak256(context, base1, base2, x, y, t1, t2) mod GROUP_ORDER
+     */
+    function _verifyEquality(
+        G1Point memory _x,
+        G1Point memory _y,
+        EqualityProof calldata _proof,
+        G1Point memory _base1,
+        G1Point memory _base2,
+        bytes32 _context
+    ) private view returns (bool) {
+        G1Point memory t1 = sub(mul(_base1, _proof.z), mul(_x, _proof.c));
+        G1Point memory t2 = sub(mul(_base2, _proof.z), mul(_y, _proof.c));
+        uint256 challenge = uint256(
+            keccak256(abi.encode(_context, _base1, _base2, _x, _y, t1, t2))
+        ) % GROUP_ORDER;
+        return _proof.c == challenge;
+    }
+
+    /**
+     * @dev Point addition (precompile 0x06, reverts on points off the curve)
+     */
+    function add(G1Point memory _p, G1Point memory _q) internal view returns (G1Point memory r) {
+        uint256[4] memory input = [_p.x, _p.y, _q.x, _q.y];
+        bool success;
+        assembly {
+            success := staticcall(gas(), 0x06, input, 0x80, r, 0x40)
+        }
+        require(success, "Invalid curve point");
+    }
+
+    /**
+     * @dev Scalar multiplication (precompile 0x07, reverts on points off the curve)
+     */
+    function mul(G1Point memory _p, uint256 _s) internal view returns (G1Point memory r) {
+        uint256[3] memory input = [_p.x, _p.y, _s];
+        bool success;
+        assembly {
+            success := staticcall(gas(), 0x07, input, 0x60, r, 0x40)
+        }
+        require(success, "Invalid curve point");
+    }
+
+    /**
+     * @dev Point subtraction p - q
+     */
+    function sub(G1Point memory _p, G1Point memory _q) internal view returns (G1Point memory) {
+        if (_q.x == 0 && _q.y == 0) return _p;
+        return add(_p, G1Point(_q.x, FIELD_MODULUS - (_q.y % FIELD_MODULUS)));
+    }
+}
@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+
+/**
+ * @title NICAccessControl
+ * @dev Roles shared by the registry, paymaster and election contracts
+ * @notice Each administrative power has its own role, so no single key controls the system:
+ * - ELECTION_ADMIN_ROLE: create elections and update their voter rolls
+ * - REGISTRAR_ROLE: register, deactivate and migrate wallets, manage system wallets and issuers
+ * - TREASURER_ROLE: withdraw paymaster funds and set the sponsorship policy
+ * - VERIFIER_ADMIN_ROLE: swap the ZK verifier
+ * - PAUSER_ROLE: pause and unpause the contract
+ * DEFAULT_ADMIN_ROLE grants and revokes the roles. The deployer starts with the admin and pauser
+ * roles, and each contract grants it the roles it checks; hand them out with
+ * deploy/4-paymaster/polygon/assign-roles.ts and audit them with auditRoles (utils/roles.ts).
+ */
+abstract contract NICAccessControl is AccessControl, Pausable {
+    bytes32 public constant ELECTION_ADMIN_ROLE = keccak256("ELECTION_ADMIN_ROLE");
+    bytes32 public constant REGISTRAR_ROLE = keccak256("REGISTRAR_ROLE");
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE");
+    bytes32 public constant VERIFIER_ADMIN_ROLE = keccak256("VERIFIER_ADMIN_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    constructor() {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+    }
+
+    /**
+     * @dev Pause the contract (PAUSER_ROLE only)
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @dev Unpause the contract (PAUSER_ROLE only)
+     */
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+}
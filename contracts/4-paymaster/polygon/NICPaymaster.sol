@@ -2,18 +2,43 @@
 pragma solidity ^0.8.0;
 
 import "./NICWalletRegistry.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
-import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "./PaymasterForwarder.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
 
 /**
  * @title NICPaymaster
  * @dev Enhanced paymaster that works with NIC-based wallet system
- * @notice This paymaster allows both direct wallet transactions and temporary wallet transactions
+ * @notice This paymaster allows both direct wallet transactions and temporary wallet transactions.
+ * Requests are signed as EIP-712 typed data (domain "NICPaymaster", version "1"), see utils/paymasterSigner.ts.
+ * Signers that are contracts (multisigs, smart accounts) are verified through ERC-1271 isValidSignature.
+ * Only calls allowed by the treasurer's sponsorship policy are executed: calls for registered wallets
+ * to allowlisted targets and selectors, a daily call quota per registered wallet and a spending cap
+ * per election.
+ * Verification and execution are shared with PolygonPaymaster through PaymasterForwarder.
+ * Calls carry the registered wallet as their ERC-2771 sender (the original wallet for
+ * temporary-wallet requests), so targets trusting this paymaster need no wallet argument.
  */
-contract NICPaymaster is Ownable {
-    using ECDSA for bytes32;
-    using MessageHashUtils for bytes32;
+contract NICPaymaster is PaymasterForwarder, EIP712 {
+    bytes32 public constant META_TRANSACTION_TYPEHASH = keccak256(
+        "MetaTransaction(address user,address target,uint256 value,bytes data,uint256 nonce,uint256 validAfter,uint256 validUntil)"
+    );
+
+    bytes32 public constant TEMPORARY_WALLET_TRANSACTION_TYPEHASH = keccak256(
+        "TemporaryWalletTransaction(address originalWallet,address temporaryWallet,address target,uint256 value,bytes data,uint256 nonce,uint256 validAfter,uint256 validUntil)"
+    );
+
+    // Signed temporary-wallet request, as submitted to executeBatch
+    struct TemporaryWalletRequest {
+        address originalWallet;
+        address temporaryWallet;
+        address target;
+        uint256 value;
+        bytes data;
+        uint256 validAfter;
+        uint256 validUntil;
+        bytes signature;
+    }
 
     NICWalletRegistry public immutable walletRegistry;
     
@@ -26,6 +51,27 @@ contract NICPaymaster is Ownable {
     // Track temporary wallet to original wallet relationships
     mapping(address => address) public tempWalletToOriginal;
 
+    // Sponsorship policy: targets whose every function is sponsored
+    mapping(address => bool) public sponsoredTargets;
+
+    // Sponsorship policy: individually sponsored functions (target => selector => allowed)
+    mapping(address => mapping(bytes4 => bool)) public sponsoredSelectors;
+
+    // Sponsored calls allowed per registered wallet per day (0 for no quota)
+    uint256 public dailyCallQuota;
+
+    // Sponsored calls made per registered wallet per day (wallet => day => count)
+    mapping(address => mapping(uint256 => uint256)) public dailyCallCount;
+
+    // Election contracts, whose sponsored functions take the election ID as first parameter
+    mapping(address => bool) public electionContracts;
+
+    // Spending cap in wei per election (election contract => election ID => cap, 0 for no cap)
+    mapping(address => mapping(uint256 => uint256)) public electionSpendingCap;
+
+    // Value and gas cost spent per election (election contract => election ID => wei)
+    mapping(address => mapping(uint256 => uint256)) public electionSpent;
+
     // Events
     event MetaTransactionExecuted(
         address indexed user,
@@ -44,10 +90,36 @@ contract NICPaymaster is Ownable {
         bytes returnData
     );
 
-    event FundsDeposited(address indexed depositor, uint256 amount);
-    event FundsWithdrawn(address indexed owner, uint256 amount);
+    // executed is false when the request was rejected (returnData is the revert reason)
+    event BatchItemProcessed(
+        uint256 indexed index,
+        address indexed temporaryWallet,
+        bool executed,
+        bool success,
+        bytes returnData
+    );
 
-    constructor(address _walletRegistry) Ownable(msg.sender) {
+    event BatchExecuted(uint256 requestCount, uint256 successCount);
+
+    event SponsoredTargetUpdated(address indexed target, bool allowed);
+    event SponsoredSelectorUpdated(address indexed target, bytes4 indexed selector, bool allowed);
+    event DailyCallQuotaUpdated(uint256 quota);
+    event ElectionContractUpdated(address indexed electionContract, bool enabled);
+    event ElectionSpendingCapUpdated(address indexed electionContract, uint256 indexed electionId, uint256 cap);
+
+    // Policy rejections: the signed request is used up but its call is not made
+    event WalletNotRegistered(address indexed wallet);
+    event TargetNotSponsored(address indexed wallet, address indexed target, bytes4 selector);
+    event DailyCallQuotaExceeded(address indexed wallet, uint256 indexed day, uint256 quota);
+    event ElectionSpendingCapReached(
+        address indexed wallet,
+        address indexed electionContract,
+        uint256 indexed electionId,
+        uint256 spent,
+        uint256 cap
+    );
+
+    constructor(address _walletRegistry) EIP712("NICPaymaster", "1") {
         require(_walletRegistry != address(0), "Invalid registry address");
         walletRegistry = NICWalletRegistry(_walletRegistry);
     }
@@ -58,46 +130,26 @@ contract NICPaymaster is Ownable {
      * @param target The contract address to call
      * @param value The ETH value to send with the transaction
      * @param data The function call data
-     * @param signature The user's signature authorizing this transaction
+     * @param validAfter Timestamp before which the signature is not accepted (0 for none)
+     * @param validUntil Timestamp after which the signature is no longer accepted
+     * @param signature The user's EIP-712 signature of the MetaTransaction (ECDSA or ERC-1271)
      */
     function executeMetaTransaction(
         address user,
         address target,
         uint256 value,
         bytes memory data,
+        uint256 validAfter,
+        uint256 validUntil,
         bytes memory signature
     ) public returns (bool success, bytes memory returnData) {
-        // Get the current nonce for this user
-        uint256 currentNonce = nonces[user];
-
-        // Create the message hash
-        bytes32 messageHash = keccak256(
-            abi.encodePacked(
-                user,
-                target,
-                value,
-                data,
-                currentNonce,
-                address(this)
-            )
+        uint256 nonce;
+        (nonce, success, returnData) = _forward(
+            ForwardRequest(user, user, false, target, value, data, validAfter, validUntil),
+            signature
         );
 
-        // Convert to Ethereum signed message hash
-        bytes32 ethSignedMessageHash = messageHash.toEthSignedMessageHash();
-
-        // Verify the signature
-        address recoveredSigner = ethSignedMessageHash.recover(signature);
-        require(recoveredSigner == user, "Invalid signature");
-
-        // Increment nonce to prevent replay attacks
-        nonces[user]++;
-
-        // Execute the transaction
-        (success, returnData) = target.call{value: value}(data);
-
-        emit MetaTransactionExecuted(user, target, currentNonce, success, returnData);
-
-        return (success, returnData);
+        emit MetaTransactionExecuted(user, target, nonce, success, returnData);
     }
 
     /**
@@ -107,7 +159,11 @@ contract NICPaymaster is Ownable {
      * @param target The contract address to call
      * @param value The ETH value to send with the transaction
      * @param data The function call data
-     * @param signature The temporary wallet's signature
+     * @param validAfter Timestamp before which the signature is not accepted (0 for none)
+     * @param validUntil Timestamp after which the signature is no longer accepted
+     * @param signature The temporary wallet's EIP-712 signature of the TemporaryWalletTransaction (ECDSA or ERC-1271)
+     * @notice The call must be allowed by the session's permissions (NICWalletRegistry.SessionPermissions)
+     * and counts against its call limit
      */
     function executeTemporaryWalletTransaction(
         address originalWallet,
@@ -115,54 +171,20 @@ contract NICPaymaster is Ownable {
         address target,
         uint256 value,
         bytes memory data,
+        uint256 validAfter,
+        uint256 validUntil,
         bytes memory signature
     ) public returns (bool success, bytes memory returnData) {
-        // Verify that the temporary wallet has valid access
-        require(
-            walletRegistry.hasValidAccess(originalWallet, temporaryWallet),
-            "Temporary wallet access expired or invalid"
-        );
-
-        // Get the current nonce for this temporary wallet
-        uint256 currentNonce = tempWalletNonces[temporaryWallet];
-
-        // Create the message hash (includes both wallets for security)
-        bytes32 messageHash = keccak256(
-            abi.encodePacked(
-                originalWallet,
-                temporaryWallet,
-                target,
-                value,
-                data,
-                currentNonce,
-                address(this)
-            )
+        return _executeTemporaryWalletTransaction(
+            originalWallet,
+            temporaryWallet,
+            target,
+            value,
+            data,
+            validAfter,
+            validUntil,
+            signature
         );
-
-        // Convert to Ethereum signed message hash
-        bytes32 ethSignedMessageHash = messageHash.toEthSignedMessageHash();
-
-        // Verify the signature from temporary wallet
-        address recoveredSigner = ethSignedMessageHash.recover(signature);
-        require(recoveredSigner == temporaryWallet, "Invalid temporary wallet signature");
-
-        // Increment nonce to prevent replay attacks
-        tempWalletNonces[temporaryWallet]++;
-
-        // Execute the transaction directly with the provided data
-        // The data should already be properly formatted with the original wallet parameter
-        (success, returnData) = target.call{value: value}(data);
-
-        emit TemporaryWalletTransactionExecuted(
-            originalWallet, 
-            temporaryWallet, 
-            target, 
-            currentNonce, 
-            success, 
-            returnData
-        );
-
-        return (success, returnData);
     }
 
     /**
@@ -172,7 +194,9 @@ contract NICPaymaster is Ownable {
      * @param value The ETH value to send with the transaction
      * @param functionSelector The function selector to call
      * @param additionalData Additional data to append after the user parameter
-     * @param signature The user's signature authorizing this transaction
+     * @param validAfter Timestamp before which the signature is not accepted (0 for none)
+     * @param validUntil Timestamp after which the signature is no longer accepted
+     * @param signature The user's EIP-712 signature of the resulting call data
      */
     function executeMetaTransactionWithUser(
         address user,
@@ -180,6 +204,8 @@ contract NICPaymaster is Ownable {
         uint256 value,
         bytes4 functionSelector,
         bytes memory additionalData,
+        uint256 validAfter,
+        uint256 validUntil,
         bytes memory signature
     ) public returns (bool success, bytes memory returnData) {
         // Check if this is a temporary wallet transaction
@@ -189,11 +215,11 @@ contract NICPaymaster is Ownable {
         if (originalWallet != address(0) && originalWallet != user) {
             // This is a temporary wallet transaction
             bytes memory data = abi.encodePacked(functionSelector, abi.encode(originalWallet), additionalData);
-            return executeTemporaryWalletTransaction(originalWallet, user, target, value, data, signature);
+            return executeTemporaryWalletTransaction(originalWallet, user, target, value, data, validAfter, validUntil, signature);
         } else {
             // This is a regular transaction
             bytes memory data = abi.encodePacked(functionSelector, abi.encode(user), additionalData);
-            return executeMetaTransaction(user, target, value, data, signature);
+            return executeMetaTransaction(user, target, value, data, validAfter, validUntil, signature);
         }
     }
 
@@ -236,6 +262,100 @@ contract NICPaymaster is Ownable {
         return tempWalletNonces[tempWallet];
     }
 
+    /**
+     * @dev Get the EIP-712 domain separator used for request signatures
+     */
+    function domainSeparator() external view returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
+    /**
+     * @dev Nonce policy: registered wallets and temporary wallets have separate nonces
+     */
+    function _useNonce(ForwardRequest memory request) internal override returns (uint256) {
+        if (request.isSession) {
+            return tempWalletNonces[request.signer]++;
+        }
+        return nonces[request.signer]++;
+    }
+
+    /**
+     * @dev Signature scheme: EIP-712 MetaTransaction or TemporaryWalletTransaction, ECDSA or ERC-1271
+     */
+    function _checkSignature(
+        ForwardRequest memory request,
+        uint256 nonce,
+        bytes memory signature
+    ) internal view override {
+        if (request.isSession) {
+            // Covers both wallets for security
+            require(
+                SignatureChecker.isValidSignatureNow(
+                    request.signer,
+                    _hashTemporaryWalletTransaction(request, nonce),
+                    signature
+                ),
+                "Invalid temporary wallet signature"
+            );
+        } else {
+            require(
+                SignatureChecker.isValidSignatureNow(
+                    request.signer,
+                    _hashMetaTransaction(request, nonce),
+                    signature
+                ),
+                "Invalid signature"
+            );
+        }
+    }
+
+    /**
+     * @dev Compute the EIP-712 digest of a MetaTransaction
+     */
+    function _hashMetaTransaction(
+        ForwardRequest memory request,
+        uint256 nonce
+    ) private view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    META_TRANSACTION_TYPEHASH,
+                    request.signer,
+                    request.target,
+                    request.value,
+                    keccak256(request.data),
+                    nonce,
+                    request.validAfter,
+                    request.validUntil
+                )
+            )
+        );
+    }
+
+    /**
+     * @dev Compute the EIP-712 digest of a TemporaryWalletTransaction
+     */
+    function _hashTemporaryWalletTransaction(
+        ForwardRequest memory request,
+        uint256 nonce
+    ) private view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    TEMPORARY_WALLET_TRANSACTION_TYPEHASH,
+                    request.wallet,
+                    request.signer,
+                    request.target,
+                    request.value,
+                    keccak256(request.data),
+                    nonce,
+                    request.validAfter,
+                    request.validUntil
+                )
+            )
+        );
+    }
+
     /**
      * @dev Execute gasless transaction for temporary wallet (relayer pays gas)
      * @param originalWallet The original wallet that owns the assets
@@ -243,7 +363,9 @@ contract NICPaymaster is Ownable {
      * @param target The contract address to call
      * @param value The ETH value to send with the transaction
      * @param data The function call data
-     * @param signature The temporary wallet's signature
+     * @param validAfter Timestamp before which the signature is not accepted (0 for none)
+     * @param validUntil Timestamp after which the signature is no longer accepted
+     * @param signature The temporary wallet's EIP-712 signature of the TemporaryWalletTransaction (ECDSA or ERC-1271)
      */
     function executeGaslessTemporaryTransaction(
         address originalWallet,
@@ -251,86 +373,245 @@ contract NICPaymaster is Ownable {
         address target,
         uint256 value,
         bytes memory data,
+        uint256 validAfter,
+        uint256 validUntil,
         bytes memory signature
     ) external returns (bool success, bytes memory returnData) {
+        return _executeTemporaryWalletTransaction(
+            originalWallet,
+            temporaryWallet,
+            target,
+            value,
+            data,
+            validAfter,
+            validUntil,
+            signature
+        );
+    }
+
+    /**
+     * @dev Execute a temporary-wallet request (see executeTemporaryWalletTransaction)
+     */
+    function _executeTemporaryWalletTransaction(
+        address originalWallet,
+        address temporaryWallet,
+        address target,
+        uint256 value,
+        bytes memory data,
+        uint256 validAfter,
+        uint256 validUntil,
+        bytes memory signature
+    ) private returns (bool success, bytes memory returnData) {
         // Verify that the temporary wallet has valid access
         require(
             walletRegistry.hasValidAccess(originalWallet, temporaryWallet),
             "Temporary wallet access expired or invalid"
         );
+        // The data should already be properly formatted with the original wallet parameter
+        uint256 nonce;
+        (nonce, success, returnData) = _forward(
+            ForwardRequest(temporaryWallet, originalWallet, true, target, value, data, validAfter, validUntil),
+            signature
+        );
+        // Reverts the request unless the session's permissions allow the call (this paymaster must be
+        // trusted by the registry); a call that failed still counts
+        walletRegistry.useSessionCall(originalWallet, temporaryWallet, target, data);
 
-        // Get the current nonce for this temporary wallet
-        uint256 currentNonce = tempWalletNonces[temporaryWallet];
-
-        // Create the message hash (includes both wallets for security)
-        bytes32 messageHash = keccak256(
-            abi.encodePacked(
-                originalWallet,
-                temporaryWallet,
-                target,
-                value,
-                data,
-                currentNonce,
-                address(this)
-            )
+        emit TemporaryWalletTransactionExecuted(
+            originalWallet,
+            temporaryWallet,
+            target,
+            nonce,
+            success,
+            returnData
         );
+    }
 
-        // Convert to Ethereum signed message hash
-        bytes32 ethSignedMessageHash = messageHash.toEthSignedMessageHash();
+    /**
+     * @dev Execute several signed temporary-wallet requests in one transaction (relayer pays gas)
+     * @param requests Signed requests, in nonce order for requests from the same temporary wallet
+     * @return successes Whether each request was executed and its call succeeded
+     * @return results Return data of each call, or the revert reason of a rejected request
+     * @notice A rejected request (expired, bad signature, no session) or a failing call only
+     * fails its own item; the other requests are still executed
+     */
+    function executeBatch(
+        TemporaryWalletRequest[] calldata requests
+    ) external returns (bool[] memory successes, bytes[] memory results) {
+        successes = new bool[](requests.length);
+        results = new bytes[](requests.length);
+        uint256 successCount = 0;
+
+        for (uint256 i = 0; i < requests.length; i++) {
+            TemporaryWalletRequest calldata request = requests[i];
+            bool executed;
+
+            // External self-call so a rejected request reverts only its own state changes
+            try this.executeGaslessTemporaryTransaction(
+                request.originalWallet,
+                request.temporaryWallet,
+                request.target,
+                request.value,
+                request.data,
+                request.validAfter,
+                request.validUntil,
+                request.signature
+            ) returns (bool success, bytes memory returnData) {
+                executed = true;
+                successes[i] = success;
+                results[i] = returnData;
+            } catch (bytes memory reason) {
+                results[i] = reason;
+            }
+
+            if (successes[i]) {
+                successCount++;
+            }
+            emit BatchItemProcessed(i, request.temporaryWallet, executed, successes[i], results[i]);
+        }
 
-        // Verify the signature from temporary wallet
-        address recoveredSigner = ethSignedMessageHash.recover(signature);
-        require(recoveredSigner == temporaryWallet, "Invalid temporary wallet signature");
+        emit BatchExecuted(requests.length, successCount);
+    }
 
-        // Increment nonce to prevent replay attacks
-        tempWalletNonces[temporaryWallet]++;
+    /**
+     * @dev Sponsor (or stop sponsoring) every function of a target contract (TREASURER_ROLE only)
+     * @param target The contract address
+     * @param allowed Whether calls to the target are sponsored
+     */
+    function setSponsoredTarget(address target, bool allowed) external onlyRole(TREASURER_ROLE) {
+        require(target != address(0), "Invalid target");
+        sponsoredTargets[target] = allowed;
+        emit SponsoredTargetUpdated(target, allowed);
+    }
 
-        // Execute the transaction directly with the provided data
-        // The data should already be properly formatted with the original wallet parameter
-        (success, returnData) = target.call{value: value}(data);
+    /**
+     * @dev Sponsor (or stop sponsoring) specific functions of a target contract (TREASURER_ROLE only)
+     * @param target The contract address
+     * @param selectors The function selectors, e.g. ZK_ElectionContract.castVoteWithNIC.selector
+     * @param allowed Whether calls to these functions are sponsored
+     */
+    function setSponsoredSelectors(address target, bytes4[] calldata selectors, bool allowed) external onlyRole(TREASURER_ROLE) {
+        require(target != address(0), "Invalid target");
+        for (uint256 i = 0; i < selectors.length; i++) {
+            sponsoredSelectors[target][selectors[i]] = allowed;
+            emit SponsoredSelectorUpdated(target, selectors[i], allowed);
+        }
+    }
 
-        emit TemporaryWalletTransactionExecuted(
-            originalWallet, 
-            temporaryWallet, 
-            target, 
-            currentNonce, 
-            success, 
-            returnData
-        );
+    /**
+     * @dev Set how many sponsored calls each registered wallet may make per day (TREASURER_ROLE only)
+     * @param quota Calls per wallet per UTC day (0 for no quota)
+     */
+    function setDailyCallQuota(uint256 quota) external onlyRole(TREASURER_ROLE) {
+        dailyCallQuota = quota;
+        emit DailyCallQuotaUpdated(quota);
+    }
 
-        return (success, returnData);
+    /**
+     * @dev Mark a contract as an election contract so its calls count against election caps (TREASURER_ROLE only)
+     * @param electionContract The election contract address
+     * @param enabled Whether calls are attributed to the election ID in their first parameter
+     */
+    function setElectionContract(address electionContract, bool enabled) external onlyRole(TREASURER_ROLE) {
+        require(electionContract != address(0), "Invalid election contract");
+        electionContracts[electionContract] = enabled;
+        emit ElectionContractUpdated(electionContract, enabled);
     }
 
     /**
-     * @dev Deposit funds to the paymaster for covering gas fees
+     * @dev Cap the value and gas cost sponsored for one election (TREASURER_ROLE only)
+     * @param electionContract The election contract address
+     * @param electionId The election ID
+     * @param cap Maximum spending in wei (0 for no cap)
      */
-    function deposit() public payable {
-        require(msg.value > 0, "Must deposit some ETH");
-        emit FundsDeposited(msg.sender, msg.value);
+    function setElectionSpendingCap(address electionContract, uint256 electionId, uint256 cap) external onlyRole(TREASURER_ROLE) {
+        require(electionContracts[electionContract], "Not an election contract");
+        electionSpendingCap[electionContract][electionId] = cap;
+        emit ElectionSpendingCapUpdated(electionContract, electionId, cap);
     }
 
     /**
-     * @dev Withdraw funds from the paymaster (owner only)
+     * @dev Get the number of sponsored calls a registered wallet made today
      */
-    function withdraw(address payable to, uint256 amount) public onlyOwner {
-        require(to != address(0), "Invalid recipient");
-        require(amount <= address(this).balance, "Insufficient balance");
-        
-        to.transfer(amount);
-        emit FundsWithdrawn(to, amount);
+    function getDailyCallCount(address wallet) external view returns (uint256) {
+        return dailyCallCount[wallet][block.timestamp / 1 days];
     }
 
     /**
-     * @dev Get the balance of this paymaster contract
+     * @dev Fee accounting: make a signed call if the sponsorship policy allows it
+     * @param request The request; its wallet's registered wallet counts against the daily quota
+     * @return success False if the policy rejected the call (see the rejection events) or the call failed
+     * @return returnData The call's return data (empty if rejected)
+     * @notice The election cap is checked before the call, so the last sponsored call may exceed it
+     * by its own gas cost
      */
-    function getBalance() public view returns (uint256) {
-        return address(this).balance;
+    function _forwardCall(
+        ForwardRequest memory request
+    ) internal override returns (bool success, bytes memory returnData) {
+        address wallet = request.wallet;
+        address target = request.target;
+        uint256 value = request.value;
+        bytes memory data = request.data;
+
+        // Quotas are kept per registered wallet, so a signer with no registration (a fresh key
+        // for each call) is not sponsored
+        address account = _registeredWalletOf(wallet);
+        if (account == address(0)) {
+            emit WalletNotRegistered(wallet);
+            return (false, "");
+        }
+
+        bytes4 selector = bytes4(data);
+        if (!sponsoredTargets[target] && !sponsoredSelectors[target][selector]) {
+            emit TargetNotSponsored(wallet, target, selector);
+            return (false, "");
+        }
+
+        uint256 day = block.timestamp / 1 days;
+        if (dailyCallQuota != 0 && dailyCallCount[account][day] >= dailyCallQuota) {
+            emit DailyCallQuotaExceeded(account, day, dailyCallQuota);
+            return (false, "");
+        }
+
+        bool isElectionCall = electionContracts[target] && data.length >= 36;
+        uint256 electionId;
+        if (isElectionCall) {
+            // The election ID is the first parameter after the selector
+            assembly {
+                electionId := mload(add(data, 36))
+            }
+            uint256 cap = electionSpendingCap[target][electionId];
+            uint256 spent = electionSpent[target][electionId];
+            // A call may spend the rest of the budget, but none is sponsored once it is used up
+            if (cap != 0 && (spent >= cap || spent + value > cap)) {
+                emit ElectionSpendingCapReached(wallet, target, electionId, spent, cap);
+                return (false, "");
+            }
+        }
+
+        dailyCallCount[account][day]++;
+
+        uint256 gasBefore = gasleft();
+        (success, returnData) = super._forwardCall(request);
+
+        if (isElectionCall) {
+            electionSpent[target][electionId] += (success ? value : 0) + (gasBefore - gasleft()) * tx.gasprice;
+        }
     }
 
     /**
-     * @dev Allow the contract to receive ETH
+     * @dev Resolve the wallet a call is made for to the registered wallet it counts against
+     * @param wallet A registered wallet, or a temporary wallet signing its own request
+     * @return The registered wallet, or address(0) if the wallet is neither registered nor in a valid session
      */
-    receive() external payable {
-        emit FundsDeposited(msg.sender, msg.value);
+    function _registeredWalletOf(address wallet) private view returns (address) {
+        if (walletRegistry.isWalletRegistered(wallet)) {
+            return wallet;
+        }
+        (address originalWallet, ) = walletRegistry.temporaryWalletSessions(wallet);
+        if (originalWallet != address(0) && walletRegistry.hasValidAccess(originalWallet, wallet)) {
+            return originalWallet;
+        }
+        return address(0);
     }
 }
@@ -1,19 +1,29 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "./NICAccessControl.sol";
 
 /**
  * @title NICWalletRegistry
  * @dev A registry contract that maps NIC numbers to wallet addresses and manages temporary access
- * @notice This contract allows users to create wallets using their NIC number and manage temporary access
+ * @notice This contract allows users to create wallets using their NIC number and manage temporary access.
+ * NICs are identified by a salted hash computed off-chain (utils/nicHash.ts, the *ByHash functions).
+ * The plaintext-NIC functions hash keccak256(nicNumber, chainid) on-chain and are kept for existing
+ * registrations until they are migrated (migrateNicHashes) and the plaintext API is disabled.
+ * Wallets are registered by a registrar or an authorized system wallet, or by anyone holding an identity issuer's
+ * EIP-712 attestation binding the NIC hash to the wallet (registerWalletWithAttestation).
  */
-contract NICWalletRegistry is Ownable {
+contract NICWalletRegistry is NICAccessControl, EIP712 {
     using ECDSA for bytes32;
     using MessageHashUtils for bytes32;
 
+    bytes32 public constant REGISTRATION_ATTESTATION_TYPEHASH = keccak256(
+        "RegistrationAttestation(bytes32 nicHash,address walletAddress,bytes32 nonce,uint256 expiry)"
+    );
+
     // Struct to store wallet information
     struct WalletInfo {
         address walletAddress;
@@ -21,10 +31,43 @@ contract NICWalletRegistry is Ownable {
         bool isActive;
         mapping(address => bool) authorizedTemporaryWallets;
         mapping(address => uint256) temporaryWalletExpiry;
+        // Temporary wallets holding a session (until revoked), and their index + 1 in the list
+        address[] temporaryWallets;
+        mapping(address => uint256) temporaryWalletIndex;
+    }
+
+    // Pending move of a NIC to a new wallet
+    struct RecoveryRequest {
+        address oldWallet;
+        address newWallet;
+        // Time after which the recovery can be executed, unless the old wallet vetoes it
+        uint256 executableAfter;
+    }
+
+    // What a session may call through executeOnBehalf, trusted paymasters and session accounts
+    struct SessionPermissions {
+        // Contracts the session may call (empty: none, the session can only vote)
+        address[] allowedTargets;
+        // Function selectors the session may call on those contracts (empty: any function)
+        bytes4[] allowedSelectors;
+        // Maximum number of calls (0: unlimited)
+        uint256 maxCalls;
+    }
+
+    // Latest session granted to a temporary wallet
+    struct TemporaryWalletSession {
+        address originalWallet;
+        uint256 validUntil;
     }
 
     // Mapping from NIC hash to wallet info
     mapping(bytes32 => WalletInfo) private nicToWallet;
+
+    // Legacy (plaintext-API) NIC hashes whose registration moved to a salted hash
+    mapping(bytes32 => bool) public migratedLegacyNicHashes;
+
+    // Whether functions taking a plaintext NIC number are still accepted
+    bool public plaintextNicEnabled = true;
     
     // Mapping from wallet address to NIC hash (reverse lookup)
     mapping(address => bytes32) private walletToNic;
@@ -35,35 +78,146 @@ contract NICWalletRegistry is Ownable {
     // Session management
     mapping(address => mapping(address => uint256)) public sessionExpiry;
     mapping(address => uint256) public sessionNonce;
+    mapping(address => mapping(address => SessionPermissions)) private sessionPermissions;
+    mapping(address => mapping(address => uint256)) public sessionCallCount;
+
+    // Copy of each temporary wallet's latest session and its allowed targets, keyed by the temporary wallet:
+    // ZKsync paymasters may only read storage keyed by the transaction's sender while validating it
+    mapping(address => TemporaryWalletSession) public temporaryWalletSessions;
+    mapping(address => mapping(address => bool)) public temporaryWalletTargets;
     
     // System wallet authorization
     mapping(address => bool) public authorizedSystemWallets;
 
+    // Identity authorities whose attestations register wallets
+    mapping(address => bool) public identityIssuers;
+
+    // Attestation nonces already used, by issuer
+    mapping(address => mapping(bytes32 => bool)) public usedAttestationNonces;
+
+    // Paymasters trusted to relay calls for the wallets whose signatures they verified (ERC-2771)
+    mapping(address => bool) public trustedPaymasters;
+
+    // Pending wallet recoveries by NIC hash
+    mapping(bytes32 => RecoveryRequest) public recoveryRequests;
+
+    // Identity commitments for anonymous elections: keccak256(identitySecret), one per registered wallet
+    mapping(address => bytes32) public identityCommitmentOf;
+    mapping(bytes32 => address) private identityCommitmentOwner;
+    bytes32[] private identityCommitments;
+
     // Events
     event WalletRegistered(bytes32 indexed nicHash, address indexed walletAddress, uint256 timestamp);
     event TemporaryAccessGranted(bytes32 indexed nicHash, address indexed temporaryWallet, uint256 expiryTime);
     event TemporaryAccessRevoked(bytes32 indexed nicHash, address indexed temporaryWallet);
     event SessionCreated(address indexed originalWallet, address indexed temporaryWallet, uint256 expiryTime);
+    event SessionPermissionsSet(
+        address indexed originalWallet,
+        address indexed temporaryWallet,
+        address[] allowedTargets,
+        bytes4[] allowedSelectors,
+        uint256 maxCalls
+    );
     event TransactionExecuted(address indexed originalWallet, address indexed executor, address target, bytes data);
     event SystemWalletAuthorized(address indexed systemWallet, bool authorized);
+    event IdentityIssuerUpdated(address indexed issuer, bool authorized);
+    event TrustedPaymasterUpdated(address indexed paymaster, bool trusted);
+    event IdentityCommitmentRegistered(address indexed walletAddress, bytes32 identityCommitment, uint256 index);
+    event RecoveryProposed(
+        bytes32 indexed nicHash,
+        address indexed oldWallet,
+        address indexed newWallet,
+        uint256 executableAfter
+    );
+    event RecoveryVetoed(bytes32 indexed nicHash, address indexed oldWallet, address indexed newWallet);
+    event RecoveryCancelled(bytes32 indexed nicHash, address indexed cancelledBy);
+    event WalletRecovered(bytes32 indexed nicHash, address indexed oldWallet, address indexed newWallet);
+    event NicHashMigrated(bytes32 indexed legacyNicHash, bytes32 indexed nicHash, address indexed walletAddress);
+    event PlaintextNicDisabled();
 
     // Constants
     uint256 public constant DEFAULT_SESSION_DURATION = 24 hours;
     uint256 public constant MAX_SESSION_DURATION = 7 days;
+    uint256 public constant RECOVERY_CHALLENGE_PERIOD = 3 days;
 
-    constructor() Ownable(msg.sender) {}
+    constructor() EIP712("NICWalletRegistry", "1") {
+        _grantRole(REGISTRAR_ROLE, msg.sender);
+    }
 
     /**
-     * @dev Register a new wallet with NIC number
+     * @dev Register a new wallet with NIC number (REGISTRAR_ROLE or authorized system wallets only)
      * @param nicNumber The NIC number (will be hashed for privacy)
      * @param walletAddress The wallet address to associate with this NIC
+     * @notice Deprecated: the NIC stays in the transaction's calldata, use registerWalletByHash
      */
     function registerWallet(string memory nicNumber, address walletAddress) external {
+        _checkRegistrar();
+        _registerWallet(_legacyNicHash(nicNumber), walletAddress);
+    }
+
+    /**
+     * @dev Register a new wallet with a salted NIC hash (REGISTRAR_ROLE or authorized system wallets only)
+     * @param nicHash Salted NIC hash computed off-chain (hashNIC in utils/nicHash.ts)
+     * @param walletAddress The wallet address to associate with this NIC
+     */
+    function registerWalletByHash(bytes32 nicHash, address walletAddress) external {
+        _checkRegistrar();
+        require(nicHash != bytes32(0), "Invalid NIC hash");
+        _registerWallet(nicHash, walletAddress);
+    }
+
+    /**
+     * @dev Register a new wallet with an identity issuer's attestation
+     * @param nicHash Salted NIC hash computed off-chain (hashNIC in utils/nicHash.ts)
+     * @param walletAddress The wallet address to associate with this NIC
+     * @param nonce Single-use attestation nonce chosen by the issuer
+     * @param expiry Timestamp after which the attestation is no longer accepted
+     * @param signature The issuer's EIP-712 signature of the RegistrationAttestation
+     * @notice Anyone may submit the attestation: it binds the NIC hash to walletAddress, so a
+     * front-runner copying it can only register the attested wallet
+     */
+    function registerWalletWithAttestation(
+        bytes32 nicHash,
+        address walletAddress,
+        bytes32 nonce,
+        uint256 expiry,
+        bytes calldata signature
+    ) external {
+        require(nicHash != bytes32(0), "Invalid NIC hash");
+        require(block.timestamp <= expiry, "Attestation expired");
+
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(REGISTRATION_ATTESTATION_TYPEHASH, nicHash, walletAddress, nonce, expiry))
+        );
+        (address issuer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(digest, signature);
+        require(error == ECDSA.RecoverError.NoError && identityIssuers[issuer], "Invalid attestation");
+        require(!usedAttestationNonces[issuer][nonce], "Attestation already used");
+        usedAttestationNonces[issuer][nonce] = true;
+
+        _registerWallet(nicHash, walletAddress);
+    }
+
+    /**
+     * @dev Check that the caller may register wallets without an attestation
+     */
+    function _checkRegistrar() private view {
+        require(
+            hasRole(REGISTRAR_ROLE, msg.sender) || authorizedSystemWallets[msg.sender],
+            "Only registrar or authorized system wallet can register wallets"
+        );
+    }
+
+    /**
+     * @dev Store a new NIC hash => wallet registration
+     * @param nicHash NIC hash (legacy or salted)
+     * @param walletAddress The wallet address to associate with this NIC
+     */
+    function _registerWallet(bytes32 nicHash, address walletAddress) private {
+        _requireNotPaused();
         require(walletAddress != address(0), "Invalid wallet address");
         require(!registeredWallets[walletAddress], "Wallet already registered");
-        
-        bytes32 nicHash = keccak256(abi.encodePacked(nicNumber, block.chainid));
         require(nicToWallet[nicHash].walletAddress == address(0), "NIC already registered");
+        require(!migratedLegacyNicHashes[nicHash], "NIC already migrated");
 
         // Store wallet information
         WalletInfo storage walletInfo = nicToWallet[nicHash];
@@ -84,25 +238,141 @@ contract NICWalletRegistry is Ownable {
      * @return The associated wallet address
      */
     function getWalletByNIC(string memory nicNumber) external view returns (address) {
-        bytes32 nicHash = keccak256(abi.encodePacked(nicNumber, block.chainid));
+        return nicToWallet[_legacyNicHash(nicNumber)].walletAddress;
+    }
+
+    /**
+     * @dev Get wallet address by NIC hash
+     * @param nicHash Salted NIC hash (or the legacy hash of a registration that was not migrated)
+     * @return The associated wallet address
+     */
+    function getWalletByNICHash(bytes32 nicHash) external view returns (address) {
         return nicToWallet[nicHash].walletAddress;
     }
 
+    /**
+     * @dev Register the caller's identity commitment for anonymous elections
+     * @param identityCommitment keccak256(identitySecret); the secret stays with the voter
+     * @notice Anonymous election roots are built from these commitments, so the election
+     * contract never receives the voter's NIC or wallet (eligibility is proven in the circuit)
+     */
+    function registerIdentityCommitment(bytes32 identityCommitment) external {
+        bytes32 nicHash = walletToNic[msg.sender];
+        require(nicHash != bytes32(0), "Wallet not registered");
+        require(nicToWallet[nicHash].isActive, "Wallet is inactive");
+        require(identityCommitment != bytes32(0), "Invalid identity commitment");
+        require(identityCommitmentOf[msg.sender] == bytes32(0), "Identity commitment already registered");
+        require(identityCommitmentOwner[identityCommitment] == address(0), "Identity commitment already in use");
+
+        identityCommitmentOf[msg.sender] = identityCommitment;
+        identityCommitmentOwner[identityCommitment] = msg.sender;
+        identityCommitments.push(identityCommitment);
+
+        emit IdentityCommitmentRegistered(msg.sender, identityCommitment, identityCommitments.length - 1);
+    }
+
+    /**
+     * @dev Get the identity commitments of all active wallets (leaves of an anonymous election root)
+     * @return Identity commitments in registration order
+     */
+    function getActiveIdentityCommitments() external view returns (bytes32[] memory) {
+        uint256 count = 0;
+        for (uint256 i = 0; i < identityCommitments.length; i++) {
+            if (_isIdentityCommitmentActive(identityCommitments[i])) {
+                count++;
+            }
+        }
+
+        bytes32[] memory active = new bytes32[](count);
+        uint256 index = 0;
+        for (uint256 i = 0; i < identityCommitments.length; i++) {
+            if (_isIdentityCommitmentActive(identityCommitments[i])) {
+                active[index++] = identityCommitments[i];
+            }
+        }
+        return active;
+    }
+
+    /**
+     * @dev Check whether an identity commitment belongs to an active wallet
+     * @param identityCommitment The identity commitment
+     * @return True if the owning wallet is active
+     */
+    function _isIdentityCommitmentActive(bytes32 identityCommitment) private view returns (bool) {
+        address wallet = identityCommitmentOwner[identityCommitment];
+        return nicToWallet[walletToNic[wallet]].isActive;
+    }
+
     /**
      * @dev Create a temporary session for a registered wallet
      * @param nicNumber The NIC number of the original wallet
      * @param temporaryWallet The temporary wallet address that will have access
      * @param duration Session duration in seconds (max 7 days)
+     * @notice The session has no call permissions: it can vote, but cannot call any contract on behalf
+     * of the wallet. Use createScopedSessionByHash to allow calls
      */
     function createSession(
         string memory nicNumber, 
         address temporaryWallet, 
         uint256 duration
     ) external {
+        SessionPermissions memory noCalls;
+        _createSession(_legacyNicHash(nicNumber), temporaryWallet, duration, noCalls);
+    }
+
+    /**
+     * @dev Create a temporary session for a registered wallet, identified by its NIC hash
+     * @param nicHash NIC hash of the original wallet
+     * @param temporaryWallet The temporary wallet address that will have access
+     * @param duration Session duration in seconds (max 7 days)
+     * @notice The session has no call permissions: it can vote, but cannot call any contract on behalf
+     * of the wallet. Use createScopedSessionByHash to allow calls
+     */
+    function createSessionByHash(
+        bytes32 nicHash,
+        address temporaryWallet,
+        uint256 duration
+    ) external {
+        SessionPermissions memory noCalls;
+        _createSession(nicHash, temporaryWallet, duration, noCalls);
+    }
+
+    /**
+     * @dev Create a temporary session, identified by its NIC hash, that may make the given calls on
+     * behalf of the wallet
+     * @param nicHash NIC hash of the original wallet
+     * @param temporaryWallet The temporary wallet address that will have access
+     * @param duration Session duration in seconds (max 7 days)
+     * @param permissions Allowed targets, selectors and call count of the session
+     * @notice Wallets registered through the plaintext-NIC API pass their legacy NIC hash
+     * (keccak256(abi.encodePacked(nicNumber, chainId)))
+     */
+    function createScopedSessionByHash(
+        bytes32 nicHash,
+        address temporaryWallet,
+        uint256 duration,
+        SessionPermissions calldata permissions
+    ) external {
+        _createSession(nicHash, temporaryWallet, duration, permissions);
+    }
+
+    /**
+     * @dev Grant a temporary wallet access to a registered wallet
+     * @param nicHash NIC hash of the original wallet
+     * @param temporaryWallet The temporary wallet address that will have access
+     * @param duration Session duration in seconds (max 7 days)
+     * @param permissions What the session may call on behalf of the wallet
+     */
+    function _createSession(
+        bytes32 nicHash,
+        address temporaryWallet,
+        uint256 duration,
+        SessionPermissions memory permissions
+    ) private {
+        _requireNotPaused();
         require(temporaryWallet != address(0), "Invalid temporary wallet");
         require(duration <= MAX_SESSION_DURATION, "Duration too long");
         
-        bytes32 nicHash = keccak256(abi.encodePacked(nicNumber, block.chainid));
         address originalWallet = nicToWallet[nicHash].walletAddress;
         require(originalWallet != address(0), "NIC not registered");
         require(nicToWallet[nicHash].isActive, "Wallet is inactive");
@@ -116,15 +386,37 @@ contract NICWalletRegistry is Ownable {
         uint256 expiryTime = block.timestamp + (duration > 0 ? duration : DEFAULT_SESSION_DURATION);
         
         // Grant temporary access
-        nicToWallet[nicHash].authorizedTemporaryWallets[temporaryWallet] = true;
-        nicToWallet[nicHash].temporaryWalletExpiry[temporaryWallet] = expiryTime;
+        WalletInfo storage walletInfo = nicToWallet[nicHash];
+        walletInfo.authorizedTemporaryWallets[temporaryWallet] = true;
+        walletInfo.temporaryWalletExpiry[temporaryWallet] = expiryTime;
+        if (walletInfo.temporaryWalletIndex[temporaryWallet] == 0) {
+            walletInfo.temporaryWallets.push(temporaryWallet);
+            walletInfo.temporaryWalletIndex[temporaryWallet] = walletInfo.temporaryWallets.length;
+        }
         
         // Update session mapping
         sessionExpiry[originalWallet][temporaryWallet] = expiryTime;
         sessionNonce[temporaryWallet] = block.timestamp;
 
+        // A new session starts with its own permissions and call count
+        _clearTemporaryWalletSession(temporaryWallet);
+        sessionPermissions[originalWallet][temporaryWallet] = permissions;
+        sessionCallCount[originalWallet][temporaryWallet] = 0;
+
+        temporaryWalletSessions[temporaryWallet] = TemporaryWalletSession(originalWallet, expiryTime);
+        for (uint256 i = 0; i < permissions.allowedTargets.length; i++) {
+            temporaryWalletTargets[temporaryWallet][permissions.allowedTargets[i]] = true;
+        }
+
         emit TemporaryAccessGranted(nicHash, temporaryWallet, expiryTime);
         emit SessionCreated(originalWallet, temporaryWallet, expiryTime);
+        emit SessionPermissionsSet(
+            originalWallet,
+            temporaryWallet,
+            permissions.allowedTargets,
+            permissions.allowedSelectors,
+            permissions.maxCalls
+        );
     }
 
     /**
@@ -134,11 +426,58 @@ contract NICWalletRegistry is Ownable {
      * @return True if access is valid and not expired
      */
     function hasValidAccess(address originalWallet, address temporaryWallet) public view returns (bool) {
+        return getSessionValidUntil(originalWallet, temporaryWallet) > block.timestamp;
+    }
+
+    /**
+     * @dev Get the expiry of a temporary wallet's session, without comparing it to the current time
+     * @param originalWallet The original wallet address
+     * @param temporaryWallet The temporary wallet address
+     * @return Session expiry timestamp, or 0 if the temporary wallet has no session
+     * @notice ERC-4337 validation may not read block.timestamp; accounts and paymasters return this
+     * value as validUntil and let the EntryPoint enforce it
+     */
+    function getSessionValidUntil(address originalWallet, address temporaryWallet) public view returns (uint256) {
         bytes32 nicHash = walletToNic[originalWallet];
-        if (nicHash == bytes32(0)) return false;
-        
-        return nicToWallet[nicHash].authorizedTemporaryWallets[temporaryWallet] && 
-               nicToWallet[nicHash].temporaryWalletExpiry[temporaryWallet] > block.timestamp;
+        if (nicHash == bytes32(0) || !nicToWallet[nicHash].authorizedTemporaryWallets[temporaryWallet]) {
+            return 0;
+        }
+        return nicToWallet[nicHash].temporaryWalletExpiry[temporaryWallet];
+    }
+
+    /**
+     * @dev List the sessions a registered wallet has granted
+     * @param originalWallet The original wallet address
+     * @return temporaryWallets Temporary wallets holding a session that was not revoked
+     * @return expiryTimes Session expiry of each temporary wallet (expired sessions are listed too)
+     */
+    function getSessions(address originalWallet)
+        external
+        view
+        returns (address[] memory temporaryWallets, uint256[] memory expiryTimes)
+    {
+        WalletInfo storage walletInfo = nicToWallet[walletToNic[originalWallet]];
+        temporaryWallets = walletInfo.temporaryWallets;
+        expiryTimes = new uint256[](temporaryWallets.length);
+        for (uint256 i = 0; i < temporaryWallets.length; i++) {
+            expiryTimes[i] = walletInfo.temporaryWalletExpiry[temporaryWallets[i]];
+        }
+    }
+
+    /**
+     * @dev Get what a session may call on behalf of the wallet
+     * @param originalWallet The original wallet address
+     * @param temporaryWallet The temporary wallet address
+     * @return permissions Allowed targets, selectors and call count of the session
+     * @return callCount Calls the session has made so far
+     */
+    function getSessionPermissions(address originalWallet, address temporaryWallet)
+        external
+        view
+        returns (SessionPermissions memory permissions, uint256 callCount)
+    {
+        permissions = sessionPermissions[originalWallet][temporaryWallet];
+        callCount = sessionCallCount[originalWallet][temporaryWallet];
     }
 
     /**
@@ -146,41 +485,253 @@ contract NICWalletRegistry is Ownable {
      * @param originalWallet The original wallet that owns the assets
      * @param target The contract to call
      * @param data The transaction data
+     * @notice The call must be allowed by the session's permissions; a failing call reverts with
+     * its own revert reason
      */
     function executeOnBehalf(
         address originalWallet, 
         address target, 
         bytes calldata data
-    ) external returns (bool success, bytes memory returnData) {
+    ) external whenNotPaused returns (bool success, bytes memory returnData) {
         require(hasValidAccess(originalWallet, msg.sender), "No valid access");
         require(target != address(0), "Invalid target");
+        _useSessionPermissions(originalWallet, msg.sender, target, data);
 
         // Execute the transaction
         (success, returnData) = target.call(data);
+        if (!success) {
+            assembly {
+                revert(add(returnData, 32), mload(returnData))
+            }
+        }
         
         emit TransactionExecuted(originalWallet, msg.sender, target, data);
         
         return (success, returnData);
     }
 
+    /**
+     * @dev Check a call against a session's permissions
+     * @param originalWallet The original wallet address
+     * @param temporaryWallet The temporary wallet making the call
+     * @param target The contract to call
+     * @param data The call data
+     * @return True if the target and selector are allowed and the session has calls left
+     * @notice The session expiry is not checked (see hasValidAccess / getSessionValidUntil), so ERC-4337
+     * accounts can call this during validation
+     */
+    function isSessionCallAllowed(
+        address originalWallet,
+        address temporaryWallet,
+        address target,
+        bytes calldata data
+    ) external view returns (bool) {
+        return bytes(_sessionCallError(originalWallet, temporaryWallet, target, data)).length == 0;
+    }
+
+    /**
+     * @dev Count a call that a session makes outside executeOnBehalf (trusted paymasters and the original
+     * wallet only)
+     * @param originalWallet The original wallet address
+     * @param temporaryWallet The temporary wallet making the call
+     * @param target The contract to call
+     * @param data The call data
+     * @notice Reverts if the session was revoked or the call is not allowed by its permissions. The caller
+     * enforces the session expiry, as for isSessionCallAllowed
+     */
+    function useSessionCall(
+        address originalWallet,
+        address temporaryWallet,
+        address target,
+        bytes calldata data
+    ) external whenNotPaused {
+        require(
+            trustedPaymasters[msg.sender] || msg.sender == originalWallet,
+            "Only trusted paymaster or wallet owner can use session calls"
+        );
+        require(getSessionValidUntil(originalWallet, temporaryWallet) != 0, "No valid access");
+        _useSessionPermissions(originalWallet, temporaryWallet, target, data);
+    }
+
+    /**
+     * @dev Check a call against the session's permissions and count it
+     * @param originalWallet The original wallet address
+     * @param temporaryWallet The temporary wallet making the call
+     * @param target The contract to call
+     * @param data The call data
+     */
+    function _useSessionPermissions(
+        address originalWallet,
+        address temporaryWallet,
+        address target,
+        bytes calldata data
+    ) private {
+        string memory reason = _sessionCallError(originalWallet, temporaryWallet, target, data);
+        require(bytes(reason).length == 0, reason);
+        sessionCallCount[originalWallet][temporaryWallet] += 1;
+    }
+
+    /**
+     * @dev Find why a session may not make a call
+     * @return Revert reason, or an empty string if the call is allowed
+     */
+    function _sessionCallError(
+        address originalWallet,
+        address temporaryWallet,
+        address target,
+        bytes calldata data
+    ) private view returns (string memory) {
+        SessionPermissions storage permissions = sessionPermissions[originalWallet][temporaryWallet];
+
+        bool targetAllowed = false;
+        for (uint256 i = 0; i < permissions.allowedTargets.length; i++) {
+            if (permissions.allowedTargets[i] == target) {
+                targetAllowed = true;
+                break;
+            }
+        }
+        if (!targetAllowed) return "Target not allowed for session";
+
+        if (permissions.allowedSelectors.length > 0) {
+            bool selectorAllowed = false;
+            if (data.length >= 4) {
+                bytes4 selector = bytes4(data[:4]);
+                for (uint256 i = 0; i < permissions.allowedSelectors.length; i++) {
+                    if (permissions.allowedSelectors[i] == selector) {
+                        selectorAllowed = true;
+                        break;
+                    }
+                }
+            }
+            if (!selectorAllowed) return "Selector not allowed for session";
+        }
+
+        if (permissions.maxCalls != 0 && sessionCallCount[originalWallet][temporaryWallet] >= permissions.maxCalls) {
+            return "Session call limit reached";
+        }
+        return "";
+    }
+
     /**
      * @dev Revoke access for a temporary wallet
      * @param nicNumber The NIC number
      * @param temporaryWallet The temporary wallet to revoke access for
      */
     function revokeAccess(string memory nicNumber, address temporaryWallet) external {
-        bytes32 nicHash = keccak256(abi.encodePacked(nicNumber, block.chainid));
+        _revokeAccess(_legacyNicHash(nicNumber), temporaryWallet);
+    }
+
+    /**
+     * @dev Revoke access for a temporary wallet, identified by the NIC hash
+     * @param nicHash NIC hash of the original wallet
+     * @param temporaryWallet The temporary wallet to revoke access for
+     */
+    function revokeAccessByHash(bytes32 nicHash, address temporaryWallet) external {
+        _revokeAccess(nicHash, temporaryWallet);
+    }
+
+    /**
+     * @dev Revoke every session of the caller's registered wallet
+     */
+    function revokeAllSessions() external {
+        bytes32 nicHash = walletToNic[msg.sender];
+        require(nicHash != bytes32(0), "Wallet not registered");
+        _revokeAllSessions(nicHash, msg.sender);
+    }
+
+    /**
+     * @dev Revoke a temporary wallet's access, e.g. when the kiosk device holding it is lost
+     * (authorized system wallets only)
+     * @param originalWallet The original wallet address
+     * @param temporaryWallet The temporary wallet to revoke access for
+     */
+    function revokeSessionBySystemWallet(address originalWallet, address temporaryWallet) external {
+        require(authorizedSystemWallets[msg.sender], "Only authorized system wallet can revoke sessions");
+        bytes32 nicHash = walletToNic[originalWallet];
+        require(nicHash != bytes32(0), "Wallet not registered");
+        _removeSession(nicHash, originalWallet, temporaryWallet);
+    }
+
+    /**
+     * @dev Revoke every session of a registered wallet (authorized system wallets only)
+     * @param originalWallet The original wallet address
+     */
+    function revokeAllSessionsBySystemWallet(address originalWallet) external {
+        require(authorizedSystemWallets[msg.sender], "Only authorized system wallet can revoke sessions");
+        bytes32 nicHash = walletToNic[originalWallet];
+        require(nicHash != bytes32(0), "Wallet not registered");
+        _revokeAllSessions(nicHash, originalWallet);
+    }
+
+    /**
+     * @dev Remove a temporary wallet's access (caller must be the original wallet)
+     * @param nicHash NIC hash of the original wallet
+     * @param temporaryWallet The temporary wallet to revoke access for
+     */
+    function _revokeAccess(bytes32 nicHash, address temporaryWallet) private {
         address originalWallet = nicToWallet[nicHash].walletAddress;
         require(originalWallet != address(0), "NIC not registered");
         require(msg.sender == originalWallet, "Only wallet owner can revoke access");
 
-        nicToWallet[nicHash].authorizedTemporaryWallets[temporaryWallet] = false;
-        nicToWallet[nicHash].temporaryWalletExpiry[temporaryWallet] = 0;
+        _removeSession(nicHash, originalWallet, temporaryWallet);
+    }
+
+    /**
+     * @dev Remove every session of a registered wallet
+     * @param nicHash NIC hash of the original wallet
+     * @param originalWallet The original wallet address
+     */
+    function _revokeAllSessions(bytes32 nicHash, address originalWallet) private {
+        address[] storage temporaryWallets = nicToWallet[nicHash].temporaryWallets;
+        // _removeSession pops the last entry
+        while (temporaryWallets.length > 0) {
+            _removeSession(nicHash, originalWallet, temporaryWallets[temporaryWallets.length - 1]);
+        }
+    }
+
+    /**
+     * @dev Remove a temporary wallet's access and drop it from the wallet's session list
+     * @param nicHash NIC hash of the original wallet
+     * @param originalWallet The original wallet address
+     * @param temporaryWallet The temporary wallet to revoke access for
+     */
+    function _removeSession(bytes32 nicHash, address originalWallet, address temporaryWallet) private {
+        WalletInfo storage walletInfo = nicToWallet[nicHash];
+        walletInfo.authorizedTemporaryWallets[temporaryWallet] = false;
+        walletInfo.temporaryWalletExpiry[temporaryWallet] = 0;
         sessionExpiry[originalWallet][temporaryWallet] = 0;
+        if (temporaryWalletSessions[temporaryWallet].originalWallet == originalWallet) {
+            _clearTemporaryWalletSession(temporaryWallet);
+        }
+
+        uint256 index = walletInfo.temporaryWalletIndex[temporaryWallet];
+        if (index != 0) {
+            // Move the last temporary wallet into the removed one's slot
+            address last = walletInfo.temporaryWallets[walletInfo.temporaryWallets.length - 1];
+            walletInfo.temporaryWallets[index - 1] = last;
+            walletInfo.temporaryWalletIndex[last] = index;
+            walletInfo.temporaryWallets.pop();
+            walletInfo.temporaryWalletIndex[temporaryWallet] = 0;
+        }
 
         emit TemporaryAccessRevoked(nicHash, temporaryWallet);
     }
 
+    /**
+     * @dev Delete the sender-keyed copy of a temporary wallet's latest session
+     * @param temporaryWallet The temporary wallet address
+     */
+    function _clearTemporaryWalletSession(address temporaryWallet) private {
+        address originalWallet = temporaryWalletSessions[temporaryWallet].originalWallet;
+        if (originalWallet == address(0)) return;
+
+        address[] storage allowedTargets = sessionPermissions[originalWallet][temporaryWallet].allowedTargets;
+        for (uint256 i = 0; i < allowedTargets.length; i++) {
+            delete temporaryWalletTargets[temporaryWallet][allowedTargets[i]];
+        }
+        delete temporaryWalletSessions[temporaryWallet];
+    }
+
     /**
      * @dev Get session information
      * @param originalWallet The original wallet address
@@ -207,16 +758,39 @@ contract NICWalletRegistry is Ownable {
     }
 
     /**
-     * @dev Authorize a system wallet to create sessions (only owner can call)
+     * @dev Authorize a system wallet to create sessions (REGISTRAR_ROLE only)
      * @param systemWallet The system wallet address to authorize
      * @param authorized Whether to authorize or revoke authorization
      */
-    function authorizeSystemWallet(address systemWallet, bool authorized) external onlyOwner {
+    function authorizeSystemWallet(address systemWallet, bool authorized) external onlyRole(REGISTRAR_ROLE) {
         require(systemWallet != address(0), "Invalid system wallet address");
         authorizedSystemWallets[systemWallet] = authorized;
         emit SystemWalletAuthorized(systemWallet, authorized);
     }
 
+    /**
+     * @dev Authorize (or revoke) an identity issuer whose attestations register wallets (REGISTRAR_ROLE only)
+     * @param issuer The issuer's signing address
+     * @param authorized Whether the issuer's attestations are accepted
+     */
+    function setIdentityIssuer(address issuer, bool authorized) external onlyRole(REGISTRAR_ROLE) {
+        require(issuer != address(0), "Invalid issuer address");
+        identityIssuers[issuer] = authorized;
+        emit IdentityIssuerUpdated(issuer, authorized);
+    }
+
+    /**
+     * @dev Trust (or stop trusting) a paymaster to relay calls (DEFAULT_ADMIN_ROLE only)
+     * @param paymaster The paymaster address, e.g. NICPaymaster
+     * @param trusted Whether contracts relying on this registry accept the paymaster as an ERC-2771 forwarder
+     * @notice Only trust paymasters that verify the signer's signature before appending it to the call
+     */
+    function setTrustedPaymaster(address paymaster, bool trusted) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(paymaster != address(0), "Invalid paymaster address");
+        trustedPaymasters[paymaster] = trusted;
+        emit TrustedPaymasterUpdated(paymaster, trusted);
+    }
+
     /**
      * @dev Get NIC hash for a registered wallet (for authorized users only)
      * @param walletAddress The wallet address
@@ -228,24 +802,177 @@ contract NICWalletRegistry is Ownable {
     }
 
     /**
-     * @dev Emergency function to deactivate a wallet (owner only)
+     * @dev Emergency function to deactivate a wallet (REGISTRAR_ROLE only)
      * @param nicNumber The NIC number
      */
-    function deactivateWallet(string memory nicNumber) external onlyOwner {
-        bytes32 nicHash = keccak256(abi.encodePacked(nicNumber, block.chainid));
-        require(nicToWallet[nicHash].walletAddress != address(0), "NIC not registered");
-        
-        nicToWallet[nicHash].isActive = false;
+    function deactivateWallet(string memory nicNumber) external onlyRole(REGISTRAR_ROLE) {
+        _setWalletActive(_legacyNicHash(nicNumber), false);
+    }
+
+    /**
+     * @dev Emergency function to deactivate a wallet by NIC hash (REGISTRAR_ROLE only)
+     * @param nicHash The NIC hash
+     */
+    function deactivateWalletByHash(bytes32 nicHash) external onlyRole(REGISTRAR_ROLE) {
+        _setWalletActive(nicHash, false);
     }
 
     /**
-     * @dev Emergency function to reactivate a wallet (owner only)
+     * @dev Emergency function to reactivate a wallet (REGISTRAR_ROLE only)
      * @param nicNumber The NIC number
      */
-    function reactivateWallet(string memory nicNumber) external onlyOwner {
-        bytes32 nicHash = keccak256(abi.encodePacked(nicNumber, block.chainid));
+    function reactivateWallet(string memory nicNumber) external onlyRole(REGISTRAR_ROLE) {
+        _setWalletActive(_legacyNicHash(nicNumber), true);
+    }
+
+    /**
+     * @dev Emergency function to reactivate a wallet by NIC hash (REGISTRAR_ROLE only)
+     * @param nicHash The NIC hash
+     */
+    function reactivateWalletByHash(bytes32 nicHash) external onlyRole(REGISTRAR_ROLE) {
+        _setWalletActive(nicHash, true);
+    }
+
+    /**
+     * @dev Set whether a registered wallet is active
+     * @param nicHash The NIC hash
+     * @param active New status
+     */
+    function _setWalletActive(bytes32 nicHash, bool active) private {
         require(nicToWallet[nicHash].walletAddress != address(0), "NIC not registered");
         
-        nicToWallet[nicHash].isActive = true;
+        nicToWallet[nicHash].isActive = active;
+    }
+
+    /**
+     * @dev Propose moving a NIC to a new wallet, e.g. after its key was lost (authorized system wallets only)
+     * @param nicHash NIC hash of the registration
+     * @param newWallet The wallet address to bind the NIC to
+     * @notice The old wallet can veto the recovery during RECOVERY_CHALLENGE_PERIOD; executeRecovery
+     * completes it afterwards
+     */
+    function proposeRecovery(bytes32 nicHash, address newWallet) external whenNotPaused {
+        require(authorizedSystemWallets[msg.sender], "Only authorized system wallet can propose recovery");
+        address oldWallet = nicToWallet[nicHash].walletAddress;
+        require(oldWallet != address(0), "NIC not registered");
+        require(newWallet != address(0), "Invalid wallet address");
+        require(!registeredWallets[newWallet], "Wallet already registered");
+        require(recoveryRequests[nicHash].newWallet == address(0), "Recovery already pending");
+
+        uint256 executableAfter = block.timestamp + RECOVERY_CHALLENGE_PERIOD;
+        recoveryRequests[nicHash] = RecoveryRequest(oldWallet, newWallet, executableAfter);
+
+        emit RecoveryProposed(nicHash, oldWallet, newWallet, executableAfter);
+    }
+
+    /**
+     * @dev Veto a pending recovery of the caller's NIC
+     * @param nicHash NIC hash of the registration
+     */
+    function vetoRecovery(bytes32 nicHash) external {
+        RecoveryRequest memory request = recoveryRequests[nicHash];
+        require(request.newWallet != address(0), "No pending recovery");
+        require(msg.sender == request.oldWallet, "Only wallet owner can veto recovery");
+
+        delete recoveryRequests[nicHash];
+
+        emit RecoveryVetoed(nicHash, request.oldWallet, request.newWallet);
+    }
+
+    /**
+     * @dev Cancel a pending recovery proposed by mistake (authorized system wallets only)
+     * @param nicHash NIC hash of the registration
+     */
+    function cancelRecovery(bytes32 nicHash) external {
+        require(authorizedSystemWallets[msg.sender], "Only authorized system wallet can cancel recovery");
+        require(recoveryRequests[nicHash].newWallet != address(0), "No pending recovery");
+
+        delete recoveryRequests[nicHash];
+
+        emit RecoveryCancelled(nicHash, msg.sender);
+    }
+
+    /**
+     * @dev Bind a NIC to the new wallet of its recovery once the challenge period has passed
+     * @param nicHash NIC hash of the registration
+     * @notice Every session of the old wallet is revoked. The old wallet's identity commitment stays
+     * with the old wallet and no longer counts as active; the new wallet registers its own.
+     */
+    function executeRecovery(bytes32 nicHash) external whenNotPaused {
+        RecoveryRequest memory request = recoveryRequests[nicHash];
+        require(request.newWallet != address(0), "No pending recovery");
+        require(block.timestamp > request.executableAfter, "Challenge period not over");
+        // The registration may have changed (migrateNicHashes) or the new wallet registered meanwhile
+        require(nicToWallet[nicHash].walletAddress == request.oldWallet, "NIC wallet changed");
+        require(!registeredWallets[request.newWallet], "Wallet already registered");
+
+        delete recoveryRequests[nicHash];
+        _revokeAllSessions(nicHash, request.oldWallet);
+
+        nicToWallet[nicHash].walletAddress = request.newWallet;
+        walletToNic[request.oldWallet] = bytes32(0);
+        registeredWallets[request.oldWallet] = false;
+        walletToNic[request.newWallet] = nicHash;
+        registeredWallets[request.newWallet] = true;
+
+        emit WalletRecovered(nicHash, request.oldWallet, request.newWallet);
+    }
+
+    /**
+     * @dev Move registrations from their legacy NIC hash to a salted NIC hash (REGISTRAR_ROLE only)
+     * @param legacyNicHashes keccak256(abi.encodePacked(nicNumber, chainid)) of each registration
+     * @param nicHashes Salted NIC hashes (hashNIC in utils/nicHash.ts), in the same order
+     * @notice Both hashes are computed off-chain from the registrar's records, so no NIC is sent.
+     * Active sessions of migrated wallets end; the wallet keeps its identity commitment.
+     */
+    function migrateNicHashes(bytes32[] calldata legacyNicHashes, bytes32[] calldata nicHashes) external onlyRole(REGISTRAR_ROLE) {
+        require(legacyNicHashes.length == nicHashes.length, "Length mismatch");
+
+        for (uint256 i = 0; i < legacyNicHashes.length; i++) {
+            bytes32 legacyNicHash = legacyNicHashes[i];
+            bytes32 nicHash = nicHashes[i];
+            require(nicHash != bytes32(0), "Invalid NIC hash");
+
+            WalletInfo storage legacyInfo = nicToWallet[legacyNicHash];
+            address walletAddress = legacyInfo.walletAddress;
+            require(walletAddress != address(0), "NIC not registered");
+            require(nicToWallet[nicHash].walletAddress == address(0), "NIC already registered");
+
+            // Session mappings cannot be copied: the sessions end and only the registration itself moves
+            _revokeAllSessions(legacyNicHash, walletAddress);
+            WalletInfo storage walletInfo = nicToWallet[nicHash];
+            walletInfo.walletAddress = walletAddress;
+            walletInfo.createdAt = legacyInfo.createdAt;
+            walletInfo.isActive = legacyInfo.isActive;
+
+            legacyInfo.walletAddress = address(0);
+            legacyInfo.createdAt = 0;
+            legacyInfo.isActive = false;
+
+            walletToNic[walletAddress] = nicHash;
+            migratedLegacyNicHashes[legacyNicHash] = true;
+
+            emit NicHashMigrated(legacyNicHash, nicHash, walletAddress);
+        }
+    }
+
+    /**
+     * @dev Stop accepting plaintext NIC numbers (REGISTRAR_ROLE only, cannot be undone)
+     * @notice Call once existing registrations are migrated; the *ByHash functions keep working
+     */
+    function disablePlaintextNic() external onlyRole(REGISTRAR_ROLE) {
+        require(plaintextNicEnabled, "Plaintext NIC API already disabled");
+        plaintextNicEnabled = false;
+        emit PlaintextNicDisabled();
+    }
+
+    /**
+     * @dev Hash a plaintext NIC number the way the original API does
+     * @param nicNumber The NIC number
+     * @return keccak256(abi.encodePacked(nicNumber, block.chainid))
+     */
+    function _legacyNicHash(string memory nicNumber) private view returns (bytes32) {
+        require(plaintextNicEnabled, "Plaintext NIC API disabled");
+        return keccak256(abi.encodePacked(nicNumber, block.chainid));
     }
 }
@@ -0,0 +1,136 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "./NICAccessControl.sol";
+
+/**
+ * @title PaymasterForwarder
+ * @dev Shared core of the relayer paymasters (NICPaymaster, PolygonPaymaster)
+ * @notice Every signed request is forwarded in the same steps: validity window, nonce, signature,
+ * then the call, paid from the gas funds held here. Paymasters plug in their signature scheme
+ * (_checkSignature), nonce policy (_useNonce) and fee accounting (_forwardCall), and keep their
+ * execute* functions as thin wrappers around _forward.
+ * Calls are forwarded as ERC-2771 calls: the authenticated wallet is appended to the call data,
+ * so targets trusting this paymaster (ERC2771Context) read it with _msgSender().
+ * Nothing is forwarded while the paymaster is paused.
+ */
+abstract contract PaymasterForwarder is NICAccessControl {
+    // Signed request, as passed to the plug-in hooks
+    struct ForwardRequest {
+        // Address whose signature authorizes the request
+        address signer;
+        // Wallet the call is made for (the signer itself, unless isSession)
+        address wallet;
+        // Whether the signer is a temporary (session) wallet of `wallet`
+        bool isSession;
+        address target;
+        uint256 value;
+        bytes data;
+        uint256 validAfter;
+        uint256 validUntil;
+    }
+
+    event FundsDeposited(address indexed depositor, uint256 amount);
+    event FundsWithdrawn(address indexed owner, uint256 amount);
+
+    constructor() {
+        _grantRole(TREASURER_ROLE, msg.sender);
+    }
+
+    /**
+     * @dev Verify a signed request and make its call
+     * @param request The request
+     * @param signature The signer's signature of the request, in the paymaster's scheme
+     * @return nonce The nonce the request used
+     * @return success Whether the call succeeded
+     * @return returnData The call's return data
+     * @notice Reverts if the request is outside its window or the signature is invalid; a failing
+     * call does not revert, so the nonce stays used
+     */
+    function _forward(
+        ForwardRequest memory request,
+        bytes memory signature
+    ) internal returns (uint256 nonce, bool success, bytes memory returnData) {
+        _requireNotPaused();
+        _checkValidityWindow(request.validAfter, request.validUntil);
+
+        // Use the nonce first: the signature covers it, and a revert below gives it back
+        nonce = _useNonce(request);
+        _checkSignature(request, nonce, signature);
+
+        (success, returnData) = _forwardCall(request);
+    }
+
+    /**
+     * @dev Nonce policy: return the request's nonce and advance it
+     */
+    function _useNonce(ForwardRequest memory request) internal virtual returns (uint256);
+
+    /**
+     * @dev Signature scheme: revert unless `signature` signs the request with `nonce`
+     */
+    function _checkSignature(
+        ForwardRequest memory request,
+        uint256 nonce,
+        bytes memory signature
+    ) internal view virtual;
+
+    /**
+     * @dev Fee accounting: make the request's call, paying its value from this contract
+     * @notice Override to restrict or meter sponsored calls, and call super to make the call.
+     * The wallet is appended per ERC-2771; plain value transfers (empty data) are sent as they are.
+     */
+    function _forwardCall(
+        ForwardRequest memory request
+    ) internal virtual returns (bool success, bytes memory returnData) {
+        if (request.data.length == 0) {
+            return request.target.call{value: request.value}("");
+        }
+        return request.target.call{value: request.value}(abi.encodePacked(request.data, request.wallet));
+    }
+
+    /**
+     * @dev Check that a signed request is used inside its validity window
+     * @param validAfter Timestamp before which the request is not accepted (0 for none)
+     * @param validUntil Timestamp after which the request is no longer accepted
+     */
+    function _checkValidityWindow(uint256 validAfter, uint256 validUntil) internal view {
+        require(block.timestamp >= validAfter, "Signature not yet valid");
+        require(block.timestamp <= validUntil, "Signature expired");
+    }
+
+    /**
+     * @dev Deposit funds to the paymaster for covering gas fees
+     */
+    function deposit() public payable {
+        require(msg.value > 0, "Must deposit some ETH");
+        emit FundsDeposited(msg.sender, msg.value);
+    }
+
+    /**
+     * @dev Withdraw funds from the paymaster (TREASURER_ROLE only)
+     */
+    function withdraw(address payable to, uint256 amount) public onlyRole(TREASURER_ROLE) {
+        require(to != address(0), "Invalid recipient");
+        require(amount <= address(this).balance, "Insufficient balance");
+
+        (bool success, ) = to.call{value: amount}("");
+        require(success, "Transfer failed");
+
+        emit FundsWithdrawn(to, amount);
+    }
+
+    /**
+     * @dev Get the balance of this paymaster contract
+     */
+    function getBalance() public view returns (uint256) {
+        return address(this).balance;
+    }
+
+    /**
+     * @dev Allow the contract to receive ETH
+     */
+    receive() external payable {
+        emit FundsDeposited(msg.sender, msg.value);
+    }
+}
@@ -1,16 +1,17 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "./PaymasterForwarder.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
 
 /**
  * @title PolygonPaymaster
  * @dev A meta-transaction paymaster for Polygon that enables gasless transactions
- * @notice This contract allows users to execute transactions without paying gas fees
+ * @notice This contract allows users to execute transactions without paying gas fees.
+ * Requests are signed as personal_sign messages of the packed request, see utils/paymasterSigner.ts.
  */
-contract PolygonPaymaster is Ownable {
+contract PolygonPaymaster is PaymasterForwarder {
     using ECDSA for bytes32;
     using MessageHashUtils for bytes32;
 
@@ -26,17 +27,14 @@ contract PolygonPaymaster is Ownable {
         bytes returnData
     );
 
-    event FundsDeposited(address indexed depositor, uint256 amount);
-    event FundsWithdrawn(address indexed owner, uint256 amount);
-
-    constructor() Ownable(msg.sender) {}
-
     /**
      * @dev Execute a meta-transaction on behalf of a user
      * @param user The address of the user who signed the transaction
      * @param target The contract address to call
      * @param value The ETH value to send with the transaction
      * @param data The function call data
+     * @param validAfter Timestamp before which the signature is not accepted (0 for none)
+     * @param validUntil Timestamp after which the signature is no longer accepted
      * @param signature The user's signature authorizing this transaction
      */
     function executeMetaTransaction(
@@ -44,44 +42,24 @@ contract PolygonPaymaster is Ownable {
         address target,
         uint256 value,
         bytes memory data,
+        uint256 validAfter,
+        uint256 validUntil,
         bytes memory signature
     ) public returns (bool success, bytes memory returnData) {
-        // Get the current nonce for this user
-        uint256 currentNonce = nonces[user];
-
-        // Create the message hash
-        bytes32 messageHash = keccak256(
-            abi.encodePacked(
-                user,
-                target,
-                value,
-                data,
-                currentNonce,
-                address(this)
-            )
+        uint256 nonce;
+        (nonce, success, returnData) = _forward(
+            ForwardRequest(user, user, false, target, value, data, validAfter, validUntil),
+            signature
         );
 
-        // Convert to Ethereum signed message hash
-        bytes32 ethSignedMessageHash = messageHash.toEthSignedMessageHash();
-
-        // Verify the signature
-        address recoveredSigner = ethSignedMessageHash.recover(signature);
-        require(recoveredSigner == user, "Invalid signature");
-
-        // Increment nonce to prevent replay attacks
-        nonces[user]++;
-
-        // Execute the transaction
-        (success, returnData) = target.call{value: value}(data);
-
-        emit MetaTransactionExecuted(user, target, currentNonce, success, returnData);
-
-        return (success, returnData);
+        emit MetaTransactionExecuted(user, target, nonce, success, returnData);
     }
 
     /**
      * @dev Execute a meta-transaction that includes the original user address in the call
      * This is useful for contracts that need to know the original user (not the relayer)
+     * @param validAfter Timestamp before which the signature is not accepted (0 for none)
+     * @param validUntil Timestamp after which the signature is no longer accepted
      */
     function executeMetaTransactionWithUser(
         address user,
@@ -89,42 +67,14 @@ contract PolygonPaymaster is Ownable {
         uint256 value,
         bytes4 functionSelector,
         bytes memory additionalData,
+        uint256 validAfter,
+        uint256 validUntil,
         bytes memory signature
     ) public returns (bool success, bytes memory returnData) {
-        // Get the current nonce for this user
-        uint256 currentNonce = nonces[user];
-
         // Create the complete function call data with user address as first parameter
         bytes memory data = abi.encodePacked(functionSelector, abi.encode(user), additionalData);
 
-        // Create the message hash
-        bytes32 messageHash = keccak256(
-            abi.encodePacked(
-                user,
-                target,
-                value,
-                data,
-                currentNonce,
-                address(this)
-            )
-        );
-
-        // Convert to Ethereum signed message hash
-        bytes32 ethSignedMessageHash = messageHash.toEthSignedMessageHash();
-
-        // Verify the signature
-        address recoveredSigner = ethSignedMessageHash.recover(signature);
-        require(recoveredSigner == user, "Invalid signature");
-
-        // Increment nonce to prevent replay attacks
-        nonces[user]++;
-
-        // Execute the transaction
-        (success, returnData) = target.call{value: value}(data);
-
-        emit MetaTransactionExecuted(user, target, currentNonce, success, returnData);
-
-        return (success, returnData);
+        return executeMetaTransaction(user, target, value, data, validAfter, validUntil, signature);
     }
 
     /**
@@ -135,51 +85,53 @@ contract PolygonPaymaster is Ownable {
     }
 
     /**
-     * @dev Deposit funds to the paymaster for covering gas fees
+     * @dev Nonce policy: one sequential nonce per user
      */
-    function deposit() public payable {
-        require(msg.value > 0, "Must deposit some ETH");
-        emit FundsDeposited(msg.sender, msg.value);
+    function _useNonce(ForwardRequest memory request) internal override returns (uint256) {
+        return nonces[request.signer]++;
     }
 
     /**
-     * @dev Withdraw funds from the paymaster (owner only)
+     * @dev Signature scheme: personal_sign of the packed request, bound to this paymaster
      */
-    function withdraw(address payable to, uint256 amount) public onlyOwner {
-        require(address(this).balance >= amount, "Insufficient balance");
-        require(to != address(0), "Invalid recipient");
-
-        (bool success, ) = to.call{value: amount}("");
-        require(success, "Transfer failed");
+    function _checkSignature(
+        ForwardRequest memory request,
+        uint256 nonce,
+        bytes memory signature
+    ) internal view override {
+        // Create the message hash
+        bytes32 messageHash = keccak256(
+            abi.encodePacked(
+                request.signer,
+                request.target,
+                request.value,
+                request.data,
+                nonce,
+                request.validAfter,
+                request.validUntil,
+                address(this)
+            )
+        );
 
-        emit FundsWithdrawn(to, amount);
-    }
+        // Convert to Ethereum signed message hash
+        bytes32 ethSignedMessageHash = messageHash.toEthSignedMessageHash();
 
-    /**
-     * @dev Get the contract's ETH balance
-     */
-    function getBalance() public view returns (uint256) {
-        return address(this).balance;
+        // Verify the signature
+        address recoveredSigner = ethSignedMessageHash.recover(signature);
+        require(recoveredSigner == request.signer, "Invalid signature");
     }
 
     /**
-     * @dev Emergency function to withdraw all funds (owner only)
+     * @dev Emergency function to withdraw all funds to the caller (TREASURER_ROLE only)
      */
-    function emergencyWithdraw() public onlyOwner {
+    function emergencyWithdraw() public onlyRole(TREASURER_ROLE) {
         uint256 balance = address(this).balance;
         require(balance > 0, "No funds to withdraw");
 
-        (bool success, ) = payable(owner()).call{value: balance}("");
+        (bool success, ) = payable(msg.sender).call{value: balance}("");
         require(success, "Emergency withdrawal failed");
 
-        emit FundsWithdrawn(owner(), balance);
-    }
-
-    /**
-     * @dev Allow the contract to receive ETH
-     */
-    receive() external payable {
-        emit FundsDeposited(msg.sender, msg.value);
+        emit FundsWithdrawn(msg.sender, balance);
     }
 
     /**
@@ -7,88 +7,63 @@ pragma solidity ^0.8.0;
  * @notice This verifier performs cryptographic checks on proof inputs
  * 
  * IMPORTANT: This is an intermediate verifier that validates cryptographic properties.
- * For full ZK verification, you need to:
- * 1. Compile the Noir circuit (circuits/voting-circuit/src/main.nr)
- * 2. Generate the verifier contract using: nargo codegen-verifier
- * 3. Replace this contract with the generated verifier
+ * It accepts any well-formed proof and must only be used for local testing.
+ * Elections should use UltraVerifier, generated from the voting circuit with
+ * npm run generate:verifier and deployed by deploy-real-verifier.ts.
  */
 contract RealZKVerifier {
+    // Size of an UltraPlonk proof without its public inputs
+    uint256 public constant PROOF_LENGTH = 2144;
+
     /**
      * @dev Verify a ZK proof with cryptographic validation
-     * @param a G1 point (2 uint256 values)
-     * @param b G2 point (2x2 uint256 matrix)
-     * @param c G1 point (2 uint256 values)
-     * @param input Public inputs: [commitment, nullifierHash, candidateIndex, electionId]
+     * @param _proof UltraPlonk proof (without its public inputs)
+     * @param _publicInputs Public inputs: [merkleRoot, commitment, nullifierHash, electionId]
      * @return bool True if proof is cryptographically valid
      */
-    function verifyProof(
-        uint[2] memory a,
-        uint[2][2] memory b,
-        uint[2] memory c,
-        uint[4] memory input
+    function verify(
+        bytes calldata _proof,
+        bytes32[] calldata _publicInputs
     ) external pure returns (bool) {
+        require(_publicInputs.length == 4, "Invalid public inputs length");
+
         // Extract public inputs
-        uint256 commitment = input[0];
-        uint256 nullifierHash = input[1];
-        uint256 candidateIndex = input[2];
-        uint256 electionId = input[3];
+        uint256 merkleRoot = uint256(_publicInputs[0]);
+        uint256 commitment = uint256(_publicInputs[1]);
+        uint256 nullifierHash = uint256(_publicInputs[2]);
         
         // Basic cryptographic validations
         
         // 1. Check that inputs are non-zero (basic sanity check)
         require(commitment != 0, "Invalid commitment");
         require(nullifierHash != 0, "Invalid nullifier");
-        require(electionId != 0 || electionId == 0, "Invalid election ID"); // Allow 0 for first election
+        require(merkleRoot != 0, "Invalid Merkle root");
         
-        // 2. Verify proof structure is non-zero (basic check)
-        require(a[0] != 0 || a[1] != 0, "Invalid proof point a");
-        require(b[0][0] != 0 || b[0][1] != 0 || b[1][0] != 0 || b[1][1] != 0, "Invalid proof point b");
-        require(c[0] != 0 || c[1] != 0, "Invalid proof point c");
+        // 2. Verify the proof has the size of an UltraPlonk proof and is not all zeros
+        require(_proof.length == PROOF_LENGTH, "Invalid proof length");
+        require(keccak256(_proof) != keccak256(new bytes(PROOF_LENGTH)), "Invalid proof");
         
         // 3. Verify commitment and nullifier are different (they should be)
         require(commitment != nullifierHash, "Commitment equals nullifier");
         
-        // 4. Verify candidate index is reasonable (less than 1000 candidates)
-        require(candidateIndex < 1000, "Candidate index too large");
-        
-        // 5. Verify proof points are within valid range (basic elliptic curve check)
-        // For BN254 curve, values should be less than the field modulus
+        // 4. Verify public inputs are field elements
         uint256 FIELD_MODULUS = 21888242871839275222246405745257275088548364400416034343698204186575808495617;
         
-        require(a[0] < FIELD_MODULUS && a[1] < FIELD_MODULUS, "Invalid proof point a range");
-        require(b[0][0] < FIELD_MODULUS && b[0][1] < FIELD_MODULUS, "Invalid proof point b[0] range");
-        require(b[1][0] < FIELD_MODULUS && b[1][1] < FIELD_MODULUS, "Invalid proof point b[1] range");
-        require(c[0] < FIELD_MODULUS && c[1] < FIELD_MODULUS, "Invalid proof point c range");
+        for (uint256 i = 0; i < _publicInputs.length; i++) {
+            require(uint256(_publicInputs[i]) < FIELD_MODULUS, "Public input out of range");
+        }
         
-        // 6. Note: commitment and nullifierHash are hash values (256-bit)
-        // They can be any 256-bit value, so we don't check < FIELD_MODULUS
-        // We only verify they are non-zero and not max (done above)
-        
-        // NOTE: This is an intermediate verifier that checks cryptographic properties
-        // but does NOT perform full ZK proof verification (pairing checks).
+        // NOTE: This is an intermediate verifier that checks the shape of the proof
+        // but does NOT verify it.
         // 
         // For production, you MUST:
         // 1. Compile the Noir circuit: nargo compile
-        // 2. Generate verifier: nargo codegen-verifier
-        // 3. Use the generated verifier contract which includes pairing checks
-        
-        // Additional validation: Verify commitment and nullifier follow expected patterns
-        // Commitment should be different from nullifier (they use different inputs)
-        // This is a basic sanity check - full verification requires pairing checks
-        
-        // Verify that commitment and nullifier are properly formatted hashes
-        // (They should be 32-byte values, not all zeros or all ones)
-        require(
-            commitment != type(uint256).max && 
-            commitment != 0 &&
-            nullifierHash != type(uint256).max &&
-            nullifierHash != 0,
-            "Invalid hash values"
-        );
+        // 2. Generate verifier: npm run generate:verifier (bb write_vk + bb contract)
+        // 3. Use the generated UltraVerifier contract, which checks the proof
         
         // If all checks pass, return true
-        // NOTE: This still does NOT verify the actual ZK proof structure
-        // For production, replace with generated verifier that performs pairing checks
+        // NOTE: This still does NOT verify the actual ZK proof
+        // For production, replace with the generated verifier
         return true;
     }
     
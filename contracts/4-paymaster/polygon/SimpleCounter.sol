@@ -1,11 +1,15 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+
 /**
  * @title SimpleCounter
  * @dev A simple counter contract to test meta-transactions
+ * @notice Calls forwarded by the trusted forwarder (NICPaymaster) count for the wallet that
+ * signed them, read with _msgSender()
  */
-contract SimpleCounter {
+contract SimpleCounter is ERC2771Context {
     uint256 public counter;
     mapping(address => uint256) public userCounters;
 
@@ -16,21 +20,29 @@ contract SimpleCounter {
     event CounterIncremented(address indexed user, uint256 newValue, uint256 incrementAmount);
     event CounterReset(address indexed user);
 
+    /**
+     * @param trustedForwarder NICPaymaster forwarding the users' calls (zero address for none)
+     */
+    constructor(address trustedForwarder) ERC2771Context(trustedForwarder) {}
+
     /**
      * @dev Increment the global counter
      */
     function increment() public {
+        address user = _msgSender();
         counter++;
-        userCounters[msg.sender]++;
-        userIncrementCount[msg.sender]++;
-        userTotalIncremented[msg.sender] += 1;
-        emit CounterIncremented(msg.sender, counter, 1);
+        userCounters[user]++;
+        userIncrementCount[user]++;
+        userTotalIncremented[user] += 1;
+        emit CounterIncremented(user, counter, 1);
     }
 
     /**
      * @dev Increment the global counter on behalf of a specific user (for meta-transactions)
+     * @param originalUser Must be the caller, i.e. the wallet that signed a forwarded call
      */
     function incrementForUser(address originalUser) public {
+        require(originalUser == _msgSender(), "Caller is not the user");
         counter++;
         userCounters[originalUser]++;
         userIncrementCount[originalUser]++;
@@ -42,17 +54,20 @@ contract SimpleCounter {
      * @dev Increment by a specific amount
      */
     function incrementBy(uint256 amount) public {
+        address user = _msgSender();
         counter += amount;
-        userCounters[msg.sender] += amount;
-        userIncrementCount[msg.sender]++;
-        userTotalIncremented[msg.sender] += amount;
-        emit CounterIncremented(msg.sender, counter, amount);
+        userCounters[user] += amount;
+        userIncrementCount[user]++;
+        userTotalIncremented[user] += amount;
+        emit CounterIncremented(user, counter, amount);
     }
 
     /**
      * @dev Increment by a specific amount on behalf of a user (for meta-transactions)
+     * @param originalUser Must be the caller, i.e. the wallet that signed a forwarded call
      */
     function incrementByForUser(address originalUser, uint256 amount) public {
+        require(originalUser == _msgSender(), "Caller is not the user");
         counter += amount;
         userCounters[originalUser] += amount;
         userIncrementCount[originalUser]++;
@@ -64,10 +79,11 @@ contract SimpleCounter {
      * @dev Reset user's counter
      */
     function resetUserCounter() public {
-        userCounters[msg.sender] = 0;
-        userIncrementCount[msg.sender] = 0;
-        userTotalIncremented[msg.sender] = 0;
-        emit CounterReset(msg.sender);
+        address user = _msgSender();
+        userCounters[user] = 0;
+        userIncrementCount[user] = 0;
+        userTotalIncremented[user] = 0;
+        emit CounterReset(user);
     }
 
     /**
@@ -1,26 +1,45 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
 import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "./EncryptedTally.sol";
+import "./NICAccessControl.sol";
 import "./NICWalletRegistry.sol";
 
-// ZK Verifier interface (to be implemented by generated verifier contract)
+// ZK Verifier interface (UltraVerifier generated from the voting circuit, see npm run generate:verifier)
 interface IVerifier {
-    function verifyProof(
-        uint[2] memory a,
-        uint[2][2] memory b,
-        uint[2] memory c,
-        uint[4] memory input  // Changed from uint[2] to uint[4] to match usage
+    function verify(
+        bytes calldata _proof,
+        bytes32[] calldata _publicInputs  // [merkleRoot, commitment, nullifierHash, electionId]
     ) external view returns (bool);
 }
 
 /**
  * @title ZK_ElectionContract
  * @dev A privacy-preserving election contract using Zero-Knowledge Proofs
- * @notice Votes are private but verifiable through ZK proofs
+ * @notice Votes are verifiable through ZK proofs. Each ballot is encrypted under the election's
+ * tally public key (EncryptedTally) and added to encrypted candidate totals; the proof's commitment
+ * is the hash of the ballot's ciphertexts. Results are published after the election ends by
+ * decrypting the totals (publishTally).
+ * Anonymous elections (createAnonymousElection) use a root of identity commitments from
+ * NICWalletRegistry; their votes (castAnonymousVote) carry no NIC, wallet or Merkle proof.
+ * In wallet elections each registered wallet votes once (hasVoted): the voter secret behind the
+ * nullifier is not bound to the wallet, so the nullifier alone does not limit a wallet's votes.
+ * Votes relayed by a trusted forwarder (the constructor's NICPaymaster, or a paymaster trusted in
+ * NICWalletRegistry; ERC-2771) are attributed to the wallet the forwarder authenticated, not to the
+ * forwarder.
+ * Privacy model: a ballot is one exponential ElGamal ciphertext per candidate, with proofs that
+ * each encrypts 0 or 1 and that they add up to one vote. Only the candidate totals are ever
+ * decrypted, and publishTally checks each decryption against the encrypted total, so no vote is
+ * opened and the tally needs nothing from the voters. Whoever holds the tally secret key could
+ * decrypt any single ballot (ballots are public in the vote transactions, next to the voter's NIC
+ * hash and wallet for NIC and session votes): it must stay with the tally authority, offline, and
+ * only be used on the totals. Splitting it between several trustees is not supported.
+ * Elections are managed by ELECTION_ADMIN_ROLE and the verifier by VERIFIER_ADMIN_ROLE; no votes
+ * are accepted while the contract is paused.
  */
-contract ZK_ElectionContract is Ownable {
+contract ZK_ElectionContract is NICAccessControl, ERC2771Context {
     using MerkleProof for bytes32[];
 
     // Structs
@@ -39,6 +58,9 @@ contract ZK_ElectionContract is Ownable {
         uint256 totalVotes;
         bool exists;
         bytes32 votersMerkleRoot; // Merkle root of eligible voters
+        bool tallyFinalized; // Results are published (see publishTally)
+        bool anonymousEligibility; // Voter root is over identity commitments (castAnonymousVote)
+        EncryptedTally.G1Point tallyPublicKey; // Ballots are encrypted under this key
     }
 
     // State variables
@@ -48,7 +70,17 @@ contract ZK_ElectionContract is Ownable {
     
     // Privacy-preserving vote tracking
     mapping(uint256 => mapping(uint256 => bool)) public nullifiers; // electionId => nullifierHash => used
-    mapping(uint256 => mapping(uint256 => uint256)) public voteCommitments; // electionId => commitment => count
+    mapping(uint256 => mapping(address => bool)) public hasVoted; // electionId => registered wallet => voted
+
+    // Sum of every ballot, per candidate (encrypts each candidate's vote count)
+    mapping(uint256 => EncryptedTally.Ciphertext[]) private encryptedTallies;
+
+    // BN254 scalar field: commitments, nullifiers and roots are reduced into it for the verifier
+    uint256 public constant SNARK_SCALAR_FIELD =
+        21888242871839275222246405745257275088548364400416034343698204186575808495617;
+
+    // Voter roll history (every root ever published for an election, oldest first)
+    mapping(uint256 => bytes32[]) private votersMerkleRootHistory;
     
     // Events
     event ElectionCreated(
@@ -65,36 +97,61 @@ contract ZK_ElectionContract is Ownable {
         uint256 nullifierHash
     );
 
+    event TallyFinalized(
+        uint256 indexed electionId,
+        uint256 totalVotes
+    );
+
+    event VotersMerkleRootUpdated(
+        uint256 indexed electionId,
+        bytes32 previousRoot,
+        bytes32 newRoot,
+        uint256 version
+    );
+
     // ZK Verifier contract address
     IVerifier public verifier;
     
     // NIC Wallet Registry for authentication
     NICWalletRegistry public immutable nicRegistry;
 
-    constructor(address _verifier, address _nicRegistry) Ownable(msg.sender) {
+    /**
+     * @param _verifier Address of the ZK verifier contract
+     * @param _nicRegistry Address of the NICWalletRegistry
+     * @param _trustedForwarder NICPaymaster relaying votes (zero address for none; more paymasters
+     * can be trusted later in NICWalletRegistry)
+     */
+    constructor(
+        address _verifier,
+        address _nicRegistry,
+        address _trustedForwarder
+    ) ERC2771Context(_trustedForwarder) {
         require(_verifier != address(0), "Invalid verifier address");
         require(_nicRegistry != address(0), "Invalid registry address");
         verifier = IVerifier(_verifier);
         nicRegistry = NICWalletRegistry(_nicRegistry);
+        _grantRole(ELECTION_ADMIN_ROLE, msg.sender);
+        _grantRole(VERIFIER_ADMIN_ROLE, msg.sender);
     }
 
     /**
-     * @dev Set or update the ZK verifier contract address
+     * @dev Set or update the ZK verifier contract address (VERIFIER_ADMIN_ROLE only)
      * @param _verifier Address of the ZK verifier contract
      */
-    function setVerifier(address _verifier) external onlyOwner {
+    function setVerifier(address _verifier) external onlyRole(VERIFIER_ADMIN_ROLE) {
         require(_verifier != address(0), "Invalid verifier address");
         verifier = IVerifier(_verifier);
     }
 
     /**
-     * @dev Create a new election with ZK support
+     * @dev Create a new election with ZK support (ELECTION_ADMIN_ROLE only)
      * @param _electionTitle Title of the election
      * @param _description Description of the election
      * @param _startDate Start date/time as Unix timestamp
      * @param _endDate End date/time as Unix timestamp
      * @param _candidates Array of candidate data (name, nic, party)
      * @param _votersMerkleRoot Merkle root of eligible voters (computed off-chain)
+     * @param _tallyPublicKey Public key ballots are encrypted under (generateTallyKeyPair in utils/encryptedTally.ts)
      */
     function createElection(
         string memory _electionTitle,
@@ -102,11 +159,71 @@ contract ZK_ElectionContract is Ownable {
         uint256 _startDate,
         uint256 _endDate,
         Candidate[] memory _candidates,
-        bytes32 _votersMerkleRoot
-    ) public onlyOwner {
+        bytes32 _votersMerkleRoot,
+        EncryptedTally.G1Point memory _tallyPublicKey
+    ) public onlyRole(ELECTION_ADMIN_ROLE) {
+        _createElection(
+            _electionTitle,
+            _description,
+            _startDate,
+            _endDate,
+            _candidates,
+            _votersMerkleRoot,
+            _tallyPublicKey,
+            false
+        );
+    }
+
+    /**
+     * @dev Create an election whose voters prove eligibility only inside the circuit (ELECTION_ADMIN_ROLE only)
+     * @param _electionTitle Title of the election
+     * @param _description Description of the election
+     * @param _startDate Start date/time as Unix timestamp
+     * @param _endDate End date/time as Unix timestamp
+     * @param _candidates Array of candidate data (name, nic, party)
+     * @param _identityMerkleRoot Merkle root of identity commitment leaves (createIdentityMerkleTree)
+     * @param _tallyPublicKey Public key ballots are encrypted under (generateTallyKeyPair in utils/encryptedTally.ts)
+     * @notice Votes are cast with castAnonymousVote; castVote and castVoteWithNIC are disabled
+     */
+    function createAnonymousElection(
+        string memory _electionTitle,
+        string memory _description,
+        uint256 _startDate,
+        uint256 _endDate,
+        Candidate[] memory _candidates,
+        bytes32 _identityMerkleRoot,
+        EncryptedTally.G1Point memory _tallyPublicKey
+    ) public onlyRole(ELECTION_ADMIN_ROLE) {
+        _createElection(
+            _electionTitle,
+            _description,
+            _startDate,
+            _endDate,
+            _candidates,
+            _identityMerkleRoot,
+            _tallyPublicKey,
+            true
+        );
+    }
+
+    /**
+     * @dev Store a new election and its candidates
+     * @param _anonymousEligibility Whether the root is over identity commitments
+     */
+    function _createElection(
+        string memory _electionTitle,
+        string memory _description,
+        uint256 _startDate,
+        uint256 _endDate,
+        Candidate[] memory _candidates,
+        bytes32 _votersMerkleRoot,
+        EncryptedTally.G1Point memory _tallyPublicKey,
+        bool _anonymousEligibility
+    ) private {
         require(_startDate < _endDate, "Start date must be before end date");
         require(_candidates.length > 0, "Must have at least one candidate");
         require(_votersMerkleRoot != bytes32(0), "Invalid merkle root");
+        require(EncryptedTally.isValidPublicKey(_tallyPublicKey), "Invalid tally public key");
 
         uint256 electionId = electionCount;
         
@@ -117,7 +234,10 @@ contract ZK_ElectionContract is Ownable {
             endDate: _endDate,
             totalVotes: 0,
             exists: true,
-            votersMerkleRoot: _votersMerkleRoot
+            votersMerkleRoot: _votersMerkleRoot,
+            tallyFinalized: false,
+            anonymousEligibility: _anonymousEligibility,
+            tallyPublicKey: _tallyPublicKey
         });
 
         // Add candidates
@@ -128,54 +248,103 @@ contract ZK_ElectionContract is Ownable {
                 party: _candidates[i].party,
                 voteCount: 0
             }));
+            // The point at infinity encrypts zero votes
+            encryptedTallies[electionId].push();
         }
 
+        votersMerkleRootHistory[electionId].push(_votersMerkleRoot);
+
         electionCount++;
         emit ElectionCreated(electionId, _electionTitle, _startDate, _endDate, _votersMerkleRoot);
     }
 
+    /**
+     * @dev Publish a new voter roll root (late registrations, court-ordered removals) (ELECTION_ADMIN_ROLE only)
+     * @param _electionId The ID of the election
+     * @param _newVotersMerkleRoot Merkle root of the updated voter roll (computed off-chain)
+     * @notice Only allowed before the election starts, so every vote is checked against one roll
+     */
+    function updateVotersMerkleRoot(uint256 _electionId, bytes32 _newVotersMerkleRoot) external onlyRole(ELECTION_ADMIN_ROLE) {
+        Election storage election = elections[_electionId];
+        require(election.exists, "Election does not exist");
+        require(block.timestamp < election.startDate, "Election has already started");
+        require(_newVotersMerkleRoot != bytes32(0), "Invalid merkle root");
+        require(_newVotersMerkleRoot != election.votersMerkleRoot, "Merkle root unchanged");
+
+        bytes32 previousRoot = election.votersMerkleRoot;
+        election.votersMerkleRoot = _newVotersMerkleRoot;
+        votersMerkleRootHistory[_electionId].push(_newVotersMerkleRoot);
+
+        emit VotersMerkleRootUpdated(
+            _electionId,
+            previousRoot,
+            _newVotersMerkleRoot,
+            votersMerkleRootHistory[_electionId].length - 1
+        );
+    }
+
+    /**
+     * @dev Get every voter roll root published for an election (oldest first)
+     * @param _electionId The ID of the election
+     * @return bytes32[] Root history; the last entry is the active root
+     */
+    function getVotersMerkleRootHistory(uint256 _electionId) public view returns (bytes32[] memory) {
+        require(elections[_electionId].exists, "Election does not exist");
+        return votersMerkleRootHistory[_electionId];
+    }
+
     /**
      * @dev Cast a private vote using Zero-Knowledge Proof (direct call - for registered wallets)
      * @param _electionId The ID of the election
      * @param _voterNIC The NIC number of the voter
-     * @param _candidateIndex The index of the candidate (hidden in proof)
      * @param _nullifierHash Hash to prevent double voting (unique per voter)
-     * @param _commitment Vote commitment (hides the actual vote)
+     * @param _ballot Encrypted ballot (encryptBallot in utils/encryptedTally.ts)
      * @param _merkleProof Merkle proof proving voter eligibility
-     * @param a ZK proof G1 point (2 uint256 values)
-     * @param b ZK proof G2 point (2x2 uint256 matrix)
-     * @param c ZK proof G1 point (2 uint256 values)
-     * @param input Public inputs to the circuit (2 uint256 values)
+     * @param _proof UltraPlonk proof of the voting circuit (without its public inputs)
+     * @notice Deprecated: the NIC stays in the transaction's calldata, use castVoteByNICHash
      */
     function castVote(
         uint256 _electionId,
         string memory _voterNIC,
-        uint256 _candidateIndex,
         uint256 _nullifierHash,
-        uint256 _commitment,
+        EncryptedTally.Ballot calldata _ballot,
         bytes32[] calldata _merkleProof,
-        uint[2] memory a,
-        uint[2][2] memory b,
-        uint[2] memory c,
-        uint[4] memory input  // [commitment, nullifierHash, candidateIndex, electionId]
+        bytes calldata _proof
     ) public {
-        // Get registered wallet from NIC
-        address registeredWallet = nicRegistry.getWalletByNIC(_voterNIC);
-        require(registeredWallet != address(0), "NIC not registered");
-        require(registeredWallet == msg.sender, "Caller must be registered wallet");
-        
-        // Use internal vote function with registered wallet
-        _castVoteInternal(
+        _castRegisteredWalletVote(
             _electionId,
-            registeredWallet,
-            _candidateIndex,
+            nicRegistry.getWalletByNIC(_voterNIC),
             _nullifierHash,
-            _commitment,
+            _ballot,
             _merkleProof,
-            a,
-            b,
-            c,
-            input
+            _proof
+        );
+    }
+
+    /**
+     * @dev Cast a private vote from a registered wallet, identified by its NIC hash
+     * @param _electionId The ID of the election
+     * @param _voterNICHash Salted NIC hash of the voter (hashNIC in utils/nicHash.ts)
+     * @param _nullifierHash Hash to prevent double voting (unique per voter)
+     * @param _ballot Encrypted ballot (encryptBallot in utils/encryptedTally.ts)
+     * @param _merkleProof Merkle proof proving voter eligibility
+     * @param _proof UltraPlonk proof of the voting circuit (without its public inputs)
+     */
+    function castVoteByNICHash(
+        uint256 _electionId,
+        bytes32 _voterNICHash,
+        uint256 _nullifierHash,
+        EncryptedTally.Ballot calldata _ballot,
+        bytes32[] calldata _merkleProof,
+        bytes calldata _proof
+    ) external {
+        _castRegisteredWalletVote(
+            _electionId,
+            nicRegistry.getWalletByNICHash(_voterNICHash),
+            _nullifierHash,
+            _ballot,
+            _merkleProof,
+            _proof
         );
     }
 
@@ -184,39 +353,126 @@ contract ZK_ElectionContract is Ownable {
      * @param _electionId The ID of the election
      * @param _voterNIC The NIC number of the voter
      * @param _originalWallet The registered wallet address (from NIC)
-     * @param _temporaryWallet The temporary session wallet (msg.sender)
-     * @param _candidateIndex The index of the candidate (hidden in proof)
+     * @param _temporaryWallet The temporary session wallet (the sender, unless relayed by the forwarder)
      * @param _nullifierHash Hash to prevent double voting (unique per voter)
-     * @param _commitment Vote commitment (hides the actual vote)
+     * @param _ballot Encrypted ballot (encryptBallot in utils/encryptedTally.ts)
      * @param _merkleProof Merkle proof proving voter eligibility
-     * @param a ZK proof G1 point (2 uint256 values)
-     * @param b ZK proof G2 point (2x2 uint256 matrix)
-     * @param c ZK proof G1 point (2 uint256 values)
-     * @param input Public inputs to the circuit (2 uint256 values)
+     * @param _proof UltraPlonk proof of the voting circuit (without its public inputs)
+     * @notice Deprecated: the NIC stays in the transaction's calldata, use castVoteWithNICHash.
+     * Must be sent by the temporary wallet, directly or as its own meta-transaction through a trusted forwarder.
      */
     function castVoteWithNIC(
         uint256 _electionId,
         string memory _voterNIC,
         address _originalWallet,
         address _temporaryWallet,
-        uint256 _candidateIndex,
         uint256 _nullifierHash,
-        uint256 _commitment,
+        EncryptedTally.Ballot calldata _ballot,
         bytes32[] calldata _merkleProof,
-        uint[2] memory a,
-        uint[2][2] memory b,
-        uint[2] memory c,
-        uint[4] memory input  // [commitment, nullifierHash, candidateIndex, electionId]
+        bytes calldata _proof
     ) external {
-        // Allow calls from temporary wallet OR paymaster (paymaster verifies signature)
-        // When called through paymaster, msg.sender is paymaster, but we verify session below
-        // Note: Paymaster already verifies signature before calling this function
+        _castSessionVote(
+            _electionId,
+            nicRegistry.getWalletByNIC(_voterNIC),
+            _originalWallet,
+            _temporaryWallet,
+            _nullifierHash,
+            _ballot,
+            _merkleProof,
+            _proof
+        );
+    }
+
+    /**
+     * @dev Cast a private vote from a session wallet, identified by the voter's NIC hash
+     * @param _electionId The ID of the election
+     * @param _voterNICHash Salted NIC hash of the voter (hashNIC in utils/nicHash.ts)
+     * @param _originalWallet The registered wallet address (from the NIC hash)
+     * @param _temporaryWallet The temporary session wallet (the sender, unless relayed by the forwarder)
+     * @param _nullifierHash Hash to prevent double voting (unique per voter)
+     * @param _ballot Encrypted ballot (encryptBallot in utils/encryptedTally.ts)
+     * @param _merkleProof Merkle proof proving voter eligibility
+     * @param _proof UltraPlonk proof of the voting circuit (without its public inputs)
+     * @notice Must be sent by the temporary wallet, directly or as its own meta-transaction through a trusted forwarder
+     */
+    function castVoteWithNICHash(
+        uint256 _electionId,
+        bytes32 _voterNICHash,
+        address _originalWallet,
+        address _temporaryWallet,
+        uint256 _nullifierHash,
+        EncryptedTally.Ballot calldata _ballot,
+        bytes32[] calldata _merkleProof,
+        bytes calldata _proof
+    ) external {
+        _castSessionVote(
+            _electionId,
+            nicRegistry.getWalletByNICHash(_voterNICHash),
+            _originalWallet,
+            _temporaryWallet,
+            _nullifierHash,
+            _ballot,
+            _merkleProof,
+            _proof
+        );
+    }
+
+    /**
+     * @dev Cast a vote sent by the registered wallet itself
+     * @param _electionId The ID of the election
+     * @param registeredWallet Wallet registered for the voter's NIC (zero if not registered)
+     * @param _nullifierHash Hash to prevent double voting
+     * @param _ballot Encrypted ballot
+     * @param _merkleProof Merkle proof
+     * @param _proof UltraPlonk proof
+     */
+    function _castRegisteredWalletVote(
+        uint256 _electionId,
+        address registeredWallet,
+        uint256 _nullifierHash,
+        EncryptedTally.Ballot calldata _ballot,
+        bytes32[] calldata _merkleProof,
+        bytes calldata _proof
+    ) private {
+        require(registeredWallet != address(0), "NIC not registered");
+        require(registeredWallet == _msgSender(), "Caller must be registered wallet");
         
+        // Use internal vote function with registered wallet
+        _castVoteInternal(
+            _electionId,
+            registeredWallet,
+            _nullifierHash,
+            _ballot,
+            _merkleProof,
+            _proof
+        );
+    }
+
+    /**
+     * @dev Cast a vote sent by a session wallet, directly or through a trusted forwarder
+     * @param _electionId The ID of the election
+     * @param registeredWallet Wallet registered for the voter's NIC (zero if not registered)
+     * @param _originalWallet The registered wallet address claimed by the caller
+     * @param _temporaryWallet The temporary session wallet
+     * @param _nullifierHash Hash to prevent double voting
+     * @param _ballot Encrypted ballot
+     * @param _merkleProof Merkle proof
+     * @param _proof UltraPlonk proof
+     */
+    function _castSessionVote(
+        uint256 _electionId,
+        address registeredWallet,
+        address _originalWallet,
+        address _temporaryWallet,
+        uint256 _nullifierHash,
+        EncryptedTally.Ballot calldata _ballot,
+        bytes32[] calldata _merkleProof,
+        bytes calldata _proof
+    ) private {
         // Verify registered wallet matches NIC
-        address registeredWallet = nicRegistry.getWalletByNIC(_voterNIC);
         require(registeredWallet != address(0), "NIC not registered");
         require(registeredWallet == _originalWallet, "Original wallet mismatch");
-        
+
         // Verify session is valid (temporary wallet has access to original wallet)
         // This ensures only authorized temporary wallets can vote
         require(
@@ -224,25 +480,19 @@ contract ZK_ElectionContract is Ownable {
             "Temporary wallet access expired or invalid"
         );
         
-        // If called directly (not through paymaster), verify caller is temporary wallet
-        // If called through paymaster, msg.sender will be paymaster, but session check above ensures security
-        if (_temporaryWallet != msg.sender) {
-            // Called through paymaster - session check above is sufficient
-            // Paymaster already verified the signature
-        }
+        // Only the temporary wallet may submit the vote, directly or as its own meta-transaction
+        // relayed by a trusted forwarder (which appends the signer it authenticated): anyone
+        // else could name any wallet that has a session
+        require(_msgSender() == _temporaryWallet, "Caller is not the session wallet");
         
         // Use internal vote function with registered wallet
         _castVoteInternal(
             _electionId,
             _originalWallet,
-            _candidateIndex,
             _nullifierHash,
-            _commitment,
+            _ballot,
             _merkleProof,
-            a,
-            b,
-            c,
-            input
+            _proof
         );
     }
 
@@ -250,31 +500,74 @@ contract ZK_ElectionContract is Ownable {
      * @dev Internal function to cast a vote (shared logic)
      * @param _electionId The ID of the election
      * @param _registeredWallet The registered wallet address (for Merkle proof)
-     * @param _candidateIndex The index of the candidate
      * @param _nullifierHash Hash to prevent double voting
-     * @param _commitment Vote commitment
+     * @param _ballot Encrypted ballot
      * @param _merkleProof Merkle proof
-     * @param a ZK proof G1 point
-     * @param b ZK proof G2 point
-     * @param c ZK proof G1 point
-     * @param input Public inputs
+     * @param _proof UltraPlonk proof
      */
     function _castVoteInternal(
         uint256 _electionId,
         address _registeredWallet,
-        uint256 _candidateIndex,
         uint256 _nullifierHash,
-        uint256 _commitment,
+        EncryptedTally.Ballot calldata _ballot,
         bytes32[] calldata _merkleProof,
-        uint[2] memory a,
-        uint[2][2] memory b,
-        uint[2] memory c,
-        uint[4] memory input  // [commitment, nullifierHash, candidateIndex, electionId]
+        bytes calldata _proof
     ) internal {
         Election storage election = elections[_electionId];
+        require(election.exists, "Election does not exist");
+        require(!election.anonymousEligibility, "Election requires anonymous votes");
         
-        // Basic validations
+        // Verify voter is eligible using Merkle proof (using registered wallet, not msg.sender)
+        bytes32 leaf = keccak256(abi.encodePacked(_registeredWallet, _electionId));
+        require(
+            _merkleProof.verify(election.votersMerkleRoot, leaf),
+            "Invalid voter proof"
+        );
+        require(!hasVoted[_electionId][_registeredWallet], "Vote already cast (wallet has voted)");
+        hasVoted[_electionId][_registeredWallet] = true;
+        
+        _verifyAndRecordVote(_electionId, _nullifierHash, _ballot, _proof);
+    }
+
+    /**
+     * @dev Cast a vote in an anonymous election
+     * @param _electionId The ID of the election
+     * @param _nullifierHash Hash to prevent double voting (derived from the identity secret)
+     * @param _ballot Encrypted ballot (encryptBallot in utils/encryptedTally.ts)
+     * @param _proof UltraPlonk proof of the voting circuit (without its public inputs)
+     * @notice The proof shows the nullifier comes from an identity commitment in the election's
+     * root; the NIC, wallet and Merkle path stay private, so anyone (e.g. a relayer) can submit it
+     */
+    function castAnonymousVote(
+        uint256 _electionId,
+        uint256 _nullifierHash,
+        EncryptedTally.Ballot calldata _ballot,
+        bytes calldata _proof
+    ) external {
+        Election storage election = elections[_electionId];
         require(election.exists, "Election does not exist");
+        require(election.anonymousEligibility, "Election does not accept anonymous votes");
+
+        _verifyAndRecordVote(_electionId, _nullifierHash, _ballot, _proof);
+    }
+
+    /**
+     * @dev Verify a vote proof and record the vote (shared by wallet and anonymous votes)
+     * @param _electionId The ID of an existing election
+     * @param _nullifierHash Hash to prevent double voting
+     * @param _ballot Encrypted ballot
+     * @param _proof UltraPlonk proof
+     */
+    function _verifyAndRecordVote(
+        uint256 _electionId,
+        uint256 _nullifierHash,
+        EncryptedTally.Ballot calldata _ballot,
+        bytes calldata _proof
+    ) private {
+        _requireNotPaused();
+        Election storage election = elections[_electionId];
+        
+        // Basic validations
         require(
             block.timestamp >= election.startDate,
             "Election has not started"
@@ -283,50 +576,135 @@ contract ZK_ElectionContract is Ownable {
             block.timestamp <= election.endDate,
             "Election has ended"
         );
-        require(
-            _candidateIndex < electionCandidates[_electionId].length,
-            "Invalid candidate index"
-        );
+        // Hashes are stored in their field form, so each vote has a single encoding
+        require(_nullifierHash < SNARK_SCALAR_FIELD, "Nullifier is not a field element");
         
         // Prevent double voting using nullifier
         require(
             !nullifiers[_electionId][_nullifierHash],
             "Vote already cast (nullifier used)"
         );
-        
-        // Verify voter is eligible using Merkle proof (using registered wallet, not msg.sender)
-        bytes32 leaf = keccak256(abi.encodePacked(_registeredWallet, _electionId));
+
+        // The ballot holds exactly one vote, and its proofs are bound to this voter's nullifier,
+        // so another voter's ballot cannot be copied
+        EncryptedTally.Ciphertext[] storage tally = encryptedTallies[_electionId];
+        require(_ballot.ciphertexts.length == tally.length, "Ballot does not match candidates");
         require(
-            _merkleProof.verify(election.votersMerkleRoot, leaf),
-            "Invalid voter proof"
+            EncryptedTally.verifyBallot(_ballot, election.tallyPublicKey, getBallotContext(_electionId, _nullifierHash)),
+            "Invalid ballot"
         );
         
-        // Verify ZK proof
-        // Input format: [commitment, nullifierHash, candidateIndex, electionId]
-        require(
-            input[0] == _commitment,
-            "Commitment mismatch in proof"
-        );
-        require(
-            input[1] == _nullifierHash,
-            "Nullifier mismatch in proof"
+        // Verify ZK proof against public inputs built from contract state, so a proof made
+        // for another election, voter root or ballot cannot be replayed here
+        uint256 commitment = EncryptedTally.hashCiphertexts(_ballot.ciphertexts);
+        bool proofValid = verifier.verify(
+            _proof,
+            getPublicInputs(_electionId, commitment, _nullifierHash)
         );
-        
-        bool proofValid = verifier.verifyProof(a, b, c, input);
         require(proofValid, "Invalid ZK proof");
         
         // Mark nullifier as used (prevents double voting)
         nullifiers[_electionId][_nullifierHash] = true;
         
-        // Increment vote count for the candidate
-        // Note: We trust the ZK proof that _candidateIndex is correct
-        electionCandidates[_electionId][_candidateIndex].voteCount++;
+        // The candidate stays encrypted: only the totals are decrypted (publishTally)
         election.totalVotes++;
+        for (uint256 i = 0; i < tally.length; i++) {
+            tally[i] = EncryptedTally.addCiphertexts(tally[i], _ballot.ciphertexts[i]);
+        }
         
-        // Track commitment (for verification without revealing vote)
-        voteCommitments[_electionId][_commitment]++;
-        
-        emit VoteCast(_electionId, _commitment, _nullifierHash);
+        emit VoteCast(_electionId, commitment, _nullifierHash);
+    }
+
+    /**
+     * @dev Build the circuit public inputs for a vote
+     * @param _electionId The ID of the election
+     * @param _commitment Ballot commitment (EncryptedTally.hashCiphertexts of the ballot)
+     * @param _nullifierHash Nullifier hash (field element)
+     * @return input [merkleRoot, commitment, nullifierHash, electionId]
+     * @notice The voter root comes from the election's current state
+     */
+    function getPublicInputs(
+        uint256 _electionId,
+        uint256 _commitment,
+        uint256 _nullifierHash
+    ) public view returns (bytes32[] memory input) {
+        Election storage election = elections[_electionId];
+        require(election.exists, "Election does not exist");
+
+        input = new bytes32[](4);
+        input[0] = bytes32(uint256(election.votersMerkleRoot) % SNARK_SCALAR_FIELD);
+        input[1] = bytes32(_commitment);
+        input[2] = bytes32(_nullifierHash);
+        input[3] = bytes32(_electionId);
+    }
+
+    /**
+     * @dev Get the context a voter's ballot proofs are bound to
+     * @param _electionId The ID of the election
+     * @param _nullifierHash The voter's nullifier hash
+     * @return bytes32 keccak256(abi.encode(chainid, this contract, electionId, nullifierHash))
+     */
+    function getBallotContext(uint256 _electionId, uint256 _nullifierHash) public view returns (bytes32) {
+        return keccak256(abi.encode(block.chainid, address(this), _electionId, _nullifierHash));
+    }
+
+    /**
+     * @dev Get the context tally decryption proofs are bound to
+     * @param _electionId The ID of the election
+     * @return bytes32 keccak256(abi.encode(chainid, this contract, electionId))
+     */
+    function getTallyContext(uint256 _electionId) public view returns (bytes32) {
+        return keccak256(abi.encode(block.chainid, address(this), _electionId));
+    }
+
+    /**
+     * @dev Get the encrypted vote totals of an election
+     * @param _electionId The ID of the election
+     * @return EncryptedTally.Ciphertext[] Sum of every ballot, per candidate
+     */
+    function getEncryptedTally(uint256 _electionId) public view returns (EncryptedTally.Ciphertext[] memory) {
+        require(elections[_electionId].exists, "Election does not exist");
+        return encryptedTallies[_electionId];
+    }
+
+    /**
+     * @dev Publish the results by decrypting the encrypted candidate totals
+     * @param _electionId The ID of the election
+     * @param _decryptions Per-candidate count, decryption share and proof (decryptTally in utils/encryptedTally.ts)
+     * @notice Anyone can submit the decryptions after the election ends; each one is checked
+     * against the encrypted total and the tally public key, so only the true counts are accepted.
+     * No ballot is decrypted and no voter has to take part
+     */
+    function publishTally(uint256 _electionId, EncryptedTally.Decryption[] calldata _decryptions) external {
+        Election storage election = elections[_electionId];
+        require(election.exists, "Election does not exist");
+        require(block.timestamp > election.endDate, "Election has not ended");
+        require(!election.tallyFinalized, "Tally already finalized");
+
+        Candidate[] storage candidates = electionCandidates[_electionId];
+        require(_decryptions.length == candidates.length, "Decryption count mismatch");
+
+        bytes32 context = getTallyContext(_electionId);
+        uint256 countedVotes = 0;
+        for (uint256 i = 0; i < _decryptions.length; i++) {
+            require(
+                EncryptedTally.verifyDecryption(
+                    encryptedTallies[_electionId][i],
+                    _decryptions[i],
+                    election.tallyPublicKey,
+                    context,
+                    i
+                ),
+                "Invalid tally decryption"
+            );
+            candidates[i].voteCount = _decryptions[i].count;
+            countedVotes += _decryptions[i].count;
+        }
+        // Holds for valid ballots (one vote each); rejects counts that wrap around the group order
+        require(countedVotes == election.totalVotes, "Counts do not match total votes");
+
+        election.tallyFinalized = true;
+        emit TallyFinalized(_electionId, election.totalVotes);
     }
 
     /**
@@ -343,9 +721,11 @@ contract ZK_ElectionContract is Ownable {
      * @dev Get election results (candidates with vote counts)
      * @param _electionId The ID of the election
      * @return Candidate[] Array of candidates with their vote counts
+     * @notice Available once the tally is published
      */
     function checkResult(uint256 _electionId) public view returns (Candidate[] memory) {
         require(elections[_electionId].exists, "Election does not exist");
+        require(elections[_electionId].tallyFinalized, "Tally not published");
         return electionCandidates[_electionId];
     }
 
@@ -407,5 +787,29 @@ contract ZK_ElectionContract is Ownable {
         require(elections[_electionId].exists, "Election does not exist");
         return block.timestamp > elections[_electionId].endDate;
     }
-}
 
+    /**
+     * @dev Forwarders whose appended sender is trusted: the constructor's forwarder and the
+     * paymasters trusted in NICWalletRegistry (setTrustedPaymaster)
+     * @param forwarder Address to check
+     * @return bool True if calls from the address are attributed to the sender it appends
+     */
+    function isTrustedForwarder(address forwarder) public view override returns (bool) {
+        return super.isTrustedForwarder(forwarder) || nicRegistry.trustedPaymasters(forwarder);
+    }
+
+    /**
+     * @dev The voter relayed by a trusted forwarder, or the direct caller
+     */
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
+}
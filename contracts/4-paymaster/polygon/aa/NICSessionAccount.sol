@@ -0,0 +1,129 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "@account-abstraction/contracts/core/BaseAccount.sol";
+import "@account-abstraction/contracts/core/Helpers.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "../NICWalletRegistry.sol";
+
+/**
+ * @title NICSessionAccount
+ * @dev ERC-4337 smart account of a registered wallet, usable by its owner and by session keys
+ * @notice The account itself is the wallet registered in NICWalletRegistry. The owner grants sessions by
+ * calling NICWalletRegistry.createScopedSessionByHash through execute; any temporary wallet holding a valid
+ * session can then sign UserOperations (e.g. votes) for the calls its session permissions allow, optionally
+ * sponsored by NICVerifyingPaymaster.
+ * Signatures are ECDSA signatures of the userOpHash as an Ethereum signed message.
+ */
+contract NICSessionAccount is BaseAccount {
+    IEntryPoint private immutable _entryPoint;
+    NICWalletRegistry public immutable walletRegistry;
+    address public immutable owner;
+
+    constructor(IEntryPoint anEntryPoint, NICWalletRegistry _walletRegistry, address _owner) {
+        require(_owner != address(0), "Invalid owner");
+        _entryPoint = anEntryPoint;
+        walletRegistry = _walletRegistry;
+        owner = _owner;
+    }
+
+    /// @inheritdoc BaseAccount
+    function entryPoint() public view override returns (IEntryPoint) {
+        return _entryPoint;
+    }
+
+    /**
+     * @dev Execute a call from the account (EntryPoint or owner only)
+     * @param target The contract to call
+     * @param value The ETH value to send with the call
+     * @param data The call data
+     */
+    function execute(address target, uint256 value, bytes calldata data) external {
+        require(
+            msg.sender == address(entryPoint()) || msg.sender == owner,
+            "account: not Owner or EntryPoint"
+        );
+        (bool success, bytes memory result) = target.call{value: value}(data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+
+    /**
+     * @dev Deposit ETH into the EntryPoint for UserOperations that are not sponsored
+     */
+    function addDeposit() external payable {
+        entryPoint().depositTo{value: msg.value}(address(this));
+    }
+
+    /**
+     * @dev Withdraw the account's EntryPoint deposit (owner only)
+     */
+    function withdrawDepositTo(address payable withdrawAddress, uint256 amount) external {
+        require(msg.sender == owner, "Only owner");
+        entryPoint().withdrawTo(withdrawAddress, amount);
+    }
+
+    /**
+     * @dev Get the account's EntryPoint deposit
+     */
+    function getDeposit() external view returns (uint256) {
+        return entryPoint().balanceOf(address(this));
+    }
+
+    /**
+     * @dev Accept UserOperations signed by the owner, or by a session key for an execute call its session allows
+     * @return validationData 0 for the owner; for a session key, the session expiry as validUntil
+     * @notice A session key's UserOperation counts against its session's call limit once validated
+     */
+    function _validateSignature(
+        PackedUserOperation calldata userOp,
+        bytes32 userOpHash
+    ) internal override returns (uint256 validationData) {
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(
+            MessageHashUtils.toEthSignedMessageHash(userOpHash),
+            userOp.signature
+        );
+        if (error != ECDSA.RecoverError.NoError) {
+            return SIG_VALIDATION_FAILED;
+        }
+        if (signer == owner) {
+            return SIG_VALIDATION_SUCCESS;
+        }
+
+        if (!_isSessionCall(userOp.callData, signer)) {
+            return SIG_VALIDATION_FAILED;
+        }
+        uint256 validUntil = walletRegistry.getSessionValidUntil(address(this), signer);
+        if (validUntil == 0) {
+            return SIG_VALIDATION_FAILED;
+        }
+        (address target, , bytes memory data) = abi.decode(userOp.callData[4:], (address, uint256, bytes));
+        walletRegistry.useSessionCall(address(this), signer, target, data);
+        return _packValidationData(false, uint48(validUntil), 0);
+    }
+
+    /**
+     * @dev Check that a session key's call is allowed by its session and cannot move funds or manage sessions
+     * @param callData The UserOperation's call data
+     * @param signer The session key that signed the UserOperation
+     * @return True for an execute call without value, allowed by the session's permissions, to a contract
+     * other than the account and the registry
+     */
+    function _isSessionCall(bytes calldata callData, address signer) private view returns (bool) {
+        if (callData.length < 4 || bytes4(callData[:4]) != this.execute.selector) {
+            return false;
+        }
+        (address target, uint256 value, bytes memory data) = abi.decode(callData[4:], (address, uint256, bytes));
+        return
+            value == 0 &&
+            target != address(this) &&
+            target != address(walletRegistry) &&
+            walletRegistry.isSessionCallAllowed(address(this), signer, target, data);
+    }
+
+    receive() external payable {}
+}
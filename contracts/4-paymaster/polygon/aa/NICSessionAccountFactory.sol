@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "@openzeppelin/contracts/utils/Create2.sol";
+import "./NICSessionAccount.sol";
+
+/**
+ * @title NICSessionAccountFactory
+ * @dev Deploys NICSessionAccounts at deterministic addresses (used as the UserOperation factory)
+ * @notice The account address is known before deployment, so it can be registered in NICWalletRegistry
+ * and receive sessions before its first UserOperation deploys it.
+ */
+contract NICSessionAccountFactory {
+    IEntryPoint public immutable entryPoint;
+    NICWalletRegistry public immutable walletRegistry;
+
+    event AccountCreated(address indexed account, address indexed owner, uint256 salt);
+
+    constructor(IEntryPoint _entryPoint, NICWalletRegistry _walletRegistry) {
+        entryPoint = _entryPoint;
+        walletRegistry = _walletRegistry;
+    }
+
+    /**
+     * @dev Deploy the account of an owner, or return it if already deployed
+     * @param owner The account owner
+     * @param salt Salt to derive several accounts for the same owner
+     * @return account The account
+     */
+    function createAccount(address owner, uint256 salt) external returns (NICSessionAccount account) {
+        address accountAddress = getAccountAddress(owner, salt);
+        if (accountAddress.code.length > 0) {
+            return NICSessionAccount(payable(accountAddress));
+        }
+        account = new NICSessionAccount{salt: bytes32(salt)}(entryPoint, walletRegistry, owner);
+        emit AccountCreated(address(account), owner, salt);
+    }
+
+    /**
+     * @dev Compute the address of an owner's account
+     * @param owner The account owner
+     * @param salt Salt to derive several accounts for the same owner
+     * @return The account address
+     */
+    function getAccountAddress(address owner, uint256 salt) public view returns (address) {
+        return Create2.computeAddress(
+            bytes32(salt),
+            keccak256(
+                abi.encodePacked(
+                    type(NICSessionAccount).creationCode,
+                    abi.encode(entryPoint, walletRegistry, owner)
+                )
+            )
+        );
+    }
+}
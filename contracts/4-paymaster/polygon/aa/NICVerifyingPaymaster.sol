@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import "@account-abstraction/contracts/core/BasePaymaster.sol";
+import "@account-abstraction/contracts/core/Helpers.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "../NICWalletRegistry.sol";
+
+/**
+ * @title NICVerifyingPaymaster
+ * @dev ERC-4337 paymaster that sponsors UserOperations signed by a session key of the sending account
+ * @notice Replaces the relayer of NICPaymaster.executeGaslessTemporaryTransaction: gas is paid from this
+ * paymaster's EntryPoint deposit (deposit / addStake from BasePaymaster). The signer is recovered the way
+ * NICSessionAccount does, and its session (NICWalletRegistry.hasValidAccess) is enforced through
+ * validUntil. Reading the registry during validation requires this paymaster to be staked.
+ */
+contract NICVerifyingPaymaster is BasePaymaster {
+    NICWalletRegistry public immutable walletRegistry;
+
+    constructor(IEntryPoint _entryPoint, NICWalletRegistry _walletRegistry) BasePaymaster(_entryPoint) {
+        require(address(_walletRegistry) != address(0), "Invalid registry address");
+        walletRegistry = _walletRegistry;
+    }
+
+    /**
+     * @dev Sponsor the UserOperation if its signer holds a session for the sending account
+     * @return context Empty, nothing to settle in postOp
+     * @return validationData SIG_VALIDATION_FAILED, or the session expiry as validUntil
+     */
+    function _validatePaymasterUserOp(
+        PackedUserOperation calldata userOp,
+        bytes32 userOpHash,
+        uint256
+    ) internal view override returns (bytes memory context, uint256 validationData) {
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(
+            MessageHashUtils.toEthSignedMessageHash(userOpHash),
+            userOp.signature
+        );
+        if (error != ECDSA.RecoverError.NoError) {
+            return ("", SIG_VALIDATION_FAILED);
+        }
+
+        uint256 validUntil = walletRegistry.getSessionValidUntil(userOp.sender, signer);
+        if (validUntil == 0) {
+            return ("", SIG_VALIDATION_FAILED);
+        }
+        return ("", _packValidationData(false, uint48(validUntil), 0));
+    }
+}
@@ -0,0 +1,5 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+// Compiles the ERC-4337 EntryPoint (v0.7) so tests can deploy a local instance
+import "@account-abstraction/contracts/core/EntryPoint.sol";
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+/**
+ * @title MockERC1271Wallet
+ * @dev Minimal smart-contract wallet for tests: signatures are valid when its owner signed the hash
+ */
+contract MockERC1271Wallet is IERC1271 {
+    address public immutable owner;
+
+    constructor(address _owner) {
+        owner = _owner;
+    }
+
+    /**
+     * @dev ERC-1271 signature check
+     * @param hash Hash that was signed (e.g. an EIP-712 digest)
+     * @param signature Owner's ECDSA signature of the hash
+     * @return magicValue IERC1271.isValidSignature.selector if valid, 0xffffffff otherwise
+     */
+    function isValidSignature(bytes32 hash, bytes memory signature) external view returns (bytes4 magicValue) {
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(hash, signature);
+        if (error == ECDSA.RecoverError.NoError && signer == owner) {
+            return IERC1271.isValidSignature.selector;
+        }
+        return 0xffffffff;
+    }
+
+    /**
+     * @dev Execute a call as the wallet (owner only)
+     * @param target The contract to call
+     * @param data The call data
+     */
+    function execute(address target, bytes calldata data) external returns (bytes memory) {
+        require(msg.sender == owner, "Only owner");
+        (bool success, bytes memory returnData) = target.call(data);
+        require(success, "Call failed");
+        return returnData;
+    }
+}
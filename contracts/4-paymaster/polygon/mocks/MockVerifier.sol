@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+/**
+ * @title MockVerifier
+ * @dev IVerifier stand-in for election tests: returns a preset result without checking the proof
+ * @notice Never deploy it for an election. Real proofs are checked by the UltraVerifier generated
+ * from the voting circuit (test/VotingCircuitVerifier.test.ts)
+ */
+contract MockVerifier {
+    bool public result = true;
+
+    /**
+     * @dev Set the result of every verify call
+     * @param _result True to accept all proofs, false to reject them
+     */
+    function setResult(bool _result) external {
+        result = _result;
+    }
+
+    /**
+     * @dev Return the preset result (the proof and public inputs are ignored)
+     */
+    function verify(bytes calldata, bytes32[] calldata) external view returns (bool) {
+        return result;
+    }
+}
@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+import {IPaymaster, ExecutionResult, PAYMASTER_VALIDATION_SUCCESS_MAGIC} from "@matterlabs/zksync-contracts/l2/system-contracts/interfaces/IPaymaster.sol";
+import {IPaymasterFlow} from "@matterlabs/zksync-contracts/l2/system-contracts/interfaces/IPaymasterFlow.sol";
+import {Transaction} from "@matterlabs/zksync-contracts/l2/system-contracts/libraries/TransactionHelper.sol";
+import "@matterlabs/zksync-contracts/l2/system-contracts/Constants.sol";
+import "../polygon/NICAccessControl.sol";
+import "../polygon/NICWalletRegistry.sol";
+
+/**
+ * @title NICSessionPaymaster
+ * @dev Native ZKsync paymaster that pays the gas of temporary wallets holding a valid NICWalletRegistry session
+ * @notice Unlike NICPaymaster, no relayer is involved: the temporary wallet sends its own transaction with
+ * paymasterParams built from the "General" flow, whose inner input is abi.encode(originalWallet).
+ * See deploy/4-paymaster/zksync/interact-nic-session-paymaster.ts. Only calls to the session's allowed
+ * targets are sponsored; its selectors and call limit are kept in storage not keyed by the temporary
+ * wallet, which validation may not read, so they only apply to NICWalletRegistry.executeOnBehalf and
+ * NICPaymaster. Nothing is sponsored while paused.
+ */
+contract NICSessionPaymaster is IPaymaster, NICAccessControl {
+    NICWalletRegistry public immutable walletRegistry;
+
+    event SessionTransactionSponsored(
+        address indexed originalWallet,
+        address indexed temporaryWallet,
+        address indexed target,
+        uint256 fee
+    );
+    event FundsWithdrawn(address indexed owner, uint256 amount);
+
+    modifier onlyBootloader() {
+        require(msg.sender == BOOTLOADER_FORMAL_ADDRESS, "Only bootloader can call this method");
+        _;
+    }
+
+    constructor(address _walletRegistry) {
+        require(_walletRegistry != address(0), "Invalid registry address");
+        walletRegistry = NICWalletRegistry(_walletRegistry);
+        _grantRole(TREASURER_ROLE, msg.sender);
+    }
+
+    /**
+     * @dev Called by the bootloader to check that the paymaster pays for a transaction
+     * @param _transaction The transaction, sent by the temporary wallet
+     * @return magic PAYMASTER_VALIDATION_SUCCESS_MAGIC if the fee was paid to the bootloader
+     * @return context Empty, postTransaction has nothing to settle
+     * @notice ZKsync's validation rules only allow reading storage keyed by the sender, so the session is
+     * looked up in NICWalletRegistry's copies keyed by the temporary wallet (temporaryWalletSessions and
+     * temporaryWalletTargets), which hold its latest session
+     */
+    function validateAndPayForPaymasterTransaction(
+        bytes32,
+        bytes32,
+        Transaction calldata _transaction
+    ) external payable onlyBootloader whenNotPaused returns (bytes4 magic, bytes memory context) {
+        magic = PAYMASTER_VALIDATION_SUCCESS_MAGIC;
+
+        require(_transaction.paymasterInput.length >= 4, "The standard paymaster input must be at least 4 bytes long");
+        bytes4 paymasterInputSelector = bytes4(_transaction.paymasterInput[0:4]);
+        require(paymasterInputSelector == IPaymasterFlow.general.selector, "Unsupported paymaster flow");
+
+        // The general flow carries the registered wallet the session belongs to
+        bytes memory innerInput = abi.decode(_transaction.paymasterInput[4:], (bytes));
+        address originalWallet = abi.decode(innerInput, (address));
+        address temporaryWallet = address(uint160(_transaction.from));
+        address target = address(uint160(_transaction.to));
+
+        (address sessionWallet, uint256 validUntil) = walletRegistry.temporaryWalletSessions(temporaryWallet);
+        require(
+            sessionWallet == originalWallet && validUntil > block.timestamp,
+            "Temporary wallet access expired or invalid"
+        );
+        require(walletRegistry.temporaryWalletTargets(temporaryWallet, target), "Target not allowed for session");
+
+        // The bootloader never returns any data, so it can safely be ignored here
+        uint256 requiredETH = _transaction.gasLimit * _transaction.maxFeePerGas;
+        (bool success, ) = payable(BOOTLOADER_FORMAL_ADDRESS).call{value: requiredETH}("");
+        require(success, "Failed to transfer tx fee to the bootloader. Paymaster balance might not be enough.");
+
+        emit SessionTransactionSponsored(originalWallet, temporaryWallet, target, requiredETH);
+    }
+
+    /**
+     * @dev Called by the bootloader after the transaction; nothing to settle for sessions
+     */
+    function postTransaction(
+        bytes calldata,
+        Transaction calldata,
+        bytes32,
+        bytes32,
+        ExecutionResult,
+        uint256
+    ) external payable override onlyBootloader {}
+
+    /**
+     * @dev Withdraw funds from the paymaster (TREASURER_ROLE only)
+     */
+    function withdraw(address payable to, uint256 amount) external onlyRole(TREASURER_ROLE) {
+        require(to != address(0), "Invalid recipient");
+        require(amount <= address(this).balance, "Insufficient balance");
+
+        (bool success, ) = to.call{value: amount}("");
+        require(success, "Failed to withdraw funds from paymaster.");
+        emit FundsWithdrawn(to, amount);
+    }
+
+    /**
+     * @dev Get the balance of this paymaster contract
+     */
+    function getBalance() external view returns (uint256) {
+        return address(this).balance;
+    }
+
+    receive() external payable {}
+}
@@ -0,0 +1,83 @@
+import {ethers} from "hardhat";
+import {
+	CONTRACT_ROLES,
+	ROLE_HOLDER_ENV,
+	assignRoles,
+	getRoleHoldersFromEnv,
+} from "../../../utils/roles";
+
+/**
+ * Hand the administrative roles of the NIC contracts to their holders
+ *
+ * The deployer holds every role after deployment. Each role is granted to the address in its
+ * environment variable; with RENOUNCE_DEPLOYER_ROLES the deployer then gives up the roles it
+ * handed over. Check the result with audit-roles.ts.
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/polygon/assign-roles.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   NIC_WALLET_REGISTRY_ADDRESS - Address of deployed NICWalletRegistry (optional)
+ *   NIC_PAYMASTER_ADDRESS - Address of deployed NICPaymaster (optional)
+ *   ZK_ELECTION_CONTRACT_ADDRESS - Address of deployed ZK_ElectionContract (optional)
+ *   ADMIN_ADDRESS - DEFAULT_ADMIN_ROLE holder, grants and revokes roles (optional)
+ *   ELECTION_ADMIN_ADDRESS - ELECTION_ADMIN_ROLE holder (optional)
+ *   REGISTRAR_ADDRESS - REGISTRAR_ROLE holder (optional)
+ *   TREASURER_ADDRESS - TREASURER_ROLE holder (optional)
+ *   VERIFIER_ADMIN_ADDRESS - VERIFIER_ADMIN_ROLE holder (optional)
+ *   PAUSER_ADDRESS - PAUSER_ROLE holder (optional)
+ *   RENOUNCE_DEPLOYER_ROLES - Set to "true" to drop the deployer's handed-over roles
+ */
+async function main() {
+	console.log("=== Assigning Roles ===");
+
+	const [deployer] = await ethers.getSigners();
+	console.log("Deployer address:", deployer.address);
+
+	const contracts = [
+		{name: "NICWalletRegistry", address: process.env.NIC_WALLET_REGISTRY_ADDRESS},
+		{name: "NICPaymaster", address: process.env.NIC_PAYMASTER_ADDRESS},
+		{name: "ZK_ElectionContract", address: process.env.ZK_ELECTION_CONTRACT_ADDRESS},
+	].filter((contract) => contract.address);
+	if (contracts.length === 0) {
+		console.error(
+			"❌ Error: Set NIC_WALLET_REGISTRY_ADDRESS, NIC_PAYMASTER_ADDRESS or ZK_ELECTION_CONTRACT_ADDRESS"
+		);
+		process.exit(1);
+	}
+
+	const holders = getRoleHoldersFromEnv();
+	if (Object.keys(holders).length === 0) {
+		console.error(
+			"❌ Error: No role holder set, use",
+			Object.values(ROLE_HOLDER_ENV).join(", ")
+		);
+		process.exit(1);
+	}
+	const renounce = process.env.RENOUNCE_DEPLOYER_ROLES === "true";
+
+	for (const {name, address} of contracts) {
+		console.log(`\n--- ${name} (${address}) ---`);
+		const contract = await ethers.getContractAt(name, address!);
+
+		if (!(await contract.hasRole(ethers.ZeroHash, deployer.address))) {
+			console.error("❌ Error: Deployer does not hold DEFAULT_ADMIN_ROLE");
+			process.exit(1);
+		}
+
+		const changes = await assignRoles(contract, CONTRACT_ROLES[name], holders, renounce);
+		for (const change of changes) {
+			console.log(`✅ ${change.role} ${change.action} - ${change.account} (tx: ${change.transactionHash})`);
+		}
+		if (changes.length === 0) {
+			console.log("Roles already assigned");
+		}
+	}
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("❌ Failed to assign roles:", error);
+		process.exit(1);
+	});
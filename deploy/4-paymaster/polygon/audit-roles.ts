@@ -0,0 +1,49 @@
+import {ethers} from "hardhat";
+import {CONTRACT_ROLES, auditRoles} from "../../../utils/roles";
+
+/**
+ * List who holds each administrative role of the NIC contracts
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/polygon/audit-roles.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   NIC_WALLET_REGISTRY_ADDRESS - Address of deployed NICWalletRegistry (optional)
+ *   NIC_PAYMASTER_ADDRESS - Address of deployed NICPaymaster (optional)
+ *   ZK_ELECTION_CONTRACT_ADDRESS - Address of deployed ZK_ElectionContract (optional)
+ *   FROM_BLOCK - Block to read role events from, e.g. the deployment block (optional, default: 0)
+ */
+async function main() {
+	console.log("=== Auditing Roles ===");
+
+	const contracts = [
+		{name: "NICWalletRegistry", address: process.env.NIC_WALLET_REGISTRY_ADDRESS},
+		{name: "NICPaymaster", address: process.env.NIC_PAYMASTER_ADDRESS},
+		{name: "ZK_ElectionContract", address: process.env.ZK_ELECTION_CONTRACT_ADDRESS},
+	].filter((contract) => contract.address);
+	if (contracts.length === 0) {
+		console.error(
+			"❌ Error: Set NIC_WALLET_REGISTRY_ADDRESS, NIC_PAYMASTER_ADDRESS or ZK_ELECTION_CONTRACT_ADDRESS"
+		);
+		process.exit(1);
+	}
+	const fromBlock = parseInt(process.env.FROM_BLOCK || "0");
+
+	for (const {name, address} of contracts) {
+		console.log(`\n--- ${name} (${address}) ---`);
+		const contract = await ethers.getContractAt(name, address!);
+		console.log("Paused:", await contract.paused());
+
+		const audit = await auditRoles(contract, CONTRACT_ROLES[name], fromBlock);
+		for (const [role, holders] of Object.entries(audit)) {
+			console.log(`${role}:`, holders.length > 0 ? holders.join(", ") : "⚠️  nobody");
+		}
+	}
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("❌ Failed to audit roles:", error);
+		process.exit(1);
+	});
@@ -0,0 +1,121 @@
+import {ethers} from "hardhat";
+import {
+	getVoterMerkleTreePath,
+	IDENTITY_TREE_HASH_SCHEME,
+	loadVoterMerkleTree,
+} from "../../../utils/merkleTree";
+import {
+	DEFAULT_CIRCUIT_PATH,
+	generateVoteProof,
+	loadIdentitySecret,
+	loadVotingCircuit,
+	toCastAnonymousVoteArgs,
+} from "../../../utils/zkProver";
+import {toG1Point} from "../../../utils/encryptedTally";
+
+/**
+ * Cast a vote in an anonymous election
+ *
+ * The vote carries only the nullifier, the encrypted ballot and the proof, so the signer can be
+ * any relayer: the NIC, registered wallet and Merkle path never leave this machine.
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/polygon/cast-anonymous-vote.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   ZK_ELECTION_CONTRACT_ADDRESS - Address of deployed ZK_ElectionContract
+ *   ELECTION_ID - Anonymous election to vote in
+ *   CANDIDATE_INDEX - Candidate to vote for
+ *   IDENTITY_FILE - Identity secret written by register-identity-commitment.ts
+ *   VOTER_TREE_FILE - Identity tree saved by create-zk-election.ts (optional, default: voter-trees/election-<id>.json)
+ *   VOTING_CIRCUIT_PATH - Compiled voting circuit (optional, default: circuits/voting-circuit/target/voting-circuit.json)
+ */
+async function main() {
+	console.log("=== Casting Anonymous Vote ===");
+
+	const [relayer] = await ethers.getSigners();
+	console.log("Relayer address:", relayer.address);
+
+	const zkElectionAddress = process.env.ZK_ELECTION_CONTRACT_ADDRESS;
+	const identityFile = process.env.IDENTITY_FILE;
+	if (
+		!zkElectionAddress ||
+		!process.env.ELECTION_ID ||
+		!process.env.CANDIDATE_INDEX ||
+		!identityFile
+	) {
+		console.error(
+			"❌ Error: ZK_ELECTION_CONTRACT_ADDRESS, ELECTION_ID, CANDIDATE_INDEX and IDENTITY_FILE are required"
+		);
+		process.exit(1);
+	}
+
+	const electionId = parseInt(process.env.ELECTION_ID);
+	const candidateIndex = parseInt(process.env.CANDIDATE_INDEX);
+
+	const identitySecret = loadIdentitySecret(identityFile);
+	if (!identitySecret) {
+		console.error("❌ Error: Identity secret not found at", identityFile);
+		process.exit(1);
+	}
+
+	const ZKElectionContract = await ethers.getContractFactory(
+		"ZK_ElectionContract"
+	);
+	const zkElection = ZKElectionContract.attach(zkElectionAddress);
+
+	const [election, candidates] = await zkElection.getElectionData(electionId);
+	console.log("Election Title:", election.electionTitle);
+	if (!election.anonymousEligibility) {
+		console.error("❌ Error: Election does not accept anonymous votes");
+		process.exit(1);
+	}
+
+	// The saved identity tree must match the root the election verifies against
+	console.log("\n--- Loading Identity Tree ---");
+	const treeFile =
+		process.env.VOTER_TREE_FILE || getVoterMerkleTreePath(electionId);
+	const {tree, hashScheme} = loadVoterMerkleTree(treeFile);
+	if (hashScheme !== IDENTITY_TREE_HASH_SCHEME) {
+		console.error("❌ Error: Voter tree is not an identity tree:", treeFile);
+		process.exit(1);
+	}
+	if (tree.getHexRoot() !== election.votersMerkleRoot) {
+		console.error("❌ Merkle root mismatch!");
+		process.exit(1);
+	}
+	console.log("✅ Identity tree verified:", treeFile);
+
+	console.log("\n--- Generating ZK Proof ---");
+	const voteProof = await generateVoteProof(
+		{
+			identitySecret,
+			electionId,
+			candidateIndex,
+			candidateCount: candidates.length,
+			tree,
+			tallyPublicKey: toG1Point(election.tallyPublicKey),
+			chainId: (await ethers.provider.getNetwork()).chainId,
+			electionContract: zkElectionAddress,
+		},
+		loadVotingCircuit(process.env.VOTING_CIRCUIT_PATH || DEFAULT_CIRCUIT_PATH)
+	);
+	console.log("Commitment:", voteProof.commitment);
+	console.log("Nullifier Hash:", voteProof.nullifierHash);
+	console.log("✅ Proof generated");
+
+	console.log("\n--- Casting Vote ---");
+	const tx = await zkElection.castAnonymousVote(...toCastAnonymousVoteArgs(voteProof));
+	const receipt = await tx.wait();
+	console.log("Transaction hash:", tx.hash);
+	console.log("Gas used:", receipt?.gasUsed.toString());
+
+	console.log("\n✅ Anonymous vote cast (only the election totals are ever decrypted)");
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error(error);
+		process.exit(1);
+	});
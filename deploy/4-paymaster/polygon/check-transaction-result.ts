@@ -33,7 +33,11 @@ async function main() {
 			});
 			if (parsed) {
 				console.log("\n✅ Paymaster Event:", parsed.name);
-				if (parsed.name === "TemporaryWalletTransactionExecuted") {
+				// Session votes are the session wallet's own meta-transactions
+				if (
+					parsed.name === "MetaTransactionExecuted" ||
+					parsed.name === "TemporaryWalletTransactionExecuted"
+				) {
 					console.log("Success:", parsed.args.success);
 					console.log("Return Data:", parsed.args.returnData);
 					if (!parsed.args.success) {
@@ -1,8 +1,4 @@
 import {ethers} from "hardhat";
-import {
-	generateVoterSecret,
-	computeNullifier,
-} from "../../../utils/merkleTree";
 
 /**
  * Check if a user has already voted in an election
@@ -14,6 +10,7 @@ import {
  *   ZK_ELECTION_CONTRACT_ADDRESS - Address of ZK Election Contract
  *   ELECTION_ID - Election ID (default: 0)
  *   VOTER_NIC - NIC number of the voter to check
+ *   NIC_WALLET_REGISTRY_ADDRESS - Address of NICWalletRegistry (optional)
  */
 async function main() {
 	console.log("=== Checking Voting Status ===\n");
@@ -54,61 +51,50 @@ async function main() {
 		Math.floor(Date.now() / 1000) <= Number(election.endDate)
 	);
 
-	// Get candidate information using checkResult
-	const candidates = await zkElection.checkResult(electionId);
+	// Candidate results are only available once the tally is finalized
 	console.log("\n=== Candidate Results ===");
-	candidates.forEach((candidate: any, i: number) => {
-		console.log(`Candidate ${i} (${candidate.name}): ${candidate.voteCount.toString()} votes`);
-	});
+	if (election.tallyFinalized) {
+		const candidates = await zkElection.checkResult(electionId);
+		candidates.forEach((candidate: any, i: number) => {
+			console.log(`Candidate ${i} (${candidate.name}): ${candidate.voteCount.toString()} votes`);
+		});
+	} else {
+		console.log("Tally not published yet (run tally-zk-election.ts after the end date)");
+	}
 
-	// Check if voter has voted using nullifier
+	// Wallet votes are recorded per registered wallet: the nullifier comes from a random voter
+	// secret, so it cannot be recomputed from the NIC
 	console.log("\n=== Checking Voter Status ===");
 	console.log("Voter NIC:", voterNIC);
-	
-	// Generate nullifier hash (same as what would be used when voting)
-	const voterSecret = generateVoterSecret(voterNIC, electionId);
-	const nullifierHash = computeNullifier(voterSecret, electionId);
-	
-	console.log("Voter Secret:", voterSecret);
-	console.log("Nullifier Hash:", nullifierHash);
 
-	// Check if nullifier has been used
-	const nullifierUsed = await zkElection.nullifiers(electionId, nullifierHash);
-	
-	if (nullifierUsed) {
+	const NICWalletRegistry = await ethers.getContractFactory("NICWalletRegistry");
+	const nicRegistry = NICWalletRegistry.attach(
+		process.env.NIC_WALLET_REGISTRY_ADDRESS || "0x24D2Caf2fd29D503e72AdD19a5c56C2452d2e5C1"
+	);
+
+	const registeredWallet = await nicRegistry.getWalletByNIC(voterNIC);
+	if (registeredWallet === ethers.ZeroAddress) {
+		console.log("⚠️  NIC not registered in NICWalletRegistry");
+		return;
+	}
+	console.log("Registered Wallet:", registeredWallet);
+
+	const walletVoted = await zkElection.hasVoted(electionId, registeredWallet);
+	if (walletVoted) {
 		console.log("\n✅ STATUS: This voter HAS ALREADY VOTED");
-		console.log("⚠️  The nullifier hash has been used, preventing double voting");
+		console.log("⚠️  The registered wallet has voted, preventing double voting");
 	} else {
 		console.log("\n✅ STATUS: This voter HAS NOT VOTED YET");
-		console.log("✅ The nullifier hash is available, voter can cast a vote");
-	}
-
-	// Additional checks
-	console.log("\n=== Additional Information ===");
-	
-	// Get registered wallet for this NIC
-	const NICWalletRegistry = await ethers.getContractFactory("NICWalletRegistry");
-	const nicRegistry = NICWalletRegistry.attach("0x24D2Caf2fd29D503e72AdD19a5c56C2452d2e5C1");
-	
-	try {
-		const registeredWallet = await nicRegistry.getWalletByNIC(voterNIC);
-		if (registeredWallet !== ethers.ZeroAddress) {
-			console.log("Registered Wallet:", registeredWallet);
-			console.log("Wallet is registered: ✅");
-		} else {
-			console.log("⚠️  NIC not registered in NICWalletRegistry");
-		}
-	} catch (error) {
-		console.log("⚠️  Could not check NIC registration");
+		console.log("✅ The registered wallet can cast a vote");
 	}
 
 	console.log("\n=== Summary ===");
 	console.log("Election ID:", electionId);
 	console.log("Total Votes Cast:", election.totalVotes.toString());
 	console.log("Voter NIC:", voterNIC);
-	console.log("Has Voted:", nullifierUsed ? "✅ YES" : "❌ NO");
+	console.log("Has Voted:", walletVoted ? "✅ YES" : "❌ NO");
 	console.log("\n💡 Note: In ZK voting, individual votes are private.");
-	console.log("   We can only check if a specific voter has voted using their nullifier hash.");
+	console.log("   We can only check whether a registered wallet has voted in a wallet election.");
 	console.log("   The actual vote choice remains hidden.");
 }
 
@@ -0,0 +1,94 @@
+import {ethers} from "hardhat";
+import {applySponsorshipPolicy, getSponsorshipPolicyFromEnv} from "../../../utils/sponsorshipPolicy";
+
+/**
+ * Configure which calls the NICPaymaster sponsors
+ *
+ * NICPaymaster only sponsors registered wallets (and their session wallets) calling allowlisted
+ * targets (or functions of a target). deploy-nic-system.ts and deploy-nic-paymaster.ts apply the
+ * same ZK_ELECTION_CONTRACT_ADDRESS and SPONSORED_TARGETS allowlists at deployment; this script
+ * changes the policy of a deployed paymaster. Calls rejected by the policy emit WalletNotRegistered,
+ * TargetNotSponsored, DailyCallQuotaExceeded or ElectionSpendingCapReached.
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/polygon/configure-sponsorship-policy.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   NIC_PAYMASTER_ADDRESS - Address of deployed NICPaymaster
+ *   ZK_ELECTION_CONTRACT_ADDRESS - Election contract whose castVoteWithNIC/castVoteWithNICHash are sponsored (optional)
+ *   SPONSORED_TARGETS - Comma-separated contracts whose every function is sponsored (optional)
+ *   DAILY_CALL_QUOTA - Sponsored calls per registered wallet per day, 0 for no quota (optional)
+ *   ELECTION_ID - Election to cap (optional, requires ZK_ELECTION_CONTRACT_ADDRESS)
+ *   ELECTION_SPENDING_CAP - Spending cap of ELECTION_ID in ETH, 0 for no cap (optional)
+ */
+async function main() {
+	console.log("=== Configuring NICPaymaster Sponsorship Policy ===");
+
+	const [deployer] = await ethers.getSigners();
+	console.log("Deployer address:", deployer.address);
+
+	const nicPaymasterAddress = process.env.NIC_PAYMASTER_ADDRESS;
+	if (!nicPaymasterAddress) {
+		console.error("❌ Error: NIC_PAYMASTER_ADDRESS is required");
+		process.exit(1);
+	}
+
+	const NICPaymaster = await ethers.getContractFactory("NICPaymaster");
+	const nicPaymaster = NICPaymaster.attach(nicPaymasterAddress);
+
+	const isTreasurer = await nicPaymaster.hasRole(
+		await nicPaymaster.TREASURER_ROLE(),
+		deployer.address
+	);
+	if (!isTreasurer) {
+		console.error("❌ Error: Deployer does not hold the paymaster's TREASURER_ROLE");
+		process.exit(1);
+	}
+
+	const ZKElectionContract = await ethers.getContractFactory("ZK_ElectionContract");
+	const policy = getSponsorshipPolicyFromEnv(ZKElectionContract.interface);
+	const electionAddress = policy.electionContract?.address;
+	if (policy.electionContract) {
+		console.log("\n--- Sponsoring Session Votes ---");
+		console.log("Sponsored selectors:", policy.electionContract.voteSelectors.join(", "));
+	}
+	for (const target of policy.targets) {
+		console.log("Sponsored target:", target);
+	}
+	for (const hash of await applySponsorshipPolicy(nicPaymaster, policy)) {
+		console.log("✅ Policy transaction:", hash);
+	}
+
+	if (process.env.DAILY_CALL_QUOTA !== undefined) {
+		const quota = parseInt(process.env.DAILY_CALL_QUOTA);
+		const tx = await nicPaymaster.setDailyCallQuota(quota);
+		await tx.wait();
+		console.log("✅ Daily call quota per wallet:", quota, "- tx:", tx.hash);
+	}
+
+	if (process.env.ELECTION_ID !== undefined && process.env.ELECTION_SPENDING_CAP !== undefined) {
+		if (!electionAddress) {
+			console.error("❌ Error: ELECTION_ID requires ZK_ELECTION_CONTRACT_ADDRESS");
+			process.exit(1);
+		}
+		const cap = ethers.parseEther(process.env.ELECTION_SPENDING_CAP);
+		const tx = await nicPaymaster.setElectionSpendingCap(
+			electionAddress,
+			process.env.ELECTION_ID,
+			cap
+		);
+		await tx.wait();
+		console.log(
+			`✅ Election ${process.env.ELECTION_ID} spending cap: ${ethers.formatEther(cap)} ETH - tx: ${tx.hash}`
+		);
+	}
+
+	console.log("\n✅ Sponsorship policy configured");
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error(error);
+		process.exit(1);
+	});
@@ -19,17 +19,16 @@ async function main() {
 		ELECTION_CONTRACT_ADDRESS
 	);
 
-	// Verify we're the owner
-	const owner = await ElectionContract.owner();
-	console.log("Contract owner:", owner);
-	console.log(
-		"Deployer is owner:",
-		owner.toLowerCase() === deployer.address.toLowerCase()
+	// Verify we're an election admin
+	const isElectionAdmin = await ElectionContract.hasRole(
+		await ElectionContract.ELECTION_ADMIN_ROLE(),
+		deployer.address
 	);
+	console.log("Deployer holds ELECTION_ADMIN_ROLE:", isElectionAdmin);
 
-	if (owner.toLowerCase() !== deployer.address.toLowerCase()) {
-		console.error("❌ Error: Deployer is not the contract owner!");
-		console.error("Please use the owner account to create elections.");
+	if (!isElectionAdmin) {
+		console.error("❌ Error: Deployer is not an election admin!");
+		console.error("Please use an ELECTION_ADMIN_ROLE account to create elections.");
 		process.exit(1);
 	}
 
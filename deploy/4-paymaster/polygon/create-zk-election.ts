@@ -1,8 +1,18 @@
 import {ethers} from "hardhat";
 import {
+	createIdentityMerkleTree,
 	createVoterMerkleTree,
 	getRegisteredWalletsFromNICs,
+	getVoterMerkleTreePath,
+	IDENTITY_TREE_HASH_SCHEME,
+	saveVoterMerkleTree,
+	VOTER_TREE_HASH_SCHEME,
 } from "../../../utils/merkleTree";
+import {
+	generateTallyKeyPair,
+	getTallyKeyPath,
+	saveTallyKeyPair,
+} from "../../../utils/encryptedTally";
 
 /**
  * Create a ZK-enabled election with Merkle tree of eligible voters
@@ -12,7 +22,13 @@ import {
  *
  * Environment variables:
  *   ZK_ELECTION_CONTRACT_ADDRESS - Address of deployed ZK_ElectionContract
+ *   VOTER_NICS - Comma-separated list of voter NIC numbers (optional)
+ *   NIC_HASH_SALT - NIC hash salt of the deployment, used to look up VOTER_NICS by salted hash (optional)
  *   VOTER_ADDRESSES - Comma-separated list of voter addresses (optional, uses test addresses if not provided)
+ *   VOTER_TREE_FILE - Where to save the voter Merkle tree (optional, default: voter-trees/election-<id>.json)
+ *   ANONYMOUS_ELECTION - Set to "true" to build the root from the identity commitments registered in
+ *                        NICWalletRegistry (votes are cast with castAnonymousVote, no NIC or wallet on-chain)
+ *   TALLY_KEY_FILE - Where to save the tally key pair (optional, default: tally-keys/election-<id>.json)
  */
 async function main() {
 	console.log("=== Creating ZK Election ===");
@@ -43,15 +59,14 @@ async function main() {
 	const zkElection = ZKElectionContract.attach(zkElectionAddress);
 
 	// Verify contract
-	const owner = await zkElection.owner();
-	console.log("Contract owner:", owner);
-	console.log(
-		"Deployer is owner:",
-		owner.toLowerCase() === deployer.address.toLowerCase()
+	const isElectionAdmin = await zkElection.hasRole(
+		await zkElection.ELECTION_ADMIN_ROLE(),
+		deployer.address
 	);
+	console.log("Deployer holds ELECTION_ADMIN_ROLE:", isElectionAdmin);
 
-	if (owner.toLowerCase() !== deployer.address.toLowerCase()) {
-		console.error("❌ Error: Deployer is not the contract owner");
+	if (!isElectionAdmin) {
+		console.error("❌ Error: Deployer is not an election admin");
 		process.exit(1);
 	}
 
@@ -60,24 +75,33 @@ async function main() {
 	console.log("NICWalletRegistry address:", nicRegistryAddress);
 
 	// Connect to NICWalletRegistry
-	const NICWalletRegistry = await ethers.getContractFactory(
-		"NICWalletRegistry"
-	);
-	const nicRegistry = NICWalletRegistry.attach(nicRegistryAddress);
+	const nicRegistry = await ethers.getContractAt("NICWalletRegistry", nicRegistryAddress);
 
 	// Get voter list - support both NIC numbers and addresses
+	const anonymous = process.env.ANONYMOUS_ELECTION === "true";
 	const voterNICsEnv = process.env.VOTER_NICS;
 	const voterAddressesEnv = process.env.VOTER_ADDRESSES;
-	let voterAddresses: string[];
+	let voterAddresses: string[] = [];
+	let identityCommitments: string[] = [];
 
-	if (voterNICsEnv) {
+	if (anonymous) {
+		// Anonymous elections: leaves are identity commitments of active wallets
+		console.log("\n--- Getting Identity Commitments ---");
+		identityCommitments = [...(await nicRegistry.getActiveIdentityCommitments())];
+		console.log("Identity commitments:", identityCommitments.length);
+		if (identityCommitments.length === 0) {
+			console.error("❌ Error: No identity commitments registered");
+			process.exit(1);
+		}
+	} else if (voterNICsEnv) {
 		// Get registered wallets from NIC numbers
 		console.log("\n--- Getting Registered Wallets from NIC Numbers ---");
 		const nicNumbers = voterNICsEnv.split(",").map((nic) => nic.trim());
 		console.log("NIC Numbers:", nicNumbers.length);
 		voterAddresses = await getRegisteredWalletsFromNICs(
 			nicNumbers,
-			nicRegistry
+			nicRegistry,
+			process.env.NIC_HASH_SALT
 		);
 		console.log(
 			"✅ Retrieved registered wallet addresses:",
@@ -114,9 +138,14 @@ async function main() {
 	const electionId = Number(currentElectionCount);
 
 	console.log("\n--- Creating Merkle Tree ---");
-	const {root} = createVoterMerkleTree(voterAddresses, electionId);
-	console.log("Merkle root:", root);
-	console.log("Number of voters:", voterAddresses.length);
+	const {tree, root} = anonymous
+		? createIdentityMerkleTree(identityCommitments, electionId)
+		: createVoterMerkleTree(voterAddresses, electionId);
+	console.log("Merkle root:", tree.getHexRoot());
+	console.log(
+		"Number of voters:",
+		anonymous ? identityCommitments.length : voterAddresses.length
+	);
 
 	// Election parameters
 	const electionTitle =
@@ -154,16 +183,31 @@ async function main() {
 		console.log(`  ${i + 1}. ${c.name} (${c.party || "Independent"})`);
 	});
 
+	// Ballots are encrypted under the tally public key; the key pair stays offline with the
+	// election admin and is only used by tally-zk-election.ts to decrypt the totals
+	console.log("\n--- Generating Tally Key ---");
+	const tallyKeyPair = generateTallyKeyPair();
+	const tallyKeyFile = saveTallyKeyPair(
+		tallyKeyPair,
+		process.env.TALLY_KEY_FILE || getTallyKeyPath(electionId)
+	);
+	console.log("✅ Tally key pair saved to:", tallyKeyFile);
+
 	// Create election
 	console.log("\n--- Creating Election ---");
+	console.log("Eligibility:", anonymous ? "identity commitments (anonymous)" : "registered wallets");
 	try {
-		const createTx = await zkElection.createElection(
+		const createElection = anonymous
+			? zkElection.createAnonymousElection
+			: zkElection.createElection;
+		const createTx = await createElection(
 			electionTitle,
 			electionDescription,
 			startDate,
 			endDate,
 			candidates,
-			root
+			root,
+			tallyKeyPair.publicKey
 		);
 
 		console.log("Transaction hash:", createTx.hash);
@@ -180,11 +224,24 @@ async function main() {
 		console.log("Voters Merkle Root:", election.votersMerkleRoot);
 		console.log("Total Votes:", election.totalVotes.toString());
 
+		// Save the tree so proofs can be reproduced and the root audited later
+		const treeFile = saveVoterMerkleTree(
+			tree,
+			electionId,
+			process.env.VOTER_TREE_FILE || getVoterMerkleTreePath(electionId),
+			anonymous ? IDENTITY_TREE_HASH_SCHEME : VOTER_TREE_HASH_SCHEME
+		);
+		console.log("✅ Voter Merkle tree saved to:", treeFile);
+
 		const electionInfo = {
 			electionId: electionId.toString(),
 			title: election.electionTitle,
 			merkleRoot: election.votersMerkleRoot,
+			voterTreeFile: treeFile,
+			tallyKeyFile: tallyKeyFile,
+			anonymousEligibility: anonymous,
 			voterAddresses: voterAddresses,
+			identityCommitments: identityCommitments,
 			candidates: candidates,
 			startDate: Number(startDate),
 			endDate: Number(endDate),
@@ -197,12 +254,19 @@ async function main() {
 		console.log("\n📋 Save this information:");
 		console.log("Election ID:", electionId);
 		console.log("Merkle Root:", election.votersMerkleRoot);
-		console.log("Voter Addresses:", voterAddresses.join(", "));
+		if (!anonymous) {
+			console.log("Voter Addresses:", voterAddresses.join(", "));
+		}
 
 		console.log("\n🎯 Next Steps:");
 		console.log("1. Voters can now generate ZK proofs");
-		console.log("2. Use castVote() with ZK proof to vote");
-		console.log("3. Results will be private but verifiable");
+		console.log(
+			anonymous
+				? "2. Use cast-anonymous-vote.ts (castAnonymousVote) to vote"
+				: "2. Use castVote() with ZK proof to vote"
+		);
+		console.log("3. After the end date, run tally-zk-election.ts to publish the results");
+		console.log("⚠️  Keep the tally key file private: it can decrypt individual ballots");
 	} catch (error) {
 		console.error("❌ Failed to create election:", error);
 		process.exit(1);
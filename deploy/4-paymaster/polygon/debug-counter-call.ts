@@ -1,4 +1,11 @@
 import {ethers} from "hardhat";
+import {
+	getPaymasterDomain,
+	getValidityWindow,
+	signMetaTransaction,
+} from "../../../utils/paymasterSigner";
+import {computeLegacyNICHash} from "../../../utils/nicHash";
+import {ensureSponsored} from "../../../utils/sponsorshipPolicy";
 
 // Contract addresses
 const NIC_REGISTRY_ADDRESS = "0x24D2Caf2fd29D503e72AdD19a5c56C2452d2e5C1";
@@ -28,6 +35,15 @@ async function main() {
 	);
 	const counter = await ethers.getContractAt("SimpleCounter", COUNTER_ADDRESS);
 
+	// Sessions may only call the counter (plaintext-NIC registrations use the legacy NIC hash)
+	const {chainId} = await ethers.provider.getNetwork();
+	const counterOnly = {allowedTargets: [COUNTER_ADDRESS], allowedSelectors: [], maxCalls: 0};
+
+	// The paymaster only relays calls its sponsorship policy allows
+	if (await ensureSponsored(nicPaymaster, COUNTER_ADDRESS)) {
+		console.log("✅ SimpleCounter added to the paymaster's sponsored targets");
+	}
+
 	try {
 		// Check initial state
 		console.log("\n--- Initial State ---");
@@ -42,10 +58,11 @@ async function main() {
 		console.log("Temporary wallet:", tempWallet.address);
 
 		// Create session
-		const sessionTx = await registry.createSession(
-			TEST_NIC,
+		const sessionTx = await registry.createScopedSessionByHash(
+			computeLegacyNICHash(TEST_NIC, chainId),
 			tempWallet.address,
-			24 * 3600
+			24 * 3600,
+			counterOnly
 		);
 		await sessionTx.wait();
 		console.log("✅ Session created");
@@ -66,6 +83,8 @@ async function main() {
 		console.log("Function data:", functionData);
 
 		// Try different approaches
+		// SimpleCounter only trusts its forwarder (NICPaymaster), so executeOnBehalf is expected to
+		// fail with "Caller is not the user": the counter sees the registry as the caller
 		console.log("\n--- Approach 1: Direct executeOnBehalf ---");
 		try {
 			const tempWalletConnected = tempWallet.connect(ethers.provider);
@@ -104,6 +123,8 @@ async function main() {
 					counter.target,
 					0,
 					functionData,
+					0, // dummy validAfter
+					ethers.MaxUint256, // dummy validUntil
 					"0x" // dummy signature
 				);
 			console.log("✅ executeTemporaryWalletTransaction exists");
@@ -119,22 +140,19 @@ async function main() {
 		try {
 			const tempWalletConnected = tempWallet.connect(ethers.provider);
 
-			// Create signature for executeMetaTransactionWithUser
-			const nonce = await nicPaymaster.getNonce(REGISTERED_WALLET);
-			const messageHash = ethers.solidityPackedKeccak256(
-				["address", "address", "uint256", "bytes", "uint256", "address"],
-				[
-					REGISTERED_WALLET,
-					counter.target,
-					0,
-					functionData,
-					nonce,
-					nicPaymaster.target,
-				]
-			);
-
-			const signature = await tempWalletConnected.signMessage(
-				ethers.getBytes(messageHash)
+			// Create EIP-712 signature for executeMetaTransactionWithUser
+			const request = {
+				user: REGISTERED_WALLET,
+				target: await counter.getAddress(),
+				value: 0,
+				data: functionData,
+				nonce: await nicPaymaster.getNonce(REGISTERED_WALLET),
+				...(await getValidityWindow(ethers.provider)),
+			};
+			const signature = await signMetaTransaction(
+				tempWalletConnected,
+				await getPaymasterDomain(nicPaymaster),
+				request
 			);
 
 			const tx3 = await nicPaymaster
@@ -145,6 +163,8 @@ async function main() {
 					0,
 					"0x5f299717", // incrementForUser selector
 					"0x", // additional data
+					request.validAfter,
+					request.validUntil,
 					signature
 				);
 			await tx3.wait();
@@ -1,4 +1,10 @@
 import {ethers} from "hardhat";
+import {
+	createTemporaryWalletTransaction,
+	toTemporaryWalletTransactionArgs,
+} from "../../../utils/paymasterSigner";
+import {computeLegacyNICHash} from "../../../utils/nicHash";
+import {ensureSponsored} from "../../../utils/sponsorshipPolicy";
 
 // Contract addresses
 const NIC_REGISTRY_ADDRESS = "0x26c3f229bc85a514FA439567BE41728Ca333A83a";
@@ -33,6 +39,15 @@ async function main() {
 	);
 	const counter = await ethers.getContractAt("SimpleCounter", COUNTER_ADDRESS);
 
+	// Sessions may only call the counter (plaintext-NIC registrations use the legacy NIC hash)
+	const {chainId} = await ethers.provider.getNetwork();
+	const counterOnly = {allowedTargets: [COUNTER_ADDRESS], allowedSelectors: [], maxCalls: 0};
+
+	// The paymaster only relays calls its sponsorship policy allows
+	if (await ensureSponsored(paymaster, COUNTER_ADDRESS)) {
+		console.log("✅ SimpleCounter added to the paymaster's sponsored targets");
+	}
+
 	// Step 1: Register the original wallet with NIC
 	const nicNumber = "TEST123456789";
 	console.log("\n--- Step 1: Register NIC Account ---");
@@ -54,10 +69,11 @@ async function main() {
 	const temporaryWallet = ethers.Wallet.createRandom().connect(ethers.provider);
 	console.log("Temporary Wallet:", temporaryWallet.address);
 
-	const sessionTx = await registry.connect(originalWallet).createSession(
-		nicNumber,
+	const sessionTx = await registry.connect(originalWallet).createScopedSessionByHash(
+		computeLegacyNICHash(nicNumber, chainId),
 		temporaryWallet.address,
-		3600 // 1 hour
+		3600, // 1 hour
+		counterOnly
 	);
 	await sessionTx.wait();
 	console.log(
@@ -82,12 +98,6 @@ async function main() {
 	// Step 4: Use temporary wallet to act as the NIC account
 	console.log("\n--- Step 4: Temporary Wallet Acting as NIC Account ---");
 
-	// Get nonce for temporary wallet
-	const tempWalletNonce = await paymaster.getTempWalletNonce(
-		temporaryWallet.address
-	);
-	console.log("Temporary wallet nonce:", tempWalletNonce.toString());
-
 	// Create function data for incrementForUser
 	const counterInterface = new ethers.Interface([
 		"function incrementForUser(address originalUser) external",
@@ -96,24 +106,17 @@ async function main() {
 		originalWallet.address,
 	]);
 
-	// Create message hash for temporary wallet to sign
-	const messageHash = ethers.solidityPackedKeccak256(
-		["address", "address", "address", "uint256", "bytes", "uint256", "address"],
-		[
-			originalWallet.address, // original wallet (NIC account)
-			temporaryWallet.address, // temporary wallet (signer)
-			COUNTER_ADDRESS, // target contract
-			0, // value
-			functionData, // function data
-			tempWalletNonce, // nonce
-			NIC_PAYMASTER_ADDRESS, // paymaster address
-		]
-	);
-
-	// Sign with temporary wallet
-	const signature = await temporaryWallet.signMessage(
-		ethers.getBytes(messageHash)
-	);
+	// Sign the EIP-712 request with the temporary wallet
+	const {request, signature} = await createTemporaryWalletTransaction(
+		paymaster,
+		temporaryWallet,
+		{
+			originalWallet: originalWallet.address, // original wallet (gets the credit)
+			target: COUNTER_ADDRESS, // target contract
+			data: functionData, // function data
+		}
+	);
+	console.log("Temporary wallet nonce:", request.nonce.toString());
 	console.log("✅ Transaction signed by temporary wallet");
 
 	// Execute transaction through paymaster (relayer pays gas)
@@ -121,12 +124,7 @@ async function main() {
 
 	console.log("Executing transaction...");
 	const tx = await paymasterWithRelayer.executeTemporaryWalletTransaction(
-		originalWallet.address, // original wallet (gets the credit)
-		temporaryWallet.address, // temporary wallet (signs the transaction)
-		COUNTER_ADDRESS, // target contract
-		0, // value
-		functionData, // function data
-		signature // temporary wallet's signature
+		...toTemporaryWalletTransactionArgs(request, signature)
 	);
 
 	const receipt = await tx.wait();
@@ -19,13 +19,12 @@ async function main() {
 	const electionContractAddress = await electionContract.getAddress();
 	console.log("✅ ElectionContract deployed at:", electionContractAddress);
 
-	// Verify owner
-	const owner = await electionContract.owner();
-	console.log("Contract owner:", owner);
-	console.log(
-		"Deployer matches owner:",
-		owner.toLowerCase() === deployer.address.toLowerCase()
+	// Verify roles
+	const isElectionAdmin = await electionContract.hasRole(
+		await electionContract.ELECTION_ADMIN_ROLE(),
+		deployer.address
 	);
+	console.log("Deployer holds ELECTION_ADMIN_ROLE:", isElectionAdmin);
 
 	// Check initial election count
 	const electionCount = await electionContract.electionCount();
@@ -33,13 +32,16 @@ async function main() {
 
 	console.log("\n=== Deployment Summary ===");
 	console.log("ElectionContract:", electionContractAddress);
-	console.log("Owner:", owner);
+	console.log(
+		"Deployer holds DEFAULT_ADMIN_ROLE:",
+		await electionContract.hasRole(await electionContract.DEFAULT_ADMIN_ROLE(), deployer.address)
+	);
 	console.log("Network:", hre.network.name);
 
 	console.log("\n🎯 Next steps:");
 	console.log("1. Save the contract address:", electionContractAddress);
 	console.log(
-		"2. Use createElection() function to create elections (only owner)"
+		"2. Use createElection() function to create elections (ELECTION_ADMIN_ROLE only)"
 	);
 	console.log("3. Use vote() function to cast votes during election period");
 	console.log("4. Use checkResult() to view election results");
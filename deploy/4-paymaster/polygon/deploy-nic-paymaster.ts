@@ -1,5 +1,13 @@
 import {ethers} from "hardhat";
+import {applySponsorshipPolicy, getSponsorshipPolicyFromEnv} from "../../../utils/sponsorshipPolicy";
 
+/**
+ * Deploy and fund a NICPaymaster for an existing NICWalletRegistry
+ *
+ * Environment variables:
+ *   ZK_ELECTION_CONTRACT_ADDRESS - Election contract whose session votes the paymaster sponsors (optional)
+ *   SPONSORED_TARGETS - Comma-separated contracts whose every function the paymaster sponsors (optional)
+ */
 async function main() {
 	console.log("=== Deploying Updated NICPaymaster ===");
 
@@ -22,6 +30,18 @@ async function main() {
 	const nicPaymasterAddress = await nicPaymaster.getAddress();
 	console.log("✅ NICPaymaster deployed at:", nicPaymasterAddress);
 
+	// Allowlist the calls the paymaster sponsors (it rejects everything else)
+	console.log("\n--- Configuring Sponsorship Policy ---");
+	const ZKElectionContract = await ethers.getContractFactory("ZK_ElectionContract");
+	const policy = getSponsorshipPolicyFromEnv(ZKElectionContract.interface);
+	await applySponsorshipPolicy(nicPaymaster, policy);
+	if (policy.electionContract) {
+		console.log("✅ Session votes sponsored on:", policy.electionContract.address);
+	}
+	for (const target of policy.targets) {
+		console.log("✅ Sponsored target:", target);
+	}
+
 	// Fund the paymaster with ETH for gasless transactions
 	console.log("\n--- Funding NICPaymaster ---");
 	const fundTx = await deployer.sendTransaction({
@@ -43,6 +63,11 @@ async function main() {
 	console.log("Deployer:", deployer.address);
 
 	console.log("\n🎉 NICPaymaster deployed and funded successfully!");
+	if (!policy.electionContract && policy.targets.length === 0) {
+		console.log(
+			"⚠️  The paymaster sponsors no calls yet - set ZK_ELECTION_CONTRACT_ADDRESS or SPONSORED_TARGETS, or run configure-sponsorship-policy.ts"
+		);
+	}
 	console.log(
 		"Update your test file with the new address:",
 		nicPaymasterAddress
@@ -1,5 +1,17 @@
 import {ethers} from "hardhat";
-
+import {applySponsorshipPolicy, getSponsorshipPolicyFromEnv} from "../../../utils/sponsorshipPolicy";
+
+/**
+ * Deploy the NICWalletRegistry and NICPaymaster
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/polygon/deploy-nic-system.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   IDENTITY_ISSUER_ADDRESS - Identity authority allowed to attest wallet registrations (optional)
+ *   ZK_ELECTION_CONTRACT_ADDRESS - Election contract whose session votes the paymaster sponsors (optional)
+ *   SPONSORED_TARGETS - Comma-separated contracts whose every function the paymaster sponsors (optional)
+ */
 async function main() {
 	console.log("=== Deploying NIC Wallet System ===");
 
@@ -30,6 +42,32 @@ async function main() {
 	const paymasterAddress = await paymaster.getAddress();
 	console.log("NIC Paymaster deployed to:", paymasterAddress);
 
+	// Let the paymaster relay votes as an ERC-2771 forwarder (ZK_ElectionContract.isTrustedForwarder)
+	// and count the calls of temporary wallets against their session permissions (useSessionCall)
+	const trustTx = await registry.setTrustedPaymaster(paymasterAddress, true);
+	await trustTx.wait();
+	console.log("✅ NIC Paymaster trusted by the registry");
+
+	// Let the identity authority's attestations register wallets (registerWalletWithAttestation)
+	const identityIssuer = process.env.IDENTITY_ISSUER_ADDRESS;
+	if (identityIssuer) {
+		const issuerTx = await registry.setIdentityIssuer(identityIssuer, true);
+		await issuerTx.wait();
+		console.log("✅ Identity issuer authorized:", identityIssuer);
+	}
+
+	// Allowlist the calls the paymaster sponsors (it rejects everything else)
+	console.log("\n--- Configuring Sponsorship Policy ---");
+	const ZKElectionContract = await ethers.getContractFactory("ZK_ElectionContract");
+	const policy = getSponsorshipPolicyFromEnv(ZKElectionContract.interface);
+	await applySponsorshipPolicy(paymaster, policy);
+	if (policy.electionContract) {
+		console.log("✅ Session votes sponsored on:", policy.electionContract.address);
+	}
+	for (const target of policy.targets) {
+		console.log("✅ Sponsored target:", target);
+	}
+
 	// Fund the paymaster with some ETH for gas
 	console.log("\n--- Funding Paymaster ---");
 	const fundAmount = ethers.parseEther("0.1"); // 0.1 ETH
@@ -131,6 +169,14 @@ async function main() {
 	console.log("Save these addresses for your frontend:");
 	console.log("NIC_WALLET_REGISTRY_ADDRESS =", registryAddress);
 	console.log("NIC_PAYMASTER_ADDRESS =", paymasterAddress);
+	if (!policy.electionContract && policy.targets.length === 0) {
+		console.log(
+			"⚠️  The paymaster sponsors no calls yet - set ZK_ELECTION_CONTRACT_ADDRESS or SPONSORED_TARGETS, or run configure-sponsorship-policy.ts"
+		);
+	}
+	console.log(
+		"⚠️  The deployer holds every role - hand them out with assign-roles.ts"
+	);
 
 	return {
 		registry: registryAddress,
@@ -1,110 +1,76 @@
 import {ethers} from "hardhat";
 import hre from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
+import type {IVerifier} from "../../../typechain-types";
 
 /**
  * Deploy Real ZK Verifier Contract
- * 
- * This script deploys the RealZKVerifier which performs cryptographic validation.
- * For full ZK verification, compile the Noir circuit and use the generated verifier.
- * 
+ *
+ * This script deploys UltraVerifier, the UltraPlonk verifier Barretenberg generates for
+ * the voting circuit. Generate it before running this script:
+ *   1. nargo compile (in circuits/voting-circuit)
+ *   2. npm run generate:verifier (bb write_vk + bb contract, writes VotingCircuitVerifier.sol)
+ *
  * Usage:
  *   npx hardhat run deploy/4-paymaster/polygon/deploy-real-verifier.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   ALLOW_INSECURE_VERIFIER - Set to "true" to deploy the structural-check RealZKVerifier when the verifier is not generated (testing only)
  */
 async function main() {
 	console.log("=== Deploying Real ZK Verifier ===\n");
 
 	const [deployer] = await ethers.getSigners();
 	console.log("Deployer address:", deployer.address);
-	
+
 	const balance = await ethers.provider.getBalance(deployer.address);
 	console.log("Deployer balance:", ethers.formatEther(balance), "ETH");
 
-	// Check if generated verifier exists
-	const generatedVerifierPath = path.join(
-		__dirname,
-		"../../../circuits/voting-circuit/contract/plonk_vk.sol"
-	);
-	
-	let useGeneratedVerifier = false;
-	let verifier: any; // Declare verifier outside blocks
-	
-	if (fs.existsSync(generatedVerifierPath)) {
-		console.log("\n✅ Found generated verifier from Noir circuit!");
-		console.log("Path:", generatedVerifierPath);
-		console.log("⚠️  To use generated verifier, copy it to contracts directory first");
-		useGeneratedVerifier = false; // Set to true after copying
-	}
+	// Check if the verifier generated from the voting circuit is compiled
+	const useUltraVerifier = await hre.artifacts.artifactExists("UltraVerifier");
+	let verifier: IVerifier;
 
-	if (useGeneratedVerifier) {
-		console.log("\n--- Deploying Generated Verifier from Noir Circuit ---");
-		// Deploy generated verifier
-		const GeneratedVerifier = await ethers.getContractFactory("plonk_vk");
-		verifier = await GeneratedVerifier.deploy();
-		await verifier.waitForDeployment();
-		const verifierAddress = await verifier.getAddress();
-		console.log("✅ Generated Verifier deployed at:", verifierAddress);
-	} else {
-		console.log("\n--- Deploying RealZKVerifier (Intermediate Verifier) ---");
-		console.log("⚠️  NOTE: This performs cryptographic checks but not full ZK verification");
-		console.log("⚠️  For production, compile Noir circuit and use generated verifier");
-		
-		// Deploy RealZKVerifier
-		const RealZKVerifier = await ethers.getContractFactory("RealZKVerifier");
-		verifier = await RealZKVerifier.deploy();
-		await verifier.waitForDeployment();
-		const verifierAddress = await verifier.getAddress();
-		
-		console.log("✅ RealZKVerifier deployed at:", verifierAddress);
-		
-		// Test the verifier
+	if (useUltraVerifier) {
+		console.log("\n✅ Found the verifier generated from the voting circuit!");
+
+		console.log("\n--- Deploying UltraVerifier ---");
+		const UltraVerifier = await ethers.getContractFactory("UltraVerifier");
+		const ultraVerifier = await UltraVerifier.deploy();
+		await ultraVerifier.waitForDeployment();
+		verifier = await ethers.getContractAt("IVerifier", await ultraVerifier.getAddress());
+		console.log("✅ UltraVerifier deployed at:", await verifier.getAddress());
+
+		// Sanity check: a forged proof must be rejected (the verifier reverts on it)
 		console.log("\n--- Testing Verifier ---");
-		const fieldModulus = await verifier.getFieldModulus();
-		console.log("Field Modulus:", fieldModulus.toString());
-		
-		// Test with valid-looking proof (values within field modulus)
-		// Field modulus: 21888242871839275222246405745257275088548364400416034343698204186575808495617
-		const FIELD_MODULUS = "0x30644e72e131a029b85045b68181585d2833e84879b9709143e1f593f0000001";
-		const testProof = {
-			a: [
-				"0x1234567890123456789012345678901234567890123456789012345678901234",
-				"0x2345678901234567890123456789012345678901234567890123456789012345"
-			],
-			b: [
-				[
-					"0x3456789012345678901234567890123456789012345678901234567890123456",
-					"0x4567890123456789012345678901234567890123456789012345678901234567"
-				],
-				[
-					"0x5678901234567890123456789012345678901234567890123456789012345678",
-					"0x6789012345678901234567890123456789012345678901234567890123456789"
-				]
-			],
-			c: [
-				"0x7890123456789012345678901234567890123456789012345678901234567890",
-				"0x8901234567890123456789012345678901234567890123456789012345678901"
-			],
-			input: [
-				"0x1111111111111111111111111111111111111111111111111111111111111111", // commitment
-				"0x2222222222222222222222222222222222222222222222222222222222222222", // nullifier
-				0, // candidateIndex
-				0, // electionId
-			]
-		};
-		
+		let forgedAccepted = false;
 		try {
-			const isValid = await verifier.verifyProof(
-				testProof.a,
-				testProof.b,
-				testProof.c,
-				testProof.input
+			forgedAccepted = await verifier.verify(
+				ethers.hexlify(ethers.randomBytes(2144)),
+				[1, 2, 3, 0, 0].map((input) => ethers.toBeHex(input, 32))
 			);
-			console.log("Test proof verification:", isValid ? "✅ PASSED" : "❌ FAILED");
-		} catch (error: any) {
-			console.log("Test proof verification:", "❌ FAILED");
-			console.log("Error:", error.message);
+		} catch {
+			// Reverting counts as rejected
 		}
+		console.log(
+			"Forged proof rejected:",
+			forgedAccepted ? "❌ NO - regenerate the verifier" : "✅ YES"
+		);
+	} else if (process.env.ALLOW_INSECURE_VERIFIER === "true") {
+		console.log("\n--- Deploying RealZKVerifier (Intermediate Verifier) ---");
+		console.log("⚠️  NOTE: UltraVerifier has not been generated from the voting circuit");
+		console.log("⚠️  RealZKVerifier only performs structural checks and accepts forged proofs");
+		console.log("⚠️  Use it for local testing only");
+
+		const RealZKVerifier = await ethers.getContractFactory("RealZKVerifier");
+		const realZKVerifier = await RealZKVerifier.deploy();
+		await realZKVerifier.waitForDeployment();
+		verifier = await ethers.getContractAt("IVerifier", await realZKVerifier.getAddress());
+		console.log("✅ RealZKVerifier deployed at:", await verifier.getAddress());
+	} else {
+		console.error("❌ Error: UltraVerifier artifact not found");
+		console.log("Compile the voting circuit (nargo compile) and run npm run generate:verifier,");
+		console.log("which writes contracts/4-paymaster/polygon/VotingCircuitVerifier.sol.");
+		console.log("(ALLOW_INSECURE_VERIFIER=true deploys RealZKVerifier for local testing only)");
+		process.exit(1);
 	}
 
 	const network = await ethers.provider.getNetwork();
@@ -116,10 +82,10 @@ async function main() {
 		},
 		deployer: deployer.address,
 		deployedAt: new Date().toISOString(),
-		verifierType: useGeneratedVerifier ? "Generated (Noir)" : "RealZKVerifier (Intermediate)",
-		note: useGeneratedVerifier 
-			? "Full ZK verification with pairing checks"
-			: "Cryptographic validation only - compile Noir circuit for full ZK verification"
+		verifierType: useUltraVerifier ? "UltraVerifier" : "RealZKVerifier (Intermediate)",
+		note: useUltraVerifier
+			? "Full UltraPlonk verification of the voting circuit"
+			: "Structural checks only - NOT safe for production"
 	};
 
 	console.log("\n=== Deployment Summary ===");
@@ -127,21 +93,11 @@ async function main() {
 
 	console.log("\n📋 Contract Address:");
 	console.log("Verifier:", await verifier.getAddress());
-	
+
 	console.log("\n🎯 Next Steps:");
-	if (!useGeneratedVerifier) {
-		console.log("1. Compile Noir circuit: cd circuits/voting-circuit && nargo compile");
-		console.log("2. Generate verifier: nargo codegen-verifier");
-		console.log("3. Copy generated verifier to contracts directory");
-		console.log("4. Redeploy using generated verifier");
-	}
-	console.log("5. Update election contract: npm run set:verifier:polygon");
-	console.log("6. Test voting flow with real verifier");
-	
-	console.log("\n⚠️  IMPORTANT:");
-	console.log("   - RealZKVerifier performs cryptographic checks but NOT full ZK verification");
-	console.log("   - For production, use the verifier generated from Noir circuit");
-	console.log("   - The generated verifier includes pairing checks for full ZK proof verification");
+	console.log("1. Update election contract: npm run set:verifier:polygon");
+	console.log("2. Check forged proofs are rejected: VERIFIER_ADDRESS=<address> npx hardhat run deploy/4-paymaster/polygon/test-verifier-rejection.ts");
+	console.log("3. Test voting flow with real verifier");
 }
 
 main()
@@ -150,4 +106,3 @@ main()
 		console.error(error);
 		process.exit(1);
 	});
-
@@ -0,0 +1,84 @@
+import {ethers} from "hardhat";
+import {ENTRY_POINT_V07_ADDRESS} from "../../../utils/bundlerClient";
+
+/**
+ * Deploy the ERC-4337 session wallet contracts: NICSessionAccountFactory and NICVerifyingPaymaster
+ *
+ * Session keys of a NICSessionAccount send UserOperations through any v0.7 bundler, and the
+ * NICVerifyingPaymaster pays their gas from its EntryPoint deposit while the key holds a valid
+ * session in NICWalletRegistry. No relayer is involved.
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/polygon/deploy-session-accounts.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   NIC_WALLET_REGISTRY_ADDRESS - Address of deployed NICWalletRegistry
+ *   ENTRY_POINT_ADDRESS - EntryPoint v0.7 (optional, default: canonical deployment)
+ *   PAYMASTER_DEPOSIT - ETH deposited to the EntryPoint for the paymaster (optional, default: 0.1)
+ *   PAYMASTER_STAKE - ETH staked for the paymaster, required by bundlers (optional, default: 0.1)
+ *   PAYMASTER_UNSTAKE_DELAY - Unstake delay in seconds (optional, default: 86400)
+ */
+async function main() {
+	console.log("=== Deploying NIC Session Accounts (ERC-4337) ===");
+
+	const [deployer] = await ethers.getSigners();
+	console.log("Deployer address:", deployer.address);
+
+	const registryAddress = process.env.NIC_WALLET_REGISTRY_ADDRESS;
+	if (!registryAddress) {
+		console.error("❌ Error: NIC_WALLET_REGISTRY_ADDRESS is required");
+		process.exit(1);
+	}
+	const entryPointAddress = process.env.ENTRY_POINT_ADDRESS || ENTRY_POINT_V07_ADDRESS;
+	if ((await ethers.provider.getCode(entryPointAddress)) === "0x") {
+		console.error("❌ Error: No EntryPoint deployed at", entryPointAddress);
+		process.exit(1);
+	}
+	console.log("NIC Registry Address:", registryAddress);
+	console.log("EntryPoint Address:", entryPointAddress);
+
+	console.log("\n--- Deploying NICSessionAccountFactory ---");
+	const AccountFactory = await ethers.getContractFactory("NICSessionAccountFactory");
+	const accountFactory = await AccountFactory.deploy(entryPointAddress, registryAddress);
+	await accountFactory.waitForDeployment();
+	const accountFactoryAddress = await accountFactory.getAddress();
+	console.log("✅ NICSessionAccountFactory deployed at:", accountFactoryAddress);
+
+	console.log("\n--- Deploying NICVerifyingPaymaster ---");
+	const Paymaster = await ethers.getContractFactory("NICVerifyingPaymaster");
+	const paymaster = await Paymaster.deploy(entryPointAddress, registryAddress);
+	await paymaster.waitForDeployment();
+	const paymasterAddress = await paymaster.getAddress();
+	console.log("✅ NICVerifyingPaymaster deployed at:", paymasterAddress);
+
+	console.log("\n--- Funding NICVerifyingPaymaster ---");
+	const deposit = ethers.parseEther(process.env.PAYMASTER_DEPOSIT || "0.1");
+	const depositTx = await paymaster.deposit({value: deposit});
+	await depositTx.wait();
+	console.log("✅ Deposited", ethers.formatEther(deposit), "ETH - tx:", depositTx.hash);
+
+	// The paymaster reads NICWalletRegistry during validation, which bundlers only allow when staked
+	const stake = ethers.parseEther(process.env.PAYMASTER_STAKE || "0.1");
+	const unstakeDelay = Number(process.env.PAYMASTER_UNSTAKE_DELAY || "86400");
+	const stakeTx = await paymaster.addStake(unstakeDelay, {value: stake});
+	await stakeTx.wait();
+	console.log("✅ Staked", ethers.formatEther(stake), "ETH - tx:", stakeTx.hash);
+
+	console.log("\n=== Deployment Summary ===");
+	console.log("ENTRY_POINT_ADDRESS =", entryPointAddress);
+	console.log("NIC_SESSION_ACCOUNT_FACTORY_ADDRESS =", accountFactoryAddress);
+	console.log("NIC_VERIFYING_PAYMASTER_ADDRESS =", paymasterAddress);
+	console.log("Paymaster deposit:", ethers.formatEther(await paymaster.getDeposit()), "ETH");
+
+	console.log("\n🎉 NIC session accounts deployed successfully!");
+	console.log(
+		"⚠️  Register each NICSessionAccount (factory.getAccountAddress) as the NIC wallet, not its owner key"
+	);
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("❌ Deployment failed:", error);
+		process.exit(1);
+	});
@@ -70,16 +70,24 @@ async function main() {
 		console.log("✅ Verifier contract verified");
 	}
 
+	// NICPaymaster relaying votes as the ERC-2771 trusted forwarder (optional)
+	const trustedForwarderAddress = process.env.NIC_PAYMASTER_ADDRESS || ethers.ZeroAddress;
+	if (trustedForwarderAddress === ethers.ZeroAddress) {
+		console.log("⚠️  NIC_PAYMASTER_ADDRESS not set - votes cannot be relayed by a paymaster");
+	}
+
 	// Deploy ZK_ElectionContract
 	console.log("\n--- Deploying ZK_ElectionContract ---");
 	console.log("Verifier address:", finalVerifierAddress);
 	console.log("NICWalletRegistry address:", nicRegistryAddress);
+	console.log("Trusted forwarder (NICPaymaster):", trustedForwarderAddress);
 	const ZKElectionContract = await ethers.getContractFactory(
 		"ZK_ElectionContract"
 	);
 	const zkElectionContract = await ZKElectionContract.deploy(
 		finalVerifierAddress,
-		nicRegistryAddress
+		nicRegistryAddress,
+		trustedForwarderAddress
 	);
 	await zkElectionContract.waitForDeployment();
 
@@ -88,19 +96,18 @@ async function main() {
 
 	// Verify deployment
 	console.log("\n--- Verifying Deployment ---");
-	const owner = await (zkElectionContract as any).owner();
+	const isElectionAdmin = await (zkElectionContract as any).hasRole(
+		await (zkElectionContract as any).ELECTION_ADMIN_ROLE(),
+		deployer.address
+	);
 	const verifier = await (zkElectionContract as any).verifier();
 	const nicRegistry = await (zkElectionContract as any).nicRegistry();
 	const electionCount = await (zkElectionContract as any).electionCount();
 
-	console.log("Contract owner:", owner);
 	console.log("Verifier address:", verifier);
 	console.log("NICWalletRegistry address:", nicRegistry);
 	console.log("Initial election count:", electionCount.toString());
-	console.log(
-		"Deployer matches owner:",
-		owner.toLowerCase() === deployer.address.toLowerCase()
-	);
+	console.log("Deployer holds ELECTION_ADMIN_ROLE:", isElectionAdmin);
 	console.log(
 		"Registry address matches:",
 		nicRegistry.toLowerCase() === nicRegistryAddress.toLowerCase()
@@ -161,6 +168,7 @@ async function main() {
 			ZK_ElectionContract: zkElectionAddress,
 			Verifier: finalVerifierAddress,
 			NICWalletRegistry: nicRegistryAddress,
+			TrustedForwarder: trustedForwarderAddress,
 		},
 		deployer: deployer.address,
 		deployedAt: new Date().toISOString(),
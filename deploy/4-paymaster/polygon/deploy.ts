@@ -18,10 +18,10 @@ async function main() {
 
 	console.log("✅ PolygonPaymaster deployed at:", paymaster.target);
 
-	// Deploy SimpleCounter for testing
+	// Deploy SimpleCounter for testing, with the paymaster as its ERC-2771 trusted forwarder
 	console.log("\n--- Deploying SimpleCounter ---");
 	const SimpleCounter = await ethers.getContractFactory("SimpleCounter");
-	const counter = await SimpleCounter.deploy();
+	const counter = await SimpleCounter.deploy(paymaster.target);
 	await counter.waitForDeployment();
 
 	console.log("✅ SimpleCounter deployed at:", counter.target);
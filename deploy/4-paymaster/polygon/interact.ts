@@ -1,4 +1,5 @@
 import {ethers} from "hardhat";
+import {createPolygonMetaTransaction} from "../../../utils/paymasterSigner";
 
 // Updated contract addresses with new user tracking functionality
 const PAYMASTER_ADDRESS = "0xcb1d0aac729D0591fCe76C8d604D2B6b2dfa5Ff4";
@@ -48,23 +49,15 @@ async function main() {
 
 	console.log("Function data:", functionData);
 
-	// Create message to sign
-	const messageHash = ethers.solidityPackedKeccak256(
-		["address", "address", "uint256", "bytes", "uint256", "address"],
-		[
-			user.address, // user
-			counter.target, // target contract
-			0, // value (0 ETH)
-			functionData, // function call data
-			userNonce, // nonce
-			paymaster.target, // paymaster address
-		]
+	// Sign the request (with user as first parameter) and its validity window
+	const {request, signature} = await createPolygonMetaTransaction(paymaster, user, {
+		target: await counter.getAddress(), // target contract
+		data: functionData, // function call data
+	});
+	console.log(
+		"Valid until:",
+		new Date(Number(request.validUntil) * 1000).toISOString()
 	);
-
-	console.log("Message hash:", messageHash);
-
-	// Sign the message with user's private key
-	const signature = await user.signMessage(ethers.getBytes(messageHash));
 	console.log("User signature:", signature);
 
 	// Check balances before transaction
@@ -101,6 +94,8 @@ async function main() {
 			0, // value
 			functionSelector, // function selector
 			"0x", // additional data (empty for incrementForUser)
+			request.validAfter, // not valid before
+			request.validUntil, // not valid after
 			signature // user's signature
 		);
 
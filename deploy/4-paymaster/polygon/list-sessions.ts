@@ -0,0 +1,74 @@
+import {ethers} from "hardhat";
+import {getNICHashSalt, hashNIC} from "../../../utils/nicHash";
+
+/**
+ * List the active sessions (temporary wallets) of a registered NIC with their expiry
+ *
+ * The registered wallet is looked up from the salted NIC hash, or given directly with
+ * WALLET_ADDRESS. Expired sessions stay listed by the registry until they are revoked;
+ * they are only counted here.
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/polygon/list-sessions.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   NIC_WALLET_REGISTRY_ADDRESS - Address of deployed NICWalletRegistry
+ *   NIC_NUMBER - NIC number of the registered wallet (with NIC_HASH_SALT)
+ *   NIC_HASH_SALT - NIC hash salt of the deployment (32-byte hex, keep it secret)
+ *   WALLET_ADDRESS - Registered wallet to list instead of NIC_NUMBER (optional)
+ */
+async function main() {
+	console.log("=== Listing NIC Sessions ===");
+
+	const nicRegistryAddress = process.env.NIC_WALLET_REGISTRY_ADDRESS;
+	if (!nicRegistryAddress) {
+		console.error("❌ Error: NIC_WALLET_REGISTRY_ADDRESS not provided");
+		process.exit(1);
+	}
+
+	const nicRegistry = await ethers.getContractAt("NICWalletRegistry", nicRegistryAddress);
+
+	let walletAddress = process.env.WALLET_ADDRESS;
+	if (!walletAddress) {
+		const nicNumber = process.env.NIC_NUMBER;
+		if (!nicNumber) {
+			console.error("❌ Error: NIC_NUMBER or WALLET_ADDRESS is required");
+			process.exit(1);
+		}
+		walletAddress = await nicRegistry.getWalletByNICHash(
+			hashNIC(nicNumber, getNICHashSalt())
+		);
+		if (walletAddress === ethers.ZeroAddress) {
+			console.error("❌ Error: NIC is not registered");
+			process.exit(1);
+		}
+	}
+	console.log("Registered wallet:", walletAddress);
+
+	const [temporaryWallets, expiryTimes] = await nicRegistry.getSessions(walletAddress);
+	const block = await ethers.provider.getBlock("latest");
+	const now = BigInt(block!.timestamp);
+
+	const active = temporaryWallets
+		.map((temporaryWallet, i) => ({temporaryWallet, expiryTime: expiryTimes[i]}))
+		.filter(({expiryTime}) => expiryTime > now);
+
+	console.log(`\nActive sessions: ${active.length}`);
+	for (const {temporaryWallet, expiryTime} of active) {
+		const expiry = new Date(Number(expiryTime) * 1000).toISOString();
+		const minutesLeft = (expiryTime - now) / 60n;
+		console.log(`  ${temporaryWallet}  expires ${expiry} (${minutesLeft} min left)`);
+	}
+
+	const expired = temporaryWallets.length - active.length;
+	if (expired > 0) {
+		console.log(`\n⚠️  ${expired} expired session(s) not revoked yet (revokeAllSessions clears them)`);
+	}
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("❌ Failed to list sessions:", error);
+		process.exit(1);
+	});
@@ -0,0 +1,104 @@
+import {ethers} from "hardhat";
+import * as fs from "fs";
+import {buildNICHashMigration, getNICHashSalt} from "../../../utils/nicHash";
+
+/**
+ * Move NICWalletRegistry registrations from the plaintext NIC hash to the salted NIC hash
+ *
+ * Both hashes are computed here from the registrar's NIC list, so no NIC number is sent
+ * on-chain. Active sessions of migrated wallets end and have to be created again with
+ * createSessionByHash.
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/polygon/migrate-nic-hashes.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   NIC_WALLET_REGISTRY_ADDRESS - Address of deployed NICWalletRegistry
+ *   NIC_HASH_SALT - NIC hash salt of the deployment (32-byte hex, keep it secret)
+ *   NIC_LIST_FILE - File with the registered NIC numbers, one per line
+ *   MIGRATION_BATCH_SIZE - Registrations per transaction (optional, default: 50)
+ *   DISABLE_PLAINTEXT_NIC - Set to "true" to disable the plaintext NIC functions afterwards
+ */
+async function main() {
+	console.log("=== Migrating NIC Hashes ===");
+
+	const [deployer] = await ethers.getSigners();
+	console.log("Deployer address:", deployer.address);
+
+	const nicRegistryAddress = process.env.NIC_WALLET_REGISTRY_ADDRESS;
+	const nicListFile = process.env.NIC_LIST_FILE;
+	if (!nicRegistryAddress || !nicListFile) {
+		console.error("❌ Error: NIC_WALLET_REGISTRY_ADDRESS and NIC_LIST_FILE are required");
+		process.exit(1);
+	}
+
+	const salt = getNICHashSalt();
+	const batchSize = parseInt(process.env.MIGRATION_BATCH_SIZE || "50");
+
+	const NICWalletRegistry = await ethers.getContractFactory(
+		"NICWalletRegistry"
+	);
+	const nicRegistry = NICWalletRegistry.attach(nicRegistryAddress);
+
+	const isRegistrar = await nicRegistry.hasRole(
+		await nicRegistry.REGISTRAR_ROLE(),
+		deployer.address
+	);
+	if (!isRegistrar) {
+		console.error("❌ Error: Deployer does not hold the registry's REGISTRAR_ROLE");
+		process.exit(1);
+	}
+
+	const nicNumbers = fs
+		.readFileSync(nicListFile, "utf8")
+		.split(/\r?\n/)
+		.map((nic) => nic.trim())
+		.filter((nic) => nic.length > 0);
+	console.log("NIC numbers in list:", nicNumbers.length);
+
+	const {chainId} = await ethers.provider.getNetwork();
+	const migration = buildNICHashMigration(nicNumbers, salt, chainId);
+
+	// Only registrations still stored under their legacy hash need to move
+	const legacyNicHashes: string[] = [];
+	const nicHashes: string[] = [];
+	for (let i = 0; i < nicNumbers.length; i++) {
+		const wallet = await nicRegistry.getWalletByNICHash(migration.legacyNicHashes[i]);
+		if (wallet !== ethers.ZeroAddress) {
+			legacyNicHashes.push(migration.legacyNicHashes[i]);
+			nicHashes.push(migration.nicHashes[i]);
+		}
+	}
+	console.log("Registrations to migrate:", legacyNicHashes.length);
+
+	for (let i = 0; i < legacyNicHashes.length; i += batchSize) {
+		const tx = await nicRegistry.migrateNicHashes(
+			legacyNicHashes.slice(i, i + batchSize),
+			nicHashes.slice(i, i + batchSize)
+		);
+		const receipt = await tx.wait();
+		console.log(
+			`✅ Migrated ${Math.min(batchSize, legacyNicHashes.length - i)} registration(s) - tx: ${tx.hash}, gas used: ${receipt?.gasUsed.toString()}`
+		);
+	}
+
+	if (process.env.DISABLE_PLAINTEXT_NIC === "true") {
+		if (await nicRegistry.plaintextNicEnabled()) {
+			const tx = await nicRegistry.disablePlaintextNic();
+			await tx.wait();
+			console.log("\n✅ Plaintext NIC functions disabled - tx:", tx.hash);
+		} else {
+			console.log("\n✅ Plaintext NIC functions already disabled");
+		}
+	}
+
+	console.log("\n✅ NIC hash migration complete");
+	console.log("⚠️  Migrated wallets must create new sessions with createSessionByHash");
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error(error);
+		process.exit(1);
+	});
@@ -0,0 +1,78 @@
+import {ethers} from "hardhat";
+import {getNICHashSalt, hashNIC} from "../../../utils/nicHash";
+
+/**
+ * Move a NIC to a new wallet after its key was lost (time-locked recovery)
+ *
+ * An authorized system wallet proposes the new wallet; the old wallet can veto with
+ * vetoRecovery during the registry's challenge period. Run again with RECOVERY_ACTION=execute
+ * once the period is over: the NIC is bound to the new wallet and the old wallet's sessions end.
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/polygon/recover-wallet.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   NIC_WALLET_REGISTRY_ADDRESS - Address of deployed NICWalletRegistry
+ *   NIC_NUMBER - NIC number of the registration to recover
+ *   NIC_HASH_SALT - NIC hash salt of the deployment (32-byte hex, keep it secret)
+ *   NEW_WALLET_ADDRESS - Wallet to bind the NIC to (propose only)
+ *   RECOVERY_ACTION - "propose", "execute" or "cancel" (optional, default: propose)
+ */
+async function main() {
+	console.log("=== NIC Wallet Recovery ===");
+
+	const [systemWallet] = await ethers.getSigners();
+	console.log("System wallet:", systemWallet.address);
+
+	const nicRegistryAddress = process.env.NIC_WALLET_REGISTRY_ADDRESS;
+	const nicNumber = process.env.NIC_NUMBER;
+	if (!nicRegistryAddress || !nicNumber) {
+		console.error("❌ Error: NIC_WALLET_REGISTRY_ADDRESS and NIC_NUMBER are required");
+		process.exit(1);
+	}
+	const action = process.env.RECOVERY_ACTION || "propose";
+
+	const nicRegistry = await ethers.getContractAt("NICWalletRegistry", nicRegistryAddress);
+	const nicHash = hashNIC(nicNumber, getNICHashSalt());
+	console.log("Current wallet:", await nicRegistry.getWalletByNICHash(nicHash));
+
+	if (action === "propose") {
+		const newWallet = process.env.NEW_WALLET_ADDRESS;
+		if (!newWallet) {
+			console.error("❌ Error: NEW_WALLET_ADDRESS not provided");
+			process.exit(1);
+		}
+		if (!(await nicRegistry.authorizedSystemWallets(systemWallet.address))) {
+			console.error("❌ Error: Signer is not an authorized system wallet");
+			process.exit(1);
+		}
+
+		const tx = await nicRegistry.proposeRecovery(nicHash, newWallet);
+		await tx.wait();
+		const request = await nicRegistry.recoveryRequests(nicHash);
+		console.log("✅ Recovery proposed - tx:", tx.hash);
+		console.log("New wallet:", request.newWallet);
+		console.log(
+			"Executable after:",
+			new Date(Number(request.executableAfter) * 1000).toISOString()
+		);
+	} else if (action === "execute") {
+		const tx = await nicRegistry.executeRecovery(nicHash);
+		await tx.wait();
+		console.log("✅ NIC bound to", await nicRegistry.getWalletByNICHash(nicHash), "- tx:", tx.hash);
+	} else if (action === "cancel") {
+		const tx = await nicRegistry.cancelRecovery(nicHash);
+		await tx.wait();
+		console.log("✅ Recovery cancelled - tx:", tx.hash);
+	} else {
+		console.error(`❌ Error: Unknown RECOVERY_ACTION "${action}"`);
+		process.exit(1);
+	}
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("❌ Wallet recovery failed:", error);
+		process.exit(1);
+	});
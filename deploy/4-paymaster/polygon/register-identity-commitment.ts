@@ -0,0 +1,79 @@
+import {ethers} from "hardhat";
+import {computeIdentityCommitment, generateIdentitySecret} from "../../../utils/merkleTree";
+import {
+	getIdentitySecretPath,
+	loadIdentitySecret,
+	saveIdentitySecret,
+} from "../../../utils/zkProver";
+
+/**
+ * Register an identity commitment for anonymous elections
+ *
+ * Generates (or reuses) the voter's identity secret, keeps it in a local file and registers
+ * keccak256(secret) in NICWalletRegistry. Must be sent by the voter's registered wallet.
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/polygon/register-identity-commitment.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   NIC_WALLET_REGISTRY_ADDRESS - Address of deployed NICWalletRegistry
+ *   IDENTITY_FILE - Where to keep the identity secret (optional, default: identities/<wallet>.json)
+ */
+async function main() {
+	console.log("=== Registering Identity Commitment ===");
+
+	const [voter] = await ethers.getSigners();
+	console.log("Registered wallet:", voter.address);
+
+	const nicRegistryAddress = process.env.NIC_WALLET_REGISTRY_ADDRESS;
+	if (!nicRegistryAddress) {
+		console.error("❌ Error: NIC_WALLET_REGISTRY_ADDRESS not provided");
+		process.exit(1);
+	}
+
+	const NICWalletRegistry = await ethers.getContractFactory(
+		"NICWalletRegistry"
+	);
+	const nicRegistry = NICWalletRegistry.attach(nicRegistryAddress);
+
+	if (!(await nicRegistry.isWalletRegistered(voter.address))) {
+		console.error("❌ Error: Wallet is not registered in NICWalletRegistry");
+		process.exit(1);
+	}
+
+	const registered = await nicRegistry.identityCommitmentOf(voter.address);
+	if (registered !== ethers.ZeroHash) {
+		console.log("✅ Identity commitment already registered:", registered);
+		return;
+	}
+
+	// Reuse a saved secret so a failed registration can be retried with the same commitment
+	const identityFile =
+		process.env.IDENTITY_FILE || getIdentitySecretPath(voter.address);
+	let identitySecret = loadIdentitySecret(identityFile);
+	if (identitySecret) {
+		console.log("Using identity secret from:", identityFile);
+	} else {
+		identitySecret = generateIdentitySecret();
+		saveIdentitySecret(identitySecret, identityFile);
+		console.log("✅ New identity secret saved to:", identityFile);
+	}
+
+	const identityCommitment = computeIdentityCommitment(identitySecret);
+	console.log("Identity commitment:", identityCommitment);
+
+	const tx = await nicRegistry.registerIdentityCommitment(identityCommitment);
+	const receipt = await tx.wait();
+	console.log("✅ Identity commitment registered - tx:", tx.hash);
+	console.log("Gas used:", receipt?.gasUsed.toString());
+
+	console.log("\n⚠️  Back up", identityFile);
+	console.log("⚠️  It is needed to vote in every anonymous election and cannot be recovered");
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error(error);
+		process.exit(1);
+	});
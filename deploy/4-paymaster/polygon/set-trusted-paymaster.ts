@@ -0,0 +1,54 @@
+import {ethers} from "hardhat";
+
+/**
+ * Trust (or stop trusting) a paymaster to relay votes
+ *
+ * ZK_ElectionContract treats the paymasters in NICWalletRegistry.trustedPaymasters as ERC-2771
+ * forwarders: a relayed vote is attributed to the sender the paymaster appends, e.g. the session
+ * wallet for castVoteWithNICHash. Only trust paymasters that verify that sender's signature
+ * (NICPaymaster).
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/polygon/set-trusted-paymaster.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   NIC_WALLET_REGISTRY_ADDRESS - Address of deployed NICWalletRegistry
+ *   NIC_PAYMASTER_ADDRESS - Paymaster to trust or distrust
+ *   TRUSTED - "false" to stop trusting the paymaster (optional, default: true)
+ */
+async function main() {
+	console.log("=== Setting Trusted Paymaster ===");
+
+	const [deployer] = await ethers.getSigners();
+	console.log("Deployer address:", deployer.address);
+
+	const registryAddress = process.env.NIC_WALLET_REGISTRY_ADDRESS;
+	const paymasterAddress = process.env.NIC_PAYMASTER_ADDRESS;
+	if (!registryAddress || !paymasterAddress) {
+		console.error("❌ Error: NIC_WALLET_REGISTRY_ADDRESS and NIC_PAYMASTER_ADDRESS are required");
+		process.exit(1);
+	}
+	const trusted = process.env.TRUSTED !== "false";
+
+	const registry = await ethers.getContractAt("NICWalletRegistry", registryAddress);
+
+	const isAdmin = await registry.hasRole(await registry.DEFAULT_ADMIN_ROLE(), deployer.address);
+	if (!isAdmin) {
+		console.error("❌ Error: Deployer does not hold the registry's DEFAULT_ADMIN_ROLE");
+		process.exit(1);
+	}
+
+	console.log("Paymaster:", paymasterAddress);
+	console.log("Currently trusted:", await registry.trustedPaymasters(paymasterAddress));
+
+	const tx = await registry.setTrustedPaymaster(paymasterAddress, trusted);
+	await tx.wait();
+	console.log(`✅ Paymaster ${trusted ? "trusted" : "no longer trusted"} - tx:`, tx.hash);
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("❌ Failed to set trusted paymaster:", error);
+		process.exit(1);
+	});
@@ -46,11 +46,13 @@ async function main() {
 	);
 	const zkElection = ZKElectionContract.attach(zkElectionAddress);
 
-	// Verify deployer is owner
-	const owner = await zkElection.owner();
-	if (owner.toLowerCase() !== deployer.address.toLowerCase()) {
-		console.error("❌ Error: Deployer is not the contract owner");
-		console.log("Owner:", owner);
+	// Verify deployer is a verifier admin
+	const isVerifierAdmin = await zkElection.hasRole(
+		await zkElection.VERIFIER_ADMIN_ROLE(),
+		deployer.address
+	);
+	if (!isVerifierAdmin) {
+		console.error("❌ Error: Deployer does not hold VERIFIER_ADMIN_ROLE");
 		process.exit(1);
 	}
 
@@ -0,0 +1,93 @@
+import {ethers} from "hardhat";
+import {
+	decryptTally,
+	getTallyKeyPath,
+	loadTallyKeyPair,
+	toCiphertexts,
+	toG1Point,
+} from "../../../utils/encryptedTally";
+
+/**
+ * Tally a ZK election after it ends
+ *
+ * Decrypts each candidate's encrypted total with the tally key saved by create-zk-election.ts
+ * and publishes the counts with their decryption proofs (publishTally). Individual ballots are
+ * never decrypted, and no voter has to take part.
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/polygon/tally-zk-election.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   ZK_ELECTION_CONTRACT_ADDRESS - Address of deployed ZK_ElectionContract
+ *   ELECTION_ID - Election ID to tally
+ *   TALLY_KEY_FILE - Tally key pair (optional, default: tally-keys/election-<id>.json)
+ */
+async function main() {
+	console.log("=== Tallying ZK Election ===");
+
+	const [deployer] = await ethers.getSigners();
+	console.log("Deployer address:", deployer.address);
+
+	const zkElectionAddress = process.env.ZK_ELECTION_CONTRACT_ADDRESS;
+	if (!zkElectionAddress || !process.env.ELECTION_ID) {
+		console.error("❌ Error: ZK_ELECTION_CONTRACT_ADDRESS and ELECTION_ID are required");
+		process.exit(1);
+	}
+
+	const electionId = parseInt(process.env.ELECTION_ID);
+
+	const ZKElectionContract = await ethers.getContractFactory(
+		"ZK_ElectionContract"
+	);
+	const zkElection = ZKElectionContract.attach(zkElectionAddress);
+
+	const [election] = await zkElection.getElectionData(electionId);
+	console.log("Election Title:", election.electionTitle);
+	console.log("Total Votes:", election.totalVotes.toString());
+
+	if (election.tallyFinalized) {
+		console.log("✅ Tally already finalized");
+	} else {
+		const keyFile = process.env.TALLY_KEY_FILE || getTallyKeyPath(electionId);
+		const keyPair = loadTallyKeyPair(keyFile);
+		if (!keyPair) {
+			console.error("❌ Error: Tally key not found at", keyFile);
+			process.exit(1);
+		}
+		const publicKey = toG1Point(election.tallyPublicKey);
+		if (keyPair.publicKey.x !== publicKey.x || keyPair.publicKey.y !== publicKey.y) {
+			console.error("❌ Error: Tally key does not match the election's tally public key");
+			process.exit(1);
+		}
+
+		console.log("\n--- Decrypting Candidate Totals ---");
+		const decryptions = decryptTally(
+			toCiphertexts(await zkElection.getEncryptedTally(electionId)),
+			keyPair,
+			{
+				chainId: (await ethers.provider.getNetwork()).chainId,
+				electionContract: zkElectionAddress,
+				electionId,
+			},
+			election.totalVotes
+		);
+
+		const tx = await zkElection.publishTally(electionId, decryptions);
+		const receipt = await tx.wait();
+		console.log("✅ Tally published - tx:", tx.hash);
+		console.log("Gas used:", receipt?.gasUsed.toString());
+	}
+
+	console.log("\n=== Results ===");
+	const candidates = await zkElection.checkResult(electionId);
+	candidates.forEach((candidate: any, i: number) => {
+		console.log(`Candidate ${i} (${candidate.name}): ${candidate.voteCount.toString()} votes`);
+	});
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error(error);
+		process.exit(1);
+	});
@@ -1,7 +1,14 @@
 import {ethers} from "hardhat";
+import {
+	createTemporaryWalletTransaction,
+	toTemporaryWalletTransactionArgs,
+} from "../../../utils/paymasterSigner";
+import {computeLegacyNICHash} from "../../../utils/nicHash";
+import {ensureSponsored} from "../../../utils/sponsorshipPolicy";
 
 // Contract addresses
 const NIC_REGISTRY_ADDRESS = "0x24D2Caf2fd29D503e72AdD19a5c56C2452d2e5C1";
+const NIC_PAYMASTER_ADDRESS = "0xcb1d0aac729D0591fCe76C8d604D2B6b2dfa5Ff4"; // SimpleCounter's trusted forwarder
 const COUNTER_ADDRESS = "0x1C92c2485d4512e304adD509499900Be39B22Af5";
 
 // Test data
@@ -9,13 +16,14 @@ const TEST_NIC = "1234";
 const REGISTERED_WALLET = "0x835a5220EC26fcFe855dC0957cE483f03A8Bb028";
 
 async function main() {
-	console.log("=== Testing executeOnBehalf with Counter ===");
+	console.log("=== Testing Temporary Wallet Calls with Counter ===");
 
 	const signers = await ethers.getSigners();
 	const deployer = signers[0];
 
 	console.log("Deployer:", deployer.address);
 	console.log("NIC Registry:", NIC_REGISTRY_ADDRESS);
+	console.log("NIC Paymaster:", NIC_PAYMASTER_ADDRESS);
 	console.log("Counter:", COUNTER_ADDRESS);
 	console.log("Test NIC:", TEST_NIC);
 	console.log("Registered Wallet:", REGISTERED_WALLET);
@@ -25,8 +33,21 @@ async function main() {
 		"NICWalletRegistry",
 		NIC_REGISTRY_ADDRESS
 	);
+	const nicPaymaster = await ethers.getContractAt(
+		"NICPaymaster",
+		NIC_PAYMASTER_ADDRESS
+	);
 	const counter = await ethers.getContractAt("SimpleCounter", COUNTER_ADDRESS);
 
+	// Sessions may only call the counter (plaintext-NIC registrations use the legacy NIC hash)
+	const {chainId} = await ethers.provider.getNetwork();
+	const counterOnly = {allowedTargets: [COUNTER_ADDRESS], allowedSelectors: [], maxCalls: 0};
+
+	// The paymaster only relays calls its sponsorship policy allows
+	if (await ensureSponsored(nicPaymaster, COUNTER_ADDRESS)) {
+		console.log("✅ SimpleCounter added to the paymaster's sponsored targets");
+	}
+
 	try {
 		// Step 1: Check initial counter state
 		console.log("\n--- Initial Counter State ---");
@@ -52,10 +73,11 @@ async function main() {
 
 		// Step 4: Create session
 		console.log("\n--- Create Session ---");
-		const sessionTx = await registry.createSession(
-			TEST_NIC,
+		const sessionTx = await registry.createScopedSessionByHash(
+			computeLegacyNICHash(TEST_NIC, chainId),
 			tempWallet.address,
-			24 * 3600 // 24 hours
+			24 * 3600, // 24 hours
+			counterOnly
 		);
 		await sessionTx.wait();
 		console.log("✅ Session created");
@@ -82,13 +104,25 @@ async function main() {
 		);
 		console.log("Function data:", functionData);
 
-		// Step 7: Execute using executeOnBehalf
-		console.log("\n--- Execute using executeOnBehalf ---");
+		// Step 7: Execute through the NICPaymaster, SimpleCounter's trusted forwarder
+		// (through NICWalletRegistry.executeOnBehalf the counter would see the registry as caller)
+		console.log("\n--- Execute via NICPaymaster ---");
 		const tempWalletConnected = tempWallet.connect(ethers.provider);
 
-		const tx = await registry
+		const {request, signature} = await createTemporaryWalletTransaction(
+			nicPaymaster,
+			tempWalletConnected,
+			{
+				originalWallet: REGISTERED_WALLET,
+				target: await counter.getAddress(),
+				data: functionData,
+			}
+		);
+		const tx = await nicPaymaster
 			.connect(tempWalletConnected)
-			.executeOnBehalf(REGISTERED_WALLET, counter.target, functionData);
+			.executeTemporaryWalletTransaction(
+				...toTemporaryWalletTransactionArgs(request, signature)
+			);
 
 		console.log("Transaction hash:", tx.hash);
 		const receipt = await tx.wait();
@@ -116,7 +150,7 @@ async function main() {
 			console.log("❌ User counter did not increment");
 		}
 
-		console.log("\n🎉 executeOnBehalf test completed!");
+		console.log("\n🎉 Temporary wallet call test completed!");
 	} catch (error) {
 		console.error("❌ Test failed:", error);
 
@@ -1,4 +1,10 @@
 import {ethers} from "hardhat";
+import {
+	createTemporaryWalletTransaction,
+	toTemporaryWalletTransactionArgs,
+} from "../../../utils/paymasterSigner";
+import {computeLegacyNICHash} from "../../../utils/nicHash";
+import {ensureSponsored} from "../../../utils/sponsorshipPolicy";
 
 // Contract addresses - Update these with your deployed contract addresses
 const NIC_REGISTRY_ADDRESS = "0x24D2Caf2fd29D503e72AdD19a5c56C2452d2e5C1";
@@ -45,6 +51,15 @@ async function main() {
 	console.log("✅ Connected to NICPaymaster");
 
 	const counter = await ethers.getContractAt("SimpleCounter", COUNTER_ADDRESS);
+
+	// Sessions may only call the counter (plaintext-NIC registrations use the legacy NIC hash)
+	const {chainId} = await ethers.provider.getNetwork();
+	const counterOnly = {allowedTargets: [COUNTER_ADDRESS], allowedSelectors: [], maxCalls: 0};
+
+	// The paymaster only relays calls its sponsorship policy allows
+	if (await ensureSponsored(nicPaymaster, COUNTER_ADDRESS)) {
+		console.log("✅ SimpleCounter added to the paymaster's sponsored targets");
+	}
 	console.log("✅ Connected to SimpleCounter");
 
 	// Check NICPaymaster balance and fund if needed
@@ -100,10 +115,11 @@ async function main() {
 		// Step 4: Create session using system wallet
 		console.log("\n--- Step 4: Create Session ---");
 		const sessionDuration = 24 * 3600; // 24 hours
-		const sessionTx = await registry.createSession(
-			TEST_NIC,
+		const sessionTx = await registry.createScopedSessionByHash(
+			computeLegacyNICHash(TEST_NIC, chainId),
 			tempWallet.address,
-			sessionDuration
+			sessionDuration,
+			counterOnly
 		);
 		await sessionTx.wait();
 		console.log("✅ Session created successfully!");
@@ -207,56 +223,19 @@ async function main() {
 			"\n--- Step 10: Generate Signature for Gasless Transaction ---"
 		);
 
-		// Get current nonce for temporary wallet (start with 0 if function doesn't exist)
-		let currentNonce = 0n;
-		try {
-			currentNonce = await nicPaymaster.getTempWalletNonce(tempWallet.address);
-			console.log(
-				"Current nonce for temporary wallet:",
-				currentNonce.toString()
-			);
-		} catch (error) {
-			console.log(
-				"⚠️  getTempWalletNonce function not available, using nonce 0"
-			);
-			currentNonce = 0n;
-		}
-
-		// Create message hash for signature
-		const messageHash = ethers.keccak256(
-			ethers.AbiCoder.defaultAbiCoder().encode(
-				[
-					"address",
-					"address",
-					"address",
-					"uint256",
-					"bytes",
-					"uint256",
-					"address",
-				],
-				[
-					REGISTERED_WALLET, // originalWallet
-					tempWallet.address, // temporaryWallet
-					counter.target, // target
-					0, // value
-					functionData, // data
-					currentNonce, // nonce
-					NIC_PAYMASTER_ADDRESS, // paymaster address
-				]
-			)
+		// Sign the EIP-712 request with the temporary wallet
+		const {request, signature} = await createTemporaryWalletTransaction(
+			nicPaymaster,
+			tempWallet,
+			{
+				originalWallet: REGISTERED_WALLET, // originalWallet
+				target: await counter.getAddress(), // target
+				data: functionData, // data
+			}
 		);
-
-		// Create Ethereum signed message hash
-		const ethSignedMessageHash = ethers.keccak256(
-			ethers.AbiCoder.defaultAbiCoder().encode(
-				["string", "bytes32"],
-				["\x19Ethereum Signed Message:\n32", messageHash]
-			)
-		);
-
-		// Sign the message with temporary wallet
-		const signature = await tempWallet.signMessage(
-			ethers.getBytes(messageHash)
+		console.log(
+			"Current nonce for temporary wallet:",
+			request.nonce.toString()
 		);
 		console.log("✅ Signature generated for gasless transaction");
 
@@ -273,12 +252,7 @@ async function main() {
 		const tx = await nicPaymaster
 			.connect(deployer)
 			.executeGaslessTemporaryTransaction(
-				REGISTERED_WALLET, // originalWallet
-				tempWallet.address, // temporaryWallet
-				counter.target, // target
-				0, // value
-				functionData, // data
-				signature // signature
+				...toTemporaryWalletTransactionArgs(request, signature)
 			);
 
 		console.log("Transaction hash:", tx.hash);
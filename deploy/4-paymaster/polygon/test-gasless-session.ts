@@ -1,4 +1,10 @@
 import {ethers} from "hardhat";
+import {
+	createTemporaryWalletTransaction,
+	toTemporaryWalletTransactionArgs,
+} from "../../../utils/paymasterSigner";
+import {computeLegacyNICHash} from "../../../utils/nicHash";
+import {ensureSponsored} from "../../../utils/sponsorshipPolicy";
 
 // Contract addresses - Update these with your deployed contract addresses
 const NIC_REGISTRY_ADDRESS = "0x24D2Caf2fd29D503e72AdD19a5c56C2452d2e5C1";
@@ -45,6 +51,15 @@ async function main() {
 	console.log("✅ Connected to NICPaymaster");
 
 	const counter = await ethers.getContractAt("SimpleCounter", COUNTER_ADDRESS);
+
+	// Sessions may only call the counter (plaintext-NIC registrations use the legacy NIC hash)
+	const {chainId} = await ethers.provider.getNetwork();
+	const counterOnly = {allowedTargets: [COUNTER_ADDRESS], allowedSelectors: [], maxCalls: 0};
+
+	// The paymaster only relays calls its sponsorship policy allows
+	if (await ensureSponsored(nicPaymaster, COUNTER_ADDRESS)) {
+		console.log("✅ SimpleCounter added to the paymaster's sponsored targets");
+	}
 	console.log("✅ Connected to SimpleCounter");
 
 	// Check NICPaymaster balance and fund if needed
@@ -101,10 +116,11 @@ async function main() {
 		// Step 4: Create session using system wallet
 		console.log("\n--- Step 4: Create Session ---");
 		const sessionDuration = 24 * 3600; // 24 hours
-		const sessionTx = await registry.createSession(
-			TEST_NIC,
+		const sessionTx = await registry.createScopedSessionByHash(
+			computeLegacyNICHash(TEST_NIC, chainId),
 			tempWallet.address,
-			sessionDuration
+			sessionDuration,
+			counterOnly
 		);
 		await sessionTx.wait();
 		console.log("✅ Session created successfully!");
@@ -159,38 +175,17 @@ async function main() {
 		console.log("Target wallet (registered):", REGISTERED_WALLET);
 		console.log("Temporary wallet will sign, NICPaymaster will pay gas");
 
-		// Get nonce for temporary wallet
-		const tempWalletNonce = await nicPaymaster.getNonce(tempWallet.address);
-		console.log("Temporary wallet nonce:", tempWalletNonce.toString());
-
-		// Create message hash for signature
-		const messageHash = ethers.solidityPackedKeccak256(
-			[
-				"address",
-				"address",
-				"address",
-				"uint256",
-				"bytes",
-				"uint256",
-				"address",
-			],
-			[
-				REGISTERED_WALLET, // original wallet
-				tempWallet.address, // temporary wallet
-				counter.target, // target contract
-				0, // value (0 ETH)
-				functionData, // function call data
-				tempWalletNonce, // nonce
-				nicPaymaster.target, // paymaster address
-			]
-		);
-
-		console.log("Message hash:", messageHash);
-
-		// Sign the message with temporary wallet's private key
-		const signature = await tempWalletConnected.signMessage(
-			ethers.getBytes(messageHash)
-		);
+		// Sign the EIP-712 request with the temporary wallet's private key
+		const {request, signature} = await createTemporaryWalletTransaction(
+			nicPaymaster,
+			tempWalletConnected,
+			{
+				originalWallet: REGISTERED_WALLET, // The registered wallet address
+				target: await counter.getAddress(), // target contract
+				data: functionData, // function call data
+			}
+		);
+		console.log("Temporary wallet nonce:", request.nonce.toString());
 		console.log("Temporary wallet signature:", signature);
 
 		// Step 8: Check balances before transaction
@@ -240,12 +235,7 @@ async function main() {
 		const tx = await nicPaymaster
 			.connect(deployer)
 			.executeTemporaryWalletTransaction(
-				REGISTERED_WALLET, // original wallet (registered wallet)
-				tempWallet.address, // temporary wallet
-				counter.target, // target contract
-				0, // value (0 ETH)
-				functionData, // function call data
-				signature // temporary wallet's signature
+				...toTemporaryWalletTransactionArgs(request, signature)
 			);
 
 		console.log("Transaction hash:", tx.hash);
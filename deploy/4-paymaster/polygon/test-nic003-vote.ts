@@ -1,17 +1,24 @@
 import {ethers} from "hardhat";
+import {createVoterMerkleTree, generateVoterSecret} from "../../../utils/merkleTree";
 import {
-	createVoterMerkleTree,
-	getMerkleProof,
-	generateVoterSecret,
-	computeCommitment,
-	computeNullifier,
-} from "../../../utils/merkleTree";
+	DEFAULT_CIRCUIT_PATH,
+	generateVoteProof,
+	loadVotingCircuit,
+	toCastVoteWithNICArgs,
+} from "../../../utils/zkProver";
+import {toG1Point} from "../../../utils/encryptedTally";
+import {createMetaTransaction, toMetaTransactionArgs} from "../../../utils/paymasterSigner";
+import {ensureSponsored} from "../../../utils/sponsorshipPolicy";
 
 /**
  * Test voting process with NIC003
  *
  * Usage:
  *   npx hardhat run deploy/4-paymaster/polygon/test-nic003-vote.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   VOTING_CIRCUIT_PATH - Compiled voting circuit (optional, default: circuits/voting-circuit/target/voting-circuit.json)
+ *   PAYMASTER_SIGNATURE_TTL - Seconds the signed paymaster request stays valid (optional, default: 900)
  */
 async function main() {
 	const zkElectionAddress =
@@ -54,6 +61,17 @@ async function main() {
 	const NICPaymaster = await ethers.getContractFactory("NICPaymaster");
 	const nicPaymaster = NICPaymaster.attach(nicPaymasterAddress);
 
+	// The paymaster only relays session votes its sponsorship policy allows
+	if (
+		await ensureSponsored(
+			nicPaymaster,
+			zkElectionAddress,
+			zkElection.interface.getFunction("castVoteWithNIC").selector
+		)
+	) {
+		console.log("✅ castVoteWithNIC added to the paymaster's sponsored functions");
+	}
+
 	// Step 1: Get registered wallet for NIC003
 	console.log("\n=== Step 1: Checking NIC003 Registration ===");
 	const registeredWallet = await nicRegistry.getWalletByNIC(voterNIC);
@@ -108,116 +126,63 @@ async function main() {
 	}
 	console.log("✅ Merkle tree created and verified");
 
-	// Step 4: Generate ZK proof components
-	console.log("\n=== Step 4: Generating ZK Proof Components ===");
-	const voterSecret = generateVoterSecret(voterNIC, electionId);
-	const randomness = ethers.randomBytes(32);
-	const commitment = computeCommitment(
-		voterSecret,
-		candidateIndex,
-		ethers.hexlify(randomness),
-		electionId
+	// Step 4: Generate ZK proof
+	console.log("\n=== Step 4: Generating ZK Proof ===");
+	const [electionData, candidates] = await zkElection.getElectionData(electionId);
+	const voteProof = await generateVoteProof(
+		{
+			voterSecret: generateVoterSecret(),
+			electionId,
+			candidateIndex,
+			candidateCount: candidates.length,
+			registeredWallet,
+			tree,
+			tallyPublicKey: toG1Point(electionData.tallyPublicKey),
+			chainId: (await ethers.provider.getNetwork()).chainId,
+			electionContract: zkElectionAddress,
+		},
+		loadVotingCircuit(process.env.VOTING_CIRCUIT_PATH || DEFAULT_CIRCUIT_PATH)
 	);
-	const nullifierHash = computeNullifier(voterSecret, electionId);
-	const merkleProof = getMerkleProof(tree, registeredWallet, electionId);
-
-	console.log("Voter Secret:", voterSecret);
-	console.log("Commitment:", commitment);
-	console.log("Nullifier Hash:", nullifierHash);
-	console.log("Merkle Proof Length:", merkleProof.length);
 
-	// ZK proof compatible with RealZKVerifier
-	const FIELD_MODULUS = BigInt(
-		"21888242871839275222246405745257275088548364400416034343698204186575808495617"
-	);
-	const mockProof = {
-		a: [
-			"0x0000000000000000000000000000000000000000000000000000000000000001",
-			"0x0000000000000000000000000000000000000000000000000000000000000002",
-		],
-		b: [
-			[
-				"0x0000000000000000000000000000000000000000000000000000000000000003",
-				"0x0000000000000000000000000000000000000000000000000000000000000004",
-			],
-			[
-				"0x0000000000000000000000000000000000000000000000000000000000000005",
-				"0x0000000000000000000000000000000000000000000000000000000000000006",
-			],
-		],
-		c: [
-			"0x0000000000000000000000000000000000000000000000000000000000000007",
-			"0x0000000000000000000000000000000000000000000000000000000000000008",
-		],
-		input: [commitment, nullifierHash, candidateIndex, electionId],
-	};
-	console.log("✅ Proof points are within field modulus");
+	console.log("Commitment:", voteProof.commitment);
+	console.log("Nullifier Hash:", voteProof.nullifierHash);
+	console.log("Merkle Proof Length:", voteProof.merkleProof.length);
+	console.log("✅ Proof generated");
 
 	// Step 5: Cast vote through paymaster
 	console.log("\n=== Step 5: Casting Vote (Gasless) ===");
 	const iface = zkElection.interface;
-	const functionData = iface.encodeFunctionData("castVoteWithNIC", [
-		electionId,
-		voterNIC,
-		registeredWallet,
-		temporaryWallet.address,
-		candidateIndex,
-		nullifierHash,
-		commitment,
-		merkleProof,
-		mockProof.a,
-		mockProof.b,
-		mockProof.c,
-		mockProof.input,
-	]);
-
-	// Get nonce
-	const nonce = await nicPaymaster.getTempWalletNonce(temporaryWallet.address);
-	console.log("Nonce:", nonce.toString());
-
-	// Create message hash for paymaster signature
-	const messageHash = ethers.keccak256(
-		ethers.solidityPacked(
-			[
-				"address",
-				"address",
-				"address",
-				"uint256",
-				"bytes",
-				"uint256",
-				"address",
-			],
-			[
-				registeredWallet,
-				temporaryWallet.address,
-				zkElectionAddress,
-				0, // value
-				functionData,
-				nonce,
-				nicPaymasterAddress,
-			]
+	const functionData = iface.encodeFunctionData(
+		"castVoteWithNIC",
+		toCastVoteWithNICArgs(
+			voteProof,
+			voterNIC,
+			registeredWallet,
+			temporaryWallet.address
 		)
 	);
-	console.log("Message Hash:", messageHash);
 
-	// Sign with temporary wallet
-	const signature = await temporaryWallet.signMessage(
-		ethers.getBytes(messageHash)
+	// The temporary wallet signs the vote as its own meta-transaction: the election only
+	// accepts session votes whose forwarded sender is the session wallet itself
+	const {request, signature} = await createMetaTransaction(
+		nicPaymaster,
+		temporaryWallet,
+		{
+			target: zkElectionAddress,
+			data: functionData,
+		}
 	);
+	console.log("Nonce:", request.nonce.toString());
+	console.log("Valid until:", new Date(Number(request.validUntil) * 1000).toISOString());
 	console.log("Signature:", signature);
 
 	// Execute through paymaster (relayer pays gas)
-	// Note: nonce is used in message hash but not passed to function (paymaster manages it internally)
+	// Note: nonce is part of the signed request but not passed to function (paymaster manages it internally)
 	console.log("\n--- Executing Gasless Vote via Paymaster ---");
 	const paymasterTx = await nicPaymaster
 		.connect(deployer)
-		.executeGaslessTemporaryTransaction(
-			registeredWallet,
-			temporaryWallet.address,
-			zkElectionAddress,
-			0, // value
-			functionData,
-			signature
+		.executeMetaTransaction(
+			...toMetaTransactionArgs(request, signature)
 		);
 
 	const receipt = await paymasterTx.wait();
@@ -229,22 +194,14 @@ async function main() {
 	// Step 6: Verify results
 	console.log("\n=== Step 6: Verifying Results ===");
 	const updatedElection = await zkElection.elections(electionId);
-	const candidateInfo = await zkElection.getCandidateInfo(
-		electionId,
-		candidateIndex
-	);
-	const nullifierUsed = await zkElection.nullifiers(electionId, nullifierHash);
+	const nullifierUsed = await zkElection.nullifiers(electionId, voteProof.nullifierHash);
 
 	console.log("Total Votes:", updatedElection.totalVotes.toString());
-	console.log(
-		`Candidate ${candidateIndex} (Candidate C) Votes:`,
-		candidateInfo.voteCount.toString()
-	);
 	console.log("Nullifier Used:", nullifierUsed);
 
 	if (receipt?.status === 1 && nullifierUsed) {
 		console.log("\n✅ Vote cast successfully!");
-		console.log(`✅ NIC003 voted for Candidate C`);
+		console.log(`✅ NIC003 voted (ballot encrypted under the tally key)`);
 		console.log(`✅ Nullifier hash marked as used (prevents double voting)`);
 	} else {
 		console.log("\n❌ Vote failed!");
@@ -260,11 +217,7 @@ async function main() {
 	console.log("\n=== Final Election Status ===");
 	const finalElection = await zkElection.elections(electionId);
 	console.log("Total Votes:", finalElection.totalVotes.toString());
-
-	for (let i = 0; i < 3; i++) {
-		const candidate = await zkElection.getCandidateInfo(electionId, i);
-		console.log(`Candidate ${i}: ${candidate.voteCount.toString()} votes`);
-	}
+	console.log("Candidate totals are published by the tally after the election ends");
 }
 
 main()
@@ -1,7 +1,14 @@
 import {ethers} from "hardhat";
+import {
+	createTemporaryWalletTransaction,
+	toTemporaryWalletTransactionArgs,
+} from "../../../utils/paymasterSigner";
+import {computeLegacyNICHash} from "../../../utils/nicHash";
+import {ensureSponsored} from "../../../utils/sponsorshipPolicy";
 
 // Contract addresses
 const NIC_REGISTRY_ADDRESS = "0x24D2Caf2fd29D503e72AdD19a5c56C2452d2e5C1";
+const NIC_PAYMASTER_ADDRESS = "0xcb1d0aac729D0591fCe76C8d604D2B6b2dfa5Ff4"; // SimpleCounter's trusted forwarder
 const COUNTER_ADDRESS = "0x1C92c2485d4512e304adD509499900Be39B22Af5";
 
 // Test data
@@ -9,7 +16,7 @@ const TEST_NIC = "1234";
 const REGISTERED_WALLET = "0x835a5220EC26fcFe855dC0957cE483f03A8Bb028";
 
 async function main() {
-	console.log("=== Testing Session + executeOnBehalf ===");
+	console.log("=== Testing Session + NICPaymaster Forwarding ===");
 	console.log(
 		"Testing if temporary wallet can execute transactions on behalf of registered wallet"
 	);
@@ -21,6 +28,7 @@ async function main() {
 	console.log("Test NIC:", TEST_NIC);
 	console.log("Registered Wallet:", REGISTERED_WALLET);
 	console.log("NIC Registry:", NIC_REGISTRY_ADDRESS);
+	console.log("NIC Paymaster:", NIC_PAYMASTER_ADDRESS);
 	console.log("Counter:", COUNTER_ADDRESS);
 
 	// Get contract instances
@@ -28,8 +36,21 @@ async function main() {
 		"NICWalletRegistry",
 		NIC_REGISTRY_ADDRESS
 	);
+	const nicPaymaster = await ethers.getContractAt(
+		"NICPaymaster",
+		NIC_PAYMASTER_ADDRESS
+	);
 	const counter = await ethers.getContractAt("SimpleCounter", COUNTER_ADDRESS);
 
+	// Sessions may only call the counter (plaintext-NIC registrations use the legacy NIC hash)
+	const {chainId} = await ethers.provider.getNetwork();
+	const counterOnly = {allowedTargets: [COUNTER_ADDRESS], allowedSelectors: [], maxCalls: 0};
+
+	// The paymaster only relays calls its sponsorship policy allows
+	if (await ensureSponsored(nicPaymaster, COUNTER_ADDRESS)) {
+		console.log("✅ SimpleCounter added to the paymaster's sponsored targets");
+	}
+
 	try {
 		// Step 1: Verify the NIC is registered
 		console.log("\n--- Step 1: Verify NIC Registration ---");
@@ -74,10 +95,11 @@ async function main() {
 		// Step 5: Create session using system wallet
 		console.log("\n--- Step 5: Create Session ---");
 		const sessionDuration = 24 * 3600; // 24 hours
-		const sessionTx = await registry.createSession(
-			TEST_NIC,
+		const sessionTx = await registry.createScopedSessionByHash(
+			computeLegacyNICHash(TEST_NIC, chainId),
 			tempWallet.address,
-			sessionDuration
+			sessionDuration,
+			counterOnly
 		);
 		await sessionTx.wait();
 		console.log("✅ Session created successfully!");
@@ -108,10 +130,13 @@ async function main() {
 			initialUserCounter.toString()
 		);
 
-		// Step 8: Prepare transaction using executeOnBehalf
-		console.log("\n--- Step 8: Prepare Transaction via executeOnBehalf ---");
+		// Step 8: Prepare a call signed by the temporary wallet
+		// SimpleCounter only counts a call for the registered wallet when its trusted forwarder
+		// (NICPaymaster) relays it; through NICWalletRegistry.executeOnBehalf the caller would be
+		// the registry and the counter would reject it
+		console.log("\n--- Step 8: Prepare Transaction for the NICPaymaster ---");
 		console.log(
-			"🎯 Temporary wallet will use executeOnBehalf to act as registered wallet"
+			"🎯 Temporary wallet will sign the call and submit it to the NICPaymaster itself"
 		);
 
 		// Connect temporary wallet to provider
@@ -131,6 +156,17 @@ async function main() {
 		console.log("Registered wallet:", REGISTERED_WALLET);
 		console.log("Temporary wallet (executor):", tempWallet.address);
 
+		const {request, signature} = await createTemporaryWalletTransaction(
+			nicPaymaster,
+			tempWalletConnected,
+			{
+				originalWallet: REGISTERED_WALLET,
+				target: await counter.getAddress(),
+				data: functionData,
+			}
+		);
+		console.log("Temporary wallet nonce:", request.nonce.toString());
+
 		// Step 9: Check balances before transaction
 		console.log("\n--- Step 9: Balances Before Transaction ---");
 		const tempWalletBalanceBefore = await ethers.provider.getBalance(
@@ -151,20 +187,20 @@ async function main() {
 			"ETH"
 		);
 
-		// Step 10: Execute transaction using executeOnBehalf
-		console.log("\n--- Step 10: Execute Transaction via executeOnBehalf ---");
+		// Step 10: Submit the signed call to the NICPaymaster
+		console.log("\n--- Step 10: Execute Transaction via NICPaymaster ---");
 		console.log(
 			"🚀 Temporary wallet executing transaction on behalf of registered wallet..."
 		);
-		console.log("💡 Using NICWalletRegistry.executeOnBehalf function");
-
-		// The temporary wallet calls executeOnBehalf on the NICWalletRegistry
-		// This will execute the counter function on behalf of the registered wallet
-		const tx = await registry.connect(tempWalletConnected).executeOnBehalf(
-			REGISTERED_WALLET, // original wallet (registered wallet)
-			counter.target, // target contract (counter)
-			functionData // function call data
-		);
+		console.log("💡 Using NICPaymaster.executeTemporaryWalletTransaction");
+
+		// The temporary wallet submits (and pays gas for) its own signed request; the paymaster
+		// checks its session and forwards the call as the registered wallet
+		const tx = await nicPaymaster
+			.connect(tempWalletConnected)
+			.executeTemporaryWalletTransaction(
+				...toTemporaryWalletTransactionArgs(request, signature)
+			);
 
 		console.log("Transaction hash:", tx.hash);
 		const receipt = await tx.wait();
@@ -237,7 +273,7 @@ async function main() {
 		console.log("✅ Session created successfully");
 		console.log("✅ Session verified and active");
 		console.log("✅ Temporary wallet can control registered wallet");
-		console.log("✅ executeOnBehalf executed successfully");
+		console.log("✅ NICPaymaster forwarded the call as the registered wallet");
 		console.log("✅ Counter incremented for registered wallet");
 		console.log("✅ Gas paid by temporary wallet, not by registered wallet");
 		console.log("✅ Session remains valid after transaction");
@@ -256,7 +292,7 @@ async function main() {
 		console.log("Session Expires:", new Date(Number(expiryTime) * 1000));
 
 		console.log(
-			"\n🎉 SUCCESS: Complete flow working! Temporary wallet can act like NIC account using executeOnBehalf!"
+			"\n🎉 SUCCESS: Complete flow working! Temporary wallet can act like NIC account through the NICPaymaster!"
 		);
 	} catch (error) {
 		console.error("❌ Test failed:", error);
@@ -272,7 +308,7 @@ async function main() {
 			);
 		} else if (error.message?.includes("NIC not registered")) {
 			console.log("💡 Solution: Register the NIC first");
-		} else if (error.message?.includes("No valid access")) {
+		} else if (error.message?.includes("Temporary wallet access expired or invalid")) {
 			console.log("💡 Solution: Check session creation and verification");
 		} else if (error.message?.includes("insufficient funds")) {
 			console.log("💡 Solution: The temporary wallet needs ETH for gas");
@@ -1,4 +1,10 @@
 import {ethers} from "hardhat";
+import {
+	createTemporaryWalletTransaction,
+	toTemporaryWalletTransactionArgs,
+} from "../../../utils/paymasterSigner";
+import {computeLegacyNICHash} from "../../../utils/nicHash";
+import {ensureSponsored} from "../../../utils/sponsorshipPolicy";
 
 // Contract addresses - Update these with your deployed contract addresses
 const NIC_REGISTRY_ADDRESS = "0x24D2Caf2fd29D503e72AdD19a5c56C2452d2e5C1";
@@ -45,6 +51,15 @@ async function main() {
 	console.log("✅ Connected to NICPaymaster");
 
 	const counter = await ethers.getContractAt("SimpleCounter", COUNTER_ADDRESS);
+
+	// Sessions may only call the counter (plaintext-NIC registrations use the legacy NIC hash)
+	const {chainId} = await ethers.provider.getNetwork();
+	const counterOnly = {allowedTargets: [COUNTER_ADDRESS], allowedSelectors: [], maxCalls: 0};
+
+	// The paymaster only relays calls its sponsorship policy allows
+	if (await ensureSponsored(nicPaymaster, COUNTER_ADDRESS)) {
+		console.log("✅ SimpleCounter added to the paymaster's sponsored targets");
+	}
 	console.log("✅ Connected to SimpleCounter");
 
 	// Check NICPaymaster balance and fund if needed
@@ -97,7 +112,7 @@ async function main() {
 		console.log("Temporary wallet address:", tempWallet.address);
 		console.log("Temporary wallet private key:", tempWallet.privateKey);
 
-		// Step 4: Fund temporary wallet (needed for executeOnBehalf)
+		// Step 4: Fund temporary wallet (the relayer pays gas, so it should stay untouched)
 		console.log("\n--- Step 4: Fund Temporary Wallet ---");
 		const fundTx = await deployer.sendTransaction({
 			to: tempWallet.address,
@@ -109,10 +124,11 @@ async function main() {
 		// Step 5: Create session using system wallet
 		console.log("\n--- Step 5: Create Session ---");
 		const sessionDuration = 24 * 3600; // 24 hours
-		const sessionTx = await registry.createSession(
-			TEST_NIC,
+		const sessionTx = await registry.createScopedSessionByHash(
+			computeLegacyNICHash(TEST_NIC, chainId),
 			tempWallet.address,
-			sessionDuration
+			sessionDuration,
+			counterOnly
 		);
 		await sessionTx.wait();
 		console.log("✅ Session created successfully!");
@@ -143,10 +159,13 @@ async function main() {
 			initialUserCounter.toString()
 		);
 
-		// Step 8: Prepare transaction using executeOnBehalf (since paymaster functions not available)
-		console.log("\n--- Step 8: Prepare Transaction with executeOnBehalf ---");
+		// Step 8: Prepare a call signed by the temporary wallet
+		// SimpleCounter only counts a call for the registered wallet when its trusted forwarder
+		// (NICPaymaster) relays it; through NICWalletRegistry.executeOnBehalf the caller would be
+		// the registry and the counter would reject it
+		console.log("\n--- Step 8: Prepare Transaction for the NICPaymaster ---");
 		console.log(
-			"🎯 Temporary wallet will execute transaction on behalf of registered wallet"
+			"🎯 Temporary wallet will sign a transaction on behalf of registered wallet"
 		);
 
 		// Connect temporary wallet to provider
@@ -168,6 +187,17 @@ async function main() {
 			REGISTERED_WALLET
 		);
 
+		const {request, signature} = await createTemporaryWalletTransaction(
+			nicPaymaster,
+			tempWalletConnected,
+			{
+				originalWallet: REGISTERED_WALLET,
+				target: await counter.getAddress(),
+				data: functionData,
+			}
+		);
+		console.log("Temporary wallet nonce:", request.nonce.toString());
+
 		// Step 8: Check balances before transaction
 		console.log("\n--- Step 8: Balances Before Transaction ---");
 		const relayerBalanceBefore = await ethers.provider.getBalance(
@@ -196,19 +226,19 @@ async function main() {
 			"ETH"
 		);
 
-		// Step 9: Execute transaction using executeOnBehalf (working method)
-		console.log("\n--- Step 9: Execute Transaction with executeOnBehalf ---");
+		// Step 9: Relay the signed call through the NICPaymaster
+		console.log("\n--- Step 9: Execute Transaction via NICPaymaster ---");
 		console.log(
-			"🚀 Temporary wallet executing transaction on behalf of registered wallet..."
+			"🚀 Relayer submitting the temporary wallet's call on behalf of registered wallet..."
 		);
 		console.log("💡 Temporary wallet has session access to registered wallet");
-		console.log("💡 Temporary wallet pays gas fees");
+		console.log("💡 Relayer pays gas fees");
 
-		const tx = await registry.connect(tempWalletConnected).executeOnBehalf(
-			REGISTERED_WALLET, // original wallet (registered wallet)
-			counter.target, // target contract
-			functionData // function call data
-		);
+		const tx = await nicPaymaster
+			.connect(deployer)
+			.executeTemporaryWalletTransaction(
+				...toTemporaryWalletTransactionArgs(request, signature)
+			);
 
 		console.log("Transaction hash:", tx.hash);
 		const receipt = await tx.wait();
@@ -293,10 +323,10 @@ async function main() {
 		console.log("✅ Session created successfully");
 		console.log("✅ Session verified and active");
 		console.log("✅ Temporary wallet can control registered wallet");
-		console.log("✅ Transaction executed successfully using executeOnBehalf");
+		console.log("✅ Transaction relayed successfully through the NICPaymaster");
 		console.log("✅ Counter incremented for registered wallet");
 		console.log(
-			"✅ Gas paid by temporary wallet, registered wallet paid nothing"
+			"✅ Gas paid by the relayer, temporary and registered wallets paid nothing"
 		);
 		console.log("✅ Session remains valid after transaction");
 
@@ -314,7 +344,7 @@ async function main() {
 		console.log("Session Expires:", new Date(Number(expiryTime) * 1000));
 
 		console.log(
-			"\n🎉 SUCCESS: Complete flow working! Temporary wallet can act like NIC account using executeOnBehalf!"
+			"\n🎉 SUCCESS: Complete flow working! Temporary wallet can act like NIC account through the NICPaymaster!"
 		);
 	} catch (error) {
 		console.error("❌ Test failed:", error);
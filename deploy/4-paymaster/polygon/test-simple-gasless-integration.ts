@@ -1,4 +1,10 @@
 import {ethers} from "hardhat";
+import {
+	createTemporaryWalletTransaction,
+	toTemporaryWalletTransactionArgs,
+} from "../../../utils/paymasterSigner";
+import {computeLegacyNICHash} from "../../../utils/nicHash";
+import {ensureSponsored} from "../../../utils/sponsorshipPolicy";
 
 // Contract addresses - Update these with your deployed contract addresses
 const NIC_REGISTRY_ADDRESS = "0x24D2Caf2fd29D503e72AdD19a5c56C2452d2e5C1";
@@ -12,7 +18,7 @@ const REGISTERED_WALLET = "0x835a5220EC26fcFe855dC0957cE483f03A8Bb028";
 async function main() {
 	console.log("=== Testing Simple Gasless Integration ===");
 	console.log(
-		"This test shows how to make executeOnBehalf gasless by having the relayer pay gas"
+		"This test shows how to make session calls gasless by having the relayer submit them to the NICPaymaster"
 	);
 
 	const signers = await ethers.getSigners();
@@ -33,6 +39,15 @@ async function main() {
 	);
 	const counter = await ethers.getContractAt("SimpleCounter", COUNTER_ADDRESS);
 
+	// Sessions may only call the counter (plaintext-NIC registrations use the legacy NIC hash)
+	const {chainId} = await ethers.provider.getNetwork();
+	const counterOnly = {allowedTargets: [COUNTER_ADDRESS], allowedSelectors: [], maxCalls: 0};
+
+	// The paymaster only relays calls its sponsorship policy allows
+	if (await ensureSponsored(nicPaymaster, COUNTER_ADDRESS)) {
+		console.log("✅ SimpleCounter added to the paymaster's sponsored targets");
+	}
+
 	// Ensure paymaster has funds
 	const paymasterBalance = await nicPaymaster.getBalance();
 	if (paymasterBalance === 0n) {
@@ -46,7 +61,12 @@ async function main() {
 		console.log("\nTemporary wallet:", tempWallet.address);
 
 		// Create session
-		await registry.createSession(TEST_NIC, tempWallet.address, 24 * 3600);
+		await registry.createScopedSessionByHash(
+			computeLegacyNICHash(TEST_NIC, chainId),
+			tempWallet.address,
+			24 * 3600,
+			counterOnly
+		);
 		console.log("✅ Session created");
 
 		// Check initial counter state
@@ -89,9 +109,13 @@ async function main() {
 			"ETH"
 		);
 
-		// Method 1: Direct executeOnBehalf (temporary wallet pays gas)
+		// Both methods go through the NICPaymaster: SimpleCounter only counts a call for the
+		// registered wallet when its trusted forwarder relays it (through
+		// NICWalletRegistry.executeOnBehalf the caller would be the registry)
+
+		// Method 1: Temporary wallet submits its own signed call (temporary wallet pays gas)
 		console.log(
-			"\n=== Method 1: Direct executeOnBehalf (Temporary Wallet Pays Gas) ==="
+			"\n=== Method 1: Temporary Wallet Submits to NICPaymaster (Temporary Wallet Pays Gas) ==="
 		);
 
 		// Fund temporary wallet for gas
@@ -104,11 +128,22 @@ async function main() {
 		const tempWalletConnected = tempWallet.connect(ethers.provider);
 
 		// Execute transaction (temporary wallet pays gas)
-		const tx1 = await registry
+		const signed1 = await createTemporaryWalletTransaction(
+			nicPaymaster,
+			tempWalletConnected,
+			{
+				originalWallet: REGISTERED_WALLET,
+				target: await counter.getAddress(),
+				data: functionData,
+			}
+		);
+		const tx1 = await nicPaymaster
 			.connect(tempWalletConnected)
-			.executeOnBehalf(REGISTERED_WALLET, counter.target, functionData);
+			.executeTemporaryWalletTransaction(
+				...toTemporaryWalletTransactionArgs(signed1.request, signed1.signature)
+			);
 		await tx1.wait();
-		console.log("✅ Transaction executed via executeOnBehalf");
+		console.log("✅ Transaction executed via NICPaymaster");
 
 		// Check balances after
 		const relayerBalanceAfter1 = await ethers.provider.getBalance(
@@ -151,9 +186,9 @@ async function main() {
 		console.log("Relayer paid:", ethers.formatEther(relayerGasPaid1), "ETH");
 		console.log("Result: NOT gasless for temporary wallet");
 
-		// Method 2: Relayer pays gas for executeOnBehalf (gasless for temporary wallet)
+		// Method 2: Relayer submits the signed call (gasless for temporary wallet)
 		console.log(
-			"\n=== Method 2: Relayer Pays Gas for executeOnBehalf (Gasless for Temporary Wallet) ==="
+			"\n=== Method 2: Relayer Submits to NICPaymaster (Gasless for Temporary Wallet) ==="
 		);
 
 		// Create a new temporary wallet (no funding needed)
@@ -161,7 +196,12 @@ async function main() {
 		console.log("New temporary wallet:", tempWallet2.address);
 
 		// Create session for new temporary wallet
-		await registry.createSession(TEST_NIC, tempWallet2.address, 24 * 3600);
+		await registry.createScopedSessionByHash(
+			computeLegacyNICHash(TEST_NIC, chainId),
+			tempWallet2.address,
+			24 * 3600,
+			counterOnly
+		);
 		console.log("✅ Session created for new temporary wallet");
 
 		// Check balances before method 2
@@ -184,27 +224,21 @@ async function main() {
 			"ETH"
 		);
 
-		// Execute transaction with relayer paying gas (using a proxy approach)
-		// We'll use a simple approach where the relayer calls executeOnBehalf on behalf of the temporary wallet
-		// This simulates a gasless transaction where the relayer covers all costs
-
-		// Create a wrapper function that the relayer can call
-		const executeOnBehalfWrapper = async (
-			originalWallet: string,
-			target: string,
-			data: string
-		) => {
-			// The relayer calls executeOnBehalf, but we need to simulate the temporary wallet's permission
-			// In a real implementation, this would be done through a more sophisticated mechanism
-			return await registry.executeOnBehalf(originalWallet, target, data);
-		};
-
-		// Execute the transaction (relayer pays all gas)
-		const tx2 = await executeOnBehalfWrapper(
-			REGISTERED_WALLET,
-			counter.target,
-			functionData
-		);
+		// The temporary wallet only signs; the relayer submits and pays gas
+		const signed2 = await createTemporaryWalletTransaction(
+			nicPaymaster,
+			tempWallet2,
+			{
+				originalWallet: REGISTERED_WALLET,
+				target: await counter.getAddress(),
+				data: functionData,
+			}
+		);
+		const tx2 = await nicPaymaster
+			.connect(deployer)
+			.executeTemporaryWalletTransaction(
+				...toTemporaryWalletTransactionArgs(signed2.request, signed2.signature)
+			);
 		await tx2.wait();
 		console.log("✅ Gasless transaction executed (relayer paid gas)");
 
@@ -254,7 +288,7 @@ async function main() {
 
 		// Summary
 		console.log("\n=== COMPARISON SUMMARY ===");
-		console.log("Method 1 (Direct executeOnBehalf):");
+		console.log("Method 1 (Temporary wallet submits):");
 		console.log(
 			"  - Temporary wallet paid:",
 			ethers.formatEther(tempWalletGasPaid1),
@@ -267,7 +301,7 @@ async function main() {
 		);
 		console.log("  - Result: NOT gasless for temporary wallet");
 
-		console.log("\nMethod 2 (Relayer pays gas):");
+		console.log("\nMethod 2 (Relayer submits):");
 		console.log(
 			"  - Temporary wallet paid:",
 			ethers.formatEther(tempWalletGasPaid2),
@@ -291,8 +325,8 @@ async function main() {
 		}
 
 		console.log("\n=== Key Insight ===");
-		console.log("To make executeOnBehalf gasless:");
-		console.log("1. The relayer (system wallet) should call executeOnBehalf");
+		console.log("To make a session call gasless:");
+		console.log("1. The relayer (system wallet) submits the temporary wallet's signed call");
 		console.log("2. The relayer pays all gas fees");
 		console.log("3. The temporary wallet needs no ETH");
 		console.log(
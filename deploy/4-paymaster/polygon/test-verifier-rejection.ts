@@ -1,173 +1,101 @@
 import {ethers} from "hardhat";
 
 /**
- * Test that RealZKVerifier rejects invalid proofs
+ * Test that the deployed verifier rejects forged proofs
  * 
- * This test verifies that the RealZKVerifier actually validates proofs
- * and rejects invalid ones (unlike MockZKVerifier which accepts everything)
+ * This test verifies that UltraVerifier (generated from the voting circuit) actually
+ * checks proofs and rejects forged ones (unlike RealZKVerifier, which only checks structure)
+ *
+ * Environment variables:
+ *   VERIFIER_ADDRESS - Address of the deployed verifier
  */
 async function main() {
-	console.log("=== Testing RealZKVerifier Proof Rejection ===\n");
+	console.log("=== Testing Verifier Proof Rejection ===\n");
 
-	const [deployer] = await ethers.getSigners();
 	const verifierAddress = process.env.VERIFIER_ADDRESS || 
 		"0x5ec18C7C14D163045dC5d61077820C1662c0f590";
 
 	console.log("Verifier Address:", verifierAddress);
 
-	const RealZKVerifier = await ethers.getContractFactory("RealZKVerifier");
-	const verifier = RealZKVerifier.attach(verifierAddress);
+	const verifier = await ethers.getContractAt("IVerifier", verifierAddress);
+
+	// UltraPlonk proofs are 2144 bytes without their public inputs
+	const proofLength = 2144;
+	const toPublicInputs = (inputs: (string | number | bigint)[]) =>
+		inputs.map((input) => ethers.toBeHex(input, 32));
+
+	// A proof counts as rejected if verify reverts or returns false
+	let rejectedCount = 0;
+	const expectRejected = async (proof: {proof: string; publicInputs: string[]}) => {
+		try {
+			const result = await verifier.verify(proof.proof, proof.publicInputs);
+			if (result) {
+				console.log("❌ FAILED: Invalid proof was accepted!");
+				return;
+			}
+			console.log("✅ PASSED: Invalid proof correctly rejected (returned false)");
+		} catch (error: any) {
+			console.log("✅ PASSED: Invalid proof correctly rejected");
+			console.log("Error:", error.message);
+		}
+		rejectedCount++;
+	};
 
 	// Test 1: Invalid proof with zero values (should be rejected)
 	console.log("\n--- Test 1: Invalid Proof (Zero Values) ---");
 	const invalidProof1 = {
-		a: [0, 0],
-		b: [[0, 0], [0, 0]],
-		c: [0, 0],
-		input: [0, 0, 0, 0] // All zeros - invalid
+		proof: ethers.hexlify(new Uint8Array(proofLength)),
+		publicInputs: toPublicInputs([0, 0, 0, 0]) // All zeros - invalid
 	};
 
-	try {
-		const result1 = await verifier.verifyProof(
-			invalidProof1.a,
-			invalidProof1.b,
-			invalidProof1.c,
-			invalidProof1.input
-		);
-		console.log("❌ FAILED: Invalid proof was accepted!");
-		console.log("Result:", result1);
-	} catch (error: any) {
-		console.log("✅ PASSED: Invalid proof correctly rejected");
-		console.log("Error:", error.message);
-	}
+	await expectRejected(invalidProof1);
 
 	// Test 2: Invalid proof with max values (should be rejected)
 	console.log("\n--- Test 2: Invalid Proof (Max Values) ---");
 	const maxValue = ethers.MaxUint256;
 	const invalidProof2 = {
-		a: [maxValue, maxValue],
-		b: [[maxValue, maxValue], [maxValue, maxValue]],
-		c: [maxValue, maxValue],
-		input: [maxValue, maxValue, 999, 0]
+		proof: ethers.hexlify(new Uint8Array(proofLength).fill(0xff)),
+		publicInputs: toPublicInputs([maxValue, maxValue, maxValue, 0])
 	};
 
-	try {
-		const result2 = await verifier.verifyProof(
-			invalidProof2.a,
-			invalidProof2.b,
-			invalidProof2.c,
-			invalidProof2.input
-		);
-		console.log("❌ FAILED: Invalid proof was accepted!");
-		console.log("Result:", result2);
-	} catch (error: any) {
-		console.log("✅ PASSED: Invalid proof correctly rejected");
-		console.log("Error:", error.message);
-	}
+	await expectRejected(invalidProof2);
 
 	// Test 3: Invalid proof with commitment == nullifier (should be rejected)
 	console.log("\n--- Test 3: Invalid Proof (Commitment == Nullifier) ---");
 	const sameHash = "0x1111111111111111111111111111111111111111111111111111111111111111";
 	const invalidProof3 = {
-		a: [
-			"0x1234567890123456789012345678901234567890123456789012345678901234",
-			"0x2345678901234567890123456789012345678901234567890123456789012345"
-		],
-		b: [
-			[
-				"0x3456789012345678901234567890123456789012345678901234567890123456",
-				"0x4567890123456789012345678901234567890123456789012345678901234567"
-			],
-			[
-				"0x5678901234567890123456789012345678901234567890123456789012345678",
-				"0x6789012345678901234567890123456789012345678901234567890123456789"
-			]
-		],
-		c: [
-			"0x7890123456789012345678901234567890123456789012345678901234567890",
-			"0x8901234567890123456789012345678901234567890123456789012345678901"
-		],
-		input: [
+		proof: ethers.hexlify(ethers.randomBytes(proofLength)),
+		publicInputs: toPublicInputs([
+			"0x0333333333333333333333333333333333333333333333333333333333333333", // merkleRoot
 			sameHash,  // commitment
 			sameHash,  // nullifier (same as commitment - invalid!)
-			0,
 			0
-		]
+		])
 	};
 
-	try {
-		const result3 = await verifier.verifyProof(
-			invalidProof3.a,
-			invalidProof3.b,
-			invalidProof3.c,
-			invalidProof3.input
-		);
-		console.log("❌ FAILED: Invalid proof was accepted!");
-		console.log("Result:", result3);
-	} catch (error: any) {
-		console.log("✅ PASSED: Invalid proof correctly rejected");
-		console.log("Error:", error.message);
-	}
+	await expectRejected(invalidProof3);
 
-	// Test 4: Valid-looking proof (should pass basic checks)
-	console.log("\n--- Test 4: Valid-Looking Proof (Basic Checks) ---");
-	const FIELD_MODULUS = BigInt("21888242871839275222246405745257275088548364400416034343698204186575808495617");
+	// Test 4: Well-formed forged proof (passes RealZKVerifier's structural checks)
+	console.log("\n--- Test 4: Well-Formed Forged Proof ---");
 	const validLookingProof = {
-		a: [
-			"0x1234567890123456789012345678901234567890123456789012345678901234",
-			"0x2345678901234567890123456789012345678901234567890123456789012345"
-		],
-		b: [
-			[
-				"0x3456789012345678901234567890123456789012345678901234567890123456",
-				"0x4567890123456789012345678901234567890123456789012345678901234567"
-			],
-			[
-				"0x5678901234567890123456789012345678901234567890123456789012345678",
-				"0x6789012345678901234567890123456789012345678901234567890123456789"
-			]
-		],
-		c: [
-			"0x7890123456789012345678901234567890123456789012345678901234567890",
-			"0x8901234567890123456789012345678901234567890123456789012345678901"
-		],
-		input: [
+		proof: ethers.hexlify(ethers.randomBytes(proofLength)),
+		publicInputs: toPublicInputs([
+			"0x0333333333333333333333333333333333333333333333333333333333333333", // merkleRoot
 			"0x1111111111111111111111111111111111111111111111111111111111111111", // commitment
 			"0x2222222222222222222222222222222222222222222222222222222222222222", // nullifier
-			0, // candidateIndex
 			0, // electionId
-		]
+		])
 	};
 
-	try {
-		// Check if values are within field modulus
-		const a0 = BigInt(validLookingProof.a[0]);
-		const a1 = BigInt(validLookingProof.a[1]);
-		
-		if (a0 < FIELD_MODULUS && a1 < FIELD_MODULUS) {
-			const result4 = await verifier.verifyProof(
-				validLookingProof.a,
-				validLookingProof.b,
-				validLookingProof.c,
-				validLookingProof.input
-			);
-			console.log("✅ PASSED: Valid-looking proof passed basic checks");
-			console.log("Result:", result4);
-			console.log("⚠️  Note: This passes basic checks but NOT full ZK verification");
-		} else {
-			console.log("⚠️  Proof values exceed field modulus - will be rejected");
-		}
-	} catch (error: any) {
-		console.log("❌ FAILED: Valid-looking proof was rejected");
-		console.log("Error:", error.message);
-	}
+	await expectRejected(validLookingProof);
 
 	console.log("\n=== Summary ===");
-	console.log("✅ RealZKVerifier is working correctly");
-	console.log("✅ Invalid proofs are being rejected");
-	console.log("✅ Cryptographic validation is active");
-	console.log("\n⚠️  Note: RealZKVerifier performs cryptographic checks");
-	console.log("   For full ZK verification, compile Noir circuit and use generated verifier");
+	console.log(`Rejected ${rejectedCount}/4 forged proofs`);
+	if (rejectedCount < 4) {
+		console.log("❌ Verifier accepts forged proofs - do NOT use it for elections");
+		process.exit(1);
+	}
+	console.log("✅ Forged proofs are rejected by UltraPlonk verification");
 }
 
 main()
@@ -176,4 +104,3 @@ main()
 		console.error(error);
 		process.exit(1);
 	});
-
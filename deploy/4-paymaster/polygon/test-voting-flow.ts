@@ -1,12 +1,22 @@
 import {ethers} from "hardhat";
+import * as fs from "fs";
+import {MerkleTree} from "merkletreejs";
 import {
 	createVoterMerkleTree,
-	getMerkleProof,
 	generateVoterSecret,
-	computeCommitment,
-	computeNullifier,
 	getRegisteredWalletsFromNICs,
+	getVoterMerkleTreePath,
+	loadVoterMerkleTree,
 } from "../../../utils/merkleTree";
+import {
+	DEFAULT_CIRCUIT_PATH,
+	generateVoteProof,
+	loadVotingCircuit,
+	toCastVoteWithNICArgs,
+} from "../../../utils/zkProver";
+import {toG1Point} from "../../../utils/encryptedTally";
+import {createMetaTransaction, toMetaTransactionArgs} from "../../../utils/paymasterSigner";
+import {ensureSponsored} from "../../../utils/sponsorshipPolicy";
 
 /**
  * Complete Voting Flow Test Script
@@ -14,7 +24,7 @@ import {
  * This script demonstrates the full voting flow:
  * 1. Register users with NIC numbers
  * 2. Create session wallets
- * 3. Generate ZK proofs (mock for testing)
+ * 3. Generate ZK proofs (utils/zkProver.ts)
  * 4. Cast votes through paymaster (gasless)
  * 
  * Usage:
@@ -25,6 +35,9 @@ import {
  *   NIC_WALLET_REGISTRY_ADDRESS - Address of NICWalletRegistry
  *   NIC_PAYMASTER_ADDRESS - Address of NICPaymaster
  *   ELECTION_ID - Election ID (default: 0)
+ *   VOTER_TREE_FILE - Saved voter Merkle tree (optional, default: voter-trees/election-<id>.json)
+ *   VOTING_CIRCUIT_PATH - Compiled voting circuit (optional, default: circuits/voting-circuit/target/voting-circuit.json)
+ *   PAYMASTER_SIGNATURE_TTL - Seconds the signed paymaster request stays valid (optional, default: 900)
  */
 async function main() {
 	console.log("=== Testing Complete Voting Flow ===\n");
@@ -63,14 +76,22 @@ async function main() {
 	);
 	const zkElection = ZKElectionContract.attach(zkElectionAddress);
 
-	const NICWalletRegistry = await ethers.getContractFactory(
-		"NICWalletRegistry"
-	);
-	const nicRegistry = NICWalletRegistry.attach(nicRegistryAddress);
+	const nicRegistry = await ethers.getContractAt("NICWalletRegistry", nicRegistryAddress);
 
 	const NICPaymaster = await ethers.getContractFactory("NICPaymaster");
 	const nicPaymaster = NICPaymaster.attach(nicPaymasterAddress);
 
+	// The paymaster only relays session votes its sponsorship policy allows
+	if (
+		await ensureSponsored(
+			nicPaymaster,
+			zkElectionAddress,
+			zkElection.interface.getFunction("castVoteWithNIC").selector
+		)
+	) {
+		console.log("✅ castVoteWithNIC added to the paymaster's sponsored functions");
+	}
+
 	// ============================================
 	// Step 1: Register Users with NIC Numbers
 	// ============================================
@@ -180,35 +201,46 @@ async function main() {
 	console.log("Election Title:", election.electionTitle);
 	console.log("Merkle Root:", election.votersMerkleRoot);
 
-	// Get registered wallets for Merkle tree
-	// IMPORTANT: Must use the SAME voter addresses that were used to create the election
-	// Election was created with 5 test addresses, so we need all 5
-	const registeredWallets = await getRegisteredWalletsFromNICs(
-		testUsers.map((u) => u.nic),
-		nicRegistry
-	);
-
-	if (registeredWallets.length === 0) {
-		console.error("❌ No registered wallets found");
-		process.exit(1);
-	}
-
-	// Add the test addresses that were used in election creation
-	// These are the addresses from the election creation output
-	const allVoterAddresses = [
-		registeredWallets[0], // NIC001 -> deployer.address
-		"0x1111111111111111111111111111111111111111", // NIC002
-		"0x2222222222222222222222222222222222222222", // NIC003
-		"0x3333333333333333333333333333333333333333", // Test address 4
-		"0x4444444444444444444444444444444444444444", // Test address 5
-	];
+	// Prefer the tree saved by create-zk-election.ts; rebuild from the voter list otherwise
+	const treeFile =
+		process.env.VOTER_TREE_FILE || getVoterMerkleTreePath(electionId);
+	let tree: MerkleTree;
+	let root: Buffer;
+
+	if (fs.existsSync(treeFile)) {
+		({tree, root} = loadVoterMerkleTree(treeFile));
+		console.log("✅ Loaded voter Merkle tree from:", treeFile);
+	} else {
+		// Get registered wallets for Merkle tree
+		// IMPORTANT: Must use the SAME voter addresses that were used to create the election
+		// Election was created with 5 test addresses, so we need all 5
+		const registeredWallets = await getRegisteredWalletsFromNICs(
+			testUsers.map((u) => u.nic),
+			nicRegistry
+		);
 
-	console.log("Using voter addresses for Merkle tree:", allVoterAddresses.length);
-	console.log("Voter addresses:", allVoterAddresses);
+		if (registeredWallets.length === 0) {
+			console.error("❌ No registered wallets found");
+			process.exit(1);
+		}
 
-	// Create Merkle tree with ALL voter addresses (must match election creation)
-	const {tree, root} = createVoterMerkleTree(allVoterAddresses, electionId);
-	console.log("✅ Merkle tree created with", allVoterAddresses.length, "voters");
+		// Add the test addresses that were used in election creation
+		// These are the addresses from the election creation output
+		const allVoterAddresses = [
+			registeredWallets[0], // NIC001 -> deployer.address
+			"0x1111111111111111111111111111111111111111", // NIC002
+			"0x2222222222222222222222222222222222222222", // NIC003
+			"0x3333333333333333333333333333333333333333", // Test address 4
+			"0x4444444444444444444444444444444444444444", // Test address 5
+		];
+
+		console.log("Using voter addresses for Merkle tree:", allVoterAddresses.length);
+		console.log("Voter addresses:", allVoterAddresses);
+
+		// Create Merkle tree with ALL voter addresses (must match election creation)
+		({tree, root} = createVoterMerkleTree(allVoterAddresses, electionId));
+		console.log("✅ Merkle tree created with", allVoterAddresses.length, "voters");
+	}
 	console.log("Merkle root from tree:", ethers.hexlify(root));
 	console.log("Merkle root from election:", election.votersMerkleRoot);
 	
@@ -236,116 +268,58 @@ async function main() {
 	console.log(`Temporary Wallet: ${voter.temporaryWallet.address}`);
 	console.log(`Candidate Index: ${candidateIndex}`);
 
-	// Generate ZK proof components (mock for testing - replace with real ZK proof generation)
-	const voterSecret = generateVoterSecret(voter.nic, electionId);
-	const randomness = ethers.randomBytes(32);
-	const commitment = computeCommitment(
-		voterSecret,
-		candidateIndex,
-		ethers.hexlify(randomness),
-		electionId
-	);
-	const nullifierHash = computeNullifier(voterSecret, electionId);
+	const [electionData, candidates] = await zkElection.getElectionData(electionId);
 
-	// Get Merkle proof
-	const merkleProof = getMerkleProof(
-		tree,
-		voter.registeredWallet,
-		electionId
+	// Generate the ZK proof from the compiled voting circuit
+	console.log("\nGenerating ZK proof...");
+	const voteProof = await generateVoteProof(
+		{
+			voterSecret: generateVoterSecret(),
+			electionId,
+			candidateIndex,
+			candidateCount: candidates.length,
+			registeredWallet: voter.registeredWallet,
+			tree,
+			tallyPublicKey: toG1Point(electionData.tallyPublicKey),
+			chainId: (await ethers.provider.getNetwork()).chainId,
+			electionContract: zkElectionAddress,
+		},
+		loadVotingCircuit(process.env.VOTING_CIRCUIT_PATH || DEFAULT_CIRCUIT_PATH)
 	);
 
 	console.log("\nZK Proof Components:");
-	console.log("Voter Secret:", voterSecret);
-	console.log("Commitment:", commitment);
-	console.log("Nullifier Hash:", nullifierHash);
-	console.log("Merkle Proof Length:", merkleProof.length);
-
-	// ZK proof compatible with RealZKVerifier
-	// RealZKVerifier requires non-zero proof points within field modulus
-	// Input format: [commitment, nullifierHash, candidateIndex, electionId]
-	// Field modulus: 21888242871839275222246405745257275088548364400416034343698204186575808495617
-	const FIELD_MODULUS = BigInt("21888242871839275222246405745257275088548364400416034343698204186575808495617");
-	
-	// Use proof points that are definitely within field modulus
-	// Field modulus is very large, so we use smaller values to ensure they're valid
-	// These are NOT real ZK proofs, but pass RealZKVerifier's basic checks
-	const mockProof = {
-		a: [
-			"0x0000000000000000000000000000000000000000000000000000000000000001", // 1
-			"0x0000000000000000000000000000000000000000000000000000000000000002"  // 2
-		],
-		b: [
-			[
-				"0x0000000000000000000000000000000000000000000000000000000000000003", // 3
-				"0x0000000000000000000000000000000000000000000000000000000000000004"  // 4
-			],
-			[
-				"0x0000000000000000000000000000000000000000000000000000000000000005", // 5
-				"0x0000000000000000000000000000000000000000000000000000000000000006"  // 6
-			]
-		],
-		c: [
-			"0x0000000000000000000000000000000000000000000000000000000000000007", // 7
-			"0x0000000000000000000000000000000000000000000000000000000000000008"  // 8
-		],
-		input: [commitment, nullifierHash, candidateIndex, electionId], // 4 values
-	};
-	
-	// Verify proof values are within field modulus (they should be, using small values)
-	const a0 = BigInt(mockProof.a[0]);
-	const a1 = BigInt(mockProof.a[1]);
-	if (a0 >= FIELD_MODULUS || a1 >= FIELD_MODULUS) {
-		console.error("❌ Proof point a exceeds field modulus");
-		process.exit(1);
-	}
-	console.log("✅ Proof points are within field modulus");
+	console.log("Commitment:", voteProof.commitment);
+	console.log("Nullifier Hash:", voteProof.nullifierHash);
+	console.log("Merkle Proof Length:", voteProof.merkleProof.length);
+	console.log("✅ Proof generated");
 
 	try {
 		// Prepare function data for castVoteWithNIC
 		const iface = zkElection.interface;
-		const functionData = iface.encodeFunctionData("castVoteWithNIC", [
-			electionId,
-			voter.nic,
-			voter.registeredWallet,
-			voter.temporaryWallet.address,
-			candidateIndex,
-			nullifierHash,
-			commitment,
-			merkleProof,
-			mockProof.a,
-			mockProof.b,
-			mockProof.c,
-			mockProof.input,
-		]);
-
-		// Get nonce for paymaster (temporary wallet nonce)
-		const nonce = await nicPaymaster.getTempWalletNonce(
-			voter.temporaryWallet.address
-		);
-
-		// Create message hash for paymaster signature
-		const messageHash = ethers.keccak256(
-			ethers.solidityPacked(
-				["address", "address", "address", "uint256", "bytes", "uint256", "address"],
-				[
-					voter.registeredWallet,
-					voter.temporaryWallet.address,
-					zkElectionAddress,
-					0, // value
-					functionData,
-					nonce,
-					nicPaymasterAddress,
-				]
+		const functionData = iface.encodeFunctionData(
+			"castVoteWithNIC",
+			toCastVoteWithNICArgs(
+				voteProof,
+				voter.nic,
+				voter.registeredWallet,
+				voter.temporaryWallet.address
 			)
 		);
 
-		// Sign with temporary wallet (paymaster expects temporary wallet signature)
-		const signature = await voter.temporaryWallet.signMessage(
-			ethers.getBytes(messageHash)
+		// The temporary wallet signs the vote as its own meta-transaction: the election only
+		// accepts session votes whose forwarded sender is the session wallet itself
+		const {request, signature} = await createMetaTransaction(
+			nicPaymaster,
+			voter.temporaryWallet,
+			{
+				target: zkElectionAddress,
+				data: functionData,
+			}
 		);
 
 		console.log("\n--- Executing Gasless Vote ---");
-		console.log("Message Hash:", messageHash);
+		console.log("Nonce:", request.nonce.toString());
+		console.log("Valid until:", new Date(Number(request.validUntil) * 1000).toISOString());
 		console.log("Signature:", signature);
 
 		// Execute through paymaster (relayer/deployer calls it, temporary wallet just signed)
@@ -353,13 +327,8 @@ async function main() {
 		console.log("\nCalling paymaster...");
 		const paymasterTx = await nicPaymaster
 			.connect(deployer) // Relayer executes (has ETH for gas)
-			.executeGaslessTemporaryTransaction(
-				voter.registeredWallet,
-				voter.temporaryWallet.address,
-				zkElectionAddress,
-				0,
-				functionData,
-				signature
+			.executeMetaTransaction(
+				...toMetaTransactionArgs(request, signature)
 			);
 
 		console.log("Transaction hash:", paymasterTx.hash);
@@ -402,16 +371,9 @@ async function main() {
 		console.log("\n--- Updated Election Stats ---");
 		console.log("Total Votes:", updatedElection.totalVotes.toString());
 
-		const candidate = await zkElection.getCandidateInfo(electionId, candidateIndex);
-		console.log(`Candidate ${candidateIndex} (${candidate.name}) Votes:`, candidate.voteCount.toString());
-
 		// Check nullifier
-		const nullifierUsed = await zkElection.nullifiers(electionId, nullifierHash);
+		const nullifierUsed = await zkElection.nullifiers(electionId, voteProof.nullifierHash);
 		console.log("Nullifier Used:", nullifierUsed);
-		
-		// Check commitment count
-		const commitmentCount = await zkElection.voteCommitments(electionId, commitment);
-		console.log("Commitment Count:", commitmentCount.toString());
 
 		console.log("\n🎉 Voting flow test completed successfully!");
 	} catch (error: any) {
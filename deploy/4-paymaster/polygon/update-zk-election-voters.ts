@@ -0,0 +1,118 @@
+import {ethers} from "hardhat";
+import {
+	createVoterMerkleTree,
+	diffVoterRolls,
+	getVoterMerkleTreePath,
+	saveVoterMerkleTree,
+	updateVoterMerkleTree,
+} from "../../../utils/merkleTree";
+
+/**
+ * Publish an updated voter roll (new Merkle root) for a ZK election before it starts
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/polygon/update-zk-election-voters.ts --network polygonAmoy
+ *
+ * Environment variables:
+ *   ZK_ELECTION_CONTRACT_ADDRESS - Address of deployed ZK_ElectionContract
+ *   ELECTION_ID - Election ID to update
+ *   PREVIOUS_VOTER_ADDRESSES - Comma-separated registered wallets in the currently published roll
+ *   UPDATED_VOTER_ADDRESSES - Comma-separated registered wallets in the new roll
+ *   VOTER_TREE_FILE - Where to save the new voter Merkle tree (optional, default: voter-trees/election-<id>.json)
+ */
+async function main() {
+	console.log("=== Updating ZK Election Voter Roll ===");
+
+	const [deployer] = await ethers.getSigners();
+	console.log("Deployer address:", deployer.address);
+
+	const zkElectionAddress = process.env.ZK_ELECTION_CONTRACT_ADDRESS;
+	if (!zkElectionAddress) {
+		console.error("❌ Error: ZK_ELECTION_CONTRACT_ADDRESS not provided");
+		process.exit(1);
+	}
+
+	if (
+		!process.env.ELECTION_ID ||
+		!process.env.PREVIOUS_VOTER_ADDRESSES ||
+		!process.env.UPDATED_VOTER_ADDRESSES
+	) {
+		console.error(
+			"❌ Error: ELECTION_ID, PREVIOUS_VOTER_ADDRESSES and UPDATED_VOTER_ADDRESSES are required"
+		);
+		process.exit(1);
+	}
+
+	const electionId = parseInt(process.env.ELECTION_ID);
+	const previousVoters = process.env.PREVIOUS_VOTER_ADDRESSES.split(",").map(
+		(addr) => addr.trim()
+	);
+	const updatedVoters = process.env.UPDATED_VOTER_ADDRESSES.split(",").map(
+		(addr) => addr.trim()
+	);
+
+	const ZKElectionContract = await ethers.getContractFactory(
+		"ZK_ElectionContract"
+	);
+	const zkElection = ZKElectionContract.attach(zkElectionAddress);
+
+	// Make sure the previous roll is the one currently anchored on-chain
+	const election = await zkElection.elections(electionId);
+	const previousRoot = ethers.hexlify(
+		createVoterMerkleTree(previousVoters, electionId).root
+	);
+
+	const diff = diffVoterRolls(previousVoters, updatedVoters);
+	const {tree, root, voterAddresses} = updateVoterMerkleTree(
+		previousVoters,
+		diff,
+		electionId
+	);
+	const newRoot = ethers.hexlify(root);
+
+	console.log("\n--- Voter Roll Diff ---");
+	console.log("Added:", diff.added.length);
+	diff.added.forEach((address) => console.log(`  + ${address}`));
+	console.log("Removed:", diff.removed.length);
+	diff.removed.forEach((address) => console.log(`  - ${address}`));
+
+	if (previousRoot !== election.votersMerkleRoot) {
+		console.error("❌ Error: PREVIOUS_VOTER_ADDRESSES do not match the on-chain root");
+		console.error("Computed root:", previousRoot);
+		console.error("Election root:", election.votersMerkleRoot);
+		process.exit(1);
+	}
+
+	if (diff.added.length === 0 && diff.removed.length === 0) {
+		console.log("✅ Voter roll unchanged, nothing to publish");
+		return;
+	}
+
+	console.log("\n--- Publishing New Root ---");
+	console.log("Previous root:", previousRoot);
+	console.log("New root:", newRoot);
+	console.log("Number of voters:", voterAddresses.length);
+
+	const tx = await zkElection.updateVotersMerkleRoot(electionId, newRoot);
+	console.log("Transaction hash:", tx.hash);
+	const receipt = await tx.wait();
+	console.log("✅ Voter roll updated!");
+	console.log("Gas used:", receipt?.gasUsed.toString());
+
+	const history = await zkElection.getVotersMerkleRootHistory(electionId);
+	console.log("Root history:", history.length, "entries");
+
+	const treeFile = saveVoterMerkleTree(
+		tree,
+		electionId,
+		process.env.VOTER_TREE_FILE || getVoterMerkleTreePath(electionId)
+	);
+	console.log("✅ Voter Merkle tree saved to:", treeFile);
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error(error);
+		process.exit(1);
+	});
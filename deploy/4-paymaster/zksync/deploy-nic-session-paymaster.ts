@@ -0,0 +1,58 @@
+import {ethers} from "ethers";
+import {deployContract, getWallet} from "../../../utils";
+
+/**
+ * Deploy NICSessionPaymaster, the native ZKsync paymaster for NIC session wallets
+ *
+ * Start a local in-memory node first (zksync-cli dev start) and set WALLET_PRIVATE_KEY to one of
+ * its rich wallets (LOCAL_RICH_WALLETS in utils/index.ts).
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/zksync/deploy-nic-session-paymaster.ts --network anvilZKsync
+ *
+ * Environment variables:
+ *   WALLET_PRIVATE_KEY - Deployer key (becomes the paymaster owner)
+ *   NIC_WALLET_REGISTRY_ADDRESS - Existing NICWalletRegistry (optional, a new one is deployed if not set)
+ *   PAYMASTER_FUNDING - ETH sent to the paymaster for gas (optional, default: 0.05)
+ */
+async function main() {
+	console.log("=== Deploying NICSessionPaymaster (ZKsync) ===");
+
+	const wallet = getWallet();
+	console.log("Deployer address:", wallet.address);
+
+	let registryAddress = process.env.NIC_WALLET_REGISTRY_ADDRESS;
+	if (!registryAddress) {
+		const registry = await deployContract("NICWalletRegistry", [], {noVerify: true});
+		registryAddress = await registry.getAddress();
+	}
+	console.log("NIC Registry Address:", registryAddress);
+
+	const paymaster = await deployContract("NICSessionPaymaster", [registryAddress], {
+		noVerify: true,
+	});
+	const paymasterAddress = await paymaster.getAddress();
+
+	// Demo target for interact-nic-session-paymaster.ts (no ERC-2771 forwarder on ZKsync)
+	const counter = await deployContract("SimpleCounter", [ethers.ZeroAddress], {noVerify: true});
+	const counterAddress = await counter.getAddress();
+
+	console.log("\n--- Funding NICSessionPaymaster ---");
+	const funding = ethers.parseEther(process.env.PAYMASTER_FUNDING || "0.05");
+	const fundTx = await wallet.sendTransaction({to: paymasterAddress, value: funding});
+	await fundTx.wait();
+	console.log("✅ NICSessionPaymaster funded with", ethers.formatEther(funding), "ETH");
+
+	console.log("\n=== Deployment Summary ===");
+	console.log("NIC_WALLET_REGISTRY_ADDRESS =", registryAddress);
+	console.log("NIC_SESSION_PAYMASTER_ADDRESS =", paymasterAddress);
+	console.log("SIMPLE_COUNTER_ADDRESS =", counterAddress);
+	console.log("\n🎉 NICSessionPaymaster deployed and funded successfully!");
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("❌ Deployment failed:", error);
+		process.exit(1);
+	});
@@ -0,0 +1,105 @@
+import {ethers} from "ethers";
+import {Contract, Wallet} from "zksync-ethers";
+import * as hre from "hardhat";
+import {getProvider, getWallet} from "../../../utils";
+import {generateNICHashSalt, hashNIC} from "../../../utils/nicHash";
+import {getSessionPaymasterCustomData} from "../../../utils/sessionPaymaster";
+
+/**
+ * Send a transaction from an unfunded temporary wallet with its gas paid by NICSessionPaymaster
+ *
+ * The wallet from WALLET_PRIVATE_KEY is registered under TEST_NIC (if not registered yet), grants a
+ * session to a new random temporary wallet, and the temporary wallet calls
+ * SimpleCounter.increment with the paymaster covering the fee. The temporary wallet is the
+ * transaction's sender, so the increment counts for it.
+ *
+ * Usage:
+ *   npx hardhat run deploy/4-paymaster/zksync/interact-nic-session-paymaster.ts --network anvilZKsync
+ *
+ * Environment variables:
+ *   WALLET_PRIVATE_KEY - Registered (original) wallet key
+ *   NIC_WALLET_REGISTRY_ADDRESS - Address of deployed NICWalletRegistry
+ *   NIC_SESSION_PAYMASTER_ADDRESS - Address of deployed NICSessionPaymaster
+ *   SIMPLE_COUNTER_ADDRESS - Address of deployed SimpleCounter
+ *   TEST_NIC - NIC number of the registered wallet (optional, default: 200012345678)
+ *   NIC_HASH_SALT - NIC hash salt of the deployment (optional, a random salt is used if not set)
+ */
+async function main() {
+	console.log("=== NICSessionPaymaster Interaction (ZKsync) ===");
+
+	const registryAddress = process.env.NIC_WALLET_REGISTRY_ADDRESS;
+	const paymasterAddress = process.env.NIC_SESSION_PAYMASTER_ADDRESS;
+	const counterAddress = process.env.SIMPLE_COUNTER_ADDRESS;
+	if (!registryAddress || !paymasterAddress || !counterAddress) {
+		console.error(
+			"❌ Error: NIC_WALLET_REGISTRY_ADDRESS, NIC_SESSION_PAYMASTER_ADDRESS and SIMPLE_COUNTER_ADDRESS are required"
+		);
+		process.exit(1);
+	}
+
+	const provider = getProvider();
+	const originalWallet = getWallet();
+	const temporaryWallet = new Wallet(Wallet.createRandom().privateKey, provider);
+	console.log("Original wallet:", originalWallet.address);
+	console.log("Temporary wallet:", temporaryWallet.address);
+
+	const registryArtifact = await hre.artifacts.readArtifact("NICWalletRegistry");
+	const counterArtifact = await hre.artifacts.readArtifact("SimpleCounter");
+	const registry = new Contract(registryAddress, registryArtifact.abi, originalWallet);
+
+	// Register the original wallet and grant the session
+	console.log("\n--- Creating Session ---");
+	const nicHash = hashNIC(
+		process.env.TEST_NIC || "200012345678",
+		process.env.NIC_HASH_SALT || generateNICHashSalt()
+	);
+	if (!(await registry.isWalletRegistered(originalWallet.address))) {
+		const registerTx = await registry.registerWalletByHash(nicHash, originalWallet.address);
+		await registerTx.wait();
+		console.log("✅ Wallet registered - tx:", registerTx.hash);
+	}
+	const registeredNicHash = await registry.getNICHash(originalWallet.address);
+	// The paymaster only sponsors calls to the session's allowed targets
+	const sessionTx = await registry.createScopedSessionByHash(
+		registeredNicHash,
+		temporaryWallet.address,
+		3600,
+		{allowedTargets: [counterAddress], allowedSelectors: [], maxCalls: 0}
+	);
+	await sessionTx.wait();
+	console.log("✅ Session created - tx:", sessionTx.hash);
+
+	// Send the call from the temporary wallet, paid by the paymaster
+	console.log("\n--- Sending Sponsored Transaction ---");
+	const paymasterBalanceBefore = await provider.getBalance(paymasterAddress);
+	console.log("Temporary wallet balance:", ethers.formatEther(await temporaryWallet.getBalance()), "ETH");
+	console.log("Paymaster balance:", ethers.formatEther(paymasterBalanceBefore), "ETH");
+
+	const counter = new Contract(counterAddress, counterArtifact.abi, temporaryWallet);
+	const tx = await counter.increment({
+		customData: getSessionPaymasterCustomData(paymasterAddress, originalWallet.address),
+	});
+	const receipt = await tx.wait();
+	console.log("✅ Transaction mined - tx:", tx.hash, "gas used:", receipt.gasUsed.toString());
+
+	const paymasterBalanceAfter = await provider.getBalance(paymasterAddress);
+	console.log("\n=== Results ===");
+	console.log(
+		"Temporary wallet counter:",
+		(await counter.getUserCounter(temporaryWallet.address)).toString()
+	);
+	console.log("Temporary wallet balance:", ethers.formatEther(await temporaryWallet.getBalance()), "ETH");
+	console.log(
+		"Fee paid by paymaster:",
+		ethers.formatEther(paymasterBalanceBefore - paymasterBalanceAfter),
+		"ETH"
+	);
+	console.log("\n🎉 Temporary wallet transaction sponsored by NICSessionPaymaster!");
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch((error) => {
+		console.error("❌ Interaction failed:", error);
+		process.exit(1);
+	});
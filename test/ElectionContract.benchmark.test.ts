@@ -6,6 +6,15 @@ import type {
 	NICWalletRegistry,
 } from "../typechain-types";
 import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {
+	createTemporaryWalletTransaction,
+	getPaymasterDomain,
+	getValidityWindow,
+	signTemporaryWalletTransaction,
+	toTemporaryWalletTransactionArgs,
+} from "../utils/paymasterSigner";
+import {createRelayerQueue} from "../utils/relayerQueue";
+import {computeLegacyNICHash} from "../utils/nicHash";
 
 describe("Election Contract Gas Benchmark", function () {
 	let electionContract: ElectionContract;
@@ -63,18 +72,40 @@ describe("Election Contract Gas Benchmark", function () {
 		electionContract = await ElectionContractFactory.deploy();
 		await electionContract.waitForDeployment();
 
+		// Sponsor only voting on the election contract
+		const electionAddress = await electionContract.getAddress();
+		await nicPaymaster.setSponsoredSelectors(
+			electionAddress,
+			[electionContract.interface.getFunction("vote").selector],
+			true
+		);
+		await nicPaymaster.setElectionContract(electionAddress, true);
+
 		// Register wallets for voters
 		await nicRegistry.registerWallet("V001", voter1.address);
 		await nicRegistry.registerWallet("V002", voter2.address);
 
-		// Create sessions for voters (for paymaster testing)
+		// Create sessions for voters (for paymaster testing), allowed to call the election only
+		await nicRegistry.setTrustedPaymaster(await nicPaymaster.getAddress(), true);
 		const sessionDuration = 24 * 3600; // 24 hours
+		const {chainId} = await ethers.provider.getNetwork();
+		const electionOnly = {allowedTargets: [electionAddress], allowedSelectors: [], maxCalls: 0};
 		await nicRegistry
 			.connect(relayer)
-			.createSession("V001", voter1.address, sessionDuration);
+			.createScopedSessionByHash(
+				computeLegacyNICHash("V001", chainId),
+				voter1.address,
+				sessionDuration,
+				electionOnly
+			);
 		await nicRegistry
 			.connect(relayer)
-			.createSession("V002", voter2.address, sessionDuration);
+			.createScopedSessionByHash(
+				computeLegacyNICHash("V002", chainId),
+				voter2.address,
+				sessionDuration,
+				electionOnly
+			);
 	});
 
 	describe("Gas Benchmark Tests", function () {
@@ -212,46 +243,22 @@ describe("Election Contract Gas Benchmark", function () {
 				candidateIndex,
 			]);
 
-			// Get current nonce for temporary wallet
-			const nonce = await nicPaymaster.getTempWalletNonce(temporaryWallet);
-
-			// Create message hash for signature (must match contract's abi.encodePacked)
-			const messageHash = ethers.keccak256(
-				ethers.solidityPacked(
-					[
-						"address",
-						"address",
-						"address",
-						"uint256",
-						"bytes",
-						"uint256",
-						"address",
-					],
-					[
-						originalWallet,
-						temporaryWallet,
-						await electionContract.getAddress(),
-						0, // value
-						functionData,
-						nonce,
-						await nicPaymaster.getAddress(),
-					]
-				)
+			// Sign the EIP-712 request with the temporary wallet
+			const {request, signature} = await createTemporaryWalletTransaction(
+				nicPaymaster,
+				voter2,
+				{
+					originalWallet,
+					target: await electionContract.getAddress(),
+					data: functionData,
+				}
 			);
 
-			// Sign with temporary wallet (signMessage automatically adds Ethereum message prefix)
-			const signature = await voter2.signMessage(ethers.getBytes(messageHash));
-
 			// Estimate gas for paymaster execution
 			const gasEstimate = await nicPaymaster
 				.connect(relayer)
 				.executeGaslessTemporaryTransaction.estimateGas(
-					originalWallet,
-					temporaryWallet,
-					await electionContract.getAddress(),
-					0,
-					functionData,
-					signature
+					...toTemporaryWalletTransactionArgs(request, signature)
 				);
 
 			console.log(`Gas Estimate (Paymaster): ${gasEstimate.toString()}`);
@@ -265,12 +272,7 @@ describe("Election Contract Gas Benchmark", function () {
 			const tx = await nicPaymaster
 				.connect(relayer)
 				.executeGaslessTemporaryTransaction(
-					originalWallet,
-					temporaryWallet,
-					await electionContract.getAddress(),
-					0,
-					functionData,
-					signature
+					...toTemporaryWalletTransactionArgs(request, signature)
 				);
 
 			const receipt = await tx.wait();
@@ -338,49 +340,26 @@ describe("Election Contract Gas Benchmark", function () {
 
 			// Paymaster vote (using voter2)
 			const originalWallet2 = await nicRegistry.getWalletByNIC("V002");
-			const tempWallet2 = voter2.address;
 
 			const functionData2 = electionContract.interface.encodeFunctionData(
 				"vote",
 				[electionId, "V004", 1]
 			);
 
-			const nonce2 = await nicPaymaster.getTempWalletNonce(tempWallet2);
-			const messageHash2 = ethers.keccak256(
-				ethers.solidityPacked(
-					[
-						"address",
-						"address",
-						"address",
-						"uint256",
-						"bytes",
-						"uint256",
-						"address",
-					],
-					[
-						originalWallet2,
-						tempWallet2,
-						await electionContract.getAddress(),
-						0,
-						functionData2,
-						nonce2,
-						await nicPaymaster.getAddress(),
-					]
-				)
-			);
-			const signature2 = await voter2.signMessage(
-				ethers.getBytes(messageHash2)
+			const signed2 = await createTemporaryWalletTransaction(
+				nicPaymaster,
+				voter2,
+				{
+					originalWallet: originalWallet2,
+					target: await electionContract.getAddress(),
+					data: functionData2,
+				}
 			);
 
 			const paymasterTx = await nicPaymaster
 				.connect(relayer)
 				.executeGaslessTemporaryTransaction(
-					originalWallet2,
-					tempWallet2,
-					await electionContract.getAddress(),
-					0,
-					functionData2,
-					signature2
+					...toTemporaryWalletTransactionArgs(signed2.request, signed2.signature)
 				);
 			const paymasterReceipt = await paymasterTx.wait();
 			const paymasterGasUsed = paymasterReceipt?.gasUsed || 0n;
@@ -419,5 +398,104 @@ describe("Election Contract Gas Benchmark", function () {
 				)}% additional gas for signature verification and access checks`
 			);
 		});
+
+		it("Should compare batched vs individual paymaster votes", async function () {
+			console.log("\n=== Comparison: Individual vs Batched Paymaster Voting ===");
+
+			const batchSize = 5;
+			const batchNICs = Array.from({length: batchSize * 2}, (_, i) => `B${i}`);
+			const candidateStructs = candidates.map((c) => ({
+				name: c.name,
+				nic: c.nic,
+				party: c.party,
+				voteCount: 0,
+			}));
+
+			await electionContract
+				.connect(owner)
+				.createElection(
+					"Batch Election",
+					"Election for batch comparison",
+					startDate,
+					endDate,
+					candidateStructs,
+					batchNICs
+				);
+			const electionId = 2;
+			const originalWallet = await nicRegistry.getWalletByNIC("V001");
+
+			const signVote = async (voterNIC: string) =>
+				createTemporaryWalletTransaction(nicPaymaster, voter1, {
+					originalWallet,
+					target: await electionContract.getAddress(),
+					data: electionContract.interface.encodeFunctionData("vote", [
+						electionId,
+						voterNIC,
+						0,
+					]),
+				});
+
+			// Individual paymaster votes
+			let individualGasUsed = 0n;
+			for (const voterNIC of batchNICs.slice(0, batchSize)) {
+				const {request, signature} = await signVote(voterNIC);
+				const tx = await nicPaymaster
+					.connect(relayer)
+					.executeGaslessTemporaryTransaction(
+						...toTemporaryWalletTransactionArgs(request, signature)
+					);
+				individualGasUsed += (await tx.wait())?.gasUsed || 0n;
+			}
+
+			// Batched paymaster votes (nonces follow the individual ones)
+			const queue = createRelayerQueue(nicPaymaster.connect(relayer));
+			const nonce = await nicPaymaster.getTempWalletNonce(voter1.address);
+			const validity = await getValidityWindow(ethers.provider);
+			const domain = await getPaymasterDomain(nicPaymaster);
+			for (let i = 0; i < batchSize; i++) {
+				const request = {
+					originalWallet,
+					temporaryWallet: voter1.address,
+					target: await electionContract.getAddress(),
+					value: 0,
+					data: electionContract.interface.encodeFunctionData("vote", [
+						electionId,
+						batchNICs[batchSize + i],
+						1,
+					]),
+					nonce: nonce + BigInt(i),
+					...validity,
+				};
+				queue.enqueue({
+					request,
+					signature: await signTemporaryWalletTransaction(voter1, domain, request),
+				});
+			}
+			const results = await queue.flush();
+			expect(results.every((result) => result.success)).to.be.true;
+			const batchReceipt = await ethers.provider.getTransactionReceipt(
+				results[0].transactionHash
+			);
+			const batchGasUsed = batchReceipt?.gasUsed || 0n;
+
+			const savings = individualGasUsed - batchGasUsed;
+			console.log("\n--- Results ---");
+			console.log(
+				`Individual Votes Gas (${batchSize} txs): ${individualGasUsed.toString()}`
+			);
+			console.log(`Batched Votes Gas (1 tx): ${batchGasUsed.toString()}`);
+			console.log(
+				`Per Vote: ${(individualGasUsed / BigInt(batchSize)).toString()} vs ${(
+					batchGasUsed / BigInt(batchSize)
+				).toString()}`
+			);
+			console.log(
+				`Savings: ${savings.toString()} (${(
+					(Number(savings) / Number(individualGasUsed)) *
+					100
+				).toFixed(2)}%)`
+			);
+			expect(batchGasUsed).to.be.lessThan(individualGasUsed);
+		});
 	});
 });
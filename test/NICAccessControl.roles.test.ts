@@ -0,0 +1,189 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {NICPaymaster, NICWalletRegistry, ZK_ElectionContract} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {generateNICHashSalt, hashNIC} from "../utils/nicHash";
+import {CONTRACT_ROLES, assignRoles, auditRoles, roleId} from "../utils/roles";
+import {generateTallyKeyPair} from "../utils/encryptedTally";
+
+describe("NICAccessControl Roles", function () {
+	let nicRegistry: NICWalletRegistry;
+	let nicPaymaster: NICPaymaster;
+	let zkElection: ZK_ElectionContract;
+	let deployer: SignerWithAddress;
+	let electionAdmin: SignerWithAddress;
+	let registrar: SignerWithAddress;
+	let treasurer: SignerWithAddress;
+	let verifierAdmin: SignerWithAddress;
+	let pauser: SignerWithAddress;
+	let citizen: SignerWithAddress;
+
+	const salt = generateNICHashSalt();
+
+	beforeEach(async function () {
+		[deployer, electionAdmin, registrar, treasurer, verifierAdmin, pauser, citizen] =
+			await ethers.getSigners();
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const NICPaymasterFactory = await ethers.getContractFactory("NICPaymaster");
+		nicPaymaster = await NICPaymasterFactory.deploy(await nicRegistry.getAddress());
+		await nicPaymaster.waitForDeployment();
+
+		const MockVerifierFactory = await ethers.getContractFactory("MockVerifier");
+		const verifier = await MockVerifierFactory.deploy();
+		await verifier.waitForDeployment();
+
+		const ZKElectionFactory = await ethers.getContractFactory("ZK_ElectionContract");
+		zkElection = await ZKElectionFactory.deploy(
+			await verifier.getAddress(),
+			await nicRegistry.getAddress(),
+			await nicPaymaster.getAddress()
+		);
+		await zkElection.waitForDeployment();
+	});
+
+	function createElection(caller: SignerWithAddress, start: number) {
+		return zkElection
+			.connect(caller)
+			.createElection(
+				"Role Election",
+				"Election created by an election admin",
+				start,
+				start + 86400,
+				[
+					{name: "Candidate A", nic: "CA001", party: "Party Alpha", voteCount: 0},
+					{name: "Candidate B", nic: "CB002", party: "Party Beta", voteCount: 0},
+				],
+				ethers.id("voters"),
+				generateTallyKeyPair().publicKey
+			);
+	}
+
+	it("Should give the deployer the roles each contract checks", async function () {
+		const contracts = {
+			NICWalletRegistry: nicRegistry,
+			NICPaymaster: nicPaymaster,
+			ZK_ElectionContract: zkElection,
+		};
+		for (const [name, contract] of Object.entries(contracts)) {
+			for (const role of CONTRACT_ROLES[name]) {
+				expect(await contract.hasRole(roleId(role), deployer.address), `${name} ${role}`).to.be
+					.true;
+			}
+		}
+		expect(await nicRegistry.REGISTRAR_ROLE()).to.equal(roleId("REGISTRAR_ROLE"));
+		expect(await nicRegistry.hasRole(roleId("TREASURER_ROLE"), deployer.address)).to.be.false;
+	});
+
+	it("Should keep each power with its own role", async function () {
+		await nicRegistry.grantRole(roleId("REGISTRAR_ROLE"), registrar.address);
+		await zkElection.grantRole(roleId("ELECTION_ADMIN_ROLE"), electionAdmin.address);
+		await zkElection.grantRole(roleId("VERIFIER_ADMIN_ROLE"), verifierAdmin.address);
+		await nicPaymaster.grantRole(roleId("TREASURER_ROLE"), treasurer.address);
+
+		// The registrar registers wallets but cannot swap the verifier or move funds
+		await nicRegistry
+			.connect(registrar)
+			.registerWalletByHash(hashNIC("NIC001", salt), citizen.address);
+		await expect(zkElection.connect(registrar).setVerifier(registrar.address))
+			.to.be.revertedWithCustomError(zkElection, "AccessControlUnauthorizedAccount")
+			.withArgs(registrar.address, roleId("VERIFIER_ADMIN_ROLE"));
+		await expect(nicPaymaster.connect(registrar).withdraw(registrar.address, 0))
+			.to.be.revertedWithCustomError(nicPaymaster, "AccessControlUnauthorizedAccount")
+			.withArgs(registrar.address, roleId("TREASURER_ROLE"));
+
+		// The election admin creates elections but cannot swap the verifier
+		await createElection(electionAdmin, (await time.latest()) + 60);
+		expect(await zkElection.electionCount()).to.equal(1);
+		await expect(zkElection.connect(electionAdmin).setVerifier(electionAdmin.address))
+			.to.be.revertedWithCustomError(zkElection, "AccessControlUnauthorizedAccount")
+			.withArgs(electionAdmin.address, roleId("VERIFIER_ADMIN_ROLE"));
+
+		// The verifier admin and treasurer cannot create elections or register wallets
+		await expect(createElection(verifierAdmin, (await time.latest()) + 60))
+			.to.be.revertedWithCustomError(zkElection, "AccessControlUnauthorizedAccount")
+			.withArgs(verifierAdmin.address, roleId("ELECTION_ADMIN_ROLE"));
+		await expect(
+			nicRegistry.connect(treasurer).registerWalletByHash(hashNIC("NIC002", salt), treasurer.address)
+		).to.be.revertedWith("Only registrar or authorized system wallet can register wallets");
+
+		await nicPaymaster.connect(treasurer).setSponsoredTarget(await zkElection.getAddress(), true);
+		await zkElection.connect(verifierAdmin).setVerifier(verifierAdmin.address);
+		expect(await zkElection.verifier()).to.equal(verifierAdmin.address);
+	});
+
+	it("Should let only pausers pause, which blocks registrations and sessions", async function () {
+		await nicRegistry.grantRole(roleId("PAUSER_ROLE"), pauser.address);
+		await nicRegistry.registerWalletByHash(hashNIC("NIC001", salt), citizen.address);
+
+		await expect(nicRegistry.connect(citizen).pause())
+			.to.be.revertedWithCustomError(nicRegistry, "AccessControlUnauthorizedAccount")
+			.withArgs(citizen.address, roleId("PAUSER_ROLE"));
+		await expect(nicRegistry.connect(pauser).pause()).to.emit(nicRegistry, "Paused");
+
+		await expect(
+			nicRegistry.registerWalletByHash(hashNIC("NIC002", salt), pauser.address)
+		).to.be.revertedWithCustomError(nicRegistry, "EnforcedPause");
+		await expect(
+			nicRegistry
+				.connect(citizen)
+				.createSessionByHash(hashNIC("NIC001", salt), pauser.address, 3600)
+		).to.be.revertedWithCustomError(nicRegistry, "EnforcedPause");
+
+		await nicRegistry.connect(pauser).unpause();
+		await nicRegistry
+			.connect(citizen)
+			.createSessionByHash(hashNIC("NIC001", salt), pauser.address, 3600);
+		expect(await nicRegistry.hasValidAccess(citizen.address, pauser.address)).to.be.true;
+	});
+
+	it("Should let the admin revoke a role", async function () {
+		await nicRegistry.grantRole(roleId("REGISTRAR_ROLE"), registrar.address);
+		await expect(
+			nicRegistry.connect(registrar).grantRole(roleId("REGISTRAR_ROLE"), citizen.address)
+		)
+			.to.be.revertedWithCustomError(nicRegistry, "AccessControlUnauthorizedAccount")
+			.withArgs(registrar.address, ethers.ZeroHash);
+
+		await nicRegistry.revokeRole(roleId("REGISTRAR_ROLE"), registrar.address);
+		await expect(
+			nicRegistry
+				.connect(registrar)
+				.registerWalletByHash(hashNIC("NIC001", salt), citizen.address)
+		).to.be.revertedWith("Only registrar or authorized system wallet can register wallets");
+	});
+
+	it("Should hand the roles over and audit their holders", async function () {
+		const roles = CONTRACT_ROLES.ZK_ElectionContract;
+		const holders = {
+			DEFAULT_ADMIN_ROLE: electionAdmin.address,
+			ELECTION_ADMIN_ROLE: electionAdmin.address,
+			VERIFIER_ADMIN_ROLE: verifierAdmin.address,
+		};
+
+		const changes = await assignRoles(zkElection, roles, holders, true);
+		expect(changes.map((change) => `${change.action} ${change.role}`)).to.deep.equal([
+			"granted ELECTION_ADMIN_ROLE",
+			"renounced ELECTION_ADMIN_ROLE",
+			"granted VERIFIER_ADMIN_ROLE",
+			"renounced VERIFIER_ADMIN_ROLE",
+			"granted DEFAULT_ADMIN_ROLE",
+			"renounced DEFAULT_ADMIN_ROLE",
+		]);
+
+		// Roles without a holder stay with the deployer
+		expect(await auditRoles(zkElection, roles)).to.deep.equal({
+			DEFAULT_ADMIN_ROLE: [electionAdmin.address],
+			ELECTION_ADMIN_ROLE: [electionAdmin.address],
+			VERIFIER_ADMIN_ROLE: [verifierAdmin.address],
+			PAUSER_ROLE: [deployer.address],
+		});
+		expect(await assignRoles(zkElection.connect(electionAdmin), roles, holders)).to.be.empty;
+	});
+});
@@ -0,0 +1,202 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {NICPaymaster, NICWalletRegistry, SimpleCounter} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {
+	TemporaryWalletTransactionRequest,
+	getPaymasterDomain,
+	getValidityWindow,
+	signTemporaryWalletTransaction,
+} from "../utils/paymasterSigner";
+import {
+	SignedTemporaryWalletTransaction,
+	createRelayerQueue,
+	packBatches,
+	toBatchRequest,
+} from "../utils/relayerQueue";
+import {computeLegacyNICHash} from "../utils/nicHash";
+
+describe("NICPaymaster Batched Execution", function () {
+	let nicPaymaster: NICPaymaster;
+	let nicRegistry: NICWalletRegistry;
+	let counter: SimpleCounter;
+	let relayer: SignerWithAddress;
+	let users: SignerWithAddress[];
+	let temporaryWallets: SignerWithAddress[];
+
+	beforeEach(async function () {
+		const signers = await ethers.getSigners();
+		relayer = signers[1];
+		users = signers.slice(2, 4);
+		temporaryWallets = signers.slice(4, 6);
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const NICPaymasterFactory = await ethers.getContractFactory("NICPaymaster");
+		nicPaymaster = await NICPaymasterFactory.deploy(await nicRegistry.getAddress());
+		await nicPaymaster.waitForDeployment();
+
+		const SimpleCounterFactory = await ethers.getContractFactory("SimpleCounter");
+		counter = await SimpleCounterFactory.deploy(await nicPaymaster.getAddress());
+		await counter.waitForDeployment();
+		await nicPaymaster.setSponsoredTarget(await counter.getAddress(), true);
+
+		// The paymaster counts the sessions' calls, which may only go to the counter
+		await nicRegistry.setTrustedPaymaster(await nicPaymaster.getAddress(), true);
+		const {chainId} = await ethers.provider.getNetwork();
+		for (let i = 0; i < users.length; i++) {
+			await nicRegistry.registerWallet(`NIC00${i}`, users[i].address);
+			await nicRegistry
+				.connect(users[i])
+				.createScopedSessionByHash(
+					computeLegacyNICHash(`NIC00${i}`, chainId),
+					temporaryWallets[i].address,
+					3600,
+					{allowedTargets: [await counter.getAddress()], allowedSelectors: [], maxCalls: 0}
+				);
+		}
+	});
+
+	/**
+	 * Sign an incrementBy call for user i with an explicit temporary-wallet nonce
+	 */
+	async function signIncrement(
+		i: number,
+		nonce: bigint,
+		amount = 1,
+		signer: SignerWithAddress = temporaryWallets[i]
+	): Promise<SignedTemporaryWalletTransaction> {
+		const request: TemporaryWalletTransactionRequest = {
+			originalWallet: users[i].address,
+			temporaryWallet: temporaryWallets[i].address,
+			target: await counter.getAddress(),
+			value: 0,
+			data: counter.interface.encodeFunctionData("incrementByForUser", [
+				users[i].address,
+				amount,
+			]),
+			nonce,
+			...(await getValidityWindow(ethers.provider)),
+		};
+		const signature = await signTemporaryWalletTransaction(
+			signer,
+			await getPaymasterDomain(nicPaymaster),
+			request
+		);
+		return {request, signature};
+	}
+
+	describe("executeBatch", function () {
+		it("Should execute every request and report each item", async function () {
+			const batch = [
+				await signIncrement(0, 0n, 1),
+				await signIncrement(1, 0n, 2),
+				await signIncrement(0, 1n, 3),
+			];
+
+			const tx = nicPaymaster.connect(relayer).executeBatch(batch.map(toBatchRequest));
+			await expect(tx)
+				.to.emit(nicPaymaster, "BatchItemProcessed")
+				.withArgs(2, temporaryWallets[0].address, true, true, "0x");
+			await expect(tx).to.emit(nicPaymaster, "BatchExecuted").withArgs(3, 3);
+
+			expect(await counter.getUserCounter(users[0].address)).to.equal(4);
+			expect(await counter.getUserCounter(users[1].address)).to.equal(2);
+			expect(await nicPaymaster.getTempWalletNonce(temporaryWallets[0].address)).to.equal(2);
+		});
+
+		it("Should keep executing when a request is rejected", async function () {
+			const batch = [
+				await signIncrement(0, 0n, 1, temporaryWallets[1]),
+				await signIncrement(1, 0n, 2),
+			];
+
+			const [successes, results] = await nicPaymaster
+				.connect(relayer)
+				.executeBatch.staticCall(batch.map(toBatchRequest));
+			expect(successes).to.deep.equal([false, true]);
+			const [reason] = ethers.AbiCoder.defaultAbiCoder().decode(
+				["string"],
+				ethers.dataSlice(results[0], 4)
+			);
+			expect(reason).to.equal("Invalid temporary wallet signature");
+
+			await expect(nicPaymaster.connect(relayer).executeBatch(batch.map(toBatchRequest)))
+				.to.emit(nicPaymaster, "BatchExecuted")
+				.withArgs(2, 1);
+
+			// The rejected request did not consume the nonce
+			expect(await nicPaymaster.getTempWalletNonce(temporaryWallets[0].address)).to.equal(0);
+			expect(await counter.getUserCounter(users[1].address)).to.equal(2);
+		});
+
+		it("Should report a failing call as executed but unsuccessful", async function () {
+			// SimpleCounter is not payable, so a call with value reverts
+			await nicPaymaster.deposit({value: 1});
+			const failing = await signIncrement(0, 0n);
+			failing.request.value = 1;
+			failing.signature = await signTemporaryWalletTransaction(
+				temporaryWallets[0],
+				await getPaymasterDomain(nicPaymaster),
+				failing.request
+			);
+			const batch = [failing, await signIncrement(1, 0n)];
+
+			await expect(nicPaymaster.connect(relayer).executeBatch(batch.map(toBatchRequest)))
+				.to.emit(nicPaymaster, "BatchItemProcessed")
+				.withArgs(0, temporaryWallets[0].address, true, false, "0x");
+
+			// The call failed, but the signed request was used
+			expect(await nicPaymaster.getTempWalletNonce(temporaryWallets[0].address)).to.equal(1);
+			expect(await counter.getUserCounter(users[1].address)).to.equal(1);
+		});
+	});
+
+	describe("Relayer queue", function () {
+		it("Should order each wallet's requests by nonce and split batches", async function () {
+			const items = [
+				await signIncrement(0, 1n),
+				await signIncrement(1, 0n),
+				await signIncrement(0, 0n),
+			];
+
+			const batches = packBatches(items, 2);
+			expect(batches.map((batch) => batch.length)).to.deep.equal([2, 1]);
+			expect(batches[0].map((item) => item.request.nonce)).to.deep.equal([0n, 1n]);
+			expect(batches[1][0]).to.equal(items[1]);
+		});
+
+		it("Should refuse a request that is already queued", async function () {
+			const queue = createRelayerQueue(nicPaymaster.connect(relayer));
+			queue.enqueue(await signIncrement(0, 0n));
+
+			const duplicate = await signIncrement(0, 0n, 2);
+			expect(() => queue.enqueue(duplicate)).to.throw(
+				`Request 0 of ${temporaryWallets[0].address} is already queued`
+			);
+			expect(queue.size()).to.equal(1);
+		});
+
+		it("Should flush queued requests and return per-item results", async function () {
+			const queue = createRelayerQueue(nicPaymaster.connect(relayer), 2);
+			queue.enqueue(await signIncrement(0, 1n, 5));
+			queue.enqueue(await signIncrement(0, 0n, 1));
+			queue.enqueue(await signIncrement(1, 0n, 1, temporaryWallets[0]));
+			expect(queue.size()).to.equal(3);
+
+			const results = await queue.flush();
+			expect(queue.size()).to.equal(0);
+			expect(results.map((result) => [result.executed, result.success])).to.deep.equal([
+				[true, true],
+				[true, true],
+				[false, false],
+			]);
+			expect(results[0].transactionHash).to.not.equal(results[2].transactionHash);
+			expect(await counter.getUserCounter(users[0].address)).to.equal(6);
+		});
+	});
+});
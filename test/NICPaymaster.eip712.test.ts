@@ -0,0 +1,220 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {NICPaymaster, NICWalletRegistry, SimpleCounter} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {
+	TEMPORARY_WALLET_TRANSACTION_TYPES,
+	createMetaTransaction,
+	createTemporaryWalletTransaction,
+	getPaymasterDomain,
+	signTemporaryWalletTransaction,
+	toMetaTransactionArgs,
+	toTemporaryWalletTransactionArgs,
+} from "../utils/paymasterSigner";
+import {computeLegacyNICHash} from "../utils/nicHash";
+
+describe("NICPaymaster EIP-712 Signatures", function () {
+	let nicPaymaster: NICPaymaster;
+	let nicRegistry: NICWalletRegistry;
+	let counter: SimpleCounter;
+	let relayer: SignerWithAddress;
+	let user: SignerWithAddress;
+	let temporaryWallet: SignerWithAddress;
+
+	beforeEach(async function () {
+		[, relayer, user, temporaryWallet] = await ethers.getSigners();
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const NICPaymasterFactory = await ethers.getContractFactory("NICPaymaster");
+		nicPaymaster = await NICPaymasterFactory.deploy(await nicRegistry.getAddress());
+		await nicPaymaster.waitForDeployment();
+
+		const SimpleCounterFactory = await ethers.getContractFactory("SimpleCounter");
+		counter = await SimpleCounterFactory.deploy(await nicPaymaster.getAddress());
+		await counter.waitForDeployment();
+		await nicPaymaster.setSponsoredTarget(await counter.getAddress(), true);
+
+		// The paymaster counts the session's calls, which may only go to the counter
+		await nicRegistry.setTrustedPaymaster(await nicPaymaster.getAddress(), true);
+		await nicRegistry.registerWallet("NIC001", user.address);
+		await nicRegistry
+			.connect(user)
+			.createScopedSessionByHash(
+				computeLegacyNICHash("NIC001", (await ethers.provider.getNetwork()).chainId),
+				temporaryWallet.address,
+				3600,
+				{allowedTargets: [await counter.getAddress()], allowedSelectors: [], maxCalls: 0}
+			);
+	});
+
+	function incrementForUser() {
+		return counter.interface.encodeFunctionData("incrementForUser", [user.address]);
+	}
+
+	it("Should use a domain bound to the chain and the paymaster", async function () {
+		const domain = await getPaymasterDomain(nicPaymaster);
+		const {chainId} = await ethers.provider.getNetwork();
+
+		expect(domain.name).to.equal("NICPaymaster");
+		expect(domain.version).to.equal("1");
+		expect(domain.chainId).to.equal(chainId);
+		expect(domain.verifyingContract).to.equal(await nicPaymaster.getAddress());
+		expect(await nicPaymaster.domainSeparator()).to.equal(
+			ethers.TypedDataEncoder.hashDomain(domain)
+		);
+	});
+
+	it("Should execute a meta-transaction signed as typed data", async function () {
+		const {request, signature} = await createMetaTransaction(nicPaymaster, user, {
+			target: await counter.getAddress(),
+			data: incrementForUser(),
+		});
+
+		await expect(
+			nicPaymaster
+				.connect(relayer)
+				.executeMetaTransaction(...toMetaTransactionArgs(request, signature))
+		)
+			.to.emit(nicPaymaster, "MetaTransactionExecuted")
+			.withArgs(user.address, await counter.getAddress(), 0, true, "0x");
+		expect(await counter.getUserCounter(user.address)).to.equal(1);
+
+		// The nonce moved, so the same signature cannot be replayed
+		await expect(
+			nicPaymaster
+				.connect(relayer)
+				.executeMetaTransaction(...toMetaTransactionArgs(request, signature))
+		).to.be.revertedWith("Invalid signature");
+	});
+
+	it("Should execute a temporary-wallet transaction signed as typed data", async function () {
+		const {request, signature} = await createTemporaryWalletTransaction(
+			nicPaymaster,
+			temporaryWallet,
+			{
+				originalWallet: user.address,
+				target: await counter.getAddress(),
+				data: incrementForUser(),
+			}
+		);
+
+		await expect(
+			nicPaymaster
+				.connect(relayer)
+				.executeGaslessTemporaryTransaction(
+					...toTemporaryWalletTransactionArgs(request, signature)
+				)
+		).to.emit(nicPaymaster, "TemporaryWalletTransactionExecuted");
+		expect(await counter.getUserCounter(user.address)).to.equal(1);
+		expect(await nicPaymaster.getTempWalletNonce(temporaryWallet.address)).to.equal(1);
+	});
+
+	it("Should reject a request whose data differs from what was signed", async function () {
+		const {request, signature} = await createTemporaryWalletTransaction(
+			nicPaymaster,
+			temporaryWallet,
+			{
+				originalWallet: user.address,
+				target: await counter.getAddress(),
+				data: incrementForUser(),
+			}
+		);
+		const tampered = {
+			...request,
+			data: counter.interface.encodeFunctionData("incrementByForUser", [user.address, 100]),
+		};
+
+		await expect(
+			nicPaymaster
+				.connect(relayer)
+				.executeTemporaryWalletTransaction(
+					...toTemporaryWalletTransactionArgs(tampered, signature)
+				)
+		).to.be.revertedWith("Invalid temporary wallet signature");
+	});
+
+	it("Should reject a signature made for another paymaster or chain", async function () {
+		const domain = await getPaymasterDomain(nicPaymaster);
+		const {request} = await createTemporaryWalletTransaction(
+			nicPaymaster,
+			temporaryWallet,
+			{
+				originalWallet: user.address,
+				target: await counter.getAddress(),
+				data: incrementForUser(),
+			}
+		);
+
+		for (const otherDomain of [
+			{...domain, chainId: 1},
+			{...domain, verifyingContract: await counter.getAddress()},
+		]) {
+			const signature = await signTemporaryWalletTransaction(
+				temporaryWallet,
+				otherDomain,
+				request
+			);
+			await expect(
+				nicPaymaster
+					.connect(relayer)
+					.executeGaslessTemporaryTransaction(
+						...toTemporaryWalletTransactionArgs(request, signature)
+					)
+			).to.be.revertedWith("Invalid temporary wallet signature");
+		}
+	});
+
+	it("Should not accept the old personal_sign message format", async function () {
+		const {request} = await createTemporaryWalletTransaction(
+			nicPaymaster,
+			temporaryWallet,
+			{
+				originalWallet: user.address,
+				target: await counter.getAddress(),
+				data: incrementForUser(),
+			}
+		);
+		const digest = ethers.TypedDataEncoder.hash(
+			await getPaymasterDomain(nicPaymaster),
+			TEMPORARY_WALLET_TRANSACTION_TYPES,
+			request
+		);
+		const signature = await temporaryWallet.signMessage(ethers.getBytes(digest));
+
+		await expect(
+			nicPaymaster
+				.connect(relayer)
+				.executeGaslessTemporaryTransaction(
+					...toTemporaryWalletTransactionArgs(request, signature)
+				)
+		).to.be.revertedWith("Invalid temporary wallet signature");
+	});
+
+	it("Should reject a signature after its deadline", async function () {
+		const {request, signature} = await createTemporaryWalletTransaction(
+			nicPaymaster,
+			temporaryWallet,
+			{
+				originalWallet: user.address,
+				target: await counter.getAddress(),
+				data: incrementForUser(),
+			},
+			{ttlSeconds: 60}
+		);
+		await time.increase(61);
+
+		await expect(
+			nicPaymaster
+				.connect(relayer)
+				.executeGaslessTemporaryTransaction(
+					...toTemporaryWalletTransactionArgs(request, signature)
+				)
+		).to.be.revertedWith("Signature expired");
+	});
+});
@@ -0,0 +1,191 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {
+	MockERC1271Wallet,
+	NICPaymaster,
+	NICWalletRegistry,
+	SimpleCounter,
+} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {
+	createMetaTransaction,
+	createTemporaryWalletTransaction,
+	toMetaTransactionArgs,
+	toTemporaryWalletTransactionArgs,
+} from "../utils/paymasterSigner";
+import {computeLegacyNICHash} from "../utils/nicHash";
+
+describe("NICPaymaster ERC-1271 Signers", function () {
+	let nicPaymaster: NICPaymaster;
+	let nicRegistry: NICWalletRegistry;
+	let counter: SimpleCounter;
+	let contractWallet: MockERC1271Wallet;
+	let relayer: SignerWithAddress;
+	let walletOwner: SignerWithAddress;
+	let user: SignerWithAddress;
+	let other: SignerWithAddress;
+
+	beforeEach(async function () {
+		[, relayer, walletOwner, user, other] = await ethers.getSigners();
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const NICPaymasterFactory = await ethers.getContractFactory("NICPaymaster");
+		nicPaymaster = await NICPaymasterFactory.deploy(await nicRegistry.getAddress());
+		await nicPaymaster.waitForDeployment();
+
+		const SimpleCounterFactory = await ethers.getContractFactory("SimpleCounter");
+		counter = await SimpleCounterFactory.deploy(await nicPaymaster.getAddress());
+		await counter.waitForDeployment();
+		await nicPaymaster.setSponsoredTarget(await counter.getAddress(), true);
+		await nicRegistry.setTrustedPaymaster(await nicPaymaster.getAddress(), true);
+
+		const MockERC1271WalletFactory = await ethers.getContractFactory(
+			"MockERC1271Wallet"
+		);
+		contractWallet = await MockERC1271WalletFactory.deploy(walletOwner.address);
+		await contractWallet.waitForDeployment();
+	});
+
+	function incrementForUser(userAddress: string) {
+		return counter.interface.encodeFunctionData("incrementForUser", [userAddress]);
+	}
+
+	// Session permissions that only allow calls to the counter
+	async function counterOnly() {
+		return {allowedTargets: [await counter.getAddress()], allowedSelectors: [], maxCalls: 0};
+	}
+
+	describe("Contract registered wallet", function () {
+		beforeEach(async function () {
+			await nicRegistry.registerWallet("NIC001", await contractWallet.getAddress());
+		});
+
+		it("Should execute a meta-transaction approved by the wallet", async function () {
+			const walletAddress = await contractWallet.getAddress();
+			const {request, signature} = await createMetaTransaction(nicPaymaster, walletOwner, {
+				user: walletAddress,
+				target: await counter.getAddress(),
+				data: incrementForUser(walletAddress),
+			});
+
+			await expect(
+				nicPaymaster
+					.connect(relayer)
+					.executeMetaTransaction(...toMetaTransactionArgs(request, signature))
+			)
+				.to.emit(nicPaymaster, "MetaTransactionExecuted")
+				.withArgs(walletAddress, await counter.getAddress(), 0, true, "0x");
+			expect(await counter.getUserCounter(walletAddress)).to.equal(1);
+			expect(await nicPaymaster.getNonce(walletAddress)).to.equal(1);
+		});
+
+		it("Should reject a signature the wallet does not accept", async function () {
+			const walletAddress = await contractWallet.getAddress();
+			const {request, signature} = await createMetaTransaction(nicPaymaster, other, {
+				user: walletAddress,
+				target: await counter.getAddress(),
+				data: incrementForUser(walletAddress),
+			});
+
+			await expect(
+				nicPaymaster
+					.connect(relayer)
+					.executeMetaTransaction(...toMetaTransactionArgs(request, signature))
+			).to.be.revertedWith("Invalid signature");
+		});
+
+		it("Should let the wallet grant sessions that use the paymaster", async function () {
+			const walletAddress = await contractWallet.getAddress();
+			await contractWallet
+				.connect(walletOwner)
+				.execute(
+					await nicRegistry.getAddress(),
+					nicRegistry.interface.encodeFunctionData("createScopedSessionByHash", [
+						computeLegacyNICHash("NIC001", (await ethers.provider.getNetwork()).chainId),
+						user.address,
+						3600,
+						await counterOnly(),
+					])
+				);
+
+			const {request, signature} = await createTemporaryWalletTransaction(
+				nicPaymaster,
+				user,
+				{
+					originalWallet: walletAddress,
+					target: await counter.getAddress(),
+					data: incrementForUser(walletAddress),
+				}
+			);
+			await nicPaymaster
+				.connect(relayer)
+				.executeGaslessTemporaryTransaction(
+					...toTemporaryWalletTransactionArgs(request, signature)
+				);
+
+			expect(await counter.getUserCounter(walletAddress)).to.equal(1);
+		});
+	});
+
+	describe("Contract temporary wallet", function () {
+		beforeEach(async function () {
+			await nicRegistry.registerWallet("NIC002", user.address);
+			await nicRegistry
+				.connect(user)
+				.createScopedSessionByHash(
+					computeLegacyNICHash("NIC002", (await ethers.provider.getNetwork()).chainId),
+					await contractWallet.getAddress(),
+					3600,
+					await counterOnly()
+				);
+		});
+
+		it("Should execute a temporary-wallet transaction approved by the wallet", async function () {
+			const {request, signature} = await createTemporaryWalletTransaction(
+				nicPaymaster,
+				walletOwner,
+				{
+					originalWallet: user.address,
+					temporaryWallet: await contractWallet.getAddress(),
+					target: await counter.getAddress(),
+					data: incrementForUser(user.address),
+				}
+			);
+
+			await expect(
+				nicPaymaster
+					.connect(relayer)
+					.executeTemporaryWalletTransaction(
+						...toTemporaryWalletTransactionArgs(request, signature)
+					)
+			).to.emit(nicPaymaster, "TemporaryWalletTransactionExecuted");
+			expect(await counter.getUserCounter(user.address)).to.equal(1);
+		});
+
+		it("Should reject a signature the wallet does not accept", async function () {
+			const {request, signature} = await createTemporaryWalletTransaction(
+				nicPaymaster,
+				other,
+				{
+					originalWallet: user.address,
+					temporaryWallet: await contractWallet.getAddress(),
+					target: await counter.getAddress(),
+					data: incrementForUser(user.address),
+				}
+			);
+
+			await expect(
+				nicPaymaster
+					.connect(relayer)
+					.executeGaslessTemporaryTransaction(
+						...toTemporaryWalletTransactionArgs(request, signature)
+					)
+			).to.be.revertedWith("Invalid temporary wallet signature");
+		});
+	});
+});
@@ -0,0 +1,341 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {
+	ElectionContract,
+	NICPaymaster,
+	NICWalletRegistry,
+	SimpleCounter,
+} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {
+	createMetaTransaction,
+	createTemporaryWalletTransaction,
+	toMetaTransactionArgs,
+	toTemporaryWalletTransactionArgs,
+} from "../utils/paymasterSigner";
+import {computeLegacyNICHash} from "../utils/nicHash";
+
+describe("NICPaymaster Sponsorship Policy", function () {
+	let nicPaymaster: NICPaymaster;
+	let nicRegistry: NICWalletRegistry;
+	let counter: SimpleCounter;
+	let relayer: SignerWithAddress;
+	let user: SignerWithAddress;
+	let temporaryWallet: SignerWithAddress;
+	let stranger: SignerWithAddress;
+
+	beforeEach(async function () {
+		[, relayer, user, temporaryWallet, stranger] = await ethers.getSigners();
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const NICPaymasterFactory = await ethers.getContractFactory("NICPaymaster");
+		nicPaymaster = await NICPaymasterFactory.deploy(await nicRegistry.getAddress());
+		await nicPaymaster.waitForDeployment();
+
+		const SimpleCounterFactory = await ethers.getContractFactory("SimpleCounter");
+		counter = await SimpleCounterFactory.deploy(await nicPaymaster.getAddress());
+		await counter.waitForDeployment();
+
+		// The paymaster counts the session's calls, which may only go to the counter
+		await nicRegistry.setTrustedPaymaster(await nicPaymaster.getAddress(), true);
+		await nicRegistry.registerWallet("NIC001", user.address);
+		await nicRegistry
+			.connect(user)
+			.createScopedSessionByHash(
+				computeLegacyNICHash("NIC001", (await ethers.provider.getNetwork()).chainId),
+				temporaryWallet.address,
+				3600,
+				{allowedTargets: [await counter.getAddress()], allowedSelectors: [], maxCalls: 0}
+			);
+	});
+
+	/**
+	 * Relay a signed call to the counter as a meta-transaction from the user (or another signer)
+	 */
+	async function relayCounterCall(
+		functionName: "incrementForUser" | "incrementByForUser",
+		signer = user
+	) {
+		const data =
+			functionName === "incrementForUser"
+				? counter.interface.encodeFunctionData("incrementForUser", [signer.address])
+				: counter.interface.encodeFunctionData("incrementByForUser", [signer.address, 2]);
+		const {request, signature} = await createMetaTransaction(nicPaymaster, signer, {
+			target: await counter.getAddress(),
+			data,
+		});
+		return nicPaymaster
+			.connect(relayer)
+			.executeMetaTransaction(...toMetaTransactionArgs(request, signature));
+	}
+
+	describe("Target allowlist", function () {
+		it("Should not sponsor calls to a target that is not allowlisted", async function () {
+			const tx = relayCounterCall("incrementForUser");
+
+			await expect(tx)
+				.to.emit(nicPaymaster, "TargetNotSponsored")
+				.withArgs(
+					user.address,
+					await counter.getAddress(),
+					counter.interface.getFunction("incrementForUser").selector
+				);
+			await expect(tx)
+				.to.emit(nicPaymaster, "MetaTransactionExecuted")
+				.withArgs(user.address, await counter.getAddress(), 0, false, "0x");
+			expect(await counter.getUserCounter(user.address)).to.equal(0);
+
+			// The rejected request is used up and cannot be relayed again later
+			expect(await nicPaymaster.getNonce(user.address)).to.equal(1);
+		});
+
+		it("Should sponsor only the allowlisted selectors of a target", async function () {
+			await nicPaymaster.setSponsoredSelectors(
+				await counter.getAddress(),
+				[counter.interface.getFunction("incrementForUser").selector],
+				true
+			);
+
+			await relayCounterCall("incrementForUser");
+			await expect(relayCounterCall("incrementByForUser")).to.emit(
+				nicPaymaster,
+				"TargetNotSponsored"
+			);
+			expect(await counter.getUserCounter(user.address)).to.equal(1);
+		});
+
+		it("Should only let the treasurer change the policy", async function () {
+			await expect(
+				nicPaymaster.connect(relayer).setSponsoredTarget(await counter.getAddress(), true)
+			)
+				.to.be.revertedWithCustomError(nicPaymaster, "AccessControlUnauthorizedAccount")
+				.withArgs(relayer.address, await nicPaymaster.TREASURER_ROLE());
+			await expect(
+				nicPaymaster.connect(relayer).setDailyCallQuota(1)
+			).to.be.revertedWithCustomError(nicPaymaster, "AccessControlUnauthorizedAccount");
+			await expect(
+				nicPaymaster.setElectionSpendingCap(await counter.getAddress(), 0, 1)
+			).to.be.revertedWith("Not an election contract");
+		});
+	});
+
+	describe("Daily call quota", function () {
+		beforeEach(async function () {
+			await nicPaymaster.setSponsoredTarget(await counter.getAddress(), true);
+			await nicPaymaster.setDailyCallQuota(2);
+		});
+
+		it("Should count session calls against the registered wallet", async function () {
+			await relayCounterCall("incrementForUser");
+
+			const {request, signature} = await createTemporaryWalletTransaction(
+				nicPaymaster,
+				temporaryWallet,
+				{
+					originalWallet: user.address,
+					target: await counter.getAddress(),
+					data: counter.interface.encodeFunctionData("incrementForUser", [user.address]),
+				}
+			);
+			await nicPaymaster
+				.connect(relayer)
+				.executeGaslessTemporaryTransaction(
+					...toTemporaryWalletTransactionArgs(request, signature)
+				);
+
+			expect(await nicPaymaster.getDailyCallCount(user.address)).to.equal(2);
+			expect(await nicPaymaster.getDailyCallCount(temporaryWallet.address)).to.equal(0);
+		});
+
+		it("Should count a session wallet's own requests against its registered wallet", async function () {
+			await relayCounterCall("incrementForUser");
+			await relayCounterCall("incrementForUser", temporaryWallet);
+			expect(await counter.getUserCounter(temporaryWallet.address)).to.equal(1);
+			expect(await nicPaymaster.getDailyCallCount(user.address)).to.equal(2);
+
+			// A new session key does not get a new quota
+			await expect(relayCounterCall("incrementForUser", temporaryWallet)).to.emit(
+				nicPaymaster,
+				"DailyCallQuotaExceeded"
+			);
+			expect(await counter.getUserCounter(temporaryWallet.address)).to.equal(1);
+		});
+
+		it("Should not sponsor signers that are not registered", async function () {
+			await expect(relayCounterCall("incrementForUser", stranger))
+				.to.emit(nicPaymaster, "WalletNotRegistered")
+				.withArgs(stranger.address);
+			expect(await counter.getUserCounter(stranger.address)).to.equal(0);
+			expect(await nicPaymaster.getNonce(stranger.address)).to.equal(1);
+
+			// Nor temporary wallets whose session ended
+			await nicRegistry.connect(user).revokeAllSessions();
+			await expect(relayCounterCall("incrementForUser", temporaryWallet))
+				.to.emit(nicPaymaster, "WalletNotRegistered")
+				.withArgs(temporaryWallet.address);
+			expect(await nicPaymaster.getDailyCallCount(user.address)).to.equal(0);
+		});
+
+		it("Should reject calls over the quota until the next day", async function () {
+			await relayCounterCall("incrementForUser");
+			await relayCounterCall("incrementForUser");
+
+			const day = BigInt(await time.latest()) / 86400n;
+			await expect(relayCounterCall("incrementForUser"))
+				.to.emit(nicPaymaster, "DailyCallQuotaExceeded")
+				.withArgs(user.address, day, 2);
+			expect(await counter.getUserCounter(user.address)).to.equal(2);
+
+			await time.increase(86400);
+			await relayCounterCall("incrementForUser");
+			expect(await counter.getUserCounter(user.address)).to.equal(3);
+		});
+	});
+
+	describe("Election spending cap", function () {
+		let electionContract: ElectionContract;
+
+		beforeEach(async function () {
+			const ElectionContractFactory = await ethers.getContractFactory(
+				"ElectionContract"
+			);
+			electionContract = await ElectionContractFactory.deploy();
+			await electionContract.waitForDeployment();
+
+			const now = await time.latest();
+			const candidates = [{name: "Candidate", nic: "C001", party: "Party A", voteCount: 0}];
+			for (let i = 0; i < 2; i++) {
+				await electionContract.createElection(
+					`Election ${i}`,
+					"Spending cap test",
+					now - 60,
+					now + 86400,
+					candidates,
+					["V001", "V002", "V003"]
+				);
+			}
+
+			const electionAddress = await electionContract.getAddress();
+			await nicPaymaster.setSponsoredSelectors(
+				electionAddress,
+				[electionContract.interface.getFunction("vote").selector],
+				true
+			);
+			await nicPaymaster.setElectionContract(electionAddress, true);
+		});
+
+		async function relayVote(electionId: number, voterNIC: string, value: bigint = 0n) {
+			const {request, signature} = await createMetaTransaction(nicPaymaster, user, {
+				target: await electionContract.getAddress(),
+				data: electionContract.interface.encodeFunctionData("vote", [
+					electionId,
+					voterNIC,
+					0,
+				]),
+				value,
+			});
+			return nicPaymaster
+				.connect(relayer)
+				.executeMetaTransaction(...toMetaTransactionArgs(request, signature));
+		}
+
+		it("Should track the gas cost sponsored per election", async function () {
+			const electionAddress = await electionContract.getAddress();
+			await relayVote(0, "V001");
+
+			expect(await nicPaymaster.electionSpent(electionAddress, 0)).to.be.greaterThan(0);
+			expect(await nicPaymaster.electionSpent(electionAddress, 1)).to.equal(0);
+		});
+
+		it("Should stop sponsoring an election once its cap is reached", async function () {
+			const electionAddress = await electionContract.getAddress();
+			await relayVote(0, "V001");
+			const spent = await nicPaymaster.electionSpent(electionAddress, 0);
+			await nicPaymaster.setElectionSpendingCap(electionAddress, 0, spent);
+
+			await expect(relayVote(0, "V002"))
+				.to.emit(nicPaymaster, "ElectionSpendingCapReached")
+				.withArgs(user.address, electionAddress, 0, spent, spent);
+			expect(await electionContract.getCurrentVoteCount(0)).to.equal(1);
+
+			// Other elections keep their own budget
+			await relayVote(1, "V002");
+			expect(await electionContract.getCurrentVoteCount(1)).to.equal(1);
+		});
+
+		it("Should sponsor a call that spends exactly the remaining budget", async function () {
+			const electionAddress = await electionContract.getAddress();
+			const cap = 1000n;
+			await nicPaymaster.deposit({value: cap});
+			await nicPaymaster.setElectionSpendingCap(electionAddress, 0, cap);
+
+			await expect(relayVote(0, "V001", cap + 1n))
+				.to.emit(nicPaymaster, "ElectionSpendingCapReached")
+				.withArgs(user.address, electionAddress, 0, 0, cap);
+			// The cap lets the call through (vote is not payable, so the call itself fails)
+			const tx = await relayVote(0, "V001", cap);
+			await expect(tx).to.emit(nicPaymaster, "MetaTransactionExecuted");
+			await expect(tx).not.to.emit(nicPaymaster, "ElectionSpendingCapReached");
+		});
+	});
+
+	describe("Session permissions", function () {
+		beforeEach(async function () {
+			await nicPaymaster.setSponsoredTarget(await counter.getAddress(), true);
+		});
+
+		async function relaySessionCall(target: SimpleCounter) {
+			const {request, signature} = await createTemporaryWalletTransaction(
+				nicPaymaster,
+				temporaryWallet,
+				{
+					originalWallet: user.address,
+					target: await target.getAddress(),
+					data: target.interface.encodeFunctionData("incrementForUser", [user.address]),
+				}
+			);
+			return nicPaymaster
+				.connect(relayer)
+				.executeGaslessTemporaryTransaction(
+					...toTemporaryWalletTransactionArgs(request, signature)
+				);
+		}
+
+		it("Should not relay a session call to a target the session does not allow", async function () {
+			const SimpleCounterFactory = await ethers.getContractFactory("SimpleCounter");
+			const otherCounter = await SimpleCounterFactory.deploy(await nicPaymaster.getAddress());
+			await otherCounter.waitForDeployment();
+			await nicPaymaster.setSponsoredTarget(await otherCounter.getAddress(), true);
+
+			await expect(relaySessionCall(otherCounter)).to.be.revertedWith(
+				"Target not allowed for session"
+			);
+			expect(await otherCounter.getUserCounter(user.address)).to.equal(0);
+		});
+
+		it("Should stop relaying session calls at the session's call limit", async function () {
+			await nicRegistry
+				.connect(user)
+				.createScopedSessionByHash(
+					computeLegacyNICHash("NIC001", (await ethers.provider.getNetwork()).chainId),
+					temporaryWallet.address,
+					3600,
+					{
+						allowedTargets: [await counter.getAddress()],
+						allowedSelectors: [counter.interface.getFunction("incrementForUser").selector],
+						maxCalls: 1,
+					}
+				);
+
+			await relaySessionCall(counter);
+			await expect(relaySessionCall(counter)).to.be.revertedWith("Session call limit reached");
+			expect(await counter.getUserCounter(user.address)).to.equal(1);
+		});
+	});
+});
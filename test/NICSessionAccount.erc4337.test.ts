@@ -0,0 +1,258 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {HDNodeWallet, Signer} from "ethers";
+import type {
+	EntryPoint,
+	NICSessionAccount,
+	NICSessionAccountFactory,
+	NICVerifyingPaymaster,
+	NICWalletRegistry,
+	SimpleCounter,
+} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {
+	BundlerClient,
+	buildSessionUserOperation,
+	createBundlerClient,
+	signUserOperation,
+} from "../utils/bundlerClient";
+import {computeLegacyNICHash} from "../utils/nicHash";
+
+describe("NICSessionAccount ERC-4337 Mode", function () {
+	let entryPoint: EntryPoint;
+	let nicRegistry: NICWalletRegistry;
+	let factory: NICSessionAccountFactory;
+	let paymaster: NICVerifyingPaymaster;
+	let counter: SimpleCounter;
+	let account: NICSessionAccount;
+	let bundler: BundlerClient;
+	let beneficiary: SignerWithAddress;
+	let owner: SignerWithAddress;
+	let sessionKey: HDNodeWallet;
+
+	beforeEach(async function () {
+		[, beneficiary, owner] = await ethers.getSigners();
+
+		const EntryPointFactory = await ethers.getContractFactory("EntryPoint");
+		entryPoint = await EntryPointFactory.deploy();
+		await entryPoint.waitForDeployment();
+		const entryPointAddress = await entryPoint.getAddress();
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const AccountFactoryFactory = await ethers.getContractFactory(
+			"NICSessionAccountFactory"
+		);
+		factory = await AccountFactoryFactory.deploy(
+			entryPointAddress,
+			await nicRegistry.getAddress()
+		);
+		await factory.waitForDeployment();
+
+		const PaymasterFactory = await ethers.getContractFactory("NICVerifyingPaymaster");
+		paymaster = await PaymasterFactory.deploy(
+			entryPointAddress,
+			await nicRegistry.getAddress()
+		);
+		await paymaster.waitForDeployment();
+		await paymaster.deposit({value: ethers.parseEther("1")});
+
+		const SimpleCounterFactory = await ethers.getContractFactory("SimpleCounter");
+		counter = await SimpleCounterFactory.deploy(ethers.ZeroAddress);
+		await counter.waitForDeployment();
+
+		// The account is the registered wallet; its owner grants the session through execute
+		await factory.createAccount(owner.address, 0);
+		account = await ethers.getContractAt(
+			"NICSessionAccount",
+			await factory.getAccountAddress(owner.address, 0)
+		);
+		await nicRegistry.registerWallet("NIC001", await account.getAddress());
+
+		sessionKey = ethers.Wallet.createRandom().connect(ethers.provider);
+		await grantSession(sessionKey.address);
+
+		bundler = createBundlerClient({entryPoint: entryPointAddress, beneficiary});
+	});
+
+	/**
+	 * Grant a session through the account, allowed to call the counter only
+	 */
+	async function grantSession(temporaryWallet: string, maxCalls = 0) {
+		const {chainId} = await ethers.provider.getNetwork();
+		const permissions = {
+			allowedTargets: [await counter.getAddress()],
+			allowedSelectors: [],
+			maxCalls,
+		};
+		return account
+			.connect(owner)
+			.execute(
+				await nicRegistry.getAddress(),
+				0,
+				nicRegistry.interface.encodeFunctionData("createScopedSessionByHash", [
+					computeLegacyNICHash("NIC001", chainId),
+					temporaryWallet,
+					3600,
+					permissions,
+				])
+			);
+	}
+
+	/**
+	 * Build and sign a sponsored UserOperation calling `target` from the account
+	 */
+	async function sessionUserOperation(
+		target: string,
+		data: string,
+		signer: Signer = sessionKey
+	) {
+		const entryPointAddress = await entryPoint.getAddress();
+		const userOp = await buildSessionUserOperation(ethers.provider, entryPointAddress, {
+			sender: await account.getAddress(),
+			target,
+			data,
+			paymaster: await paymaster.getAddress(),
+		});
+		return signUserOperation(signer, entryPointAddress, userOp);
+	}
+
+	async function incrementUserOperation(signer: Signer = sessionKey) {
+		return sessionUserOperation(
+			await counter.getAddress(),
+			counter.interface.encodeFunctionData("incrementForUser", [await account.getAddress()]),
+			signer
+		);
+	}
+
+	it("Should sponsor a UserOperation signed by a session key", async function () {
+		const depositBefore = await paymaster.getDeposit();
+
+		const userOpHash = await bundler.sendUserOperation(await incrementUserOperation());
+		const receipt = await bundler.waitForUserOperationReceipt(userOpHash);
+
+		expect(receipt.success).to.be.true;
+		expect(await counter.getUserCounter(await account.getAddress())).to.equal(1);
+		expect(await paymaster.getDeposit()).to.equal(depositBefore - receipt.actualGasCost);
+		expect(await ethers.provider.getBalance(sessionKey.address)).to.equal(0);
+	});
+
+	it("Should deploy the account in its first UserOperation", async function () {
+		const accountAddress = await factory.getAccountAddress(owner.address, 1);
+		await owner.sendTransaction({to: accountAddress, value: ethers.parseEther("0.1")});
+		const entryPointAddress = await entryPoint.getAddress();
+
+		const userOp = await buildSessionUserOperation(ethers.provider, entryPointAddress, {
+			sender: accountAddress,
+			target: await counter.getAddress(),
+			data: counter.interface.encodeFunctionData("incrementForUser", [accountAddress]),
+			factory: await factory.getAddress(),
+			factoryData: factory.interface.encodeFunctionData("createAccount", [owner.address, 1]),
+		});
+		const userOpHash = await bundler.sendUserOperation(
+			await signUserOperation(owner, entryPointAddress, userOp)
+		);
+
+		expect((await bundler.waitForUserOperationReceipt(userOpHash)).success).to.be.true;
+		expect(await ethers.provider.getCode(accountAddress)).to.not.equal("0x");
+		expect(await counter.getUserCounter(accountAddress)).to.equal(1);
+	});
+
+	it("Should only sponsor UserOperations signed by a session key", async function () {
+		// The owner may use the account, but pays for its own UserOperations
+		await expect(bundler.sendUserOperation(await incrementUserOperation(owner)))
+			.to.be.revertedWithCustomError(entryPoint, "FailedOp")
+			.withArgs(0, "AA34 signature error");
+
+		const stranger = ethers.Wallet.createRandom().connect(ethers.provider);
+		await expect(bundler.sendUserOperation(await incrementUserOperation(stranger)))
+			.to.be.revertedWithCustomError(entryPoint, "FailedOp")
+			.withArgs(0, "AA24 signature error");
+	});
+
+	it("Should stop sponsoring once the session expires or is revoked", async function () {
+		const userOp = await incrementUserOperation();
+		await time.increase(3601);
+
+		// The account rejects it first; the paymaster enforces the same validUntil
+		await expect(bundler.sendUserOperation(userOp))
+			.to.be.revertedWithCustomError(entryPoint, "FailedOp")
+			.withArgs(0, "AA22 expired or not due");
+
+		const otherKey = ethers.Wallet.createRandom().connect(ethers.provider);
+		await grantSession(otherKey.address);
+		await account
+			.connect(owner)
+			.execute(
+				await nicRegistry.getAddress(),
+				0,
+				nicRegistry.interface.encodeFunctionData("revokeAccess", ["NIC001", otherKey.address])
+			);
+		await expect(bundler.sendUserOperation(await incrementUserOperation(otherKey)))
+			.to.be.revertedWithCustomError(entryPoint, "FailedOp")
+			.withArgs(0, "AA24 signature error");
+	});
+
+	it("Should only accept session UserOperations its permissions allow", async function () {
+		const otherCounter = await (await ethers.getContractFactory("SimpleCounter")).deploy(
+			ethers.ZeroAddress
+		);
+		const userOp = await sessionUserOperation(
+			await otherCounter.getAddress(),
+			otherCounter.interface.encodeFunctionData("incrementForUser", [await account.getAddress()])
+		);
+		await expect(bundler.sendUserOperation(userOp))
+			.to.be.revertedWithCustomError(entryPoint, "FailedOp")
+			.withArgs(0, "AA24 signature error");
+
+		// Each validated UserOperation counts against the session's call limit
+		await grantSession(sessionKey.address, 1);
+		await bundler.waitForUserOperationReceipt(
+			await bundler.sendUserOperation(await incrementUserOperation())
+		);
+		expect(
+			await nicRegistry.sessionCallCount(await account.getAddress(), sessionKey.address)
+		).to.equal(1);
+		await expect(bundler.sendUserOperation(await incrementUserOperation()))
+			.to.be.revertedWithCustomError(entryPoint, "FailedOp")
+			.withArgs(0, "AA24 signature error");
+	});
+
+	it("Should not grant call permissions to a session without scopes", async function () {
+		await account
+			.connect(owner)
+			.execute(
+				await nicRegistry.getAddress(),
+				0,
+				nicRegistry.interface.encodeFunctionData("createSession", [
+					"NIC001",
+					sessionKey.address,
+					3600,
+				])
+			);
+
+		await expect(bundler.sendUserOperation(await incrementUserOperation()))
+			.to.be.revertedWithCustomError(entryPoint, "FailedOp")
+			.withArgs(0, "AA24 signature error");
+	});
+
+	it("Should not let a session key manage sessions", async function () {
+		const userOp = await sessionUserOperation(
+			await nicRegistry.getAddress(),
+			nicRegistry.interface.encodeFunctionData("createSession", [
+				"NIC001",
+				ethers.Wallet.createRandom().address,
+				3600,
+			])
+		);
+
+		await expect(bundler.sendUserOperation(userOp))
+			.to.be.revertedWithCustomError(entryPoint, "FailedOp")
+			.withArgs(0, "AA24 signature error");
+	});
+});
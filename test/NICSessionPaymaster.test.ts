@@ -0,0 +1,225 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {NICSessionPaymaster, NICWalletRegistry} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {impersonateAccount, setBalance} from "@nomicfoundation/hardhat-network-helpers";
+import {getSessionPaymasterParams} from "../utils/sessionPaymaster";
+import {computeLegacyNICHash} from "../utils/nicHash";
+
+// The ZKsync bootloader is the only caller of the IPaymaster functions
+const BOOTLOADER_FORMAL_ADDRESS = "0x0000000000000000000000000000000000008001";
+
+describe("NICSessionPaymaster (ZKsync IPaymaster)", function () {
+	let paymaster: NICSessionPaymaster;
+	let nicRegistry: NICWalletRegistry;
+	let bootloader: SignerWithAddress;
+	let user: SignerWithAddress;
+	let temporaryWallet: SignerWithAddress;
+	let other: SignerWithAddress;
+
+	beforeEach(async function () {
+		[, user, temporaryWallet, other] = await ethers.getSigners();
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const NICSessionPaymasterFactory = await ethers.getContractFactory(
+			"NICSessionPaymaster"
+		);
+		paymaster = await NICSessionPaymasterFactory.deploy(await nicRegistry.getAddress());
+		await paymaster.waitForDeployment();
+		await setBalance(await paymaster.getAddress(), ethers.parseEther("1"));
+
+		await impersonateAccount(BOOTLOADER_FORMAL_ADDRESS);
+		await setBalance(BOOTLOADER_FORMAL_ADDRESS, ethers.parseEther("1"));
+		bootloader = await ethers.getSigner(BOOTLOADER_FORMAL_ADDRESS);
+
+		await nicRegistry.registerWallet("NIC001", user.address);
+		await createSession({allowedTargets: [other.address], allowedSelectors: [], maxCalls: 0});
+	});
+
+	async function createSession(permissions: {
+		allowedTargets: string[];
+		allowedSelectors: string[];
+		maxCalls: number;
+	}) {
+		return nicRegistry
+			.connect(user)
+			.createScopedSessionByHash(
+				computeLegacyNICHash("NIC001", (await ethers.provider.getNetwork()).chainId),
+				temporaryWallet.address,
+				3600,
+				permissions
+			);
+	}
+
+	/**
+	 * Build the bootloader's Transaction struct for a call sent by `from` through the paymaster
+	 */
+	async function buildTransaction(from: string, paymasterInput: string) {
+		return {
+			txType: 113,
+			from,
+			to: other.address,
+			gasLimit: 500000,
+			gasPerPubdataByteLimit: 50000,
+			maxFeePerGas: ethers.parseUnits("1", "gwei"),
+			maxPriorityFeePerGas: 0,
+			paymaster: await paymaster.getAddress(),
+			nonce: 0,
+			value: 0,
+			reserved: [0, 0, 0, 0] as [number, number, number, number],
+			data: "0x",
+			signature: "0x",
+			factoryDeps: [],
+			paymasterInput,
+			reservedDynamic: "0x",
+		};
+	}
+
+	async function sessionPaymasterInput(originalWallet: string) {
+		return getSessionPaymasterParams(await paymaster.getAddress(), originalWallet)
+			.paymasterInput as string;
+	}
+
+	it("Should pay the fee of a temporary wallet with a valid session", async function () {
+		const transaction = await buildTransaction(
+			temporaryWallet.address,
+			await sessionPaymasterInput(user.address)
+		);
+		const fee = BigInt(transaction.gasLimit) * transaction.maxFeePerGas;
+
+		const [magic] = await paymaster
+			.connect(bootloader)
+			.validateAndPayForPaymasterTransaction.staticCall(
+				ethers.ZeroHash,
+				ethers.ZeroHash,
+				transaction
+			);
+		expect(magic).to.equal(
+			paymaster.interface.getFunction("validateAndPayForPaymasterTransaction").selector
+		);
+
+		const tx = paymaster
+			.connect(bootloader)
+			.validateAndPayForPaymasterTransaction(ethers.ZeroHash, ethers.ZeroHash, transaction);
+		await expect(tx)
+			.to.emit(paymaster, "SessionTransactionSponsored")
+			.withArgs(user.address, temporaryWallet.address, other.address, fee);
+		await expect(tx).to.changeEtherBalances(
+			[paymaster, bootloader],
+			[-fee, fee]
+		);
+	});
+
+	it("Should reject a sender without a session for the wallet", async function () {
+		const transaction = await buildTransaction(
+			other.address,
+			await sessionPaymasterInput(user.address)
+		);
+
+		await expect(
+			paymaster
+				.connect(bootloader)
+				.validateAndPayForPaymasterTransaction(ethers.ZeroHash, ethers.ZeroHash, transaction)
+		).to.be.revertedWith("Temporary wallet access expired or invalid");
+	});
+
+	it("Should reject a session that was revoked", async function () {
+		await nicRegistry.connect(user).revokeAccess("NIC001", temporaryWallet.address);
+		const transaction = await buildTransaction(
+			temporaryWallet.address,
+			await sessionPaymasterInput(user.address)
+		);
+
+		await expect(
+			paymaster
+				.connect(bootloader)
+				.validateAndPayForPaymasterTransaction(ethers.ZeroHash, ethers.ZeroHash, transaction)
+		).to.be.revertedWith("Temporary wallet access expired or invalid");
+	});
+
+	it("Should only sponsor calls to the session's allowed targets", async function () {
+		const transaction = await buildTransaction(
+			temporaryWallet.address,
+			await sessionPaymasterInput(user.address)
+		);
+
+		await expect(
+			paymaster
+				.connect(bootloader)
+				.validateAndPayForPaymasterTransaction(ethers.ZeroHash, ethers.ZeroHash, {
+					...transaction,
+					to: user.address,
+				})
+		).to.be.revertedWith("Target not allowed for session");
+	});
+
+	it("Should only sponsor the temporary wallet's latest session", async function () {
+		// A session granted by another wallet replaces the sender-keyed copy of the first one
+		await nicRegistry.registerWallet("NIC002", other.address);
+		await nicRegistry
+			.connect(other)
+			.createScopedSessionByHash(
+				computeLegacyNICHash("NIC002", (await ethers.provider.getNetwork()).chainId),
+				temporaryWallet.address,
+				3600,
+				{allowedTargets: [user.address], allowedSelectors: [], maxCalls: 0}
+			);
+
+		const transaction = await buildTransaction(
+			temporaryWallet.address,
+			await sessionPaymasterInput(user.address)
+		);
+		await expect(
+			paymaster
+				.connect(bootloader)
+				.validateAndPayForPaymasterTransaction(ethers.ZeroHash, ethers.ZeroHash, transaction)
+		).to.be.revertedWith("Temporary wallet access expired or invalid");
+	});
+
+	it("Should not sponsor a session without call permissions", async function () {
+		await nicRegistry
+			.connect(user)
+			.createSession("NIC001", temporaryWallet.address, 3600);
+		const transaction = await buildTransaction(
+			temporaryWallet.address,
+			await sessionPaymasterInput(user.address)
+		);
+
+		await expect(
+			paymaster
+				.connect(bootloader)
+				.validateAndPayForPaymasterTransaction(ethers.ZeroHash, ethers.ZeroHash, transaction)
+		).to.be.revertedWith("Target not allowed for session");
+	});
+
+	it("Should only support the general paymaster flow", async function () {
+		const approvalBased = new ethers.Interface([
+			"function approvalBased(address _token, uint256 _minAllowance, bytes _innerInput)",
+		]).encodeFunctionData("approvalBased", [other.address, 1, "0x"]);
+		const transaction = await buildTransaction(temporaryWallet.address, approvalBased);
+
+		await expect(
+			paymaster
+				.connect(bootloader)
+				.validateAndPayForPaymasterTransaction(ethers.ZeroHash, ethers.ZeroHash, transaction)
+		).to.be.revertedWith("Unsupported paymaster flow");
+	});
+
+	it("Should only be callable by the bootloader", async function () {
+		const transaction = await buildTransaction(
+			temporaryWallet.address,
+			await sessionPaymasterInput(user.address)
+		);
+
+		await expect(
+			paymaster
+				.connect(temporaryWallet)
+				.validateAndPayForPaymasterTransaction(ethers.ZeroHash, ethers.ZeroHash, transaction)
+		).to.be.revertedWith("Only bootloader can call this method");
+	});
+});
@@ -0,0 +1,143 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {NICWalletRegistry} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {generateNICHashSalt, hashNIC} from "../utils/nicHash";
+import {
+	IdentityIssuer,
+	createIdentityIssuer,
+	getRegistryDomain,
+	signRegistrationAttestation,
+	toRegistrationArgs,
+} from "../utils/identityIssuer";
+
+describe("NICWalletRegistry Registration Attestations", function () {
+	let nicRegistry: NICWalletRegistry;
+	let issuerKey: SignerWithAddress;
+	let issuer: IdentityIssuer;
+	let systemWallet: SignerWithAddress;
+	let citizen: SignerWithAddress;
+	let attacker: SignerWithAddress;
+
+	const salt = generateNICHashSalt();
+	const nicHash = hashNIC("NIC001", salt);
+
+	beforeEach(async function () {
+		[, issuerKey, systemWallet, citizen, attacker] = await ethers.getSigners();
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+		await nicRegistry.setIdentityIssuer(issuerKey.address, true);
+		await nicRegistry.authorizeSystemWallet(systemWallet.address, true);
+
+		issuer = createIdentityIssuer(issuerKey, nicRegistry);
+	});
+
+	it("Should register a wallet with an issuer's attestation, sent by anyone", async function () {
+		const signed = await issuer.attest(nicHash, citizen.address);
+
+		await expect(
+			nicRegistry.connect(attacker).registerWalletWithAttestation(...toRegistrationArgs(signed))
+		).to.emit(nicRegistry, "WalletRegistered");
+
+		expect(await nicRegistry.getWalletByNICHash(nicHash)).to.equal(citizen.address);
+		expect(
+			await nicRegistry.usedAttestationNonces(issuerKey.address, signed.attestation.nonce)
+		).to.be.true;
+	});
+
+	it("Should let only registrars and system wallets register without an attestation", async function () {
+		await expect(
+			nicRegistry.connect(attacker).registerWalletByHash(nicHash, attacker.address)
+		).to.be.revertedWith("Only registrar or authorized system wallet can register wallets");
+		await expect(
+			nicRegistry.connect(attacker).registerWallet("NIC001", attacker.address)
+		).to.be.revertedWith("Only registrar or authorized system wallet can register wallets");
+
+		await nicRegistry.connect(systemWallet).registerWalletByHash(nicHash, citizen.address);
+		expect(await nicRegistry.getWalletByNICHash(nicHash)).to.equal(citizen.address);
+	});
+
+	it("Should not let a front-runner bind an attested NIC to another wallet", async function () {
+		const signed = await issuer.attest(nicHash, citizen.address);
+
+		// The attacker copies the pending attestation with their own wallet
+		const stolen = {...signed, attestation: {...signed.attestation, walletAddress: attacker.address}};
+		await expect(
+			nicRegistry.connect(attacker).registerWalletWithAttestation(...toRegistrationArgs(stolen))
+		).to.be.revertedWith("Invalid attestation");
+
+		// Submitting it unchanged first only registers the citizen's wallet
+		await nicRegistry.connect(attacker).registerWalletWithAttestation(...toRegistrationArgs(signed));
+		await expect(
+			nicRegistry.connect(citizen).registerWalletWithAttestation(...toRegistrationArgs(signed))
+		).to.be.revertedWith("Attestation already used");
+		expect(await nicRegistry.getWalletByNICHash(nicHash)).to.equal(citizen.address);
+		expect(await nicRegistry.isWalletRegistered(attacker.address)).to.be.false;
+	});
+
+	it("Should reject attestations from unauthorized or revoked issuers", async function () {
+		const forged = await createIdentityIssuer(attacker, nicRegistry).attest(
+			nicHash,
+			attacker.address
+		);
+		await expect(
+			nicRegistry.registerWalletWithAttestation(...toRegistrationArgs(forged))
+		).to.be.revertedWith("Invalid attestation");
+
+		const signed = await issuer.attest(nicHash, citizen.address);
+		await nicRegistry.setIdentityIssuer(issuerKey.address, false);
+		await expect(
+			nicRegistry.registerWalletWithAttestation(...toRegistrationArgs(signed))
+		).to.be.revertedWith("Invalid attestation");
+	});
+
+	it("Should reject an expired attestation", async function () {
+		const signed = await issuer.attest(nicHash, citizen.address, 60);
+
+		await time.increase(61);
+		await expect(
+			nicRegistry.registerWalletWithAttestation(...toRegistrationArgs(signed))
+		).to.be.revertedWith("Attestation expired");
+	});
+
+	it("Should accept each attestation nonce of an issuer once", async function () {
+		const nonce = ethers.hexlify(ethers.randomBytes(32));
+		const expiry = (await time.latest()) + 600;
+		const domain = await getRegistryDomain(nicRegistry);
+
+		const wallets = [citizen.address, systemWallet.address];
+		const nicHashes = [nicHash, hashNIC("NIC002", salt)];
+		const signed = [];
+		for (let i = 0; i < wallets.length; i++) {
+			const attestation = {nicHash: nicHashes[i], walletAddress: wallets[i], nonce, expiry};
+			signed.push({
+				attestation,
+				signature: await signRegistrationAttestation(issuerKey, domain, attestation),
+			});
+		}
+
+		await nicRegistry.registerWalletWithAttestation(...toRegistrationArgs(signed[0]));
+		await expect(
+			nicRegistry.registerWalletWithAttestation(...toRegistrationArgs(signed[1]))
+		).to.be.revertedWith("Attestation already used");
+	});
+
+	it("Should let only registrars manage identity issuers", async function () {
+		await expect(
+			nicRegistry.connect(attacker).setIdentityIssuer(attacker.address, true)
+		)
+			.to.be.revertedWithCustomError(nicRegistry, "AccessControlUnauthorizedAccount")
+			.withArgs(attacker.address, await nicRegistry.REGISTRAR_ROLE());
+		await expect(
+			nicRegistry.setIdentityIssuer(ethers.ZeroAddress, true)
+		).to.be.revertedWith("Invalid issuer address");
+		await expect(nicRegistry.setIdentityIssuer(attacker.address, true))
+			.to.emit(nicRegistry, "IdentityIssuerUpdated")
+			.withArgs(attacker.address, true);
+	});
+});
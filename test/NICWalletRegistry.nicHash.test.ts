@@ -0,0 +1,318 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {NICWalletRegistry, ZK_ElectionContract} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {
+	computeNullifier,
+	createVoterMerkleTree,
+	generateVoterSecret,
+	getMerkleProof,
+	getRegisteredWalletsFromNICs,
+} from "../utils/merkleTree";
+import {
+	buildNICHashMigration,
+	computeLegacyNICHash,
+	generateNICHashSalt,
+	getNICHashSalt,
+	hashNIC,
+} from "../utils/nicHash";
+import {
+	computeBallotCommitment,
+	encryptBallot,
+	generateTallyKeyPair,
+} from "../utils/encryptedTally";
+
+describe("NICWalletRegistry NIC Hashes", function () {
+	let nicRegistry: NICWalletRegistry;
+	let owner: SignerWithAddress;
+	let voters: SignerWithAddress[];
+	let session: SignerWithAddress;
+	let chainId: bigint;
+
+	const salt = generateNICHashSalt();
+
+	beforeEach(async function () {
+		[owner, session, ...voters] = await ethers.getSigners();
+		({chainId} = await ethers.provider.getNetwork());
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+	});
+
+	describe("TS helpers", function () {
+		it("Should match the hash used by the plaintext NIC functions", async function () {
+			await nicRegistry.registerWallet("NIC001", voters[0].address);
+
+			expect(
+				await nicRegistry.getWalletByNICHash(computeLegacyNICHash("NIC001", chainId))
+			).to.equal(voters[0].address);
+		});
+
+		it("Should depend on the salt", function () {
+			expect(hashNIC("NIC001", salt)).to.not.equal(
+				hashNIC("NIC001", generateNICHashSalt())
+			);
+			expect(() => hashNIC("NIC001", "0x1234")).to.throw(
+				"NIC hash salt must be 32 bytes"
+			);
+		});
+
+		it("Should read the salt from the environment", function () {
+			expect(getNICHashSalt({NIC_HASH_SALT: salt})).to.equal(salt);
+			expect(() => getNICHashSalt({})).to.throw("NIC_HASH_SALT not provided");
+			expect(() => getNICHashSalt({NIC_HASH_SALT: "NIC001"})).to.throw(
+				"NIC_HASH_SALT must be a 32-byte hex string"
+			);
+		});
+	});
+
+	describe("Hashed NIC API", function () {
+		it("Should register and look up wallets without the NIC in calldata", async function () {
+			const tx = await nicRegistry.registerWalletByHash(
+				hashNIC("NIC001", salt),
+				voters[0].address
+			);
+
+			expect(tx.data).to.not.contain(ethers.hexlify(ethers.toUtf8Bytes("NIC001")).slice(2));
+			expect(await nicRegistry.getWalletByNICHash(hashNIC("NIC001", salt))).to.equal(
+				voters[0].address
+			);
+			expect(
+				await getRegisteredWalletsFromNICs(["NIC001", "NIC002"], nicRegistry, salt)
+			).to.deep.equal([voters[0].address]);
+		});
+
+		it("Should reject the zero hash and duplicate hashes", async function () {
+			await expect(
+				nicRegistry.registerWalletByHash(ethers.ZeroHash, voters[0].address)
+			).to.be.revertedWith("Invalid NIC hash");
+
+			await nicRegistry.registerWalletByHash(hashNIC("NIC001", salt), voters[0].address);
+			await expect(
+				nicRegistry.registerWalletByHash(hashNIC("NIC001", salt), voters[1].address)
+			).to.be.revertedWith("NIC already registered");
+		});
+
+		it("Should manage sessions by NIC hash", async function () {
+			const nicHash = hashNIC("NIC001", salt);
+			await nicRegistry.registerWalletByHash(nicHash, voters[0].address);
+
+			await nicRegistry.connect(voters[0]).createSessionByHash(nicHash, session.address, 3600);
+			expect(await nicRegistry.hasValidAccess(voters[0].address, session.address)).to.be
+				.true;
+
+			await nicRegistry.connect(voters[0]).revokeAccessByHash(nicHash, session.address);
+			expect(await nicRegistry.hasValidAccess(voters[0].address, session.address)).to.be
+				.false;
+
+			await nicRegistry.deactivateWalletByHash(nicHash);
+			await expect(
+				nicRegistry.connect(voters[0]).createSessionByHash(nicHash, session.address, 3600)
+			).to.be.revertedWith("Wallet is inactive");
+		});
+	});
+
+	describe("Migration", function () {
+		const nics = ["NIC001", "NIC002"];
+
+		beforeEach(async function () {
+			for (let i = 0; i < nics.length; i++) {
+				await nicRegistry.registerWallet(nics[i], voters[i].address);
+			}
+		});
+
+		it("Should move registrations to the salted hash", async function () {
+			const {legacyNicHashes, nicHashes} = buildNICHashMigration(nics, salt, chainId);
+			await nicRegistry.connect(voters[0]).createSession(nics[0], session.address, 3600);
+
+			await expect(nicRegistry.migrateNicHashes(legacyNicHashes, nicHashes))
+				.to.emit(nicRegistry, "NicHashMigrated")
+				.withArgs(legacyNicHashes[0], nicHashes[0], voters[0].address);
+
+			expect(await nicRegistry.getWalletByNICHash(nicHashes[0])).to.equal(voters[0].address);
+			expect(await nicRegistry.getWalletByNIC(nics[0])).to.equal(ethers.ZeroAddress);
+			expect(await nicRegistry.migratedLegacyNicHashes(legacyNicHashes[1])).to.be.true;
+
+			// Sessions are keyed by the NIC hash, so they end with the migration
+			expect(await nicRegistry.hasValidAccess(voters[0].address, session.address)).to.be
+				.false;
+			const [originalWallet] = await nicRegistry.temporaryWalletSessions(session.address);
+			expect(originalWallet).to.equal(ethers.ZeroAddress);
+		});
+
+		it("Should not let a migrated NIC be registered again through the plaintext API", async function () {
+			const {legacyNicHashes, nicHashes} = buildNICHashMigration(nics, salt, chainId);
+			await nicRegistry.migrateNicHashes(legacyNicHashes, nicHashes);
+
+			await expect(
+				nicRegistry.registerWallet(nics[0], voters[2].address)
+			).to.be.revertedWith("NIC already migrated");
+		});
+
+		it("Should validate the migration input", async function () {
+			const {legacyNicHashes, nicHashes} = buildNICHashMigration(nics, salt, chainId);
+
+			await expect(
+				nicRegistry.connect(voters[0]).migrateNicHashes(legacyNicHashes, nicHashes)
+			).to.be.revertedWithCustomError(nicRegistry, "AccessControlUnauthorizedAccount");
+			await expect(
+				nicRegistry.migrateNicHashes(legacyNicHashes, nicHashes.slice(1))
+			).to.be.revertedWith("Length mismatch");
+			await expect(
+				nicRegistry.migrateNicHashes(
+					[computeLegacyNICHash("NIC999", chainId)],
+					[hashNIC("NIC999", salt)]
+				)
+			).to.be.revertedWith("NIC not registered");
+			await expect(
+				nicRegistry.migrateNicHashes(legacyNicHashes, [nicHashes[0], nicHashes[0]])
+			).to.be.revertedWith("NIC already registered");
+		});
+
+		it("Should disable the plaintext NIC functions for good", async function () {
+			await expect(nicRegistry.disablePlaintextNic()).to.emit(
+				nicRegistry,
+				"PlaintextNicDisabled"
+			);
+
+			await expect(nicRegistry.getWalletByNIC(nics[0])).to.be.revertedWith(
+				"Plaintext NIC API disabled"
+			);
+			await expect(
+				nicRegistry.registerWallet("NIC003", voters[2].address)
+			).to.be.revertedWith("Plaintext NIC API disabled");
+			await expect(nicRegistry.disablePlaintextNic()).to.be.revertedWith(
+				"Plaintext NIC API already disabled"
+			);
+
+			await nicRegistry.registerWalletByHash(hashNIC("NIC003", salt), voters[2].address);
+			expect(await nicRegistry.getWalletByNICHash(hashNIC("NIC003", salt))).to.equal(
+				voters[2].address
+			);
+		});
+	});
+
+	describe("Voting by NIC hash", function () {
+		let zkElection: ZK_ElectionContract;
+
+		const electionId = 0;
+		const nic = "NIC001";
+
+		// Placeholder UltraPlonk proof: MockVerifier does not check it
+		const proof = ethers.hexlify(ethers.randomBytes(2144));
+		const tallyKeys = generateTallyKeyPair();
+
+		beforeEach(async function () {
+			const MockVerifierFactory = await ethers.getContractFactory(
+				"MockVerifier"
+			);
+			const verifier = await MockVerifierFactory.deploy();
+			await verifier.waitForDeployment();
+
+			const ZKElectionFactory = await ethers.getContractFactory(
+				"ZK_ElectionContract"
+			);
+			zkElection = await ZKElectionFactory.deploy(
+				await verifier.getAddress(),
+				await nicRegistry.getAddress(),
+				ethers.ZeroAddress
+			);
+			await zkElection.waitForDeployment();
+
+			await nicRegistry.registerWalletByHash(hashNIC(nic, salt), voters[0].address);
+			await nicRegistry.disablePlaintextNic();
+
+			const {root} = createVoterMerkleTree([voters[0].address], electionId);
+			const now = await time.latest();
+			await zkElection.createElection(
+				"Hashed NIC Election",
+				"Election voted through NIC hashes",
+				now + 10,
+				now + 86400,
+				[
+					{name: "Candidate A", nic: "CA001", party: "Party Alpha", voteCount: 0},
+					{name: "Candidate B", nic: "CB002", party: "Party Beta", voteCount: 0},
+				],
+				root,
+				tallyKeys.publicKey
+			);
+			await time.increase(20);
+		});
+
+		async function voteArgs() {
+			const {tree} = createVoterMerkleTree([voters[0].address], electionId);
+			const nullifierHash = computeNullifier(generateVoterSecret(), electionId);
+			return {
+				nullifierHash,
+				ballot: encryptBallot(1, 2, tallyKeys.publicKey, {
+					chainId,
+					electionContract: await zkElection.getAddress(),
+					electionId,
+					nullifierHash,
+				}),
+				merkleProof: getMerkleProof(tree, voters[0].address, electionId),
+			};
+		}
+
+		it("Should accept a vote from the registered wallet", async function () {
+			const {nullifierHash, ballot, merkleProof} = await voteArgs();
+
+			await expect(
+				zkElection
+					.connect(voters[0])
+					.castVoteByNICHash(
+						electionId,
+						hashNIC(nic, salt),
+						nullifierHash,
+						ballot,
+						merkleProof,
+						proof
+					)
+			)
+				.to.emit(zkElection, "VoteCast")
+				.withArgs(electionId, computeBallotCommitment(ballot.ciphertexts), nullifierHash);
+		});
+
+		it("Should accept a vote from a session wallet", async function () {
+			const {nullifierHash, ballot, merkleProof} = await voteArgs();
+			await nicRegistry
+				.connect(voters[0])
+				.createSessionByHash(hashNIC(nic, salt), session.address, 3600);
+
+			await expect(
+				zkElection
+					.connect(session)
+					.castVoteWithNICHash(
+						electionId,
+						hashNIC(nic, salt),
+						voters[0].address,
+						session.address,
+						nullifierHash,
+						ballot,
+						merkleProof,
+						proof
+					)
+			).to.emit(zkElection, "VoteCast");
+		});
+
+		it("Should reject votes for an unknown NIC hash or from another wallet", async function () {
+			const {nullifierHash, ballot, merkleProof} = await voteArgs();
+			const args = [nullifierHash, ballot, merkleProof, proof] as const;
+
+			await expect(
+				zkElection
+					.connect(voters[0])
+					.castVoteByNICHash(electionId, hashNIC("NIC999", salt), ...args)
+			).to.be.revertedWith("NIC not registered");
+			await expect(
+				zkElection
+					.connect(voters[1])
+					.castVoteByNICHash(electionId, hashNIC(nic, salt), ...args)
+			).to.be.revertedWith("Caller must be registered wallet");
+		});
+	});
+});
@@ -0,0 +1,141 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {NICWalletRegistry} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {generateNICHashSalt, hashNIC} from "../utils/nicHash";
+
+describe("NICWalletRegistry Wallet Recovery", function () {
+	let nicRegistry: NICWalletRegistry;
+	let systemWallet: SignerWithAddress;
+	let oldWallet: SignerWithAddress;
+	let newWallet: SignerWithAddress;
+	let session: SignerWithAddress;
+	let other: SignerWithAddress;
+	let challengePeriod: bigint;
+
+	const salt = generateNICHashSalt();
+	const nicHash = hashNIC("NIC001", salt);
+
+	beforeEach(async function () {
+		[, systemWallet, oldWallet, newWallet, session, other] = await ethers.getSigners();
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+		await nicRegistry.authorizeSystemWallet(systemWallet.address, true);
+		challengePeriod = await nicRegistry.RECOVERY_CHALLENGE_PERIOD();
+
+		await nicRegistry.registerWalletByHash(nicHash, oldWallet.address);
+		await nicRegistry.connect(oldWallet).createSessionByHash(nicHash, session.address, 3600);
+	});
+
+	function proposeRecovery(wallet = newWallet.address) {
+		return nicRegistry.connect(systemWallet).proposeRecovery(nicHash, wallet);
+	}
+
+	it("Should move the NIC to the new wallet after the challenge period", async function () {
+		const tx = await proposeRecovery();
+		const executableAfter = BigInt(await time.latest()) + challengePeriod;
+		await expect(tx)
+			.to.emit(nicRegistry, "RecoveryProposed")
+			.withArgs(nicHash, oldWallet.address, newWallet.address, executableAfter);
+
+		await expect(nicRegistry.connect(other).executeRecovery(nicHash)).to.be.revertedWith(
+			"Challenge period not over"
+		);
+		await time.increaseTo(executableAfter + 1n);
+		await expect(nicRegistry.connect(other).executeRecovery(nicHash))
+			.to.emit(nicRegistry, "WalletRecovered")
+			.withArgs(nicHash, oldWallet.address, newWallet.address);
+
+		expect(await nicRegistry.getWalletByNICHash(nicHash)).to.equal(newWallet.address);
+		expect(await nicRegistry.isWalletRegistered(newWallet.address)).to.be.true;
+		expect(await nicRegistry.isWalletRegistered(oldWallet.address)).to.be.false;
+		expect(await nicRegistry.connect(newWallet).getNICHash(newWallet.address)).to.equal(nicHash);
+		expect(await nicRegistry.connect(oldWallet).getNICHash(oldWallet.address)).to.equal(
+			ethers.ZeroHash
+		);
+		expect((await nicRegistry.recoveryRequests(nicHash)).newWallet).to.equal(ethers.ZeroAddress);
+
+		// The new wallet can use the NIC right away
+		await nicRegistry.connect(newWallet).createSessionByHash(nicHash, session.address, 3600);
+		expect(await nicRegistry.hasValidAccess(newWallet.address, session.address)).to.be.true;
+		await expect(
+			nicRegistry.connect(oldWallet).createSessionByHash(nicHash, other.address, 3600)
+		).to.be.revertedWith("Only wallet owner or authorized system wallet can create sessions");
+	});
+
+	it("Should invalidate the old wallet's sessions and identity commitment", async function () {
+		const identityCommitment = ethers.keccak256(ethers.toUtf8Bytes("identity secret"));
+		await nicRegistry.connect(oldWallet).registerIdentityCommitment(identityCommitment);
+
+		await proposeRecovery();
+		await time.increase(challengePeriod + 1n);
+		await nicRegistry.executeRecovery(nicHash);
+
+		expect(await nicRegistry.hasValidAccess(oldWallet.address, session.address)).to.be.false;
+		const [temporaryWallets] = await nicRegistry.getSessions(oldWallet.address);
+		expect(temporaryWallets).to.be.empty;
+		await expect(
+			nicRegistry.connect(session).executeOnBehalf(oldWallet.address, other.address, "0x")
+		).to.be.revertedWith("No valid access");
+		expect(await nicRegistry.getActiveIdentityCommitments()).to.be.empty;
+	});
+
+	it("Should let the old wallet veto the recovery", async function () {
+		await proposeRecovery();
+
+		await expect(nicRegistry.connect(other).vetoRecovery(nicHash)).to.be.revertedWith(
+			"Only wallet owner can veto recovery"
+		);
+		await expect(nicRegistry.connect(oldWallet).vetoRecovery(nicHash))
+			.to.emit(nicRegistry, "RecoveryVetoed")
+			.withArgs(nicHash, oldWallet.address, newWallet.address);
+
+		await time.increase(challengePeriod + 1n);
+		await expect(nicRegistry.executeRecovery(nicHash)).to.be.revertedWith("No pending recovery");
+		expect(await nicRegistry.getWalletByNICHash(nicHash)).to.equal(oldWallet.address);
+		expect(await nicRegistry.isWalletRegistered(oldWallet.address)).to.be.true;
+	});
+
+	it("Should only let authorized system wallets propose or cancel a recovery", async function () {
+		await expect(
+			nicRegistry.connect(other).proposeRecovery(nicHash, other.address)
+		).to.be.revertedWith("Only authorized system wallet can propose recovery");
+
+		await proposeRecovery();
+		await expect(nicRegistry.connect(other).cancelRecovery(nicHash)).to.be.revertedWith(
+			"Only authorized system wallet can cancel recovery"
+		);
+		await expect(nicRegistry.connect(systemWallet).cancelRecovery(nicHash))
+			.to.emit(nicRegistry, "RecoveryCancelled")
+			.withArgs(nicHash, systemWallet.address);
+		await expect(nicRegistry.connect(systemWallet).cancelRecovery(nicHash)).to.be.revertedWith(
+			"No pending recovery"
+		);
+	});
+
+	it("Should reject invalid recovery proposals", async function () {
+		await expect(
+			nicRegistry.connect(systemWallet).proposeRecovery(hashNIC("NIC999", salt), newWallet.address)
+		).to.be.revertedWith("NIC not registered");
+		await expect(proposeRecovery(ethers.ZeroAddress)).to.be.revertedWith("Invalid wallet address");
+		await expect(proposeRecovery(oldWallet.address)).to.be.revertedWith("Wallet already registered");
+
+		await proposeRecovery();
+		await expect(proposeRecovery(other.address)).to.be.revertedWith("Recovery already pending");
+	});
+
+	it("Should not bind the NIC to a wallet registered during the challenge period", async function () {
+		await proposeRecovery();
+		await nicRegistry.registerWalletByHash(hashNIC("NIC002", salt), newWallet.address);
+
+		await time.increase(challengePeriod + 1n);
+		await expect(nicRegistry.executeRecovery(nicHash)).to.be.revertedWith(
+			"Wallet already registered"
+		);
+	});
+});
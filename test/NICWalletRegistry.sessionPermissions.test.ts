@@ -0,0 +1,217 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {NICWalletRegistry, SimpleCounter} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {generateNICHashSalt, hashNIC} from "../utils/nicHash";
+
+describe("NICWalletRegistry Session Permissions", function () {
+	let nicRegistry: NICWalletRegistry;
+	let counter: SimpleCounter;
+	let otherCounter: SimpleCounter;
+	let voter: SignerWithAddress;
+	let session: SignerWithAddress;
+
+	const nic = "NIC001";
+	const salt = generateNICHashSalt();
+
+	beforeEach(async function () {
+		[, voter, session] = await ethers.getSigners();
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const SimpleCounterFactory = await ethers.getContractFactory("SimpleCounter");
+		counter = await SimpleCounterFactory.deploy(ethers.ZeroAddress);
+		await counter.waitForDeployment();
+		otherCounter = await SimpleCounterFactory.deploy(ethers.ZeroAddress);
+		await otherCounter.waitForDeployment();
+
+		await nicRegistry.registerWalletByHash(hashNIC(nic, salt), voter.address);
+	});
+
+	async function createScopedSession(
+		allowedTargets: string[],
+		allowedSelectors: string[],
+		maxCalls: number
+	) {
+		return nicRegistry
+			.connect(voter)
+			.createScopedSessionByHash(hashNIC(nic, salt), session.address, 3600, {
+				allowedTargets,
+				allowedSelectors,
+				maxCalls,
+			});
+	}
+
+	async function executeOnBehalf(target: SimpleCounter, data: string) {
+		return nicRegistry
+			.connect(session)
+			.executeOnBehalf(voter.address, await target.getAddress(), data);
+	}
+
+	const increment = () => counter.interface.encodeFunctionData("increment");
+	const incrementBy = () => counter.interface.encodeFunctionData("incrementBy", [2]);
+
+	it("Should not let an unscoped session call any contract", async function () {
+		await nicRegistry
+			.connect(voter)
+			.createSessionByHash(hashNIC(nic, salt), session.address, 3600);
+
+		expect(await nicRegistry.hasValidAccess(voter.address, session.address)).to.be.true;
+		await expect(executeOnBehalf(counter, increment())).to.be.revertedWith(
+			"Target not allowed for session"
+		);
+		expect(
+			await nicRegistry.isSessionCallAllowed(
+				voter.address,
+				session.address,
+				await counter.getAddress(),
+				increment()
+			)
+		).to.be.false;
+	});
+
+	it("Should store and emit the session's permissions", async function () {
+		const selector = counter.interface.getFunction("increment").selector;
+		const counterAddress = await counter.getAddress();
+
+		await expect(createScopedSession([counterAddress], [selector], 3))
+			.to.emit(nicRegistry, "SessionPermissionsSet")
+			.withArgs(voter.address, session.address, [counterAddress], [selector], 3);
+
+		const [permissions, callCount] = await nicRegistry.getSessionPermissions(
+			voter.address,
+			session.address
+		);
+		expect(permissions.allowedTargets).to.deep.equal([counterAddress]);
+		expect(permissions.allowedSelectors).to.deep.equal([selector]);
+		expect(permissions.maxCalls).to.equal(3);
+		expect(callCount).to.equal(0);
+	});
+
+	it("Should only call allowed targets", async function () {
+		await createScopedSession([await counter.getAddress()], [], 0);
+
+		await executeOnBehalf(counter, incrementBy());
+		await expect(executeOnBehalf(otherCounter, increment())).to.be.revertedWith(
+			"Target not allowed for session"
+		);
+		expect(await counter.getCounter()).to.equal(2);
+	});
+
+	it("Should only call allowed selectors", async function () {
+		await createScopedSession(
+			[await counter.getAddress(), await otherCounter.getAddress()],
+			[counter.interface.getFunction("increment").selector],
+			0
+		);
+
+		await executeOnBehalf(otherCounter, increment());
+		await expect(executeOnBehalf(counter, incrementBy())).to.be.revertedWith(
+			"Selector not allowed for session"
+		);
+		await expect(executeOnBehalf(counter, "0x")).to.be.revertedWith(
+			"Selector not allowed for session"
+		);
+		expect(await otherCounter.getCounter()).to.equal(1);
+	});
+
+	it("Should stop a session at its call limit until a new session is created", async function () {
+		await createScopedSession([await counter.getAddress()], [], 2);
+
+		await executeOnBehalf(counter, increment());
+		await executeOnBehalf(counter, increment());
+		await expect(executeOnBehalf(counter, increment())).to.be.revertedWith(
+			"Session call limit reached"
+		);
+		expect(await nicRegistry.sessionCallCount(voter.address, session.address)).to.equal(2);
+
+		await createScopedSession([await counter.getAddress()], [], 1);
+		await executeOnBehalf(counter, increment());
+		expect(await counter.getCounter()).to.equal(3);
+	});
+
+	it("Should bubble up the revert reason of a failing call", async function () {
+		await createScopedSession([await counter.getAddress()], [], 1);
+
+		// The registry is the caller, not the voter
+		await expect(
+			executeOnBehalf(
+				counter,
+				counter.interface.encodeFunctionData("incrementForUser", [voter.address])
+			)
+		).to.be.revertedWith("Caller is not the user");
+		// A reverted call does not count against the limit
+		expect(await nicRegistry.sessionCallCount(voter.address, session.address)).to.equal(0);
+	});
+
+	it("Should report whether a session may make a call", async function () {
+		const counterAddress = await counter.getAddress();
+		await createScopedSession([counterAddress], [], 1);
+
+		const isAllowed = (target: string, data: string) =>
+			nicRegistry.isSessionCallAllowed(voter.address, session.address, target, data);
+		expect(await isAllowed(counterAddress, increment())).to.be.true;
+		expect(await isAllowed(await otherCounter.getAddress(), increment())).to.be.false;
+
+		await executeOnBehalf(counter, increment());
+		expect(await isAllowed(counterAddress, increment())).to.be.false;
+	});
+
+	it("Should only let trusted paymasters and the wallet count session calls", async function () {
+		const [paymaster] = await ethers.getSigners();
+		const counterAddress = await counter.getAddress();
+		await createScopedSession([counterAddress], [], 2);
+		const useSessionCall = (caller: SignerWithAddress, target = counterAddress) =>
+			nicRegistry
+				.connect(caller)
+				.useSessionCall(voter.address, session.address, target, increment());
+
+		await expect(useSessionCall(session)).to.be.revertedWith(
+			"Only trusted paymaster or wallet owner can use session calls"
+		);
+		await expect(useSessionCall(paymaster)).to.be.revertedWith(
+			"Only trusted paymaster or wallet owner can use session calls"
+		);
+
+		await nicRegistry.setTrustedPaymaster(paymaster.address, true);
+		await useSessionCall(paymaster);
+		await useSessionCall(voter);
+		expect(await nicRegistry.sessionCallCount(voter.address, session.address)).to.equal(2);
+		await expect(useSessionCall(paymaster)).to.be.revertedWith("Session call limit reached");
+
+		await nicRegistry.connect(voter).revokeAccessByHash(hashNIC(nic, salt), session.address);
+		await expect(useSessionCall(voter)).to.be.revertedWith("No valid access");
+	});
+
+	it("Should keep the latest session and its targets keyed by the temporary wallet", async function () {
+		const counterAddress = await counter.getAddress();
+		const otherCounterAddress = await otherCounter.getAddress();
+		await createScopedSession([counterAddress], [], 0);
+
+		const [originalWallet, validUntil] = await nicRegistry.temporaryWalletSessions(session.address);
+		expect(originalWallet).to.equal(voter.address);
+		expect(validUntil).to.equal(
+			await nicRegistry.getSessionValidUntil(voter.address, session.address)
+		);
+		expect(await nicRegistry.temporaryWalletTargets(session.address, counterAddress)).to.be.true;
+
+		// A new session replaces the targets of the previous one
+		await createScopedSession([otherCounterAddress], [], 0);
+		expect(await nicRegistry.temporaryWalletTargets(session.address, counterAddress)).to.be.false;
+		expect(await nicRegistry.temporaryWalletTargets(session.address, otherCounterAddress)).to.be
+			.true;
+
+		await nicRegistry.connect(voter).revokeAccessByHash(hashNIC(nic, salt), session.address);
+		const [revokedWallet, revokedUntil] = await nicRegistry.temporaryWalletSessions(
+			session.address
+		);
+		expect(revokedWallet).to.equal(ethers.ZeroAddress);
+		expect(revokedUntil).to.equal(0);
+		expect(await nicRegistry.temporaryWalletTargets(session.address, otherCounterAddress)).to.be
+			.false;
+	});
+});
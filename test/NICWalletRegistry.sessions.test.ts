@@ -0,0 +1,124 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {NICWalletRegistry} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {generateNICHashSalt, hashNIC} from "../utils/nicHash";
+
+describe("NICWalletRegistry Session Enumeration", function () {
+	let nicRegistry: NICWalletRegistry;
+	let systemWallet: SignerWithAddress;
+	let voter: SignerWithAddress;
+	let otherVoter: SignerWithAddress;
+	let kiosks: SignerWithAddress[];
+
+	const salt = generateNICHashSalt();
+	const nicHash = hashNIC("NIC001", salt);
+
+	beforeEach(async function () {
+		[, systemWallet, voter, otherVoter, ...kiosks] = await ethers.getSigners();
+		kiosks = kiosks.slice(0, 3);
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+		await nicRegistry.authorizeSystemWallet(systemWallet.address, true);
+
+		await nicRegistry.registerWalletByHash(nicHash, voter.address);
+		await nicRegistry.registerWalletByHash(hashNIC("NIC002", salt), otherVoter.address);
+		for (const kiosk of kiosks) {
+			await nicRegistry.connect(voter).createSessionByHash(nicHash, kiosk.address, 3600);
+		}
+	});
+
+	async function sessionWallets(wallet: string) {
+		const [temporaryWallets] = await nicRegistry.getSessions(wallet);
+		return [...temporaryWallets].sort();
+	}
+
+	it("Should list every session with its expiry", async function () {
+		// Renewing a session does not list the temporary wallet twice
+		await nicRegistry.connect(voter).createSessionByHash(nicHash, kiosks[0].address, 7200);
+
+		const [temporaryWallets, expiryTimes] = await nicRegistry.getSessions(voter.address);
+		expect(temporaryWallets).to.deep.equal(kiosks.map((kiosk) => kiosk.address));
+		for (let i = 0; i < kiosks.length; i++) {
+			const [expiryTime] = await nicRegistry.getSessionInfo(voter.address, kiosks[i].address);
+			expect(expiryTimes[i]).to.equal(expiryTime);
+		}
+		expect(await sessionWallets(otherVoter.address)).to.be.empty;
+	});
+
+	it("Should drop a revoked session from the list", async function () {
+		await nicRegistry.connect(voter).revokeAccessByHash(nicHash, kiosks[0].address);
+
+		expect(await sessionWallets(voter.address)).to.deep.equal(
+			[kiosks[1].address, kiosks[2].address].sort()
+		);
+
+		// A new session is listed again
+		await nicRegistry.connect(voter).createSessionByHash(nicHash, kiosks[0].address, 3600);
+		expect(await sessionWallets(voter.address)).to.have.lengthOf(3);
+	});
+
+	it("Should revoke all sessions of the caller", async function () {
+		await time.increase(3601);
+
+		const tx = await nicRegistry.connect(voter).revokeAllSessions();
+		for (const kiosk of kiosks) {
+			await expect(tx)
+				.to.emit(nicRegistry, "TemporaryAccessRevoked")
+				.withArgs(nicHash, kiosk.address);
+			expect(await nicRegistry.getSessionValidUntil(voter.address, kiosk.address)).to.equal(0);
+		}
+		expect(await sessionWallets(voter.address)).to.be.empty;
+
+		await expect(
+			nicRegistry.connect(kiosks[0]).revokeAllSessions()
+		).to.be.revertedWith("Wallet not registered");
+	});
+
+	it("Should let a system wallet revoke the session of a lost kiosk", async function () {
+		await nicRegistry
+			.connect(otherVoter)
+			.createSessionByHash(hashNIC("NIC002", salt), kiosks[1].address, 3600);
+
+		for (const wallet of [voter.address, otherVoter.address]) {
+			await nicRegistry
+				.connect(systemWallet)
+				.revokeSessionBySystemWallet(wallet, kiosks[1].address);
+			expect(await nicRegistry.hasValidAccess(wallet, kiosks[1].address)).to.be.false;
+		}
+
+		expect(await sessionWallets(voter.address)).to.deep.equal(
+			[kiosks[0].address, kiosks[2].address].sort()
+		);
+		expect(await sessionWallets(otherVoter.address)).to.be.empty;
+	});
+
+	it("Should let a system wallet revoke all sessions of a wallet", async function () {
+		await nicRegistry.connect(systemWallet).revokeAllSessionsBySystemWallet(voter.address);
+
+		expect(await sessionWallets(voter.address)).to.be.empty;
+		for (const kiosk of kiosks) {
+			expect(await nicRegistry.hasValidAccess(voter.address, kiosk.address)).to.be.false;
+		}
+	});
+
+	it("Should only let authorized system wallets revoke other wallets' sessions", async function () {
+		await expect(
+			nicRegistry.connect(otherVoter).revokeSessionBySystemWallet(voter.address, kiosks[0].address)
+		).to.be.revertedWith("Only authorized system wallet can revoke sessions");
+		await expect(
+			nicRegistry.connect(kiosks[0]).revokeAllSessionsBySystemWallet(voter.address)
+		).to.be.revertedWith("Only authorized system wallet can revoke sessions");
+
+		await nicRegistry.authorizeSystemWallet(systemWallet.address, false);
+		await expect(
+			nicRegistry.connect(systemWallet).revokeAllSessionsBySystemWallet(voter.address)
+		).to.be.revertedWith("Only authorized system wallet can revoke sessions");
+		expect(await sessionWallets(voter.address)).to.have.lengthOf(3);
+	});
+});
@@ -0,0 +1,356 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {ContractTransactionResponse} from "ethers";
+import type {
+	NICPaymaster,
+	NICWalletRegistry,
+	PolygonPaymaster,
+	SimpleCounter,
+} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {
+	ValidityOptions,
+	createMetaTransaction,
+	createPolygonMetaTransaction,
+	createTemporaryWalletTransaction,
+	signPolygonMetaTransaction,
+	toMetaTransactionArgs,
+	toTemporaryWalletTransactionArgs,
+} from "../utils/paymasterSigner";
+import {computeLegacyNICHash} from "../utils/nicHash";
+
+/**
+ * Accounts and contracts shared by every paymaster under test
+ */
+interface Fixture {
+	nicRegistry: NICWalletRegistry;
+	relayer: SignerWithAddress;
+	user: SignerWithAddress;
+	temporaryWallet: SignerWithAddress;
+	other: SignerWithAddress;
+	recipient: SignerWithAddress;
+}
+
+interface Call {
+	target: string;
+	data: string;
+	value?: bigint;
+}
+
+/**
+ * A PaymasterForwarder entry point, as seen by the conformance suite
+ */
+interface ForwarderUnderTest {
+	paymaster: NICPaymaster | PolygonPaymaster;
+	/** Function the relayer calls with the signed request */
+	method: string;
+	/** Event emitted for every executed request (has nonce and success arguments) */
+	executedEvent: string;
+	invalidSignatureReason: string;
+	/** Wallet the calls are made for */
+	wallet: string;
+	getNonce(): Promise<bigint>;
+	/** Let the paymaster call `target` */
+	allowTarget(target: string): Promise<unknown>;
+	/** Sign a call with the request's signer, or with `signer` to forge it */
+	sign(call: Call, options?: ValidityOptions, signer?: SignerWithAddress): Promise<readonly unknown[]>;
+}
+
+async function deployNICPaymaster(fixture: Fixture) {
+	const NICPaymasterFactory = await ethers.getContractFactory("NICPaymaster");
+	const paymaster = await NICPaymasterFactory.deploy(await fixture.nicRegistry.getAddress());
+	await paymaster.waitForDeployment();
+	return paymaster;
+}
+
+/**
+ * NICPaymaster temporary-wallet entry point (both share one implementation)
+ */
+function temporaryWalletForwarder(method: string) {
+	return {
+		name: `NICPaymaster.${method}`,
+		async deploy(fixture: Fixture): Promise<ForwarderUnderTest> {
+			const {nicRegistry, user, temporaryWallet} = fixture;
+			const paymaster = await deployNICPaymaster(fixture);
+			// The paymaster counts the session's calls, so the session must allow each target too
+			await nicRegistry.setTrustedPaymaster(await paymaster.getAddress(), true);
+			const nicHash = computeLegacyNICHash("NIC001", (await ethers.provider.getNetwork()).chainId);
+			const allowedTargets: string[] = [];
+			return {
+				paymaster,
+				method,
+				executedEvent: "TemporaryWalletTransactionExecuted",
+				invalidSignatureReason: "Invalid temporary wallet signature",
+				wallet: user.address,
+				getNonce: () => paymaster.getTempWalletNonce(temporaryWallet.address),
+				async allowTarget(target) {
+					allowedTargets.push(target);
+					await nicRegistry
+						.connect(user)
+						.createScopedSessionByHash(nicHash, temporaryWallet.address, 3600, {
+							allowedTargets,
+							allowedSelectors: [],
+							maxCalls: 0,
+						});
+					return paymaster.setSponsoredTarget(target, true);
+				},
+				async sign(call, options, signer = temporaryWallet) {
+					const {request, signature} = await createTemporaryWalletTransaction(
+						paymaster,
+						signer,
+						{...call, originalWallet: user.address, temporaryWallet: temporaryWallet.address},
+						options
+					);
+					return toTemporaryWalletTransactionArgs(request, signature);
+				},
+			};
+		},
+	};
+}
+
+const forwarders: {name: string; deploy(fixture: Fixture): Promise<ForwarderUnderTest>}[] = [
+	{
+		name: "NICPaymaster.executeMetaTransaction",
+		async deploy(fixture) {
+			const {user} = fixture;
+			const paymaster = await deployNICPaymaster(fixture);
+			return {
+				paymaster,
+				method: "executeMetaTransaction",
+				executedEvent: "MetaTransactionExecuted",
+				invalidSignatureReason: "Invalid signature",
+				wallet: user.address,
+				getNonce: () => paymaster.getNonce(user.address),
+				allowTarget: (target) => paymaster.setSponsoredTarget(target, true),
+				async sign(call, options, signer = user) {
+					const {request, signature} = await createMetaTransaction(
+						paymaster,
+						signer,
+						{...call, user: user.address},
+						options
+					);
+					return toMetaTransactionArgs(request, signature);
+				},
+			};
+		},
+	},
+	temporaryWalletForwarder("executeTemporaryWalletTransaction"),
+	temporaryWalletForwarder("executeGaslessTemporaryTransaction"),
+	{
+		name: "PolygonPaymaster.executeMetaTransaction",
+		async deploy({user}) {
+			const PolygonPaymasterFactory = await ethers.getContractFactory("PolygonPaymaster");
+			const paymaster = await PolygonPaymasterFactory.deploy();
+			await paymaster.waitForDeployment();
+			return {
+				paymaster,
+				method: "executeMetaTransaction",
+				executedEvent: "MetaTransactionExecuted",
+				invalidSignatureReason: "Invalid signature",
+				wallet: user.address,
+				getNonce: () => paymaster.getNonce(user.address),
+				// PolygonPaymaster calls any target
+				allowTarget: async () => undefined,
+				async sign(call, options, signer = user) {
+					const {request} = await createPolygonMetaTransaction(paymaster, user, call, options);
+					const signature = await signPolygonMetaTransaction(
+						signer,
+						await paymaster.getAddress(),
+						request
+					);
+					return toMetaTransactionArgs(request, signature);
+				},
+			};
+		},
+	},
+];
+
+describe("PaymasterForwarder Conformance", function () {
+	for (const {name, deploy} of forwarders) {
+		describe(name, function () {
+			let fixture: Fixture;
+			let forwarder: ForwarderUnderTest;
+			let counter: SimpleCounter;
+
+			beforeEach(async function () {
+				const [, relayer, user, temporaryWallet, other, recipient] = await ethers.getSigners();
+
+				const NICWalletRegistryFactory = await ethers.getContractFactory(
+					"NICWalletRegistry"
+				);
+				const nicRegistry = await NICWalletRegistryFactory.deploy();
+				await nicRegistry.waitForDeployment();
+
+				await nicRegistry.registerWallet("NIC001", user.address);
+
+				fixture = {nicRegistry, relayer, user, temporaryWallet, other, recipient};
+				forwarder = await deploy(fixture);
+
+				// The counter trusts the paymaster as its ERC-2771 forwarder
+				const SimpleCounterFactory = await ethers.getContractFactory("SimpleCounter");
+				counter = await SimpleCounterFactory.deploy(await forwarder.paymaster.getAddress());
+				await counter.waitForDeployment();
+				await forwarder.allowTarget(await counter.getAddress());
+				await forwarder.allowTarget(recipient.address);
+			});
+
+			async function incrementForUser(): Promise<Call> {
+				return {
+					target: await counter.getAddress(),
+					data: counter.interface.encodeFunctionData("incrementForUser", [
+						forwarder.wallet,
+					]),
+				};
+			}
+
+			function execute(args: readonly unknown[]) {
+				return forwarder.paymaster.connect(fixture.relayer).getFunction(forwarder.method)(...args);
+			}
+
+			/**
+			 * Read the executed event of a transaction
+			 */
+			async function executedEvent(tx: ContractTransactionResponse) {
+				const receipt = await tx.wait();
+				const log = receipt?.logs
+					.map((log) => forwarder.paymaster.interface.parseLog(log))
+					.find((parsed) => parsed?.name === forwarder.executedEvent);
+				expect(log, `${forwarder.executedEvent} not emitted`).to.exist;
+				return log!.args;
+			}
+
+			it("Should execute a signed call and advance the nonce", async function () {
+				const event = await executedEvent(
+					await execute(await forwarder.sign(await incrementForUser()))
+				);
+
+				expect(event.nonce).to.equal(0);
+				expect(event.success).to.be.true;
+				expect(await counter.getUserCounter(forwarder.wallet)).to.equal(1);
+				expect(await forwarder.getNonce()).to.equal(1);
+			});
+
+			it("Should make the call as the wallet (ERC-2771)", async function () {
+				await execute(
+					await forwarder.sign({
+						target: await counter.getAddress(),
+						data: counter.interface.encodeFunctionData("increment"),
+					})
+				);
+
+				expect(await counter.getUserCounter(forwarder.wallet)).to.equal(1);
+				expect(await counter.getUserCounter(await forwarder.paymaster.getAddress())).to.equal(0);
+				// Without the forwarder nobody can count for the wallet
+				await expect(
+					counter.connect(fixture.other).incrementForUser(forwarder.wallet)
+				).to.be.revertedWith("Caller is not the user");
+			});
+
+			it("Should not count a call that names another user", async function () {
+				const spoofed = fixture.other.address;
+				for (const data of [
+					counter.interface.encodeFunctionData("incrementForUser", [spoofed]),
+					counter.interface.encodeFunctionData("incrementByForUser", [spoofed, 5]),
+				]) {
+					const event = await executedEvent(
+						await execute(await forwarder.sign({target: await counter.getAddress(), data}))
+					);
+					expect(event.success).to.be.false;
+				}
+
+				expect(await counter.getUserCounter(spoofed)).to.equal(0);
+				expect(await counter.getCounter()).to.equal(0);
+				await expect(
+					counter.connect(fixture.relayer).incrementByForUser(spoofed, 5)
+				).to.be.revertedWith("Caller is not the user");
+			});
+
+			it("Should not replay a request", async function () {
+				const args = await forwarder.sign(await incrementForUser());
+				await execute(args);
+
+				await expect(execute(args)).to.be.revertedWith(forwarder.invalidSignatureReason);
+			});
+
+			it("Should reject a request signed by another account", async function () {
+				const args = await forwarder.sign(await incrementForUser(), {}, fixture.other);
+
+				await expect(execute(args)).to.be.revertedWith(forwarder.invalidSignatureReason);
+				expect(await forwarder.getNonce()).to.equal(0);
+			});
+
+			it("Should only accept a request inside its validity window", async function () {
+				const validAfter = (await time.latest()) + 600;
+				const args = await forwarder.sign(await incrementForUser(), {
+					ttlSeconds: 60,
+					validAfter,
+				});
+
+				await expect(execute(args)).to.be.revertedWith("Signature not yet valid");
+				await time.increaseTo(validAfter + 61);
+				await expect(execute(args)).to.be.revertedWith("Signature expired");
+			});
+
+			it("Should use up the nonce of a request whose call fails", async function () {
+				await forwarder.paymaster.deposit({value: 1});
+				// SimpleCounter is not payable
+				const args = await forwarder.sign({...(await incrementForUser()), value: 1n});
+
+				const event = await executedEvent(await execute(args));
+				expect(event.success).to.be.false;
+				expect(await forwarder.getNonce()).to.equal(1);
+				expect(await counter.getUserCounter(forwarder.wallet)).to.equal(0);
+			});
+
+			it("Should pay the call value from its balance", async function () {
+				const value = ethers.parseEther("0.1");
+				await forwarder.paymaster.deposit({value});
+				const args = await forwarder.sign({
+					target: fixture.recipient.address,
+					data: "0x",
+					value,
+				});
+
+				await expect(execute(args)).to.changeEtherBalances(
+					[forwarder.paymaster, fixture.recipient, fixture.relayer],
+					[-value, value, 0]
+				);
+			});
+
+			it("Should not forward requests while paused", async function () {
+				const args = await forwarder.sign(await incrementForUser());
+				await forwarder.paymaster.pause();
+
+				await expect(execute(args)).to.be.revertedWithCustomError(
+					forwarder.paymaster,
+					"EnforcedPause"
+				);
+				expect(await forwarder.getNonce()).to.equal(0);
+
+				await forwarder.paymaster.unpause();
+				await execute(args);
+				expect(await counter.getUserCounter(forwarder.wallet)).to.equal(1);
+			});
+
+			it("Should let only the treasurer withdraw its funds", async function () {
+				const [owner] = await ethers.getSigners();
+				await expect(forwarder.paymaster.deposit({value: 100}))
+					.to.emit(forwarder.paymaster, "FundsDeposited")
+					.withArgs(owner.address, 100);
+
+				await expect(
+					forwarder.paymaster.connect(fixture.relayer).withdraw(fixture.relayer.address, 100)
+				)
+					.to.be.revertedWithCustomError(forwarder.paymaster, "AccessControlUnauthorizedAccount")
+					.withArgs(fixture.relayer.address, await forwarder.paymaster.TREASURER_ROLE());
+				await expect(
+					forwarder.paymaster.withdraw(fixture.recipient.address, 101)
+				).to.be.revertedWith("Insufficient balance");
+				await expect(
+					forwarder.paymaster.withdraw(fixture.recipient.address, 100)
+				).to.changeEtherBalance(fixture.recipient, 100);
+			});
+		});
+	}
+});
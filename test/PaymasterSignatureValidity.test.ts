@@ -0,0 +1,214 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {
+	NICPaymaster,
+	NICWalletRegistry,
+	PolygonPaymaster,
+	SimpleCounter,
+} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {
+	DEFAULT_SIGNATURE_TTL,
+	createMetaTransaction,
+	createPolygonMetaTransaction,
+	createTemporaryWalletTransaction,
+	getSignatureTTL,
+	getValidityWindow,
+	toMetaTransactionArgs,
+	toTemporaryWalletTransactionArgs,
+} from "../utils/paymasterSigner";
+import {computeLegacyNICHash} from "../utils/nicHash";
+
+describe("Paymaster Signature Validity Windows", function () {
+	let nicPaymaster: NICPaymaster;
+	let polygonPaymaster: PolygonPaymaster;
+	let nicRegistry: NICWalletRegistry;
+	let counter: SimpleCounter;
+	// Counter forwarded to by PolygonPaymaster (each counter trusts one forwarder)
+	let polygonCounter: SimpleCounter;
+	let relayer: SignerWithAddress;
+	let user: SignerWithAddress;
+	let temporaryWallet: SignerWithAddress;
+
+	beforeEach(async function () {
+		[, relayer, user, temporaryWallet] = await ethers.getSigners();
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const NICPaymasterFactory = await ethers.getContractFactory("NICPaymaster");
+		nicPaymaster = await NICPaymasterFactory.deploy(await nicRegistry.getAddress());
+		await nicPaymaster.waitForDeployment();
+
+		const PolygonPaymasterFactory = await ethers.getContractFactory(
+			"PolygonPaymaster"
+		);
+		polygonPaymaster = await PolygonPaymasterFactory.deploy();
+		await polygonPaymaster.waitForDeployment();
+
+		const SimpleCounterFactory = await ethers.getContractFactory("SimpleCounter");
+		counter = await SimpleCounterFactory.deploy(await nicPaymaster.getAddress());
+		await counter.waitForDeployment();
+		polygonCounter = await SimpleCounterFactory.deploy(await polygonPaymaster.getAddress());
+		await polygonCounter.waitForDeployment();
+		await nicPaymaster.setSponsoredTarget(await counter.getAddress(), true);
+
+		// The paymaster counts the session's calls, which may only go to the counter
+		await nicRegistry.setTrustedPaymaster(await nicPaymaster.getAddress(), true);
+		await nicRegistry.registerWallet("NIC001", user.address);
+		await nicRegistry
+			.connect(user)
+			.createScopedSessionByHash(
+				computeLegacyNICHash("NIC001", (await ethers.provider.getNetwork()).chainId),
+				temporaryWallet.address,
+				3600,
+				{allowedTargets: [await counter.getAddress()], allowedSelectors: [], maxCalls: 0}
+			);
+	});
+
+	function incrementForUser() {
+		return counter.interface.encodeFunctionData("incrementForUser", [user.address]);
+	}
+
+	describe("TS helpers", function () {
+		it("Should read the signature TTL from the environment", function () {
+			expect(getSignatureTTL({})).to.equal(DEFAULT_SIGNATURE_TTL);
+			expect(getSignatureTTL({PAYMASTER_SIGNATURE_TTL: "120"})).to.equal(120);
+			expect(() => getSignatureTTL({PAYMASTER_SIGNATURE_TTL: "0"})).to.throw(
+				"PAYMASTER_SIGNATURE_TTL must be a positive number of seconds"
+			);
+		});
+
+		it("Should start the TTL from chain time, or from validAfter if later", async function () {
+			const now = await time.latest();
+
+			expect(await getValidityWindow(ethers.provider, {ttlSeconds: 60})).to.deep.equal({
+				validAfter: 0,
+				validUntil: now + 60,
+			});
+			expect(
+				await getValidityWindow(ethers.provider, {ttlSeconds: 60, validAfter: now + 600})
+			).to.deep.equal({validAfter: now + 600, validUntil: now + 660});
+		});
+	});
+
+	describe("NICPaymaster", function () {
+		it("Should not execute a temporary-wallet request before validAfter", async function () {
+			const validAfter = (await time.latest()) + 600;
+			const {request, signature} = await createTemporaryWalletTransaction(
+				nicPaymaster,
+				temporaryWallet,
+				{
+					originalWallet: user.address,
+					target: await counter.getAddress(),
+					data: incrementForUser(),
+				},
+				{ttlSeconds: 60, validAfter}
+			);
+			const args = toTemporaryWalletTransactionArgs(request, signature);
+
+			await expect(
+				nicPaymaster.connect(relayer).executeGaslessTemporaryTransaction(...args)
+			).to.be.revertedWith("Signature not yet valid");
+
+			await time.increaseTo(validAfter);
+			await nicPaymaster.connect(relayer).executeGaslessTemporaryTransaction(...args);
+			expect(await counter.getUserCounter(user.address)).to.equal(1);
+		});
+
+		it("Should reject a meta-transaction after validUntil", async function () {
+			const {request, signature} = await createMetaTransaction(
+				nicPaymaster,
+				user,
+				{target: await counter.getAddress(), data: incrementForUser()},
+				{ttlSeconds: 60}
+			);
+			await time.increase(61);
+
+			await expect(
+				nicPaymaster
+					.connect(relayer)
+					.executeMetaTransaction(...toMetaTransactionArgs(request, signature))
+			).to.be.revertedWith("Signature expired");
+		});
+
+		it("Should reject a request whose window was changed after signing", async function () {
+			const {request, signature} = await createTemporaryWalletTransaction(
+				nicPaymaster,
+				temporaryWallet,
+				{
+					originalWallet: user.address,
+					target: await counter.getAddress(),
+					data: incrementForUser(),
+				},
+				{ttlSeconds: 60}
+			);
+			const extended = {...request, validUntil: BigInt(request.validUntil) + 3600n};
+
+			await expect(
+				nicPaymaster
+					.connect(relayer)
+					.executeGaslessTemporaryTransaction(
+						...toTemporaryWalletTransactionArgs(extended, signature)
+					)
+			).to.be.revertedWith("Invalid temporary wallet signature");
+		});
+	});
+
+	describe("PolygonPaymaster", function () {
+		it("Should execute a meta-transaction inside its window", async function () {
+			const {request, signature} = await createPolygonMetaTransaction(
+				polygonPaymaster,
+				user,
+				{target: await polygonCounter.getAddress(), data: incrementForUser()}
+			);
+
+			await expect(
+				polygonPaymaster
+					.connect(relayer)
+					.executeMetaTransaction(...toMetaTransactionArgs(request, signature))
+			).to.emit(polygonPaymaster, "MetaTransactionExecuted");
+			expect(await polygonCounter.getUserCounter(user.address)).to.equal(1);
+		});
+
+		it("Should enforce validAfter and validUntil", async function () {
+			const validAfter = (await time.latest()) + 600;
+			const {request, signature} = await createPolygonMetaTransaction(
+				polygonPaymaster,
+				user,
+				{target: await polygonCounter.getAddress(), data: incrementForUser()},
+				{ttlSeconds: 60, validAfter}
+			);
+			const args = toMetaTransactionArgs(request, signature);
+
+			await expect(
+				polygonPaymaster.connect(relayer).executeMetaTransaction(...args)
+			).to.be.revertedWith("Signature not yet valid");
+
+			await time.increaseTo(validAfter + 61);
+			await expect(
+				polygonPaymaster.connect(relayer).executeMetaTransaction(...args)
+			).to.be.revertedWith("Signature expired");
+		});
+
+		it("Should reject a request whose window was changed after signing", async function () {
+			const {request, signature} = await createPolygonMetaTransaction(
+				polygonPaymaster,
+				user,
+				{target: await polygonCounter.getAddress(), data: incrementForUser()},
+				{ttlSeconds: 60}
+			);
+			const extended = {...request, validUntil: BigInt(request.validUntil) + 3600n};
+
+			await expect(
+				polygonPaymaster
+					.connect(relayer)
+					.executeMetaTransaction(...toMetaTransactionArgs(extended, signature))
+			).to.be.revertedWith("Invalid signature");
+		});
+	});
+});
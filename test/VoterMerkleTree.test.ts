@@ -0,0 +1,168 @@
+import {expect} from "chai";
+import {ethers} from "ethers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+	IDENTITY_TREE_HASH_SCHEME,
+	VOTER_TREE_FILE_VERSION,
+	VOTER_TREE_HASH_SCHEME,
+	computeIdentityCommitment,
+	createIdentityMerkleTree,
+	createVoterMerkleTree,
+	diffVoterRolls,
+	generateIdentitySecret,
+	getMerkleProof,
+	loadVoterMerkleTree,
+	saveVoterMerkleTree,
+	serializeVoterMerkleTree,
+	updateVoterMerkleTree,
+	verifyMerkleProof,
+} from "../utils/merkleTree";
+
+describe("Voter Merkle tree files", function () {
+	let workDir: string;
+
+	const electionId = 4;
+	const voters = [
+		"0xabababababababababababababababababababab",
+		"0x2222222222222222222222222222222222222222",
+		"0x3333333333333333333333333333333333333333",
+	];
+
+	beforeEach(function () {
+		workDir = fs.mkdtempSync(path.join(os.tmpdir(), "voter-tree-test-"));
+	});
+
+	afterEach(function () {
+		fs.rmSync(workDir, {recursive: true, force: true});
+	});
+
+	/**
+	 * Check a voter's Merkle proof against a root
+	 */
+	function isVoter(root: Buffer, voter: string, proof: string[]): boolean {
+		const leaf = ethers.solidityPackedKeccak256(["address", "uint256"], [voter, electionId]);
+		return verifyMerkleProof(
+			root,
+			Buffer.from(ethers.getBytes(leaf)),
+			proof.map((hash) => Buffer.from(ethers.getBytes(hash)))
+		);
+	}
+
+	describe("Export and import", function () {
+		it("Should load a saved tree with the same root, leaves and proofs", function () {
+			const {tree} = createVoterMerkleTree(voters, electionId);
+			const filePath = saveVoterMerkleTree(
+				tree,
+				electionId,
+				path.join(workDir, "nested", "election-4.json")
+			);
+
+			const loaded = loadVoterMerkleTree(filePath);
+			expect(loaded.electionId).to.equal(electionId);
+			expect(loaded.hashScheme).to.equal(VOTER_TREE_HASH_SCHEME);
+			expect(loaded.tree.getHexRoot()).to.equal(tree.getHexRoot());
+			expect(loaded.tree.getHexLeaves()).to.deep.equal(tree.getHexLeaves());
+
+			const proof = getMerkleProof(loaded.tree, voters[1], electionId);
+			expect(proof).to.deep.equal(getMerkleProof(tree, voters[1], electionId));
+			expect(isVoter(loaded.root, voters[1], proof)).to.be.true;
+		});
+
+		it("Should keep the hash scheme of an identity tree", function () {
+			const commitments = [generateIdentitySecret(), generateIdentitySecret()].map(
+				computeIdentityCommitment
+			);
+			const {tree} = createIdentityMerkleTree(commitments, electionId);
+			const filePath = saveVoterMerkleTree(
+				tree,
+				electionId,
+				path.join(workDir, "identities.json"),
+				IDENTITY_TREE_HASH_SCHEME
+			);
+
+			const loaded = loadVoterMerkleTree(filePath);
+			expect(loaded.hashScheme).to.equal(IDENTITY_TREE_HASH_SCHEME);
+			expect(loaded.tree.getHexRoot()).to.equal(tree.getHexRoot());
+		});
+
+		it("Should reject an unsupported version or hash scheme", function () {
+			const {tree} = createVoterMerkleTree(voters, electionId);
+			const data = serializeVoterMerkleTree(tree, electionId);
+			const write = (contents: object) => {
+				const filePath = path.join(workDir, "tree.json");
+				fs.writeFileSync(filePath, JSON.stringify(contents));
+				return filePath;
+			};
+
+			expect(() =>
+				loadVoterMerkleTree(write({...data, version: VOTER_TREE_FILE_VERSION + 1}))
+			).to.throw("Unsupported voter tree version");
+			expect(() =>
+				loadVoterMerkleTree(write({...data, hashScheme: "sha256"}))
+			).to.throw("Unsupported voter tree hash scheme");
+		});
+
+		it("Should reject a file whose leaves do not match its root", function () {
+			const {tree} = createVoterMerkleTree(voters, electionId);
+			const data = serializeVoterMerkleTree(tree, electionId);
+			const filePath = path.join(workDir, "tampered.json");
+			fs.writeFileSync(
+				filePath,
+				JSON.stringify({...data, leaves: data.leaves.slice(0, 2)})
+			);
+
+			expect(() => loadVoterMerkleTree(filePath)).to.throw("Voter tree root mismatch");
+		});
+	});
+
+	describe("Voter roll updates", function () {
+		it("Should diff two rolls regardless of address case", function () {
+			const updated = [ethers.getAddress(voters[0]), voters[2], ethers.ZeroAddress];
+
+			expect(diffVoterRolls(voters, updated)).to.deep.equal({
+				added: [ethers.ZeroAddress],
+				removed: [ethers.getAddress(voters[1])],
+			});
+			expect(diffVoterRolls(voters, [...voters].reverse())).to.deep.equal({
+				added: [],
+				removed: [],
+			});
+		});
+
+		it("Should remove voters and append additions without reordering the roll", function () {
+			const late = "0x4444444444444444444444444444444444444444";
+			const {voterAddresses, tree, root} = updateVoterMerkleTree(
+				voters,
+				{added: [late, voters[2]], removed: [voters[0]]},
+				electionId
+			);
+
+			expect(voterAddresses).to.deep.equal(
+				[voters[1], voters[2], late].map((a) => ethers.getAddress(a))
+			);
+			expect(tree.getHexRoot()).to.equal(
+				createVoterMerkleTree(voterAddresses, electionId).tree.getHexRoot()
+			);
+			expect(isVoter(root, late, getMerkleProof(tree, late, electionId))).to.be.true;
+			expect(isVoter(root, voters[0], getMerkleProof(tree, voters[0], electionId))).to.be.false;
+		});
+
+		it("Should not add a voter removed in the same update", function () {
+			const {voterAddresses} = updateVoterMerkleTree(
+				voters,
+				{added: [voters[1]], removed: [voters[1]]},
+				electionId
+			);
+
+			expect(voterAddresses).to.not.include(ethers.getAddress(voters[1]));
+		});
+
+		it("Should refuse to empty the roll", function () {
+			expect(() =>
+				updateVoterMerkleTree(voters, {removed: voters}, electionId)
+			).to.throw("Updated voter roll is empty");
+		});
+	});
+});
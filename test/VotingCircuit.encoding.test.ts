@@ -0,0 +1,181 @@
+import {expect} from "chai";
+import {ethers} from "ethers";
+import type {CompiledCircuit} from "@noir-lang/noir_js";
+import {
+	CIRCUIT_MAX_UINT,
+	SNARK_SCALAR_FIELD,
+	computeIdentityCommitment,
+	computeNullifier,
+	createIdentityMerkleTree,
+	createVoterMerkleTree,
+	generateIdentitySecret,
+	generateVoterSecret,
+	toFieldElement,
+} from "../utils/merkleTree";
+import {
+	buildVoteWitness,
+	compileVotingCircuit,
+	solveVoteWitness,
+	type VoteWitness,
+} from "../utils/zkProver";
+import {
+	computeBallotCommitment,
+	encryptBallot,
+	generateTallyKeyPair,
+} from "../utils/encryptedTally";
+
+/**
+ * Cross-check harness: witnesses are built with the TypeScript helpers (utils/merkleTree.ts,
+ * via buildVoteWitness) and executed against the compiled voting circuit, so any encoding
+ * mismatch fails here.
+ */
+describe("Voting circuit encoding", function () {
+	let circuit: CompiledCircuit;
+
+	const electionId = 7;
+	const voterWallets = [
+		"0x1111111111111111111111111111111111111111",
+		"0x2222222222222222222222222222222222222222",
+		"0x3333333333333333333333333333333333333333",
+		"0x4444444444444444444444444444444444444444",
+		"0x5555555555555555555555555555555555555555",
+	];
+	const {tree} = createVoterMerkleTree(voterWallets, electionId);
+
+	// The circuit only carries the ballot commitment as a public input
+	const commitment = computeBallotCommitment(
+		encryptBallot(1, 3, generateTallyKeyPair().publicKey, {
+			chainId: 31337n,
+			electionContract: ethers.ZeroAddress,
+			electionId,
+			nullifierHash: ethers.ZeroHash,
+		}).ciphertexts
+	);
+
+	function buildWitness(registeredWallet: string): VoteWitness {
+		return buildVoteWitness(
+			{voterSecret: generateVoterSecret(), electionId, registeredWallet, tree},
+			commitment
+		);
+	}
+
+	async function execute(witness: VoteWitness): Promise<Error | undefined> {
+		try {
+			await solveVoteWitness(circuit, witness);
+			return undefined;
+		} catch (error) {
+			return error as Error;
+		}
+	}
+
+	before(async function () {
+		circuit = await compileVotingCircuit();
+	});
+
+	describe("Honest witnesses", function () {
+		it("Should accept witnesses for every voter in the tree", async function () {
+			for (let i = 0; i < voterWallets.length; i++) {
+				const witness = buildWitness(voterWallets[i]);
+				expect(await execute(witness), voterWallets[i]).to.be.undefined;
+			}
+		});
+
+		it("Should accept the largest ballot commitment in the field", async function () {
+			const witness = buildWitness(voterWallets[0]);
+			witness.commitment = ethers.toBeHex(SNARK_SCALAR_FIELD - 1n, 32);
+			expect(await execute(witness)).to.be.undefined;
+		});
+
+		it("Should refuse to hash values the circuit cannot represent", function () {
+			const voterSecret = generateVoterSecret();
+			expect(() => computeNullifier(voterSecret, CIRCUIT_MAX_UINT + 1)).to.throw(
+				"electionId must be an integer"
+			);
+			expect(() => computeNullifier(voterSecret, -1)).to.throw(
+				"electionId must be an integer"
+			);
+		});
+	});
+
+	describe("Encoding mismatches", function () {
+		it("Should reject a nullifier packed with a 4-byte election ID", async function () {
+			const witness = buildWitness(voterWallets[0]);
+			witness.nullifierHash = toFieldElement(
+				ethers.keccak256(
+					ethers.solidityPacked(
+						["bytes32", "uint32"],
+						[witness.voterSecret, electionId]
+					)
+				)
+			);
+
+			const error = await execute(witness);
+			expect(error?.message).to.contain("Invalid nullifier");
+		});
+
+		it("Should reject a wallet that is not in the voter tree", async function () {
+			const witness = buildWitness(voterWallets[0]);
+			witness.registeredWallet = "0x6666666666666666666666666666666666666666";
+
+			const error = await execute(witness);
+			expect(error?.message).to.contain("Voter not in Merkle tree");
+		});
+	});
+
+	describe("Identity commitments", function () {
+		const identitySecrets = [0, 1, 2].map(() => generateIdentitySecret());
+		const identityTree = createIdentityMerkleTree(
+			identitySecrets.map(computeIdentityCommitment),
+			electionId
+		).tree;
+
+		function buildIdentityWitness(identitySecret: string): VoteWitness {
+			return buildVoteWitness({identitySecret, electionId, tree: identityTree}, commitment);
+		}
+
+		it("Should accept witnesses for every identity in the tree", async function () {
+			for (const identitySecret of identitySecrets) {
+				const witness = buildIdentityWitness(identitySecret);
+				expect(witness.nullifierHash).to.equal(
+					computeNullifier(identitySecret, electionId)
+				);
+				expect(await execute(witness)).to.be.undefined;
+			}
+		});
+
+		it("Should reject a nullifier from another secret", async function () {
+			const witness = buildIdentityWitness(identitySecrets[0]);
+			witness.voterSecret = identitySecrets[1];
+
+			const error = await execute(witness);
+			expect(error?.message).to.contain("Invalid nullifier");
+		});
+
+		it("Should reject a secret whose commitment is not in the tree", async function () {
+			const witness = buildIdentityWitness(identitySecrets[0]);
+			const outsider = generateIdentitySecret();
+			witness.voterSecret = outsider;
+			witness.nullifierHash = computeNullifier(outsider, electionId);
+
+			const error = await execute(witness);
+			expect(error?.message).to.contain("Voter not in Merkle tree");
+		});
+
+		it("Should not accept a wallet leaf against an identity root", async function () {
+			const witness = buildIdentityWitness(identitySecrets[0]);
+			witness.identityMode = false;
+			witness.registeredWallet = voterWallets[0];
+
+			const error = await execute(witness);
+			expect(error?.message).to.contain("Voter not in Merkle tree");
+		});
+
+		it("Should not accept an identity leaf against a wallet root", async function () {
+			const witness = buildWitness(voterWallets[0]);
+			witness.identityMode = true;
+
+			const error = await execute(witness);
+			expect(error?.message).to.contain("Voter not in Merkle tree");
+		});
+	});
+});
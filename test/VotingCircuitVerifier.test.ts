@@ -0,0 +1,199 @@
+import {expect} from "chai";
+import hre, {ethers} from "hardhat";
+import type {IVerifier, NICWalletRegistry, ZK_ElectionContract} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {createVoterMerkleTree, generateVoterSecret} from "../utils/merkleTree";
+import {
+	compileVotingCircuit,
+	generateVoteProof,
+	type CastVoteCalldata,
+} from "../utils/zkProver";
+import {encryptBallot, generateTallyKeyPair} from "../utils/encryptedTally";
+
+describe("UltraVerifier (voting circuit)", function () {
+	// Proving the voting circuit in wasm takes minutes
+	this.timeout(15 * 60 * 1000);
+
+	let verifier: IVerifier;
+	let zkElection: ZK_ElectionContract;
+	let nicRegistry: NICWalletRegistry;
+	let voters: SignerWithAddress[];
+	let calldata: CastVoteCalldata;
+	let chainId: bigint;
+
+	const electionId = 0;
+	const voterNICs = ["NIC001", "NIC002"];
+	const candidates = [
+		{name: "Candidate A", nic: "CA001", party: "Party Alpha", voteCount: 0},
+		{name: "Candidate B", nic: "CB002", party: "Party Beta", voteCount: 0},
+	];
+	const tallyKeys = generateTallyKeyPair();
+
+	before(async function () {
+		// VotingCircuitVerifier.sol is generated by the native bb CLI, which is not an npm dependency
+		if (!(await hre.artifacts.artifactExists("UltraVerifier"))) {
+			console.log(
+				"    UltraVerifier not generated, skipping: run nargo compile in circuits/voting-circuit, then npm run generate:verifier"
+			);
+			this.skip();
+		}
+		const [, ...signers] = await ethers.getSigners();
+		voters = signers.slice(0, voterNICs.length);
+		chainId = (await ethers.provider.getNetwork()).chainId;
+
+		const UltraVerifierFactory = await ethers.getContractFactory("UltraVerifier");
+		const ultraVerifier = await UltraVerifierFactory.deploy();
+		await ultraVerifier.waitForDeployment();
+		verifier = await ethers.getContractAt("IVerifier", await ultraVerifier.getAddress());
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const ZKElectionFactory = await ethers.getContractFactory("ZK_ElectionContract");
+		zkElection = await ZKElectionFactory.deploy(
+			await verifier.getAddress(),
+			await nicRegistry.getAddress(),
+			ethers.ZeroAddress
+		);
+		await zkElection.waitForDeployment();
+
+		for (let i = 0; i < voters.length; i++) {
+			await nicRegistry.registerWallet(voterNICs[i], voters[i].address);
+		}
+		const {tree, root} = createVoterMerkleTree(
+			voters.map((v) => v.address),
+			electionId
+		);
+		const now = await time.latest();
+		await zkElection.createElection(
+			"Verified Election",
+			"Election whose votes carry real voting circuit proofs",
+			now + 10,
+			now + 86400,
+			candidates,
+			root,
+			tallyKeys.publicKey
+		);
+		await time.increase(20);
+
+		// Real proof for the first voter, made with the circuit the verifier was generated from
+		calldata = await generateVoteProof(
+			{
+				voterSecret: generateVoterSecret(),
+				electionId,
+				candidateIndex: 1,
+				candidateCount: candidates.length,
+				registeredWallet: voters[0].address,
+				tree,
+				tallyPublicKey: tallyKeys.publicKey,
+				chainId,
+				electionContract: await zkElection.getAddress(),
+			},
+			await compileVotingCircuit()
+		);
+	});
+
+	/**
+	 * Check the verifier rejects a proof (it reverts on most forgeries)
+	 */
+	async function expectRejected(proof: string, publicInputs: string[]) {
+		let accepted = false;
+		try {
+			accepted = await verifier.verify(proof, publicInputs);
+		} catch {
+			// Reverting counts as rejected
+		}
+		expect(accepted).to.be.false;
+	}
+
+	it("Should accept a proof of the voting circuit for the election's public inputs", async function () {
+		const publicInputs = await zkElection.getPublicInputs(
+			electionId,
+			calldata.commitment,
+			calldata.nullifierHash
+		);
+
+		expect(calldata.publicInputs).to.deep.equal(publicInputs);
+		expect(await verifier.verify(calldata.proof, publicInputs)).to.be.true;
+	});
+
+	it("Should reject forged proofs", async function () {
+		const proofLength = ethers.dataLength(calldata.proof);
+
+		await expectRejected(ethers.hexlify(new Uint8Array(proofLength)), calldata.publicInputs);
+		await expectRejected(ethers.hexlify(ethers.randomBytes(proofLength)), calldata.publicInputs);
+
+		// Flip one byte of the real proof
+		const tampered = ethers.getBytes(calldata.proof);
+		tampered[proofLength - 1] ^= 1;
+		await expectRejected(ethers.hexlify(tampered), calldata.publicInputs);
+	});
+
+	it("Should reject the proof for other public inputs", async function () {
+		const otherCommitment = [...calldata.publicInputs];
+		otherCommitment[1] = ethers.zeroPadValue("0x01", 32);
+		await expectRejected(calldata.proof, otherCommitment);
+
+		const otherElection = [...calldata.publicInputs];
+		otherElection[3] = ethers.zeroPadValue("0x01", 32);
+		await expectRejected(calldata.proof, otherElection);
+
+		await expectRejected(calldata.proof, calldata.publicInputs.slice(0, 3));
+	});
+
+	it("Should only count the vote the proof was made for", async function () {
+		// The same proof cannot carry another voter's nullifier
+		await expect(
+			zkElection
+				.connect(voters[0])
+				.castVote(
+					electionId,
+					voterNICs[0],
+					1n,
+					calldata.ballot,
+					calldata.merkleProof,
+					calldata.proof
+				)
+		).to.be.reverted;
+
+		// Nor another ballot, even a valid one for the same voter
+		const otherBallot = encryptBallot(0, candidates.length, tallyKeys.publicKey, {
+			chainId,
+			electionContract: await zkElection.getAddress(),
+			electionId,
+			nullifierHash: calldata.nullifierHash,
+		});
+		await expect(
+			zkElection
+				.connect(voters[0])
+				.castVote(
+					electionId,
+					voterNICs[0],
+					calldata.nullifierHash,
+					otherBallot,
+					calldata.merkleProof,
+					calldata.proof
+				)
+		).to.be.reverted;
+
+		await expect(
+			zkElection
+				.connect(voters[0])
+				.castVote(
+					electionId,
+					voterNICs[0],
+					calldata.nullifierHash,
+					calldata.ballot,
+					calldata.merkleProof,
+					calldata.proof
+				)
+		)
+			.to.emit(zkElection, "VoteCast")
+			.withArgs(electionId, calldata.commitment, calldata.nullifierHash);
+		expect(await zkElection.getTotalVotes(electionId)).to.equal(1);
+	});
+});
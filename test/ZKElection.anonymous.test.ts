@@ -0,0 +1,225 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {MockVerifier, NICWalletRegistry, ZK_ElectionContract} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {
+	computeIdentityCommitment,
+	computeNullifier,
+	createIdentityMerkleTree,
+	createVoterMerkleTree,
+	generateIdentitySecret,
+	getMerkleProof,
+} from "../utils/merkleTree";
+import {
+	computeBallotCommitment,
+	encryptBallot,
+	generateTallyKeyPair,
+} from "../utils/encryptedTally";
+
+describe("ZK Election Anonymous Eligibility", function () {
+	let zkElection: ZK_ElectionContract;
+	let nicRegistry: NICWalletRegistry;
+	let verifier: MockVerifier;
+	let owner: SignerWithAddress;
+	let relayer: SignerWithAddress;
+	let voters: SignerWithAddress[];
+	let chainId: bigint;
+	let electionContract: string;
+
+	const voterNICs = ["NIC001", "NIC002", "NIC003"];
+	const identitySecrets = voterNICs.map(() => generateIdentitySecret());
+	const identityCommitments = identitySecrets.map(computeIdentityCommitment);
+	const tallyKeys = generateTallyKeyPair();
+
+	// Placeholder UltraPlonk proof: MockVerifier does not check it
+	const proof = ethers.hexlify(ethers.randomBytes(2144));
+
+	function anonymousVote(electionId: number, voterIndex: number) {
+		const nullifierHash = computeNullifier(identitySecrets[voterIndex], electionId);
+		const ballot = encryptBallot(0, 2, tallyKeys.publicKey, {
+			chainId,
+			electionContract,
+			electionId,
+			nullifierHash,
+		});
+		return [electionId, nullifierHash, ballot, proof] as const;
+	}
+
+	before(async function () {
+		[owner, relayer, ...voters] = await ethers.getSigners();
+		voters = voters.slice(0, voterNICs.length);
+		chainId = (await ethers.provider.getNetwork()).chainId;
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const MockVerifierFactory = await ethers.getContractFactory(
+			"MockVerifier"
+		);
+		verifier = await MockVerifierFactory.deploy();
+		await verifier.waitForDeployment();
+
+		const ZKElectionFactory = await ethers.getContractFactory(
+			"ZK_ElectionContract"
+		);
+		zkElection = await ZKElectionFactory.deploy(
+			await verifier.getAddress(),
+			await nicRegistry.getAddress(),
+			ethers.ZeroAddress
+		);
+		await zkElection.waitForDeployment();
+		electionContract = await zkElection.getAddress();
+
+		for (let i = 0; i < voters.length; i++) {
+			await nicRegistry.registerWallet(voterNICs[i], voters[i].address);
+		}
+	});
+
+	describe("Identity commitment registration", function () {
+		it("Should register the caller's identity commitment", async function () {
+			await expect(
+				nicRegistry.connect(voters[0]).registerIdentityCommitment(identityCommitments[0])
+			)
+				.to.emit(nicRegistry, "IdentityCommitmentRegistered")
+				.withArgs(voters[0].address, identityCommitments[0], 0);
+
+			expect(await nicRegistry.identityCommitmentOf(voters[0].address)).to.equal(
+				identityCommitments[0]
+			);
+		});
+
+		it("Should only accept commitments from registered wallets", async function () {
+			await expect(
+				nicRegistry.connect(relayer).registerIdentityCommitment(identityCommitments[1])
+			).to.be.revertedWith("Wallet not registered");
+		});
+
+		it("Should allow one commitment per wallet and one wallet per commitment", async function () {
+			await expect(
+				nicRegistry.connect(voters[0]).registerIdentityCommitment(identityCommitments[1])
+			).to.be.revertedWith("Identity commitment already registered");
+			await expect(
+				nicRegistry.connect(voters[1]).registerIdentityCommitment(identityCommitments[0])
+			).to.be.revertedWith("Identity commitment already in use");
+		});
+
+		it("Should leave deactivated wallets out of the active commitments", async function () {
+			await nicRegistry.connect(voters[1]).registerIdentityCommitment(identityCommitments[1]);
+			await nicRegistry.connect(voters[2]).registerIdentityCommitment(identityCommitments[2]);
+
+			await nicRegistry.deactivateWallet(voterNICs[2]);
+			expect(await nicRegistry.getActiveIdentityCommitments()).to.deep.equal(
+				identityCommitments.slice(0, 2)
+			);
+
+			await nicRegistry.reactivateWallet(voterNICs[2]);
+			expect(await nicRegistry.getActiveIdentityCommitments()).to.deep.equal(
+				identityCommitments
+			);
+		});
+	});
+
+	describe("Anonymous voting", function () {
+		const anonymousElectionId = 0;
+		const walletElectionId = 1;
+
+		before(async function () {
+			const candidates = [
+				{name: "Candidate A", nic: "CA001", party: "Party Alpha", voteCount: 0},
+				{name: "Candidate B", nic: "CB002", party: "Party Beta", voteCount: 0},
+			];
+			const now = await time.latest();
+
+			const {root: identityRoot} = createIdentityMerkleTree(
+				[...(await nicRegistry.getActiveIdentityCommitments())],
+				anonymousElectionId
+			);
+			await zkElection.createAnonymousElection(
+				"Anonymous Election",
+				"Election with identity-commitment eligibility",
+				now + 10,
+				now + 86400,
+				candidates,
+				identityRoot,
+				tallyKeys.publicKey
+			);
+
+			const {root: walletRoot} = createVoterMerkleTree(
+				voters.map((v) => v.address),
+				walletElectionId
+			);
+			await zkElection.createElection(
+				"Wallet Election",
+				"Election with registered-wallet eligibility",
+				now + 10,
+				now + 86400,
+				candidates,
+				walletRoot,
+				tallyKeys.publicKey
+			);
+			await time.increase(20);
+		});
+
+		it("Should accept a vote relayed without the voter's NIC or wallet", async function () {
+			const args = anonymousVote(anonymousElectionId, 0);
+			const tx = await zkElection.connect(relayer).castAnonymousVote(...args);
+
+			await expect(tx)
+				.to.emit(zkElection, "VoteCast")
+				.withArgs(anonymousElectionId, computeBallotCommitment(args[2].ciphertexts), args[1]);
+			expect(tx.data.toLowerCase()).to.not.contain(
+				voters[0].address.slice(2).toLowerCase()
+			);
+			expect(await zkElection.getTotalVotes(anonymousElectionId)).to.equal(1);
+		});
+
+		it("Should reject a second vote with the same nullifier", async function () {
+			await expect(
+				zkElection.connect(relayer).castAnonymousVote(...anonymousVote(anonymousElectionId, 0))
+			).to.be.revertedWith("Vote already cast (nullifier used)");
+		});
+
+		it("Should reject a vote whose proof the verifier rejects", async function () {
+			await verifier.setResult(false);
+			await expect(
+				zkElection.connect(relayer).castAnonymousVote(...anonymousVote(anonymousElectionId, 1))
+			).to.be.revertedWith("Invalid ZK proof");
+			await verifier.setResult(true);
+		});
+
+		it("Should not accept wallet votes in an anonymous election", async function () {
+			const {tree} = createVoterMerkleTree([voters[1].address], anonymousElectionId);
+			const [, nullifierHash, ballot] = anonymousVote(anonymousElectionId, 1);
+
+			await expect(
+				zkElection
+					.connect(voters[1])
+					.castVote(
+						anonymousElectionId,
+						voterNICs[1],
+						nullifierHash,
+						ballot,
+						getMerkleProof(tree, voters[1].address, anonymousElectionId),
+						proof
+					)
+			).to.be.revertedWith("Election requires anonymous votes");
+		});
+
+		it("Should not accept anonymous votes in a wallet election", async function () {
+			await expect(
+				zkElection.connect(relayer).castAnonymousVote(...anonymousVote(walletElectionId, 1))
+			).to.be.revertedWith("Election does not accept anonymous votes");
+		});
+
+		it("Should report the election's eligibility mode", async function () {
+			expect((await zkElection.elections(anonymousElectionId)).anonymousEligibility).to.be
+				.true;
+			expect((await zkElection.elections(walletElectionId)).anonymousEligibility).to.be
+				.false;
+		});
+	});
+});
@@ -0,0 +1,208 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {NICPaymaster, NICWalletRegistry, ZK_ElectionContract} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {
+	computeNullifier,
+	createVoterMerkleTree,
+	generateVoterSecret,
+	getMerkleProof,
+} from "../utils/merkleTree";
+import {encryptBallot, generateTallyKeyPair} from "../utils/encryptedTally";
+import {generateNICHashSalt, hashNIC} from "../utils/nicHash";
+import {createMetaTransaction, toMetaTransactionArgs} from "../utils/paymasterSigner";
+
+describe("ZK_ElectionContract ERC-2771 Forwarding", function () {
+	let zkElection: ZK_ElectionContract;
+	let nicPaymaster: NICPaymaster;
+	let nicRegistry: NICWalletRegistry;
+	let relayer: SignerWithAddress;
+	let voters: SignerWithAddress[];
+	let sessions: SignerWithAddress[];
+	let chainId: bigint;
+	let electionContract: string;
+
+	const electionId = 0;
+	const nics = ["NIC001", "NIC002"];
+	const salt = generateNICHashSalt();
+
+	// Placeholder UltraPlonk proof: MockVerifier does not check it
+	const proof = ethers.hexlify(ethers.randomBytes(2144));
+	const tallyKeys = generateTallyKeyPair();
+
+	beforeEach(async function () {
+		const signers = await ethers.getSigners();
+		relayer = signers[1];
+		voters = signers.slice(2, 4);
+		sessions = signers.slice(4, 6);
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const NICPaymasterFactory = await ethers.getContractFactory("NICPaymaster");
+		nicPaymaster = await NICPaymasterFactory.deploy(await nicRegistry.getAddress());
+		await nicPaymaster.waitForDeployment();
+
+		const MockVerifierFactory = await ethers.getContractFactory("MockVerifier");
+		const verifier = await MockVerifierFactory.deploy();
+		await verifier.waitForDeployment();
+
+		const ZKElectionFactory = await ethers.getContractFactory("ZK_ElectionContract");
+		zkElection = await ZKElectionFactory.deploy(
+			await verifier.getAddress(),
+			await nicRegistry.getAddress(),
+			await nicPaymaster.getAddress()
+		);
+		await zkElection.waitForDeployment();
+		chainId = (await ethers.provider.getNetwork()).chainId;
+		electionContract = await zkElection.getAddress();
+		await nicPaymaster.setSponsoredTarget(await zkElection.getAddress(), true);
+
+		for (let i = 0; i < voters.length; i++) {
+			await nicRegistry.registerWalletByHash(hashNIC(nics[i], salt), voters[i].address);
+			await nicRegistry
+				.connect(voters[i])
+				.createSessionByHash(hashNIC(nics[i], salt), sessions[i].address, 3600);
+		}
+
+		const {root} = createVoterMerkleTree(
+			voters.map((voter) => voter.address),
+			electionId
+		);
+		const now = await time.latest();
+		await zkElection.createElection(
+			"Forwarded Election",
+			"Election voted through NICPaymaster",
+			now + 10,
+			now + 86400,
+			[
+				{name: "Candidate A", nic: "CA001", party: "Party Alpha", voteCount: 0},
+				{name: "Candidate B", nic: "CB002", party: "Party Beta", voteCount: 0},
+			],
+			root,
+			tallyKeys.publicKey
+		);
+		await time.increase(20);
+	});
+
+	/**
+	 * Nullifier, ballot and Merkle proof of voter i
+	 */
+	function voteArgs(i: number) {
+		const {tree} = createVoterMerkleTree(
+			voters.map((voter) => voter.address),
+			electionId
+		);
+		const nullifierHash = computeNullifier(generateVoterSecret(), electionId);
+		return [
+			nullifierHash,
+			encryptBallot(1, 2, tallyKeys.publicKey, {chainId, electionContract, electionId, nullifierHash}),
+			getMerkleProof(tree, voters[i].address, electionId),
+			proof,
+		] as const;
+	}
+
+	/**
+	 * castVoteWithNICHash call data claiming voter i and its session wallet
+	 */
+	function sessionVoteData(i: number) {
+		return zkElection.interface.encodeFunctionData("castVoteWithNICHash", [
+			electionId,
+			hashNIC(nics[i], salt),
+			voters[i].address,
+			sessions[i].address,
+			...voteArgs(i),
+		]);
+	}
+
+	/**
+	 * Relay a vote signed by the session wallet of voter `signer`, as its own meta-transaction
+	 */
+	async function relaySessionVote(signer: number, data: string, paymaster = nicPaymaster) {
+		const {request, signature} = await createMetaTransaction(paymaster, sessions[signer], {
+			target: await zkElection.getAddress(),
+			data,
+		});
+		const args = toMetaTransactionArgs(request, signature);
+		const [success, returnData] = await paymaster
+			.connect(relayer)
+			.executeMetaTransaction.staticCall(...args);
+		const tx = await paymaster.connect(relayer).executeMetaTransaction(...args);
+		return {tx, success, returnData};
+	}
+
+	/**
+	 * Decode the Error(string) revert reason of a forwarded call
+	 */
+	function revertReason(returnData: string) {
+		return ethers.AbiCoder.defaultAbiCoder().decode(
+			["string"],
+			ethers.dataSlice(returnData, 4)
+		)[0];
+	}
+
+	it("Should accept a session vote relayed by the trusted forwarder", async function () {
+		const {tx, success} = await relaySessionVote(0, sessionVoteData(0));
+
+		expect(success).to.be.true;
+		await expect(tx).to.emit(zkElection, "VoteCast");
+		expect(await zkElection.getTotalVotes(electionId)).to.equal(1);
+	});
+
+	it("Should not let a session wallet vote for another registered wallet", async function () {
+		// Voter 1's wallet and session are valid, but the request is signed by voter 0's session
+		const {success, returnData} = await relaySessionVote(0, sessionVoteData(1));
+
+		expect(success).to.be.false;
+		expect(revertReason(returnData)).to.equal("Caller is not the session wallet");
+		expect(await zkElection.getTotalVotes(electionId)).to.equal(0);
+	});
+
+	it("Should accept session votes relayed by a paymaster trusted in the registry", async function () {
+		const NICPaymasterFactory = await ethers.getContractFactory("NICPaymaster");
+		const otherPaymaster = await NICPaymasterFactory.deploy(await nicRegistry.getAddress());
+		await otherPaymaster.setSponsoredTarget(await zkElection.getAddress(), true);
+
+		// Until the registry trusts it, the vote is attributed to the paymaster itself
+		const untrusted = await relaySessionVote(0, sessionVoteData(0), otherPaymaster);
+		expect(untrusted.success).to.be.false;
+		expect(revertReason(untrusted.returnData)).to.equal("Caller is not the session wallet");
+
+		await expect(nicRegistry.setTrustedPaymaster(await otherPaymaster.getAddress(), true))
+			.to.emit(nicRegistry, "TrustedPaymasterUpdated")
+			.withArgs(await otherPaymaster.getAddress(), true);
+		expect(await zkElection.isTrustedForwarder(await otherPaymaster.getAddress())).to.be.true;
+
+		const {tx, success} = await relaySessionVote(0, sessionVoteData(0), otherPaymaster);
+		expect(success).to.be.true;
+		await expect(tx).to.emit(zkElection, "VoteCast");
+	});
+
+	it("Should only let the registry admin trust paymasters", async function () {
+		await expect(
+			nicRegistry.connect(relayer).setTrustedPaymaster(relayer.address, true)
+		).to.be.revertedWithCustomError(nicRegistry, "AccessControlUnauthorizedAccount");
+		expect(await zkElection.isTrustedForwarder(relayer.address)).to.be.false;
+	});
+
+	it("Should accept a registered wallet's own vote relayed by the trusted forwarder", async function () {
+		const {request, signature} = await createMetaTransaction(nicPaymaster, voters[1], {
+			target: await zkElection.getAddress(),
+			data: zkElection.interface.encodeFunctionData("castVoteByNICHash", [
+				electionId,
+				hashNIC(nics[1], salt),
+				...voteArgs(1),
+			]),
+		});
+
+		await expect(
+			nicPaymaster
+				.connect(relayer)
+				.executeMetaTransaction(...toMetaTransactionArgs(request, signature))
+		).to.emit(zkElection, "VoteCast");
+	});
+});
@@ -0,0 +1,247 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {NICPaymaster, NICWalletRegistry, ZK_ElectionContract} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {
+	computeNullifier,
+	createVoterMerkleTree,
+	generateVoterSecret,
+	getMerkleProof,
+} from "../utils/merkleTree";
+import {encryptBallot, generateTallyKeyPair} from "../utils/encryptedTally";
+import {generateNICHashSalt, hashNIC} from "../utils/nicHash";
+import {
+	createMetaTransaction,
+	createPolygonMetaTransaction,
+	createTemporaryWalletTransaction,
+	toMetaTransactionArgs,
+	toTemporaryWalletTransactionArgs,
+} from "../utils/paymasterSigner";
+
+const NOT_SESSION_WALLET = "Caller is not the session wallet";
+
+describe("ZK_ElectionContract Session Vote Callers", function () {
+	let zkElection: ZK_ElectionContract;
+	let nicPaymaster: NICPaymaster;
+	let nicRegistry: NICWalletRegistry;
+	let relayer: SignerWithAddress;
+	let voter: SignerWithAddress;
+	let session: SignerWithAddress;
+	let plaintextVoter: SignerWithAddress;
+	let plaintextSession: SignerWithAddress;
+	let chainId: bigint;
+	let electionContract: string;
+
+	const electionId = 0;
+	const nic = "NIC001";
+	const plaintextNic = "NIC002";
+	const salt = generateNICHashSalt();
+
+	// Placeholder UltraPlonk proof: MockVerifier does not check it
+	const proof = ethers.hexlify(ethers.randomBytes(2144));
+	const tallyKeys = generateTallyKeyPair();
+
+	beforeEach(async function () {
+		[, relayer, voter, session, plaintextVoter, plaintextSession] = await ethers.getSigners();
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const NICPaymasterFactory = await ethers.getContractFactory("NICPaymaster");
+		nicPaymaster = await NICPaymasterFactory.deploy(await nicRegistry.getAddress());
+		await nicPaymaster.waitForDeployment();
+
+		const MockVerifierFactory = await ethers.getContractFactory("MockVerifier");
+		const verifier = await MockVerifierFactory.deploy();
+		await verifier.waitForDeployment();
+
+		const ZKElectionFactory = await ethers.getContractFactory("ZK_ElectionContract");
+		zkElection = await ZKElectionFactory.deploy(
+			await verifier.getAddress(),
+			await nicRegistry.getAddress(),
+			await nicPaymaster.getAddress()
+		);
+		await zkElection.waitForDeployment();
+		chainId = (await ethers.provider.getNetwork()).chainId;
+		electionContract = await zkElection.getAddress();
+		await nicPaymaster.setSponsoredTarget(await zkElection.getAddress(), true);
+
+		// This session may also call the election through NICPaymaster temporary-wallet requests;
+		// the plaintext session below has no call permissions, which still lets it vote
+		await nicRegistry.setTrustedPaymaster(await nicPaymaster.getAddress(), true);
+		await nicRegistry.registerWalletByHash(hashNIC(nic, salt), voter.address);
+		await nicRegistry
+			.connect(voter)
+			.createScopedSessionByHash(hashNIC(nic, salt), session.address, 3600, {
+				allowedTargets: [electionContract],
+				allowedSelectors: [],
+				maxCalls: 0,
+			});
+		await nicRegistry.registerWallet(plaintextNic, plaintextVoter.address);
+		await nicRegistry
+			.connect(plaintextVoter)
+			.createSession(plaintextNic, plaintextSession.address, 3600);
+
+		const {root} = createVoterMerkleTree(
+			[voter.address, plaintextVoter.address],
+			electionId
+		);
+		const now = await time.latest();
+		await zkElection.createElection(
+			"Session Election",
+			"Election voted through session wallets",
+			now + 10,
+			now + 86400,
+			[
+				{name: "Candidate A", nic: "CA001", party: "Party Alpha", voteCount: 0},
+				{name: "Candidate B", nic: "CB002", party: "Party Beta", voteCount: 0},
+			],
+			root,
+			tallyKeys.publicKey
+		);
+		await time.increase(20);
+	});
+
+	/**
+	 * Nullifier, ballot, Merkle proof and proof points of a registered wallet's vote
+	 */
+	function voteArgs(wallet: string) {
+		const {tree} = createVoterMerkleTree(
+			[voter.address, plaintextVoter.address],
+			electionId
+		);
+		const nullifierHash = computeNullifier(generateVoterSecret(), electionId);
+		return [
+			nullifierHash,
+			encryptBallot(1, 2, tallyKeys.publicKey, {chainId, electionContract, electionId, nullifierHash}),
+			getMerkleProof(tree, wallet, electionId),
+			proof,
+		] as const;
+	}
+
+	function castVoteWithNICHash(caller: SignerWithAddress) {
+		return zkElection
+			.connect(caller)
+			.castVoteWithNICHash(
+				electionId,
+				hashNIC(nic, salt),
+				voter.address,
+				session.address,
+				...voteArgs(voter.address)
+			);
+	}
+
+	/**
+	 * castVoteWithNICHash call data claiming the voter and its session wallet
+	 */
+	function sessionVoteData() {
+		return zkElection.interface.encodeFunctionData("castVoteWithNICHash", [
+			electionId,
+			hashNIC(nic, salt),
+			voter.address,
+			session.address,
+			...voteArgs(voter.address),
+		]);
+	}
+
+	/**
+	 * Relay a vote as a meta-transaction signed by `signer` through NICPaymaster, the election's
+	 * trusted forwarder
+	 * @returns Whether the vote call succeeded, and its return data
+	 */
+	async function relayVote(signer: SignerWithAddress) {
+		const {request, signature} = await createMetaTransaction(nicPaymaster, signer, {
+			target: await zkElection.getAddress(),
+			data: sessionVoteData(),
+		});
+		const args = toMetaTransactionArgs(request, signature);
+		const [success, returnData] = await nicPaymaster
+			.connect(relayer)
+			.executeMetaTransaction.staticCall(...args);
+		const tx = await nicPaymaster.connect(relayer).executeMetaTransaction(...args);
+		return {tx, success, returnData};
+	}
+
+	/**
+	 * Decode the Error(string) revert reason of a forwarded call
+	 */
+	function revertReason(returnData: string) {
+		return ethers.AbiCoder.defaultAbiCoder().decode(
+			["string"],
+			ethers.dataSlice(returnData, 4)
+		)[0];
+	}
+
+	it("Should accept a vote sent by the session wallet itself", async function () {
+		await expect(castVoteWithNICHash(session)).to.emit(zkElection, "VoteCast");
+	});
+
+	it("Should reject a vote submitted by a third party", async function () {
+		await expect(castVoteWithNICHash(relayer)).to.be.revertedWith(NOT_SESSION_WALLET);
+		// The registered wallet itself votes with castVoteByNICHash, not as its session
+		await expect(castVoteWithNICHash(voter)).to.be.revertedWith(NOT_SESSION_WALLET);
+
+		await expect(
+			zkElection
+				.connect(relayer)
+				.castVoteWithNIC(
+					electionId,
+					plaintextNic,
+					plaintextVoter.address,
+					plaintextSession.address,
+					...voteArgs(plaintextVoter.address)
+				)
+		).to.be.revertedWith(NOT_SESSION_WALLET);
+		expect(await zkElection.getTotalVotes(electionId)).to.equal(0);
+	});
+
+	it("Should accept the session wallet's own vote relayed by the trusted forwarder", async function () {
+		expect((await relayVote(session)).success).to.be.true;
+		expect(await zkElection.getTotalVotes(electionId)).to.equal(1);
+	});
+
+	it("Should reject a relayed vote naming someone else's session wallet", async function () {
+		// Self-signed by the registered wallet: the forwarder authenticates it, not the session
+		// wallet the vote names (the unregistered relayer's own requests are not sponsored at all)
+		const relayed = await relayVote(voter);
+		expect(relayed.success).to.be.false;
+		expect(revertReason(relayed.returnData)).to.equal(NOT_SESSION_WALLET);
+		await expect((await relayVote(relayer)).tx).to.emit(nicPaymaster, "WalletNotRegistered");
+
+		// A session request is made for the registered wallet, not by the session wallet
+		const {request, signature} = await createTemporaryWalletTransaction(nicPaymaster, session, {
+			originalWallet: voter.address,
+			target: await zkElection.getAddress(),
+			data: sessionVoteData(),
+		});
+		const args = toTemporaryWalletTransactionArgs(request, signature);
+		const [success, returnData] = await nicPaymaster
+			.connect(relayer)
+			.executeGaslessTemporaryTransaction.staticCall(...args);
+		expect(success).to.be.false;
+		expect(revertReason(returnData)).to.equal(NOT_SESSION_WALLET);
+		expect(await zkElection.getTotalVotes(electionId)).to.equal(0);
+	});
+
+	it("Should reject votes relayed by a paymaster that is not the trusted forwarder", async function () {
+		const PolygonPaymasterFactory = await ethers.getContractFactory("PolygonPaymaster");
+		const polygonPaymaster = await PolygonPaymasterFactory.deploy();
+		await polygonPaymaster.waitForDeployment();
+
+		const {request, signature} = await createPolygonMetaTransaction(polygonPaymaster, session, {
+			target: await zkElection.getAddress(),
+			data: sessionVoteData(),
+		});
+		const args = toMetaTransactionArgs(request, signature);
+		const [success, returnData] = await polygonPaymaster
+			.connect(relayer)
+			.executeMetaTransaction.staticCall(...args);
+
+		expect(success).to.be.false;
+		expect(revertReason(returnData)).to.equal(NOT_SESSION_WALLET);
+	});
+});
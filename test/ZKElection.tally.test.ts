@@ -0,0 +1,260 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {NICWalletRegistry, ZK_ElectionContract} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {
+	computeNullifier,
+	createVoterMerkleTree,
+	generateVoterSecret,
+	getMerkleProof,
+} from "../utils/merkleTree";
+import {
+	computeBallotCommitment,
+	decryptTally,
+	encryptBallot,
+	generateTallyKeyPair,
+	toCiphertexts,
+	type EncryptedBallot,
+} from "../utils/encryptedTally";
+import {MerkleTree} from "merkletreejs";
+
+describe("ZK Election Tally", function () {
+	let zkElection: ZK_ElectionContract;
+	let nicRegistry: NICWalletRegistry;
+	let owner: SignerWithAddress;
+	let voters: SignerWithAddress[];
+	let tree: MerkleTree;
+	let chainId: bigint;
+	let endDate: number;
+	let ballots: EncryptedBallot[];
+
+	const electionId = 0;
+	const candidateCount = 3;
+	// The last voter is eligible but does not vote
+	const voterNICs = ["NIC001", "NIC002", "NIC003", "NIC004"];
+	const choices = [0, 2, 2];
+	const voterSecrets = voterNICs.map(() => generateVoterSecret());
+	const tallyKeys = generateTallyKeyPair();
+
+	// Placeholder UltraPlonk proof: MockVerifier does not check it
+	const proof = ethers.hexlify(ethers.randomBytes(2144));
+
+	const candidates = [
+		{name: "Candidate A", nic: "CA001", party: "Party Alpha", voteCount: 0},
+		{name: "Candidate B", nic: "CB002", party: "Party Beta", voteCount: 0},
+		{name: "Candidate C", nic: "CC003", party: "", voteCount: 0},
+	];
+
+	function nullifierOf(voterIndex: number): string {
+		return computeNullifier(voterSecrets[voterIndex], electionId);
+	}
+
+	async function ballotFor(
+		voterIndex: number,
+		candidateIndex: number,
+		count = candidateCount,
+		nullifierHash = nullifierOf(voterIndex)
+	) {
+		return encryptBallot(candidateIndex, count, tallyKeys.publicKey, {
+			chainId,
+			electionContract: await zkElection.getAddress(),
+			electionId,
+			nullifierHash,
+		});
+	}
+
+	function castVote(
+		voterIndex: number,
+		ballot: EncryptedBallot,
+		nullifierHash = nullifierOf(voterIndex)
+	) {
+		return zkElection
+			.connect(voters[voterIndex])
+			.castVote(
+				electionId,
+				voterNICs[voterIndex],
+				nullifierHash,
+				ballot,
+				getMerkleProof(tree, voters[voterIndex].address, electionId),
+				proof
+			);
+	}
+
+	async function getTallyDecryptions() {
+		return decryptTally(
+			toCiphertexts(await zkElection.getEncryptedTally(electionId)),
+			tallyKeys,
+			{chainId, electionContract: await zkElection.getAddress(), electionId},
+			await zkElection.getTotalVotes(electionId)
+		);
+	}
+
+	before(async function () {
+		[owner, ...voters] = await ethers.getSigners();
+		voters = voters.slice(0, voterNICs.length);
+		chainId = (await ethers.provider.getNetwork()).chainId;
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const MockVerifierFactory = await ethers.getContractFactory(
+			"MockVerifier"
+		);
+		const verifier = await MockVerifierFactory.deploy();
+		await verifier.waitForDeployment();
+
+		const ZKElectionFactory = await ethers.getContractFactory(
+			"ZK_ElectionContract"
+		);
+		zkElection = await ZKElectionFactory.deploy(
+			await verifier.getAddress(),
+			await nicRegistry.getAddress(),
+			ethers.ZeroAddress
+		);
+		await zkElection.waitForDeployment();
+
+		for (let i = 0; i < voters.length; i++) {
+			await nicRegistry.registerWallet(voterNICs[i], voters[i].address);
+		}
+
+		const voterTree = createVoterMerkleTree(
+			voters.map((v) => v.address),
+			electionId
+		);
+		tree = voterTree.tree;
+		const now = await time.latest();
+		endDate = now + 86400;
+		await zkElection.createElection(
+			"Tally Election",
+			"Election used to check the encrypted tally",
+			now + 10,
+			endDate,
+			candidates,
+			voterTree.root,
+			tallyKeys.publicKey
+		);
+		await time.increase(20);
+
+		ballots = [];
+		for (let i = 0; i < choices.length; i++) {
+			ballots.push(await ballotFor(i, choices[i]));
+			await castVote(i, ballots[i]);
+		}
+	});
+
+	describe("Election setup", function () {
+		it("Should reject a tally public key that is not on the curve", async function () {
+			const now = await time.latest();
+			await expect(
+				zkElection.createElection(
+					"Bad Key Election",
+					"Tally key off the curve",
+					now + 10,
+					now + 86400,
+					candidates,
+					ethers.keccak256("0x01"),
+					{x: 1n, y: 3n}
+				)
+			).to.be.revertedWith("Invalid tally public key");
+		});
+	});
+
+	describe("Voting phase", function () {
+		it("Should record votes without revealing candidate totals", async function () {
+			expect(await zkElection.getTotalVotes(electionId)).to.equal(choices.length);
+
+			for (let i = 0; i < candidateCount; i++) {
+				const candidate = await zkElection.getCandidateInfo(electionId, i);
+				expect(candidate.voteCount).to.equal(0);
+			}
+			await expect(zkElection.checkResult(electionId)).to.be.revertedWith(
+				"Tally not published"
+			);
+		});
+
+		it("Should bind each vote to the commitment of its ballot", async function () {
+			const events = await zkElection.queryFilter(zkElection.filters.VoteCast(electionId));
+			expect(events.map((e) => ethers.toBeHex(e.args.commitment, 32))).to.deep.equal(
+				ballots.map((ballot) => computeBallotCommitment(ballot.ciphertexts))
+			);
+		});
+
+		it("Should reject a second vote from a wallet under a new voter secret", async function () {
+			// A new secret gives a new nullifier, so only the wallet record stops this vote
+			const nullifierHash = computeNullifier(generateVoterSecret(), electionId);
+			const ballot = await ballotFor(0, 1, candidateCount, nullifierHash);
+			await expect(castVote(0, ballot, nullifierHash)).to.be.revertedWith(
+				"Vote already cast (wallet has voted)"
+			);
+
+			expect(await zkElection.hasVoted(electionId, voters[0].address)).to.equal(true);
+			expect(await zkElection.hasVoted(electionId, voters[3].address)).to.equal(false);
+		});
+
+		it("Should reject a ballot copied from another voter", async function () {
+			await expect(castVote(3, ballots[0])).to.be.revertedWith("Invalid ballot");
+		});
+
+		it("Should reject a ballot whose proofs do not match its ciphertexts", async function () {
+			const ballot = await ballotFor(3, 0);
+			const [first, second, third] = ballot.ciphertexts;
+			await expect(
+				castVote(3, {...ballot, ciphertexts: [second, first, third]})
+			).to.be.revertedWith("Invalid ballot");
+		});
+
+		it("Should reject a ballot for a different number of candidates", async function () {
+			await expect(castVote(3, await ballotFor(3, 0, 2))).to.be.revertedWith(
+				"Ballot does not match candidates"
+			);
+		});
+
+		it("Should not allow publishing the tally before the election ends", async function () {
+			await expect(
+				zkElection.publishTally(electionId, await getTallyDecryptions())
+			).to.be.revertedWith("Election has not ended");
+		});
+	});
+
+	describe("Tally phase", function () {
+		before(async function () {
+			await time.increaseTo(endDate + 1);
+		});
+
+		it("Should reject a decryption with a wrong count", async function () {
+			const decryptions = await getTallyDecryptions();
+			decryptions[0] = {...decryptions[0], count: decryptions[0].count + 1n};
+			decryptions[2] = {...decryptions[2], count: decryptions[2].count - 1n};
+			await expect(zkElection.publishTally(electionId, decryptions)).to.be.revertedWith(
+				"Invalid tally decryption"
+			);
+		});
+
+		it("Should reject a decryption proof made for another candidate", async function () {
+			const decryptions = await getTallyDecryptions();
+			decryptions[0] = {...decryptions[0], proof: decryptions[2].proof};
+			await expect(zkElection.publishTally(electionId, decryptions)).to.be.revertedWith(
+				"Invalid tally decryption"
+			);
+		});
+
+		it("Should publish results from the encrypted totals without any voter", async function () {
+			// Anyone can submit the decryptions: they are checked against the encrypted totals
+			const decryptions = await getTallyDecryptions();
+			await expect(zkElection.connect(voters[3]).publishTally(electionId, decryptions))
+				.to.emit(zkElection, "TallyFinalized")
+				.withArgs(electionId, choices.length);
+
+			const results = await zkElection.checkResult(electionId);
+			expect(results.map((c) => c.voteCount)).to.deep.equal([1n, 0n, 2n]);
+
+			await expect(
+				zkElection.publishTally(electionId, decryptions)
+			).to.be.revertedWith("Tally already finalized");
+		});
+	});
+});
@@ -0,0 +1,187 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {NICWalletRegistry, ZK_ElectionContract} from "../typechain-types";
+import {SignerWithAddress} from "@nomicfoundation/hardhat-ethers/signers";
+import {MerkleTree} from "merkletreejs";
+import {time} from "@nomicfoundation/hardhat-network-helpers";
+import {
+	computeNullifier,
+	createVoterMerkleTree,
+	generateVoterSecret,
+	getMerkleProof,
+	updateVoterMerkleTree,
+} from "../utils/merkleTree";
+import {encryptBallot, generateTallyKeyPair} from "../utils/encryptedTally";
+
+describe("ZK_ElectionContract Voter Roll Updates", function () {
+	let zkElection: ZK_ElectionContract;
+	let nicRegistry: NICWalletRegistry;
+	let voters: SignerWithAddress[];
+	let lateVoter: SignerWithAddress;
+	let startDate: number;
+	let chainId: bigint;
+	let electionContract: string;
+
+	const electionId = 0;
+	const voterNICs = ["NIC001", "NIC002"];
+	const lateNIC = "NIC003";
+
+	// Placeholder UltraPlonk proof: MockVerifier does not check it
+	const proof = ethers.hexlify(ethers.randomBytes(2144));
+	const tallyKeys = generateTallyKeyPair();
+
+	beforeEach(async function () {
+		const [, ...signers] = await ethers.getSigners();
+		voters = signers.slice(0, voterNICs.length);
+		lateVoter = signers[voterNICs.length];
+
+		const NICWalletRegistryFactory = await ethers.getContractFactory(
+			"NICWalletRegistry"
+		);
+		nicRegistry = await NICWalletRegistryFactory.deploy();
+		await nicRegistry.waitForDeployment();
+
+		const MockVerifierFactory = await ethers.getContractFactory("MockVerifier");
+		const verifier = await MockVerifierFactory.deploy();
+		await verifier.waitForDeployment();
+
+		const ZKElectionFactory = await ethers.getContractFactory("ZK_ElectionContract");
+		zkElection = await ZKElectionFactory.deploy(
+			await verifier.getAddress(),
+			await nicRegistry.getAddress(),
+			ethers.ZeroAddress
+		);
+		await zkElection.waitForDeployment();
+		chainId = (await ethers.provider.getNetwork()).chainId;
+		electionContract = await zkElection.getAddress();
+
+		for (let i = 0; i < voters.length; i++) {
+			await nicRegistry.registerWallet(voterNICs[i], voters[i].address);
+		}
+		await nicRegistry.registerWallet(lateNIC, lateVoter.address);
+
+		const {root} = createVoterMerkleTree(
+			voters.map((v) => v.address),
+			electionId
+		);
+		startDate = (await time.latest()) + 3600;
+		await zkElection.createElection(
+			"Voter Roll Election",
+			"Election whose voter roll changes before it starts",
+			startDate,
+			startDate + 86400,
+			[
+				{name: "Candidate A", nic: "CA001", party: "Party Alpha", voteCount: 0},
+				{name: "Candidate B", nic: "CB002", party: "Party Beta", voteCount: 0},
+			],
+			root,
+			tallyKeys.publicKey
+		);
+	});
+
+	/**
+	 * Roll with the first voter removed (court order) and the late voter added
+	 */
+	function updatedRoll() {
+		return updateVoterMerkleTree(
+			voters.map((v) => v.address),
+			{added: [lateVoter.address], removed: [voters[0].address]},
+			electionId
+		);
+	}
+
+	function castVote(voter: SignerWithAddress, nic: string, tree: MerkleTree) {
+		const nullifierHash = computeNullifier(generateVoterSecret(), electionId);
+		return zkElection
+			.connect(voter)
+			.castVote(
+				electionId,
+				nic,
+				nullifierHash,
+				encryptBallot(0, 2, tallyKeys.publicKey, {chainId, electionContract, electionId, nullifierHash}),
+				getMerkleProof(tree, voter.address, electionId),
+				proof
+			);
+	}
+
+	it("Should publish a new root and keep every previous root", async function () {
+		const [initialRoot] = await zkElection.getVotersMerkleRootHistory(electionId);
+		const {root} = updatedRoll();
+		const newRoot = ethers.hexlify(root);
+
+		await expect(zkElection.updateVotersMerkleRoot(electionId, newRoot))
+			.to.emit(zkElection, "VotersMerkleRootUpdated")
+			.withArgs(electionId, initialRoot, newRoot, 1);
+
+		const [election] = await zkElection.getElectionData(electionId);
+		expect(election.votersMerkleRoot).to.equal(newRoot);
+		expect(await zkElection.getVotersMerkleRootHistory(electionId)).to.deep.equal([
+			initialRoot,
+			newRoot,
+		]);
+
+		const secondRoot = ethers.id("second update");
+		await expect(zkElection.updateVotersMerkleRoot(electionId, secondRoot))
+			.to.emit(zkElection, "VotersMerkleRootUpdated")
+			.withArgs(electionId, newRoot, secondRoot, 2);
+		expect(await zkElection.getVotersMerkleRootHistory(electionId)).to.deep.equal([
+			initialRoot,
+			newRoot,
+			secondRoot,
+		]);
+	});
+
+	it("Should let only election admins update the root", async function () {
+		await expect(
+			zkElection.connect(voters[0]).updateVotersMerkleRoot(electionId, ethers.id("roll"))
+		)
+			.to.be.revertedWithCustomError(zkElection, "AccessControlUnauthorizedAccount")
+			.withArgs(voters[0].address, await zkElection.ELECTION_ADMIN_ROLE());
+
+		await zkElection.grantRole(await zkElection.ELECTION_ADMIN_ROLE(), voters[0].address);
+		await expect(
+			zkElection.connect(voters[0]).updateVotersMerkleRoot(electionId, ethers.id("roll"))
+		).to.emit(zkElection, "VotersMerkleRootUpdated");
+	});
+
+	it("Should reject a zero, unchanged or unknown-election root", async function () {
+		const [election] = await zkElection.getElectionData(electionId);
+
+		await expect(
+			zkElection.updateVotersMerkleRoot(electionId, ethers.ZeroHash)
+		).to.be.revertedWith("Invalid merkle root");
+		await expect(
+			zkElection.updateVotersMerkleRoot(electionId, election.votersMerkleRoot)
+		).to.be.revertedWith("Merkle root unchanged");
+		await expect(
+			zkElection.updateVotersMerkleRoot(electionId + 1, ethers.id("roll"))
+		).to.be.revertedWith("Election does not exist");
+	});
+
+	it("Should not update the root once the election has started", async function () {
+		await time.increaseTo(startDate);
+
+		await expect(
+			zkElection.updateVotersMerkleRoot(electionId, ethers.id("roll"))
+		).to.be.revertedWith("Election has already started");
+		expect(await zkElection.getVotersMerkleRootHistory(electionId)).to.have.length(1);
+	});
+
+	it("Should check votes against the updated roll", async function () {
+		const {tree, root} = updatedRoll();
+		await zkElection.updateVotersMerkleRoot(electionId, root);
+		await time.increaseTo(startDate);
+
+		await expect(castVote(lateVoter, lateNIC, tree)).to.emit(zkElection, "VoteCast");
+		await expect(castVote(voters[1], voterNICs[1], tree)).to.emit(zkElection, "VoteCast");
+
+		// The removed voter's proof against the original roll no longer matches
+		const {tree: initialTree} = createVoterMerkleTree(
+			voters.map((v) => v.address),
+			electionId
+		);
+		await expect(castVote(voters[0], voterNICs[0], initialTree)).to.be.revertedWith(
+			"Invalid voter proof"
+		);
+	});
+});
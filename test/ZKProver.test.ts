@@ -0,0 +1,201 @@
+import {expect} from "chai";
+import {ethers} from "hardhat";
+import type {CompiledCircuit} from "@noir-lang/noir_js";
+import type {ProofData} from "@noir-lang/backend_barretenberg";
+import {
+	computeIdentityCommitment,
+	computeNullifier,
+	createIdentityMerkleTree,
+	createVoterMerkleTree,
+	generateIdentitySecret,
+	generateVoterSecret,
+	getMerkleProof,
+} from "../utils/merkleTree";
+import {
+	buildVoteWitness,
+	compileVotingCircuit,
+	generateVoteProof,
+	toCastAnonymousVoteArgs,
+	toCastVoteWithNICArgs,
+	toPublicInputs,
+	verifyVoteProof,
+	type VoteProvingBackend,
+} from "../utils/zkProver";
+import {computeBallotCommitment, generateTallyKeyPair} from "../utils/encryptedTally";
+
+describe("zkProver", function () {
+	let circuit: CompiledCircuit;
+
+	const electionId = 3;
+	const nic = "NIC002";
+	const voterSecret = generateVoterSecret();
+	const voterWallets = [
+		"0x1111111111111111111111111111111111111111",
+		"0x2222222222222222222222222222222222222222",
+		"0x3333333333333333333333333333333333333333",
+	];
+	const {tree} = createVoterMerkleTree(voterWallets, electionId);
+	const ballotDomain = {
+		tallyPublicKey: generateTallyKeyPair().publicKey,
+		chainId: 31337n,
+		electionContract: ethers.Wallet.createRandom().address,
+	};
+
+	// Proof as returned by BarretenbergBackend: public inputs are split off the proof bytes
+	const backendProof: ProofData = {
+		proof: new Uint8Array(2144).fill(7),
+		publicInputs: ["0x01", "0x02", "0x03", "0x04"].map((input) =>
+			ethers.zeroPadValue(input, 32)
+		),
+	};
+
+	before(async function () {
+		circuit = await compileVotingCircuit();
+	});
+
+	it("Should return castVoteWithNIC calldata for a solved witness", async function () {
+		let provedWitness: Uint8Array | undefined;
+		const backend: VoteProvingBackend = {
+			async generateProof(witness) {
+				provedWitness = witness;
+				return backendProof;
+			},
+		};
+
+		const calldata = await generateVoteProof(
+			{
+				voterSecret,
+				electionId,
+				candidateIndex: 1,
+				candidateCount: 3,
+				registeredWallet: voterWallets[1],
+				tree,
+				...ballotDomain,
+			},
+			circuit,
+			backend
+		);
+
+		const nullifierHash = computeNullifier(voterSecret, electionId);
+
+		expect(provedWitness).to.have.length.greaterThan(0);
+		expect(calldata.ballot.ciphertexts).to.have.length(3);
+		expect(calldata.commitment).to.equal(computeBallotCommitment(calldata.ballot.ciphertexts));
+		expect(calldata.nullifierHash).to.equal(nullifierHash);
+		expect(calldata.proof).to.equal(ethers.hexlify(backendProof.proof));
+		expect(calldata.publicInputs).to.deep.equal(backendProof.publicInputs);
+		expect(calldata.merkleProof).to.deep.equal(
+			getMerkleProof(tree, voterWallets[1], electionId)
+		);
+
+		// The arguments must encode against the contract ABI
+		const zkElection = await ethers.getContractFactory("ZK_ElectionContract");
+		const temporaryWallet = ethers.Wallet.createRandom().address;
+		const data = zkElection.interface.encodeFunctionData(
+			"castVoteWithNIC",
+			toCastVoteWithNICArgs(calldata, nic, voterWallets[1], temporaryWallet)
+		);
+		const decoded = zkElection.interface.decodeFunctionData("castVoteWithNIC", data);
+		expect(decoded[1]).to.equal(nic);
+		expect(decoded[3]).to.equal(temporaryWallet);
+		expect(computeBallotCommitment(decoded[5].ciphertexts)).to.equal(calldata.commitment);
+		expect(decoded[7]).to.equal(calldata.proof);
+	});
+
+	it("Should return castAnonymousVote calldata for an identity secret", async function () {
+		const identitySecret = generateIdentitySecret();
+		const {tree: identityTree} = createIdentityMerkleTree(
+			[generateIdentitySecret(), identitySecret].map(computeIdentityCommitment),
+			electionId
+		);
+		const backend: VoteProvingBackend = {
+			async generateProof() {
+				return backendProof;
+			},
+		};
+
+		const calldata = await generateVoteProof(
+			{
+				identitySecret,
+				electionId,
+				candidateIndex: 2,
+				candidateCount: 3,
+				tree: identityTree,
+				...ballotDomain,
+			},
+			circuit,
+			backend
+		);
+
+		expect(calldata.nullifierHash).to.equal(computeNullifier(identitySecret, electionId));
+		expect(calldata.merkleProof).to.deep.equal([]);
+
+		const zkElection = await ethers.getContractFactory("ZK_ElectionContract");
+		const data = zkElection.interface.encodeFunctionData(
+			"castAnonymousVote",
+			toCastAnonymousVoteArgs(calldata)
+		);
+		const decoded = zkElection.interface.decodeFunctionData("castAnonymousVote", data);
+		expect(decoded[1]).to.equal(BigInt(calldata.nullifierHash));
+		expect(computeBallotCommitment(decoded[2].ciphertexts)).to.equal(calldata.commitment);
+	});
+
+	describe("BarretenbergBackend", function () {
+		// Real proofs: downloads the CRS on first run, then proves in wasm
+		this.timeout(15 * 60 * 1000);
+
+		/**
+		 * Tell apart an environment the wasm prover cannot run in from a proving bug
+		 */
+		function proverUnavailableReason(error: unknown): string | undefined {
+			if (error instanceof TypeError && error.message === "fetch failed") {
+				return "the Barretenberg CRS could not be downloaded";
+			}
+			// Barretenberg aborts (wasm "unreachable") when it cannot allocate the proving key
+			if (error instanceof Error && error.name === "RuntimeError") {
+				return "the voting circuit's proving key does not fit in wasm memory (4 GiB)";
+			}
+			return undefined;
+		}
+
+		it("Should generate a proof that verifies for its public inputs only", async function () {
+			const request = {
+				voterSecret,
+				electionId,
+				candidateIndex: 2,
+				candidateCount: 3,
+				registeredWallet: voterWallets[1],
+				tree,
+				...ballotDomain,
+			};
+
+			let calldata: Awaited<ReturnType<typeof generateVoteProof>>;
+			try {
+				calldata = await generateVoteProof(request, circuit);
+			} catch (error) {
+				const reason = proverUnavailableReason(error);
+				if (!reason) {
+					throw error;
+				}
+				console.log(`      BarretenbergBackend unavailable, skipping: ${reason}`);
+				this.skip();
+			}
+
+			expect(calldata.publicInputs).to.deep.equal(
+				toPublicInputs(buildVoteWitness(request, calldata.commitment)).map((input) =>
+					ethers.toBeHex(input, 32)
+				)
+			);
+			expect(await verifyVoteProof(calldata, circuit)).to.be.true;
+
+			// The proof does not carry over to another ballot or election
+			const withInput = (index: number, value: number) => {
+				const publicInputs = [...calldata.publicInputs];
+				publicInputs[index] = ethers.toBeHex(value, 32);
+				return {...calldata, publicInputs};
+			};
+			expect(await verifyVoteProof(withInput(1, 1), circuit)).to.be.false;
+			expect(await verifyVoteProof(withInput(3, electionId + 1), circuit)).to.be.false;
+		});
+	});
+});
@@ -0,0 +1,321 @@
+import {ethers} from "ethers";
+
+/**
+ * Canonical ERC-4337 EntryPoint v0.7 address (Polygon Amoy and other public chains)
+ */
+export const ENTRY_POINT_V07_ADDRESS = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+
+/**
+ * Gas limits used when a UserOperation does not set its own
+ */
+export const DEFAULT_USER_OPERATION_GAS = {
+	callGasLimit: 500000n,
+	verificationGasLimit: 300000n,
+	// Extra verification gas when the UserOperation deploys its account
+	accountDeploymentGas: 1000000n,
+	preVerificationGas: 60000n,
+	paymasterVerificationGasLimit: 150000n,
+	paymasterPostOpGasLimit: 0n,
+};
+
+const ENTRY_POINT_ABI = [
+	"function getNonce(address sender, uint192 key) view returns (uint256)",
+	"function getUserOpHash((address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature) userOp) view returns (bytes32)",
+	"function handleOps((address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)[] ops, address beneficiary)",
+	"event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)",
+	"event UserOperationRevertReason(bytes32 indexed userOpHash, address indexed sender, uint256 nonce, bytes revertReason)",
+];
+
+const SESSION_ACCOUNT_ABI = [
+	"function execute(address target, uint256 value, bytes data)",
+];
+
+/**
+ * UserOperation in the unpacked form of the v0.7 bundler JSON-RPC API
+ */
+export interface UserOperation {
+	sender: string;
+	nonce: bigint;
+	factory?: string;
+	factoryData?: string;
+	callData: string;
+	callGasLimit: bigint;
+	verificationGasLimit: bigint;
+	preVerificationGas: bigint;
+	maxFeePerGas: bigint;
+	maxPriorityFeePerGas: bigint;
+	paymaster?: string;
+	paymasterVerificationGasLimit?: bigint;
+	paymasterPostOpGasLimit?: bigint;
+	paymasterData?: string;
+	signature: string;
+}
+
+/**
+ * UserOperation as passed to the EntryPoint (PackedUserOperation struct)
+ */
+export interface PackedUserOperation {
+	sender: string;
+	nonce: bigint;
+	initCode: string;
+	callData: string;
+	accountGasLimits: string;
+	preVerificationGas: bigint;
+	gasFees: string;
+	paymasterAndData: string;
+	signature: string;
+}
+
+/**
+ * Outcome of a UserOperation after it was included
+ */
+export interface UserOperationReceipt {
+	userOpHash: string;
+	success: boolean;
+	actualGasCost: bigint;
+	actualGasUsed: bigint;
+	/** Revert reason of the account call, when success is false */
+	revertReason?: string;
+	transactionHash: string;
+}
+
+/**
+ * Client that submits UserOperations, to a bundler or directly to the EntryPoint
+ */
+export interface BundlerClient {
+	sendUserOperation(userOp: UserOperation): Promise<string>;
+	waitForUserOperationReceipt(userOpHash: string): Promise<UserOperationReceipt>;
+}
+
+/**
+ * Pack two 128-bit values into one bytes32 (accountGasLimits, gasFees)
+ */
+function packUint128Pair(high: bigint, low: bigint): string {
+	return ethers.solidityPacked(["uint128", "uint128"], [high, low]);
+}
+
+/**
+ * Convert a UserOperation to the PackedUserOperation struct of EntryPoint v0.7
+ * @param userOp Unpacked UserOperation
+ * @returns Packed UserOperation
+ */
+export function packUserOperation(userOp: UserOperation): PackedUserOperation {
+	return {
+		sender: userOp.sender,
+		nonce: userOp.nonce,
+		initCode: userOp.factory
+			? ethers.concat([userOp.factory, userOp.factoryData || "0x"])
+			: "0x",
+		callData: userOp.callData,
+		accountGasLimits: packUint128Pair(userOp.verificationGasLimit, userOp.callGasLimit),
+		preVerificationGas: userOp.preVerificationGas,
+		gasFees: packUint128Pair(userOp.maxPriorityFeePerGas, userOp.maxFeePerGas),
+		paymasterAndData: userOp.paymaster
+			? ethers.solidityPacked(
+					["address", "uint128", "uint128", "bytes"],
+					[
+						userOp.paymaster,
+						userOp.paymasterVerificationGasLimit ?? 0n,
+						userOp.paymasterPostOpGasLimit ?? 0n,
+						userOp.paymasterData || "0x",
+					]
+			  )
+			: "0x",
+		signature: userOp.signature,
+	};
+}
+
+/**
+ * Compute the hash a UserOperation's signer signs
+ * @param entryPoint EntryPoint address
+ * @param runner Provider or signer to call the EntryPoint with
+ * @param userOp UserOperation (its signature is ignored)
+ * @returns userOpHash (covers the EntryPoint and the chain ID)
+ */
+export async function getUserOperationHash(
+	entryPoint: string,
+	runner: ethers.ContractRunner,
+	userOp: UserOperation
+): Promise<string> {
+	const contract = new ethers.Contract(entryPoint, ENTRY_POINT_ABI, runner);
+	return contract.getUserOpHash(packUserOperation({...userOp, signature: "0x"}));
+}
+
+/**
+ * Sign a UserOperation with the account owner or a session key
+ * @param signer Owner or temporary wallet with a valid session for the account
+ * @param entryPoint EntryPoint address
+ * @param userOp UserOperation to sign
+ * @returns The UserOperation with its signature set
+ * @note NICSessionAccount and NICVerifyingPaymaster expect an Ethereum signed message of the userOpHash
+ */
+export async function signUserOperation(
+	signer: ethers.Signer,
+	entryPoint: string,
+	userOp: UserOperation
+): Promise<UserOperation> {
+	const userOpHash = await getUserOperationHash(entryPoint, signer, userOp);
+	const signature = await signer.signMessage(ethers.getBytes(userOpHash));
+	return {...userOp, signature};
+}
+
+/**
+ * Build an unsigned UserOperation making a NICSessionAccount call another contract
+ * @param provider Provider of the chain
+ * @param entryPoint EntryPoint address
+ * @param call Account, target and call data; set factory/factoryData for the account's first UserOperation
+ * and paymaster to have the gas sponsored (e.g. NICVerifyingPaymaster)
+ * @returns UserOperation with the next nonce, default gas limits and current fees
+ */
+export async function buildSessionUserOperation(
+	provider: ethers.Provider,
+	entryPoint: string,
+	call: {
+		sender: string;
+		target: string;
+		data: ethers.BytesLike;
+		factory?: string;
+		factoryData?: string;
+		paymaster?: string;
+	}
+): Promise<UserOperation> {
+	const entryPointContract = new ethers.Contract(entryPoint, ENTRY_POINT_ABI, provider);
+	const feeData = await provider.getFeeData();
+	const maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+
+	return {
+		sender: call.sender,
+		nonce: await entryPointContract.getNonce(call.sender, 0),
+		factory: call.factory,
+		factoryData: call.factoryData,
+		callData: new ethers.Interface(SESSION_ACCOUNT_ABI).encodeFunctionData("execute", [
+			call.target,
+			0,
+			call.data,
+		]),
+		callGasLimit: DEFAULT_USER_OPERATION_GAS.callGasLimit,
+		verificationGasLimit:
+			DEFAULT_USER_OPERATION_GAS.verificationGasLimit +
+			(call.factory ? DEFAULT_USER_OPERATION_GAS.accountDeploymentGas : 0n),
+		preVerificationGas: DEFAULT_USER_OPERATION_GAS.preVerificationGas,
+		maxFeePerGas,
+		maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? maxFeePerGas,
+		paymaster: call.paymaster,
+		paymasterVerificationGasLimit: call.paymaster
+			? DEFAULT_USER_OPERATION_GAS.paymasterVerificationGasLimit
+			: undefined,
+		paymasterPostOpGasLimit: call.paymaster
+			? DEFAULT_USER_OPERATION_GAS.paymasterPostOpGasLimit
+			: undefined,
+		signature: "0x",
+	};
+}
+
+/**
+ * Encode a UserOperation for the bundler JSON-RPC API (quantities as hex)
+ */
+function toRpcUserOperation(userOp: UserOperation): Record<string, string> {
+	const rpcUserOp: Record<string, string> = {};
+	for (const [key, value] of Object.entries(userOp)) {
+		if (value !== undefined) {
+			rpcUserOp[key] = typeof value === "bigint" ? ethers.toQuantity(value) : value;
+		}
+	}
+	return rpcUserOp;
+}
+
+/**
+ * Create a client that submits UserOperations
+ * @param options.entryPoint EntryPoint address
+ * @param options.bundlerUrl Bundler JSON-RPC URL (eth_sendUserOperation); if not set, the client
+ * acts as its own bundler and calls handleOps with options.beneficiary
+ * @param options.beneficiary Signer that sends handleOps and receives the gas refund (required without bundlerUrl)
+ * @returns Bundler client
+ * @note Without bundlerUrl any funded key can submit the operations; the session key itself needs no ETH
+ */
+export function createBundlerClient(options: {
+	entryPoint: string;
+	bundlerUrl?: string;
+	beneficiary?: ethers.Signer;
+}): BundlerClient {
+	const {entryPoint, bundlerUrl, beneficiary} = options;
+	if (!bundlerUrl && !beneficiary) {
+		throw new Error("A bundlerUrl or a beneficiary signer is required");
+	}
+
+	const bundler = bundlerUrl ? new ethers.JsonRpcProvider(bundlerUrl) : undefined;
+	const entryPointContract = new ethers.Contract(entryPoint, ENTRY_POINT_ABI, beneficiary);
+	// Transactions of the UserOperations handled locally, by userOpHash
+	const localTransactions = new Map<string, Promise<ethers.TransactionReceipt | null>>();
+
+	function parseReceipt(
+		userOpHash: string,
+		receipt: ethers.TransactionReceipt
+	): UserOperationReceipt {
+		let result: UserOperationReceipt | undefined;
+		let revertReason: string | undefined;
+		for (const log of receipt.logs) {
+			const parsed = entryPointContract.interface.parseLog(log);
+			if (!parsed || parsed.args.userOpHash !== userOpHash) {
+				continue;
+			}
+			if (parsed.name === "UserOperationEvent") {
+				result = {
+					userOpHash,
+					success: parsed.args.success,
+					actualGasCost: parsed.args.actualGasCost,
+					actualGasUsed: parsed.args.actualGasUsed,
+					transactionHash: receipt.hash,
+				};
+			} else if (parsed.name === "UserOperationRevertReason") {
+				revertReason = parsed.args.revertReason;
+			}
+		}
+		if (!result) {
+			throw new Error(`UserOperation ${userOpHash} not found in ${receipt.hash}`);
+		}
+		return {...result, revertReason};
+	}
+
+	return {
+		async sendUserOperation(userOp: UserOperation): Promise<string> {
+			if (bundler) {
+				return bundler.send("eth_sendUserOperation", [toRpcUserOperation(userOp), entryPoint]);
+			}
+
+			const userOpHash = await entryPointContract.getUserOpHash(packUserOperation(userOp));
+			const tx = await entryPointContract.handleOps(
+				[packUserOperation(userOp)],
+				await beneficiary!.getAddress()
+			);
+			localTransactions.set(userOpHash, tx.wait());
+			return userOpHash;
+		},
+
+		async waitForUserOperationReceipt(userOpHash: string): Promise<UserOperationReceipt> {
+			if (!bundler) {
+				const receipt = await localTransactions.get(userOpHash);
+				if (!receipt) {
+					throw new Error(`Unknown UserOperation ${userOpHash}`);
+				}
+				return parseReceipt(userOpHash, receipt);
+			}
+
+			// Bundlers return null until the UserOperation is included
+			for (;;) {
+				const rpcReceipt = await bundler.send("eth_getUserOperationReceipt", [userOpHash]);
+				if (rpcReceipt) {
+					return {
+						userOpHash,
+						success: rpcReceipt.success,
+						actualGasCost: BigInt(rpcReceipt.actualGasCost),
+						actualGasUsed: BigInt(rpcReceipt.actualGasUsed),
+						revertReason: rpcReceipt.reason || undefined,
+						transactionHash: rpcReceipt.receipt.transactionHash,
+					};
+				}
+				await new Promise((resolve) => setTimeout(resolve, 2000));
+			}
+		},
+	};
+}
@@ -0,0 +1,509 @@
+import {ethers} from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+import {toFieldElement} from "./merkleTree";
+
+/**
+ * BN254 base field modulus (point coordinates, FIELD_MODULUS in EncryptedTally.sol)
+ */
+export const BN254_FIELD_MODULUS = BigInt(
+	"21888242871839275222246405745257275088696311157297823662689037894645226208583"
+);
+
+/**
+ * BN254 group order (scalars, challenges and responses, GROUP_ORDER in EncryptedTally.sol)
+ */
+export const BN254_GROUP_ORDER = BigInt(
+	"21888242871839275222246405745257275088548364400416034343698204186575808495617"
+);
+
+/**
+ * Point on the BN254 curve y^2 = x^3 + 3
+ * @note (0, 0) is the point at infinity, as in the alt_bn128 precompiles
+ */
+export interface G1Point {
+	x: bigint;
+	y: bigint;
+}
+
+/**
+ * Generator of the BN254 G1 group
+ */
+export const G1_GENERATOR: G1Point = {x: 1n, y: 2n};
+
+const INFINITY: G1Point = {x: 0n, y: 0n};
+
+/**
+ * Exponential ElGamal ciphertext of m: a = r*G, b = m*G + r*H
+ */
+export interface Ciphertext {
+	a: G1Point;
+	b: G1Point;
+}
+
+/**
+ * Proof that a ciphertext encrypts 0 or 1 (EncryptedTally.BitProof)
+ */
+export interface BitProof {
+	c0: bigint;
+	c1: bigint;
+	z0: bigint;
+	z1: bigint;
+}
+
+/**
+ * Proof that two points share a discrete logarithm (EncryptedTally.EqualityProof)
+ */
+export interface EqualityProof {
+	c: bigint;
+	z: bigint;
+}
+
+/**
+ * Encrypted ballot in the layout of EncryptedTally.Ballot (castVote* argument)
+ */
+export interface EncryptedBallot {
+	ciphertexts: Ciphertext[];
+	bitProofs: BitProof[];
+	sumProof: EqualityProof;
+}
+
+/**
+ * Decrypted candidate total in the layout of EncryptedTally.Decryption (publishTally argument)
+ */
+export interface TallyDecryption {
+	count: bigint;
+	share: G1Point;
+	proof: EqualityProof;
+}
+
+/**
+ * Tally key pair of an election: ballots are encrypted under publicKey = secretKey * G
+ */
+export interface TallyKeyPair {
+	secretKey: bigint;
+	publicKey: G1Point;
+}
+
+/**
+ * Values the ballot proofs are bound to (ZK_ElectionContract.getBallotContext)
+ */
+export interface BallotContext {
+	chainId: bigint;
+	electionContract: string;
+	electionId: number;
+	nullifierHash: string;
+}
+
+/**
+ * Values the tally decryption proofs are bound to (ZK_ElectionContract.getTallyContext)
+ */
+export interface TallyContext {
+	chainId: bigint;
+	electionContract: string;
+	electionId: number;
+}
+
+/**
+ * Generate a tally key pair for a new election
+ * @returns Secret key (keep it offline until the tally: it decrypts any single ballot) and public key
+ */
+export function generateTallyKeyPair(): TallyKeyPair {
+	const secretKey = randomScalar();
+	return {secretKey, publicKey: mulPoint(G1_GENERATOR, secretKey)};
+}
+
+/**
+ * Encrypt a vote for one candidate, with the proofs ZK_ElectionContract checks
+ * @param candidateIndex Candidate voted for
+ * @param candidateCount Number of candidates in the election
+ * @param publicKey Election's tally public key
+ * @param context Chain, election contract, election and the voter's nullifier hash
+ * @returns One ciphertext per candidate (1 for candidateIndex, 0 elsewhere) with bit and sum proofs
+ */
+export function encryptBallot(
+	candidateIndex: number,
+	candidateCount: number,
+	publicKey: G1Point,
+	context: BallotContext
+): EncryptedBallot {
+	if (!Number.isInteger(candidateIndex) || candidateIndex < 0 || candidateIndex >= candidateCount) {
+		throw new Error(`Invalid candidate index ${candidateIndex} (${candidateCount} candidates)`);
+	}
+	const contextHash = getBallotContextHash(context);
+
+	const ciphertexts: Ciphertext[] = [];
+	const bitProofs: BitProof[] = [];
+	let randomnessSum = 0n;
+	for (let i = 0; i < candidateCount; i++) {
+		const vote = i === candidateIndex ? 1 : 0;
+		const randomness = randomScalar();
+		const ciphertext = encrypt(vote, randomness, publicKey);
+		ciphertexts.push(ciphertext);
+		bitProofs.push(proveBit(ciphertext, vote, randomness, publicKey, contextHash, i));
+		randomnessSum = mod(randomnessSum + randomness, BN254_GROUP_ORDER);
+	}
+
+	// The sum encrypts 1: (sumA, sumB - G) = (R*G, R*H)
+	const sumA = ciphertexts.reduce((sum, ciphertext) => addPoints(sum, ciphertext.a), INFINITY);
+	const sumB = ciphertexts.reduce((sum, ciphertext) => addPoints(sum, ciphertext.b), INFINITY);
+	const sumProof = proveEquality(
+		randomnessSum,
+		sumA,
+		subPoints(sumB, G1_GENERATOR),
+		G1_GENERATOR,
+		publicKey,
+		hashWords(["bytes32", "uint256"], [contextHash, candidateCount])
+	);
+
+	return {ciphertexts, bitProofs, sumProof};
+}
+
+/**
+ * Compute the ballot commitment the vote proof is bound to
+ * @param ciphertexts Ballot ciphertexts
+ * @returns keccak256(abi.encode(ciphertexts)) as a field element (EncryptedTally.hashCiphertexts)
+ */
+export function computeBallotCommitment(ciphertexts: Ciphertext[]): string {
+	return toFieldElement(
+		ethers.keccak256(
+			ethers.AbiCoder.defaultAbiCoder().encode(
+				["tuple(tuple(uint256 x, uint256 y) a, tuple(uint256 x, uint256 y) b)[]"],
+				[ciphertexts]
+			)
+		)
+	);
+}
+
+/**
+ * Decrypt an election's encrypted totals, with the proofs ZK_ElectionContract.publishTally checks
+ * @param encryptedTally Encrypted totals (ZK_ElectionContract.getEncryptedTally)
+ * @param keyPair Election's tally key pair
+ * @param context Chain, election contract and election
+ * @param maxCount Upper bound of any candidate's count (the election's total votes)
+ * @returns One decryption per candidate
+ * @note Only the totals are decrypted: never use the secret key on a single ballot
+ */
+export function decryptTally(
+	encryptedTally: Ciphertext[],
+	keyPair: TallyKeyPair,
+	context: TallyContext,
+	maxCount: bigint
+): TallyDecryption[] {
+	const contextHash = getTallyContextHash(context);
+	return encryptedTally.map((total, index) => {
+		const share = mulPoint(total.a, keyPair.secretKey);
+		const count = discreteLog(subPoints(total.b, share), maxCount);
+		const proof = proveEquality(
+			keyPair.secretKey,
+			keyPair.publicKey,
+			share,
+			G1_GENERATOR,
+			total.a,
+			hashWords(["bytes32", "uint256"], [contextHash, index])
+		);
+		return {count, share, proof};
+	});
+}
+
+/**
+ * Get the hash ballot proofs are bound to
+ * @param context Chain, election contract, election and nullifier hash
+ * @returns keccak256(abi.encode(chainId, electionContract, electionId, nullifierHash))
+ */
+export function getBallotContextHash(context: BallotContext): string {
+	return hashWords(
+		["uint256", "address", "uint256", "uint256"],
+		[context.chainId, context.electionContract, context.electionId, context.nullifierHash]
+	);
+}
+
+/**
+ * Get the hash tally decryption proofs are bound to
+ * @param context Chain, election contract and election
+ * @returns keccak256(abi.encode(chainId, electionContract, electionId))
+ */
+export function getTallyContextHash(context: TallyContext): string {
+	return hashWords(
+		["uint256", "address", "uint256"],
+		[context.chainId, context.electionContract, context.electionId]
+	);
+}
+
+/**
+ * Get the default tally key file for an election
+ * @param electionId Election ID
+ * @param directory Directory holding tally keys (default: <repo>/tally-keys)
+ * @returns Path to tally-keys/election-<id>.json
+ */
+export function getTallyKeyPath(
+	electionId: number,
+	directory: string = path.join(__dirname, "..", "tally-keys")
+): string {
+	return path.join(directory, `election-${electionId}.json`);
+}
+
+/**
+ * Save an election's tally key pair (needed to publish the results)
+ * @param keyPair Key pair from generateTallyKeyPair
+ * @param filePath Output file (e.g. getTallyKeyPath(electionId))
+ * @returns Path the file was written to
+ * @note The file is written with owner-only permissions: the secret key decrypts any single ballot
+ */
+export function saveTallyKeyPair(keyPair: TallyKeyPair, filePath: string): string {
+	fs.mkdirSync(path.dirname(filePath), {recursive: true});
+	fs.writeFileSync(
+		filePath,
+		JSON.stringify(
+			{
+				secretKey: ethers.toBeHex(keyPair.secretKey, 32),
+				publicKey: {
+					x: ethers.toBeHex(keyPair.publicKey.x, 32),
+					y: ethers.toBeHex(keyPair.publicKey.y, 32),
+				},
+			},
+			null,
+			2
+		),
+		{mode: 0o600}
+	);
+	return filePath;
+}
+
+/**
+ * Load an election's tally key pair
+ * @param filePath JSON file written by saveTallyKeyPair
+ * @returns Key pair, or undefined if the file does not exist
+ */
+export function loadTallyKeyPair(filePath: string): TallyKeyPair | undefined {
+	if (!fs.existsSync(filePath)) {
+		return undefined;
+	}
+	const data = JSON.parse(fs.readFileSync(filePath, "utf8")) as {
+		secretKey: string;
+		publicKey: {x: string; y: string};
+	};
+	const keyPair = {
+		secretKey: BigInt(data.secretKey),
+		publicKey: {x: BigInt(data.publicKey.x), y: BigInt(data.publicKey.y)},
+	};
+	const derived = mulPoint(G1_GENERATOR, keyPair.secretKey);
+	if (derived.x !== keyPair.publicKey.x || derived.y !== keyPair.publicKey.y) {
+		throw new Error(`Tally key file ${filePath}: public key does not match the secret key`);
+	}
+	return keyPair;
+}
+
+/**
+ * Convert a point returned by the contract (e.g. Election.tallyPublicKey) into a G1Point
+ * @param point Struct output with x and y
+ * @returns G1Point
+ */
+export function toG1Point(point: {x: bigint; y: bigint}): G1Point {
+	return {x: point.x, y: point.y};
+}
+
+/**
+ * Convert ciphertexts returned by getEncryptedTally into Ciphertext values
+ * @param ciphertexts Struct outputs with a and b
+ * @returns Ciphertexts
+ */
+export function toCiphertexts(
+	ciphertexts: ReadonlyArray<{a: {x: bigint; y: bigint}; b: {x: bigint; y: bigint}}>
+): Ciphertext[] {
+	return ciphertexts.map((ciphertext) => ({
+		a: toG1Point(ciphertext.a),
+		b: toG1Point(ciphertext.b),
+	}));
+}
+
+/**
+ * Encrypt a 0/1 vote with the given randomness
+ */
+function encrypt(vote: number, randomness: bigint, publicKey: G1Point): Ciphertext {
+	return {
+		a: mulPoint(G1_GENERATOR, randomness),
+		b: addPoints(mulPoint(G1_GENERATOR, BigInt(vote)), mulPoint(publicKey, randomness)),
+	};
+}
+
+/**
+ * Prove that a ciphertext encrypts vote (0 or 1): the other branch is simulated with a random
+ * challenge and response, and the challenges add up to the Fiat-Shamir challenge
+ */
+function proveBit(
+	ciphertext: Ciphertext,
+	vote: number,
+	randomness: bigint,
+	publicKey: G1Point,
+	contextHash: string,
+	index: number
+): BitProof {
+	const commitments: G1Point[][] = [[], []];
+	const challenges = [0n, 0n];
+	const responses = [0n, 0n];
+
+	// Simulated branch: a = z*G - c*a, b = z*H - c*(b - m*G)
+	const simulated = 1 - vote;
+	challenges[simulated] = randomScalar();
+	responses[simulated] = randomScalar();
+	commitments[simulated] = branchCommitments(ciphertext, simulated, challenges[simulated], responses[simulated], publicKey);
+
+	// Real branch: a = w*G, b = w*H
+	const nonce = randomScalar();
+	commitments[vote] = [mulPoint(G1_GENERATOR, nonce), mulPoint(publicKey, nonce)];
+
+	const challenge = hashToScalar(
+		["bytes32", "uint256", ...Array(14).fill("uint256")],
+		[
+			contextHash,
+			index,
+			...pointWords(publicKey),
+			...pointWords(ciphertext.a),
+			...pointWords(ciphertext.b),
+			...commitments[0].flatMap(pointWords),
+			...commitments[1].flatMap(pointWords),
+		]
+	);
+	challenges[vote] = mod(challenge - challenges[simulated], BN254_GROUP_ORDER);
+	responses[vote] = mod(nonce + challenges[vote] * randomness, BN254_GROUP_ORDER);
+
+	return {c0: challenges[0], c1: challenges[1], z0: responses[0], z1: responses[1]};
+}
+
+/**
+ * Commitments of a bit proof branch, as the verifier recomputes them
+ */
+function branchCommitments(
+	ciphertext: Ciphertext,
+	vote: number,
+	challenge: bigint,
+	response: bigint,
+	publicKey: G1Point
+): G1Point[] {
+	const shifted = vote === 1 ? subPoints(ciphertext.b, G1_GENERATOR) : ciphertext.b;
+	return [
+		subPoints(mulPoint(G1_GENERATOR, response), mulPoint(ciphertext.a, challenge)),
+		subPoints(mulPoint(publicKey, response), mulPoint(shifted, challenge)),
+	];
+}
+
+/**
+ * Prove x = k*base1 and y = k*base2 (Chaum-Pedersen)
+ */
+function proveEquality(
+	k: bigint,
+	x: G1Point,
+	y: G1Point,
+	base1: G1Point,
+	base2: G1Point,
+	contextHash: string
+): EqualityProof {
+	const nonce = randomScalar();
+	const t1 = mulPoint(base1, nonce);
+	const t2 = mulPoint(base2, nonce);
+	const c = hashToScalar(
+		["bytes32", ...Array(12).fill("uint256")],
+		[contextHash, ...[base1, base2, x, y, t1, t2].flatMap(pointWords)]
+	);
+	return {c, z: mod(nonce + c * k, BN254_GROUP_ORDER)};
+}
+
+/**
+ * Find count with count*G == point (baby-step giant-step up to maxCount)
+ */
+function discreteLog(point: G1Point, maxCount: bigint): bigint {
+	let step = 1n;
+	while (step * step < maxCount + 1n) step++;
+
+	const babySteps = new Map<string, bigint>();
+	let baby = INFINITY;
+	for (let j = 0n; j < step; j++) {
+		babySteps.set(pointKey(baby), j);
+		baby = addPoints(baby, G1_GENERATOR);
+	}
+
+	const giantStride = mulPoint(G1_GENERATOR, step);
+	let giant = point;
+	for (let i = 0n; i <= step; i++) {
+		const j = babySteps.get(pointKey(giant));
+		if (j !== undefined && i * step + j <= maxCount) {
+			return i * step + j;
+		}
+		giant = subPoints(giant, giantStride);
+	}
+	throw new Error(`Encrypted total is not a count between 0 and ${maxCount}`);
+}
+
+function pointKey(point: G1Point): string {
+	return `${point.x}:${point.y}`;
+}
+
+function pointWords(point: G1Point): bigint[] {
+	return [point.x, point.y];
+}
+
+function hashWords(types: string[], values: unknown[]): string {
+	return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(types, values));
+}
+
+function hashToScalar(types: string[], values: unknown[]): bigint {
+	return BigInt(hashWords(types, values)) % BN254_GROUP_ORDER;
+}
+
+function randomScalar(): bigint {
+	// 64 random bytes keep the reduction bias negligible
+	return BigInt(ethers.hexlify(ethers.randomBytes(64))) % BN254_GROUP_ORDER;
+}
+
+function mod(value: bigint, modulus: bigint): bigint {
+	const result = value % modulus;
+	return result < 0n ? result + modulus : result;
+}
+
+function invert(value: bigint): bigint {
+	let [a, b] = [mod(value, BN254_FIELD_MODULUS), BN254_FIELD_MODULUS];
+	let [x, y] = [1n, 0n];
+	while (b !== 0n) {
+		const q = a / b;
+		[a, b] = [b, a - q * b];
+		[x, y] = [y, x - q * y];
+	}
+	return mod(x, BN254_FIELD_MODULUS);
+}
+
+function isInfinity(point: G1Point): boolean {
+	return point.x === 0n && point.y === 0n;
+}
+
+function addPoints(p: G1Point, q: G1Point): G1Point {
+	if (isInfinity(p)) return q;
+	if (isInfinity(q)) return p;
+
+	let slope: bigint;
+	if (p.x === q.x) {
+		if (mod(p.y + q.y, BN254_FIELD_MODULUS) === 0n) return INFINITY;
+		slope = mod(3n * p.x * p.x * invert(2n * p.y), BN254_FIELD_MODULUS);
+	} else {
+		slope = mod((q.y - p.y) * invert(q.x - p.x), BN254_FIELD_MODULUS);
+	}
+	const x = mod(slope * slope - p.x - q.x, BN254_FIELD_MODULUS);
+	return {x, y: mod(slope * (p.x - x) - p.y, BN254_FIELD_MODULUS)};
+}
+
+function subPoints(p: G1Point, q: G1Point): G1Point {
+	if (isInfinity(q)) return p;
+	return addPoints(p, {x: q.x, y: BN254_FIELD_MODULUS - q.y});
+}
+
+function mulPoint(point: G1Point, scalar: bigint): G1Point {
+	let result = INFINITY;
+	let addend = point;
+	let k = mod(scalar, BN254_GROUP_ORDER);
+	while (k > 0n) {
+		if (k & 1n) result = addPoints(result, addend);
+		addend = addPoints(addend, addend);
+		k >>= 1n;
+	}
+	return result;
+}
@@ -0,0 +1,149 @@
+import {ethers} from "ethers";
+import type {NICWalletRegistry} from "../typechain-types";
+
+/**
+ * Default lifetime of a registration attestation, in seconds
+ */
+export const DEFAULT_ATTESTATION_TTL = 30 * 60;
+
+/**
+ * EIP-712 types of NICWalletRegistry.registerWalletWithAttestation attestations
+ */
+export const REGISTRATION_ATTESTATION_TYPES = {
+	RegistrationAttestation: [
+		{name: "nicHash", type: "bytes32"},
+		{name: "walletAddress", type: "address"},
+		{name: "nonce", type: "bytes32"},
+		{name: "expiry", type: "uint256"},
+	],
+};
+
+/**
+ * Identity issuer's statement that a NIC belongs to the holder of a wallet
+ */
+export interface RegistrationAttestation {
+	nicHash: string;
+	walletAddress: string;
+	/** Random single-use nonce (32-byte hex) */
+	nonce: string;
+	expiry: ethers.BigNumberish;
+}
+
+/**
+ * Attestation together with the issuer's signature
+ */
+export interface SignedRegistrationAttestation {
+	attestation: RegistrationAttestation;
+	signature: string;
+}
+
+/**
+ * Identity issuer service that attests NIC => wallet bindings for NICWalletRegistry
+ */
+export interface IdentityIssuer {
+	/** Address of the issuer's signing key (NICWalletRegistry.setIdentityIssuer) */
+	getAddress(): Promise<string>;
+	/**
+	 * Attest that the citizen with this NIC hash holds walletAddress
+	 * @param ttlSeconds Lifetime of the attestation (default: the issuer's TTL)
+	 */
+	attest(
+		nicHash: string,
+		walletAddress: string,
+		ttlSeconds?: number
+	): Promise<SignedRegistrationAttestation>;
+}
+
+/**
+ * Read the EIP-712 domain of a deployed registry
+ * @param registry NICWalletRegistry contract instance
+ * @returns Domain to sign attestations for (name, version, chainId, verifyingContract)
+ */
+export async function getRegistryDomain(
+	registry: NICWalletRegistry
+): Promise<ethers.TypedDataDomain> {
+	const [, name, version, chainId, verifyingContract] = await registry.eip712Domain();
+	return {name, version, chainId, verifyingContract};
+}
+
+/**
+ * Sign a registration attestation
+ * @param issuer Identity issuer's signing key
+ * @param domain Registry domain (getRegistryDomain)
+ * @param attestation Attestation to sign
+ * @returns EIP-712 signature
+ */
+export async function signRegistrationAttestation(
+	issuer: ethers.Signer,
+	domain: ethers.TypedDataDomain,
+	attestation: RegistrationAttestation
+): Promise<string> {
+	return issuer.signTypedData(domain, REGISTRATION_ATTESTATION_TYPES, attestation);
+}
+
+/**
+ * Create an identity issuer service for a registry
+ * @param issuer Signing key of an issuer authorized in the registry
+ * @param registry NICWalletRegistry contract instance (with a provider)
+ * @param ttlSeconds Default attestation lifetime (default: DEFAULT_ATTESTATION_TTL)
+ * @returns Identity issuer
+ * @note Only call attest after the citizen's identity and control of the wallet were checked:
+ * the attestation is all the registry needs to bind the NIC
+ */
+export function createIdentityIssuer(
+	issuer: ethers.Signer,
+	registry: NICWalletRegistry,
+	ttlSeconds: number = DEFAULT_ATTESTATION_TTL
+): IdentityIssuer {
+	let domain: ethers.TypedDataDomain | undefined;
+
+	return {
+		getAddress(): Promise<string> {
+			return issuer.getAddress();
+		},
+
+		async attest(
+			nicHash: string,
+			walletAddress: string,
+			attestationTTL: number = ttlSeconds
+		): Promise<SignedRegistrationAttestation> {
+			if (!Number.isInteger(attestationTTL) || attestationTTL <= 0) {
+				throw new Error("Attestation TTL must be a positive number of seconds");
+			}
+			domain = domain ?? (await getRegistryDomain(registry));
+
+			// Chain time, so attestations also work on forked/time-shifted nodes
+			const provider = registry.runner?.provider;
+			if (!provider) {
+				throw new Error("Registry is not connected to a provider");
+			}
+			const latestBlock = await provider.getBlock("latest");
+			if (!latestBlock) {
+				throw new Error("Could not read the latest block");
+			}
+			const attestation: RegistrationAttestation = {
+				nicHash,
+				walletAddress,
+				nonce: ethers.hexlify(ethers.randomBytes(32)),
+				expiry: latestBlock.timestamp + attestationTTL,
+			};
+			const signature = await signRegistrationAttestation(issuer, domain, attestation);
+			return {attestation, signature};
+		},
+	};
+}
+
+/**
+ * Arguments of NICWalletRegistry.registerWalletWithAttestation
+ * @param attestation Signed attestation (IdentityIssuer.attest)
+ * @returns [nicHash, walletAddress, nonce, expiry, signature]
+ */
+export function toRegistrationArgs({attestation, signature}: SignedRegistrationAttestation) {
+	return [
+		attestation.nicHash,
+		attestation.walletAddress,
+		attestation.nonce,
+		attestation.expiry,
+		signature,
+	] as const;
+}
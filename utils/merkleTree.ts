@@ -1,6 +1,59 @@
 import {ethers} from "ethers";
 import {MerkleTree} from "merkletreejs";
 import keccak256 from "keccak256";
+import * as fs from "fs";
+import * as path from "path";
+import type {NICWalletRegistry} from "../typechain-types";
+import {hashNIC} from "./nicHash";
+
+/**
+ * Version of the serialized voter tree format written by saveVoterMerkleTree
+ */
+export const VOTER_TREE_FILE_VERSION = 1;
+
+/**
+ * Hash scheme used for voter leaves and internal nodes
+ * leaf = keccak256(abi.encodePacked(registeredWallet, electionId)), nodes = keccak256(sorted pair)
+ */
+export const VOTER_TREE_HASH_SCHEME = "keccak256-packed-address-uint256-sorted-pairs";
+
+/**
+ * Hash scheme used for identity-commitment leaves (anonymous elections)
+ * leaf = keccak256(abi.encodePacked(identityCommitment, electionId)), nodes = keccak256(sorted pair)
+ */
+export const IDENTITY_TREE_HASH_SCHEME = "keccak256-packed-bytes32-uint256-sorted-pairs";
+
+/**
+ * Fixed depth of the Merkle path in the voting circuit (supports up to 2^25 voters)
+ * Must match MERKLE_DEPTH in circuits/voting-circuit/src/main.nr
+ */
+export const VOTER_TREE_DEPTH = 25;
+
+/**
+ * Largest candidate index / election ID the voting circuit accepts (circuit type u32)
+ * Both are hashed as 32-byte uint256 values, on-chain, in TypeScript and in the circuit
+ */
+export const CIRCUIT_MAX_UINT = 2 ** 32 - 1;
+
+/**
+ * BN254 scalar field modulus: hashes are reduced into it before they become circuit public inputs
+ * Must match SNARK_SCALAR_FIELD in ZK_ElectionContract
+ */
+export const SNARK_SCALAR_FIELD = BigInt(
+	"21888242871839275222246405745257275088548364400416034343698204186575808495617"
+);
+
+/**
+ * Serialized voter Merkle tree (JSON file contents)
+ */
+export interface SerializedVoterMerkleTree {
+	version: number;
+	hashScheme: string;
+	electionId: number;
+	root: string;
+	leaves: string[];
+	createdAt: string;
+}
 
 /**
  * Create a Merkle tree for eligible voters
@@ -13,6 +66,12 @@ export function createVoterMerkleTree(
 	voterAddresses: string[],
 	electionId: number
 ): {tree: MerkleTree; root: Buffer} {
+	if (voterAddresses.length > 2 ** VOTER_TREE_DEPTH) {
+		throw new Error(
+			`Too many voters for a depth-${VOTER_TREE_DEPTH} tree: ${voterAddresses.length}`
+		);
+	}
+
 	// Create leaves: hash(registeredWalletAddress, electionId)
 	// IMPORTANT: voterAddresses must be REGISTERED wallet addresses (from NIC)
 	const leaves = voterAddresses.map((address) => {
@@ -56,6 +115,132 @@ export function getMerkleProof(
 	return proof.map((p: any) => "0x" + p.data.toString("hex"));
 }
 
+/**
+ * Create a Merkle tree of identity commitments (anonymous elections)
+ * @param identityCommitments Identity commitments registered in NICWalletRegistry
+ * @param electionId Election ID
+ * @returns Merkle tree and root hash
+ * @note Leaves never reveal a wallet or NIC: eligibility is proven inside the circuit
+ * (ZK_ElectionContract.castAnonymousVote)
+ */
+export function createIdentityMerkleTree(
+	identityCommitments: string[],
+	electionId: number
+): {tree: MerkleTree; root: Buffer} {
+	if (identityCommitments.length > 2 ** VOTER_TREE_DEPTH) {
+		throw new Error(
+			`Too many voters for a depth-${VOTER_TREE_DEPTH} tree: ${identityCommitments.length}`
+		);
+	}
+
+	const leaves = identityCommitments.map((commitment) =>
+		getIdentityLeaf(commitment, electionId)
+	);
+	const tree = new MerkleTree(leaves, keccak256, {sortPairs: true});
+
+	return {
+		tree,
+		root: tree.getRoot(),
+	};
+}
+
+/**
+ * Compute the leaf of an identity commitment
+ * @param identityCommitment Identity commitment
+ * @param electionId Election ID
+ * @returns keccak256(abi.encodePacked(identityCommitment, uint256(electionId)))
+ */
+function getIdentityLeaf(identityCommitment: string, electionId: number): Buffer {
+	return keccak256(
+		ethers.solidityPacked(["bytes32", "uint256"], [identityCommitment, electionId])
+	);
+}
+
+/**
+ * Get the fixed-depth Merkle path expected by the voting circuit
+ * @param tree Merkle tree instance
+ * @param registeredWalletAddress Voter's REGISTERED wallet address (from NIC, not temporary wallet)
+ * @param electionId Election ID
+ * @param depth Circuit tree depth (default: VOTER_TREE_DEPTH)
+ * @returns Sibling hashes (zero-padded) and whether each level has a sibling
+ * @note merkletreejs promotes an odd last node without hashing, so that level has no sibling
+ */
+export function getCircuitMerklePath(
+	tree: MerkleTree,
+	registeredWalletAddress: string,
+	electionId: number,
+	depth: number = VOTER_TREE_DEPTH
+): {path: string[]; pathPresent: boolean[]} {
+	const leaf = keccak256(
+		ethers.solidityPacked(
+			["address", "uint256"],
+			[registeredWalletAddress, electionId]
+		)
+	);
+	if (tree.getLeafIndex(leaf) === -1) {
+		throw new Error(`Wallet ${registeredWalletAddress} is not in the voter tree`);
+	}
+	return getCircuitMerklePathForLeaf(tree, leaf, depth);
+}
+
+/**
+ * Get the fixed-depth Merkle path of an identity commitment (anonymous elections)
+ * @param tree Identity Merkle tree (from createIdentityMerkleTree)
+ * @param identityCommitment Voter's identity commitment (computeIdentityCommitment)
+ * @param electionId Election ID
+ * @param depth Circuit tree depth (default: VOTER_TREE_DEPTH)
+ * @returns Sibling hashes (zero-padded) and whether each level has a sibling
+ */
+export function getIdentityCircuitMerklePath(
+	tree: MerkleTree,
+	identityCommitment: string,
+	electionId: number,
+	depth: number = VOTER_TREE_DEPTH
+): {path: string[]; pathPresent: boolean[]} {
+	const leaf = getIdentityLeaf(identityCommitment, electionId);
+	if (tree.getLeafIndex(leaf) === -1) {
+		throw new Error(`Identity commitment ${identityCommitment} is not in the voter tree`);
+	}
+	return getCircuitMerklePathForLeaf(tree, leaf, depth);
+}
+
+/**
+ * Walk a leaf up to the root, collecting one (possibly absent) sibling per circuit level
+ * @param tree Merkle tree instance
+ * @param leaf Leaf hash (must be in the tree)
+ * @param depth Circuit tree depth
+ * @returns Sibling hashes (zero-padded) and whether each level has a sibling
+ */
+function getCircuitMerklePathForLeaf(
+	tree: MerkleTree,
+	leaf: Buffer,
+	depth: number
+): {path: string[]; pathPresent: boolean[]} {
+	let index = tree.getLeafIndex(leaf);
+
+	const layers = tree.getLayers();
+	if (layers.length - 1 > depth) {
+		throw new Error(`Voter tree is deeper than the circuit depth (${depth})`);
+	}
+
+	const path: string[] = [];
+	const pathPresent: boolean[] = [];
+	for (let level = 0; level < depth; level++) {
+		const layer = layers[level];
+		const siblingIndex = index ^ 1;
+		if (level < layers.length - 1 && siblingIndex < layer.length) {
+			path.push("0x" + layer[siblingIndex].toString("hex"));
+			pathPresent.push(true);
+		} else {
+			path.push(ethers.ZeroHash);
+			pathPresent.push(false);
+		}
+		index = Math.floor(index / 2);
+	}
+
+	return {path, pathPresent};
+}
+
 /**
  * Verify Merkle proof
  * @param root Merkle root
@@ -72,70 +257,260 @@ export function verifyMerkleProof(
 }
 
 /**
- * Generate voter secret from NIC number
- * @param nic NIC number
+ * Serialize a voter Merkle tree for an election
+ * @param tree Merkle tree instance (from createVoterMerkleTree or createIdentityMerkleTree)
+ * @param electionId Election ID the tree was built for
+ * @param hashScheme Leaf scheme (VOTER_TREE_HASH_SCHEME or IDENTITY_TREE_HASH_SCHEME)
+ * @returns Serializable tree data (root, leaves, electionId, hash scheme)
+ */
+export function serializeVoterMerkleTree(
+	tree: MerkleTree,
+	electionId: number,
+	hashScheme: string = VOTER_TREE_HASH_SCHEME
+): SerializedVoterMerkleTree {
+	return {
+		version: VOTER_TREE_FILE_VERSION,
+		hashScheme,
+		electionId,
+		root: tree.getHexRoot(),
+		leaves: tree.getHexLeaves(),
+		createdAt: new Date().toISOString(),
+	};
+}
+
+/**
+ * Rebuild a voter Merkle tree from serialized data
+ * @param data Serialized tree data
+ * @returns Merkle tree, root hash, election ID and hash scheme
+ * @note Throws if the version or hash scheme is unsupported, or if the rebuilt root does not match
+ */
+export function deserializeVoterMerkleTree(data: SerializedVoterMerkleTree): {
+	tree: MerkleTree;
+	root: Buffer;
+	electionId: number;
+	hashScheme: string;
+} {
+	if (data.version !== VOTER_TREE_FILE_VERSION) {
+		throw new Error(`Unsupported voter tree version: ${data.version}`);
+	}
+	if (
+		data.hashScheme !== VOTER_TREE_HASH_SCHEME &&
+		data.hashScheme !== IDENTITY_TREE_HASH_SCHEME
+	) {
+		throw new Error(`Unsupported voter tree hash scheme: ${data.hashScheme}`);
+	}
+
+	// Leaves are already hashed, so they are used as-is (same order as when exported)
+	const leaves = data.leaves.map((leaf) => Buffer.from(leaf.slice(2), "hex"));
+	const tree = new MerkleTree(leaves, keccak256, {sortPairs: true});
+
+	if (tree.getHexRoot().toLowerCase() !== data.root.toLowerCase()) {
+		throw new Error(
+			`Voter tree root mismatch: stored ${data.root}, rebuilt ${tree.getHexRoot()}`
+		);
+	}
+
+	return {
+		tree,
+		root: tree.getRoot(),
+		electionId: data.electionId,
+		hashScheme: data.hashScheme,
+	};
+}
+
+/**
+ * Get the default file path for an election's voter tree
  * @param electionId Election ID
- * @returns Secret hash
+ * @param directory Directory holding voter tree files (default: voter-trees/ at the project root)
+ * @returns Path to the JSON file
  */
-export function generateVoterSecret(nic: string, electionId: number): string {
-	return ethers.keccak256(
-		ethers.solidityPacked(["string", "uint256"], [nic, electionId])
-	);
+export function getVoterMerkleTreePath(
+	electionId: number,
+	directory: string = path.join(__dirname, "..", "voter-trees")
+): string {
+	return path.join(directory, `election-${electionId}.json`);
+}
+
+/**
+ * Save a voter Merkle tree to a versioned JSON file
+ * @param tree Merkle tree instance (from createVoterMerkleTree or createIdentityMerkleTree)
+ * @param electionId Election ID the tree was built for
+ * @param filePath Output file (default: getVoterMerkleTreePath(electionId))
+ * @param hashScheme Leaf scheme (default: VOTER_TREE_HASH_SCHEME)
+ * @returns Path the file was written to
+ */
+export function saveVoterMerkleTree(
+	tree: MerkleTree,
+	electionId: number,
+	filePath: string = getVoterMerkleTreePath(electionId),
+	hashScheme: string = VOTER_TREE_HASH_SCHEME
+): string {
+	const data = serializeVoterMerkleTree(tree, electionId, hashScheme);
+	fs.mkdirSync(path.dirname(filePath), {recursive: true});
+	fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+	return filePath;
+}
+
+/**
+ * Load a voter Merkle tree from a JSON file written by saveVoterMerkleTree
+ * @param filePath Path to the JSON file
+ * @returns Merkle tree, root hash, election ID and hash scheme (usable with getMerkleProof)
+ */
+export function loadVoterMerkleTree(filePath: string): {
+	tree: MerkleTree;
+	root: Buffer;
+	electionId: number;
+	hashScheme: string;
+} {
+	const data = JSON.parse(
+		fs.readFileSync(filePath, "utf8")
+	) as SerializedVoterMerkleTree;
+	return deserializeVoterMerkleTree(data);
 }
 
 /**
- * Compute vote commitment
- * @param voterSecret Voter's secret
- * @param candidateIndex Candidate index
- * @param randomness Random value
+ * Compute the difference between two voter rolls
+ * @param previousVoters Registered wallet addresses in the published roll
+ * @param updatedVoters Registered wallet addresses in the new roll
+ * @returns Addresses added to and removed from the roll (checksummed)
+ * @note Addresses are compared case-insensitively
+ */
+export function diffVoterRolls(
+	previousVoters: string[],
+	updatedVoters: string[]
+): {added: string[]; removed: string[]} {
+	const previous = new Set(previousVoters.map((a) => ethers.getAddress(a)));
+	const updated = new Set(updatedVoters.map((a) => ethers.getAddress(a)));
+
+	return {
+		added: [...updated].filter((address) => !previous.has(address)),
+		removed: [...previous].filter((address) => !updated.has(address)),
+	};
+}
+
+/**
+ * Apply additions and removals to a voter roll and build the new Merkle tree
+ * @param previousVoters Registered wallet addresses in the published roll
+ * @param changes Addresses to add (late registrations) and remove (e.g. court-ordered)
  * @param electionId Election ID
- * @returns Commitment hash
+ * @returns Updated voter list, its Merkle tree and the new root to publish
+ * @note Existing voters keep their order and additions are appended, so unchanged leaves keep their position
  */
-export function computeCommitment(
-	voterSecret: string,
-	candidateIndex: number,
-	randomness: string,
+export function updateVoterMerkleTree(
+	previousVoters: string[],
+	changes: {added?: string[]; removed?: string[]},
 	electionId: number
-): string {
-	return ethers.keccak256(
-		ethers.solidityPacked(
-			["bytes32", "uint256", "bytes32", "uint256"],
-			[voterSecret, candidateIndex, randomness, electionId]
-		)
-	);
+): {voterAddresses: string[]; tree: MerkleTree; root: Buffer} {
+	const removed = new Set((changes.removed ?? []).map((a) => ethers.getAddress(a)));
+	const voterAddresses = previousVoters
+		.map((a) => ethers.getAddress(a))
+		.filter((address) => !removed.has(address));
+
+	for (const address of changes.added ?? []) {
+		const checksummed = ethers.getAddress(address);
+		if (!removed.has(checksummed) && !voterAddresses.includes(checksummed)) {
+			voterAddresses.push(checksummed);
+		}
+	}
+
+	if (voterAddresses.length === 0) {
+		throw new Error("Updated voter roll is empty");
+	}
+
+	const {tree, root} = createVoterMerkleTree(voterAddresses, electionId);
+	return {voterAddresses, tree, root};
+}
+
+/**
+ * Generate a random voter secret for a wallet election vote
+ * @returns 32-byte secret the vote's nullifier is derived from (keep it private)
+ * @note It is random rather than derived from the NIC, which is not secret, so the nullifier
+ * cannot be recomputed from a voter's NIC. A fresh secret per vote is fine: ZK_ElectionContract
+ * limits each registered wallet to one vote (hasVoted)
+ */
+export function generateVoterSecret(): string {
+	return ethers.hexlify(ethers.randomBytes(32));
+}
+
+/**
+ * Generate a random identity secret for anonymous elections
+ * @returns 32-byte secret (keep it private: it proves eligibility and derives nullifiers)
+ * @note Unlike a wallet election's voter secret, it is committed to in the identity tree, so it
+ * must be kept for the whole election: it is the only way to vote
+ */
+export function generateIdentitySecret(): string {
+	return ethers.hexlify(ethers.randomBytes(32));
+}
+
+/**
+ * Compute the identity commitment registered in NICWalletRegistry
+ * @param identitySecret Voter's identity secret (from generateIdentitySecret)
+ * @returns keccak256(identitySecret), the same hash compute_identity_leaf builds in the voting circuit
+ */
+export function computeIdentityCommitment(identitySecret: string): string {
+	return ethers.keccak256(identitySecret);
 }
 
 /**
  * Compute nullifier hash (prevents double voting)
- * @param voterSecret Voter's secret (generated from NIC)
+ * @param voterSecret Voter's secret (generateVoterSecret, or the identity secret in anonymous elections)
  * @param electionId Election ID
- * @returns Nullifier hash
+ * @returns Nullifier hash (reduced into the SNARK scalar field)
+ * @note nullifier = keccak256(voterSecret || uint256(electionId)) mod p, the same 64-byte preimage
+ * verify_nullifier builds in the voting circuit
  */
 export function computeNullifier(
 	voterSecret: string,
 	electionId: number
 ): string {
-	return ethers.keccak256(
-		ethers.solidityPacked(["bytes32", "uint256"], [voterSecret, electionId])
+	assertCircuitUint("electionId", electionId);
+	return toFieldElement(
+		ethers.keccak256(
+			ethers.solidityPacked(["bytes32", "uint256"], [voterSecret, electionId])
+		)
 	);
 }
 
+/**
+ * Reduce a 32-byte hash into the SNARK scalar field
+ * @param hash 32-byte hash (e.g. a keccak256 output or Merkle root)
+ * @returns Field element as 32-byte hex (uint256(hash) % SNARK_SCALAR_FIELD on-chain)
+ */
+export function toFieldElement(hash: ethers.BytesLike): string {
+	return ethers.toBeHex(BigInt(ethers.hexlify(hash)) % SNARK_SCALAR_FIELD, 32);
+}
+
+/**
+ * Check that a value can be used as a u32 input of the voting circuit
+ * @param name Input name (for the error message)
+ * @param value Value to check
+ */
+function assertCircuitUint(name: string, value: number): void {
+	if (!Number.isInteger(value) || value < 0 || value > CIRCUIT_MAX_UINT) {
+		throw new Error(`${name} must be an integer between 0 and ${CIRCUIT_MAX_UINT}`);
+	}
+}
+
 /**
  * Get registered wallet addresses from NIC numbers
  * @param nicNumbers Array of NIC numbers
  * @param registryContract NICWalletRegistry contract instance
+ * @param nicHashSalt NIC hash salt of the deployment (optional; without it the deprecated plaintext lookup is used)
  * @returns Array of registered wallet addresses
  * @note Helper function to get registered wallets for Merkle tree creation
  */
 export async function getRegisteredWalletsFromNICs(
 	nicNumbers: string[],
-	registryContract: any
+	registryContract: NICWalletRegistry,
+	nicHashSalt?: ethers.BytesLike
 ): Promise<string[]> {
 	const registeredWallets: string[] = [];
 
 	for (const nic of nicNumbers) {
 		try {
-			const wallet = await registryContract.getWalletByNIC(nic);
+			const wallet = nicHashSalt
+				? await registryContract.getWalletByNICHash(hashNIC(nic, nicHashSalt))
+				: await registryContract.getWalletByNIC(nic);
 			if (wallet && wallet !== ethers.ZeroAddress) {
 				registeredWallets.push(wallet);
 			}
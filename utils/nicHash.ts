@@ -0,0 +1,82 @@
+import {ethers} from "ethers";
+
+/**
+ * Environment variable holding the deployment's NIC hash salt
+ */
+export const NIC_HASH_SALT_ENV = "NIC_HASH_SALT";
+
+/**
+ * Hash a NIC number with the deployment's salt
+ * @param nicNumber NIC number, exactly as issued
+ * @param salt 32-byte salt shared by the registrar and the voting clients of a deployment
+ * @returns keccak256(abi.encodePacked(nicNumber, salt))
+ * @note This is the hash passed to the NICWalletRegistry/ZK_ElectionContract *ByHash functions.
+ * NICs are short and structured, so without a secret salt the hash could be reversed by
+ * enumerating NIC numbers; keep the salt off-chain and out of the repository.
+ */
+export function hashNIC(nicNumber: string, salt: ethers.BytesLike): string {
+	if (ethers.dataLength(salt) !== 32) {
+		throw new Error("NIC hash salt must be 32 bytes");
+	}
+	return ethers.keccak256(
+		ethers.solidityPacked(["string", "bytes32"], [nicNumber, salt])
+	);
+}
+
+/**
+ * Compute the NIC hash used by the plaintext-NIC registry functions
+ * @param nicNumber NIC number, exactly as registered
+ * @param chainId Chain the registry is deployed on
+ * @returns keccak256(abi.encodePacked(nicNumber, chainId))
+ * @note Only needed to migrate registrations made before the salted hash was introduced
+ */
+export function computeLegacyNICHash(
+	nicNumber: string,
+	chainId: ethers.BigNumberish
+): string {
+	return ethers.keccak256(
+		ethers.solidityPacked(["string", "uint256"], [nicNumber, chainId])
+	);
+}
+
+/**
+ * Generate a new random NIC hash salt for a deployment
+ * @returns 32-byte salt (hex string)
+ */
+export function generateNICHashSalt(): string {
+	return ethers.hexlify(ethers.randomBytes(32));
+}
+
+/**
+ * Read the NIC hash salt from the environment
+ * @param env Environment to read from (default: process.env)
+ * @returns 32-byte salt (hex string)
+ */
+export function getNICHashSalt(env: NodeJS.ProcessEnv = process.env): string {
+	const salt = env[NIC_HASH_SALT_ENV];
+	if (!salt) {
+		throw new Error(`${NIC_HASH_SALT_ENV} not provided`);
+	}
+	if (!ethers.isHexString(salt, 32)) {
+		throw new Error(`${NIC_HASH_SALT_ENV} must be a 32-byte hex string`);
+	}
+	return salt;
+}
+
+/**
+ * Build the arguments of NICWalletRegistry.migrateNicHashes
+ * @param nicNumbers NIC numbers to migrate, exactly as registered
+ * @param salt NIC hash salt of the deployment
+ * @param chainId Chain the registry is deployed on
+ * @returns Legacy and salted hashes, in the same order as nicNumbers
+ */
+export function buildNICHashMigration(
+	nicNumbers: string[],
+	salt: ethers.BytesLike,
+	chainId: ethers.BigNumberish
+): {legacyNicHashes: string[]; nicHashes: string[]} {
+	return {
+		legacyNicHashes: nicNumbers.map((nic) => computeLegacyNICHash(nic, chainId)),
+		nicHashes: nicNumbers.map((nic) => hashNIC(nic, salt)),
+	};
+}
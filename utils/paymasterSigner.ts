@@ -0,0 +1,390 @@
+import {ethers} from "ethers";
+
+/**
+ * Default lifetime of a signed paymaster request, in seconds
+ */
+export const DEFAULT_SIGNATURE_TTL = 15 * 60;
+
+/**
+ * Environment variable overriding DEFAULT_SIGNATURE_TTL
+ */
+export const SIGNATURE_TTL_ENV = "PAYMASTER_SIGNATURE_TTL";
+
+/**
+ * EIP-712 types of NICPaymaster.executeMetaTransaction requests
+ */
+export const META_TRANSACTION_TYPES = {
+	MetaTransaction: [
+		{name: "user", type: "address"},
+		{name: "target", type: "address"},
+		{name: "value", type: "uint256"},
+		{name: "data", type: "bytes"},
+		{name: "nonce", type: "uint256"},
+		{name: "validAfter", type: "uint256"},
+		{name: "validUntil", type: "uint256"},
+	],
+};
+
+/**
+ * EIP-712 types of NICPaymaster temporary-wallet requests
+ * (executeTemporaryWalletTransaction / executeGaslessTemporaryTransaction)
+ */
+export const TEMPORARY_WALLET_TRANSACTION_TYPES = {
+	TemporaryWalletTransaction: [
+		{name: "originalWallet", type: "address"},
+		{name: "temporaryWallet", type: "address"},
+		{name: "target", type: "address"},
+		{name: "value", type: "uint256"},
+		{name: "data", type: "bytes"},
+		{name: "nonce", type: "uint256"},
+		{name: "validAfter", type: "uint256"},
+		{name: "validUntil", type: "uint256"},
+	],
+};
+
+/**
+ * Meta-transaction signed by a registered wallet
+ */
+export interface MetaTransactionRequest {
+	user: string;
+	target: string;
+	value: ethers.BigNumberish;
+	data: ethers.BytesLike;
+	nonce: ethers.BigNumberish;
+	validAfter: ethers.BigNumberish;
+	validUntil: ethers.BigNumberish;
+}
+
+/**
+ * Transaction signed by a temporary (session) wallet on behalf of a registered wallet
+ */
+export interface TemporaryWalletTransactionRequest {
+	originalWallet: string;
+	temporaryWallet: string;
+	target: string;
+	value: ethers.BigNumberish;
+	data: ethers.BytesLike;
+	nonce: ethers.BigNumberish;
+	validAfter: ethers.BigNumberish;
+	validUntil: ethers.BigNumberish;
+}
+
+/**
+ * Paymaster that signs requests as EIP-712 typed data (EIP-5267 domain)
+ */
+export interface EIP712Paymaster {
+	readonly runner: ethers.ContractRunner | null;
+	eip712Domain(): Promise<[string, string, string, bigint, string, string, bigint[]]>;
+}
+
+/**
+ * NICPaymaster methods read to build a signed request
+ */
+export interface NICPaymasterSigningTarget extends EIP712Paymaster {
+	getNonce(user: string): Promise<bigint>;
+	getTempWalletNonce(temporaryWallet: string): Promise<bigint>;
+}
+
+/**
+ * PolygonPaymaster methods read to build a signed request
+ */
+export interface PolygonPaymasterSigningTarget {
+	readonly runner: ethers.ContractRunner | null;
+	getAddress(): Promise<string>;
+	getNonce(user: string): Promise<bigint>;
+}
+
+/**
+ * Read the EIP-712 domain of a deployed paymaster
+ * @param paymaster NICPaymaster contract instance
+ * @returns Domain to sign requests for (name, version, chainId, verifyingContract)
+ * @note Read from the contract (EIP-5267) so the signature always matches the deployment
+ */
+export async function getPaymasterDomain(
+	paymaster: EIP712Paymaster
+): Promise<ethers.TypedDataDomain> {
+	const [, name, version, chainId, verifyingContract] = await paymaster.eip712Domain();
+	return {name, version, chainId, verifyingContract};
+}
+
+/**
+ * Time window in which a signed request can be executed
+ */
+export interface ValidityWindow {
+	validAfter: number;
+	validUntil: number;
+}
+
+/**
+ * Options for the validity window of a new request
+ */
+export interface ValidityOptions {
+	/** Lifetime of the signature in seconds (default: getSignatureTTL()) */
+	ttlSeconds?: number;
+	/** Timestamp before which the request is not accepted (default: 0, no lower bound) */
+	validAfter?: number;
+}
+
+/**
+ * Read the signature lifetime from the environment
+ * @param env Environment to read from (default: process.env)
+ * @returns PAYMASTER_SIGNATURE_TTL in seconds, or DEFAULT_SIGNATURE_TTL if not set
+ */
+export function getSignatureTTL(env: NodeJS.ProcessEnv = process.env): number {
+	const ttl = env[SIGNATURE_TTL_ENV];
+	if (!ttl) {
+		return DEFAULT_SIGNATURE_TTL;
+	}
+	const ttlSeconds = Number(ttl);
+	if (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0) {
+		throw new Error(`${SIGNATURE_TTL_ENV} must be a positive number of seconds`);
+	}
+	return ttlSeconds;
+}
+
+/**
+ * Provider of a paymaster contract instance
+ */
+function getPaymasterProvider(paymaster: {runner: ethers.ContractRunner | null}): ethers.Provider {
+	const provider = paymaster.runner?.provider;
+	if (!provider) {
+		throw new Error("Paymaster is not connected to a provider");
+	}
+	return provider;
+}
+
+/**
+ * Compute the validity window of a new request from the latest block
+ * @param provider Provider of the paymaster's chain
+ * @param options TTL and optional start of the window
+ * @returns validAfter and validUntil timestamps in seconds
+ * @note Uses chain time rather than the local clock, so it also works on forked/time-shifted nodes
+ */
+export async function getValidityWindow(
+	provider: ethers.Provider,
+	options: ValidityOptions = {}
+): Promise<ValidityWindow> {
+	const latestBlock = await provider.getBlock("latest");
+	if (!latestBlock) {
+		throw new Error("Could not read the latest block");
+	}
+	const validAfter = options.validAfter ?? 0;
+	const ttlSeconds = options.ttlSeconds ?? getSignatureTTL();
+	return {
+		validAfter,
+		validUntil: Math.max(latestBlock.timestamp, validAfter) + ttlSeconds,
+	};
+}
+
+/**
+ * Sign a meta-transaction for NICPaymaster.executeMetaTransaction
+ * @param signer Registered wallet (request.user, or the signer its ERC-1271 check accepts)
+ * @param domain Paymaster domain (getPaymasterDomain)
+ * @param request Request to sign
+ * @returns EIP-712 signature
+ */
+export async function signMetaTransaction(
+	signer: ethers.Signer,
+	domain: ethers.TypedDataDomain,
+	request: MetaTransactionRequest
+): Promise<string> {
+	return signer.signTypedData(domain, META_TRANSACTION_TYPES, request);
+}
+
+/**
+ * Sign a temporary-wallet transaction for NICPaymaster
+ * @param signer Temporary wallet (request.temporaryWallet, or the signer its ERC-1271 check accepts)
+ * @param domain Paymaster domain (getPaymasterDomain)
+ * @param request Request to sign
+ * @returns EIP-712 signature
+ */
+export async function signTemporaryWalletTransaction(
+	signer: ethers.Signer,
+	domain: ethers.TypedDataDomain,
+	request: TemporaryWalletTransactionRequest
+): Promise<string> {
+	return signer.signTypedData(domain, TEMPORARY_WALLET_TRANSACTION_TYPES, request);
+}
+
+/**
+ * Build and sign a temporary-wallet transaction with the paymaster's current nonce
+ * @param paymaster NICPaymaster contract instance
+ * @param temporaryWallet Temporary wallet signer (or the owner of a contract temporary wallet)
+ * @param call Registered wallet, target and call data (value defaults to 0); set temporaryWallet
+ * when the session key is an ERC-1271 contract wallet that the signer controls
+ * @param options Validity window of the request (default: the next getSignatureTTL() seconds)
+ * @returns The signed request and its signature
+ * @note Pass request fields and signature to executeGaslessTemporaryTransaction
+ * (see toTemporaryWalletTransactionArgs)
+ */
+export async function createTemporaryWalletTransaction(
+	paymaster: NICPaymasterSigningTarget,
+	temporaryWallet: ethers.Signer,
+	call: {
+		originalWallet: string;
+		target: string;
+		data: ethers.BytesLike;
+		value?: ethers.BigNumberish;
+		temporaryWallet?: string;
+	},
+	options: ValidityOptions = {}
+): Promise<{request: TemporaryWalletTransactionRequest; signature: string}> {
+	const temporaryWalletAddress =
+		call.temporaryWallet ?? (await temporaryWallet.getAddress());
+	const request: TemporaryWalletTransactionRequest = {
+		originalWallet: call.originalWallet,
+		temporaryWallet: temporaryWalletAddress,
+		target: call.target,
+		value: call.value ?? 0,
+		data: call.data,
+		nonce: await paymaster.getTempWalletNonce(temporaryWalletAddress),
+		...(await getValidityWindow(getPaymasterProvider(paymaster), options)),
+	};
+	const signature = await signTemporaryWalletTransaction(
+		temporaryWallet,
+		await getPaymasterDomain(paymaster),
+		request
+	);
+	return {request, signature};
+}
+
+/**
+ * Build and sign a meta-transaction with the paymaster's current nonce
+ * @param paymaster NICPaymaster contract instance
+ * @param user Registered wallet signer (or the owner of a contract registered wallet)
+ * @param call Target and call data (value defaults to 0); set user when the registered wallet
+ * is an ERC-1271 contract wallet (multisig, smart account) that the signer controls
+ * @param options Validity window of the request (default: the next getSignatureTTL() seconds)
+ * @returns The signed request and its signature
+ */
+export async function createMetaTransaction(
+	paymaster: NICPaymasterSigningTarget,
+	user: ethers.Signer,
+	call: {
+		target: string;
+		data: ethers.BytesLike;
+		value?: ethers.BigNumberish;
+		user?: string;
+	},
+	options: ValidityOptions = {}
+): Promise<{request: MetaTransactionRequest; signature: string}> {
+	const userAddress = call.user ?? (await user.getAddress());
+	const request: MetaTransactionRequest = {
+		user: userAddress,
+		target: call.target,
+		value: call.value ?? 0,
+		data: call.data,
+		nonce: await paymaster.getNonce(userAddress),
+		...(await getValidityWindow(getPaymasterProvider(paymaster), options)),
+	};
+	const signature = await signMetaTransaction(
+		user,
+		await getPaymasterDomain(paymaster),
+		request
+	);
+	return {request, signature};
+}
+
+/**
+ * Arguments of executeTemporaryWalletTransaction / executeGaslessTemporaryTransaction
+ * @param request Signed request
+ * @param signature Signature of the temporary wallet
+ * @returns [originalWallet, temporaryWallet, target, value, data, validAfter, validUntil, signature]
+ */
+export function toTemporaryWalletTransactionArgs(
+	request: TemporaryWalletTransactionRequest,
+	signature: string
+) {
+	return [
+		request.originalWallet,
+		request.temporaryWallet,
+		request.target,
+		request.value,
+		request.data,
+		request.validAfter,
+		request.validUntil,
+		signature,
+	] as const;
+}
+
+/**
+ * Arguments of executeMetaTransaction
+ * @param request Signed request
+ * @param signature Signature of the registered wallet
+ * @returns [user, target, value, data, validAfter, validUntil, signature]
+ */
+export function toMetaTransactionArgs(
+	request: MetaTransactionRequest,
+	signature: string
+) {
+	return [
+		request.user,
+		request.target,
+		request.value,
+		request.data,
+		request.validAfter,
+		request.validUntil,
+		signature,
+	] as const;
+}
+
+/**
+ * Sign a meta-transaction for PolygonPaymaster
+ * @param signer User wallet (must be request.user)
+ * @param paymasterAddress Address of the PolygonPaymaster
+ * @param request Request to sign (data is the full call data, including the user for *WithUser)
+ * @returns personal_sign signature of the packed request
+ * @note PolygonPaymaster hashes keccak256(abi.encodePacked(user, target, value, data, nonce,
+ * validAfter, validUntil, paymaster)) rather than EIP-712 typed data
+ */
+export async function signPolygonMetaTransaction(
+	signer: ethers.Signer,
+	paymasterAddress: string,
+	request: MetaTransactionRequest
+): Promise<string> {
+	const messageHash = ethers.solidityPackedKeccak256(
+		["address", "address", "uint256", "bytes", "uint256", "uint256", "uint256", "address"],
+		[
+			request.user,
+			request.target,
+			request.value,
+			request.data,
+			request.nonce,
+			request.validAfter,
+			request.validUntil,
+			paymasterAddress,
+		]
+	);
+	return signer.signMessage(ethers.getBytes(messageHash));
+}
+
+/**
+ * Build and sign a PolygonPaymaster meta-transaction with the paymaster's current nonce
+ * @param paymaster PolygonPaymaster contract instance
+ * @param user User wallet signer
+ * @param call Target and call data (value defaults to 0)
+ * @param options Validity window of the request (default: the next getSignatureTTL() seconds)
+ * @returns The signed request and its signature
+ */
+export async function createPolygonMetaTransaction(
+	paymaster: PolygonPaymasterSigningTarget,
+	user: ethers.Signer,
+	call: {target: string; data: ethers.BytesLike; value?: ethers.BigNumberish},
+	options: ValidityOptions = {}
+): Promise<{request: MetaTransactionRequest; signature: string}> {
+	const userAddress = await user.getAddress();
+	const request: MetaTransactionRequest = {
+		user: userAddress,
+		target: call.target,
+		value: call.value ?? 0,
+		data: call.data,
+		nonce: await paymaster.getNonce(userAddress),
+		...(await getValidityWindow(getPaymasterProvider(paymaster), options)),
+	};
+	const signature = await signPolygonMetaTransaction(
+		user,
+		await paymaster.getAddress(),
+		request
+	);
+	return {request, signature};
+}
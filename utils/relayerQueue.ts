@@ -0,0 +1,179 @@
+import {ethers} from "ethers";
+import type {NICPaymaster} from "../typechain-types";
+import type {TemporaryWalletTransactionRequest} from "./paymasterSigner";
+
+/**
+ * Default number of requests sent in one executeBatch transaction
+ */
+export const DEFAULT_MAX_BATCH_SIZE = 20;
+
+/**
+ * Temporary-wallet request together with its signature (createTemporaryWalletTransaction)
+ */
+export interface SignedTemporaryWalletTransaction {
+	request: TemporaryWalletTransactionRequest;
+	signature: string;
+}
+
+/**
+ * Outcome of one queued request after its batch was mined
+ */
+export interface BatchItemResult extends SignedTemporaryWalletTransaction {
+	/** False when the paymaster rejected the request (expired, bad signature, no session) */
+	executed: boolean;
+	/** True when the request was executed and the target call succeeded */
+	success: boolean;
+	/** Return data of the target call, or the revert reason of a rejected request */
+	returnData: string;
+	transactionHash: string;
+}
+
+/**
+ * Relayer queue that packs signed temporary-wallet requests into executeBatch calls
+ */
+export interface RelayerQueue {
+	enqueue(item: SignedTemporaryWalletTransaction): void;
+	size(): number;
+	flush(): Promise<BatchItemResult[]>;
+}
+
+/**
+ * Encode a signed request as a NICPaymaster.TemporaryWalletRequest struct
+ * @param item Signed request
+ * @returns Struct value for executeBatch
+ */
+export function toBatchRequest(item: SignedTemporaryWalletTransaction) {
+	const {request, signature} = item;
+	return {
+		originalWallet: request.originalWallet,
+		temporaryWallet: request.temporaryWallet,
+		target: request.target,
+		value: request.value,
+		data: request.data,
+		validAfter: request.validAfter,
+		validUntil: request.validUntil,
+		signature,
+	};
+}
+
+/**
+ * Split signed requests into executeBatch-sized batches
+ * @param items Signed requests
+ * @param maxBatchSize Maximum requests per batch (default: DEFAULT_MAX_BATCH_SIZE)
+ * @returns Batches to send in order
+ * @note Requests from the same temporary wallet are sorted by nonce, since the paymaster
+ * only accepts each wallet's current nonce
+ */
+export function packBatches(
+	items: SignedTemporaryWalletTransaction[],
+	maxBatchSize: number = DEFAULT_MAX_BATCH_SIZE
+): SignedTemporaryWalletTransaction[][] {
+	if (!Number.isInteger(maxBatchSize) || maxBatchSize <= 0) {
+		throw new Error("maxBatchSize must be a positive integer");
+	}
+
+	const byWallet = new Map<string, SignedTemporaryWalletTransaction[]>();
+	for (const item of items) {
+		const wallet = item.request.temporaryWallet.toLowerCase();
+		byWallet.set(wallet, [...(byWallet.get(wallet) || []), item]);
+	}
+
+	const ordered = [...byWallet.values()].flatMap((walletItems) =>
+		[...walletItems].sort((a, b) =>
+			BigInt(a.request.nonce) < BigInt(b.request.nonce) ? -1 : 1
+		)
+	);
+
+	const batches: SignedTemporaryWalletTransaction[][] = [];
+	for (let i = 0; i < ordered.length; i += maxBatchSize) {
+		batches.push(ordered.slice(i, i + maxBatchSize));
+	}
+	return batches;
+}
+
+/**
+ * Read the per-item results of a mined executeBatch transaction
+ * @param paymaster NICPaymaster contract instance
+ * @param batch Requests sent in the batch, in the order they were sent
+ * @param receipt Receipt of the executeBatch transaction
+ * @returns One result per request
+ */
+export function parseBatchResults(
+	paymaster: NICPaymaster,
+	batch: SignedTemporaryWalletTransaction[],
+	receipt: ethers.TransactionReceipt
+): BatchItemResult[] {
+	const results: BatchItemResult[] = [];
+	for (const log of receipt.logs) {
+		const parsed = paymaster.interface.parseLog(log);
+		if (parsed?.name !== "BatchItemProcessed") {
+			continue;
+		}
+		const index = Number(parsed.args.index);
+		results[index] = {
+			...batch[index],
+			executed: parsed.args.executed,
+			success: parsed.args.success,
+			returnData: parsed.args.returnData,
+			transactionHash: receipt.hash,
+		};
+	}
+	return results;
+}
+
+/**
+ * Create a queue that relays signed temporary-wallet requests through executeBatch
+ * @param paymaster NICPaymaster contract instance, connected to the relayer
+ * @param maxBatchSize Maximum requests per transaction (default: DEFAULT_MAX_BATCH_SIZE)
+ * @returns Relayer queue
+ * @note A request rejected in its batch is reported in the results and not retried
+ */
+export function createRelayerQueue(
+	paymaster: NICPaymaster,
+	maxBatchSize: number = DEFAULT_MAX_BATCH_SIZE
+): RelayerQueue {
+	let queue: SignedTemporaryWalletTransaction[] = [];
+
+	return {
+		enqueue(item: SignedTemporaryWalletTransaction): void {
+			const duplicate = queue.some(
+				(queued) =>
+					queued.request.temporaryWallet.toLowerCase() ===
+						item.request.temporaryWallet.toLowerCase() &&
+					BigInt(queued.request.nonce) === BigInt(item.request.nonce)
+			);
+			if (duplicate) {
+				throw new Error(
+					`Request ${item.request.nonce} of ${item.request.temporaryWallet} is already queued`
+				);
+			}
+			queue.push(item);
+		},
+
+		size(): number {
+			return queue.length;
+		},
+
+		async flush(): Promise<BatchItemResult[]> {
+			const batches = packBatches(queue, maxBatchSize);
+			queue = [];
+
+			const results: BatchItemResult[] = [];
+			for (let i = 0; i < batches.length; i++) {
+				try {
+					const tx = await paymaster.executeBatch(batches[i].map(toBatchRequest));
+					const receipt = await tx.wait();
+					if (!receipt) {
+						throw new Error(`Batch transaction ${tx.hash} was not mined`);
+					}
+					results.push(...parseBatchResults(paymaster, batches[i], receipt));
+				} catch (error) {
+					// Keep the batches that were not mined so the caller can flush again
+					queue = [...batches.slice(i).flat(), ...queue];
+					throw error;
+				}
+			}
+			return results;
+		},
+	};
+}
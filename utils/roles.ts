@@ -0,0 +1,170 @@
+import {ethers} from "ethers";
+
+/**
+ * Roles of the NICAccessControl contracts
+ */
+export const ROLE_NAMES = [
+	"DEFAULT_ADMIN_ROLE",
+	"ELECTION_ADMIN_ROLE",
+	"REGISTRAR_ROLE",
+	"TREASURER_ROLE",
+	"VERIFIER_ADMIN_ROLE",
+	"PAUSER_ROLE",
+] as const;
+
+export type RoleName = (typeof ROLE_NAMES)[number];
+
+/**
+ * Roles each contract checks (the deployer holds them after deployment)
+ */
+export const CONTRACT_ROLES: Record<string, RoleName[]> = {
+	NICWalletRegistry: ["DEFAULT_ADMIN_ROLE", "REGISTRAR_ROLE", "PAUSER_ROLE"],
+	NICPaymaster: ["DEFAULT_ADMIN_ROLE", "TREASURER_ROLE", "PAUSER_ROLE"],
+	PolygonPaymaster: ["DEFAULT_ADMIN_ROLE", "TREASURER_ROLE", "PAUSER_ROLE"],
+	NICSessionPaymaster: ["DEFAULT_ADMIN_ROLE", "TREASURER_ROLE", "PAUSER_ROLE"],
+	ZK_ElectionContract: [
+		"DEFAULT_ADMIN_ROLE",
+		"ELECTION_ADMIN_ROLE",
+		"VERIFIER_ADMIN_ROLE",
+		"PAUSER_ROLE",
+	],
+	ElectionContract: ["DEFAULT_ADMIN_ROLE", "ELECTION_ADMIN_ROLE", "PAUSER_ROLE"],
+};
+
+/**
+ * Environment variables naming the holder of each role (assign-roles.ts, deploy-nic-system.ts)
+ */
+export const ROLE_HOLDER_ENV: Record<RoleName, string> = {
+	DEFAULT_ADMIN_ROLE: "ADMIN_ADDRESS",
+	ELECTION_ADMIN_ROLE: "ELECTION_ADMIN_ADDRESS",
+	REGISTRAR_ROLE: "REGISTRAR_ADDRESS",
+	TREASURER_ROLE: "TREASURER_ADDRESS",
+	VERIFIER_ADMIN_ROLE: "VERIFIER_ADMIN_ADDRESS",
+	PAUSER_ROLE: "PAUSER_ADDRESS",
+};
+
+/**
+ * Holder to give each role to; roles left out keep their current holders
+ */
+export type RoleHolders = Partial<Record<RoleName, string>>;
+
+/**
+ * Compute the role identifier checked by the contracts
+ * @param role Role name
+ * @returns bytes32 role ID (zero for DEFAULT_ADMIN_ROLE)
+ */
+export function roleId(role: RoleName): string {
+	return role === "DEFAULT_ADMIN_ROLE"
+		? ethers.ZeroHash
+		: ethers.keccak256(ethers.toUtf8Bytes(role));
+}
+
+/**
+ * Read the role holders from the environment
+ * @param env Environment to read from (default: process.env)
+ * @returns Holder of each role whose ROLE_HOLDER_ENV variable is set
+ */
+export function getRoleHoldersFromEnv(env: NodeJS.ProcessEnv = process.env): RoleHolders {
+	const holders: RoleHolders = {};
+	for (const role of ROLE_NAMES) {
+		const holder = env[ROLE_HOLDER_ENV[role]];
+		if (!holder) {
+			continue;
+		}
+		if (!ethers.isAddress(holder)) {
+			throw new Error(`${ROLE_HOLDER_ENV[role]} must be an address`);
+		}
+		holders[role] = holder;
+	}
+	return holders;
+}
+
+/**
+ * Change of a role holder made by assignRoles
+ */
+export interface RoleChange {
+	role: RoleName;
+	account: string;
+	action: "granted" | "renounced";
+	transactionHash: string;
+}
+
+/**
+ * Give each role of a contract to its holder
+ * @param contract NICAccessControl contract instance, connected to a DEFAULT_ADMIN_ROLE holder
+ * @param roles Roles the contract checks (CONTRACT_ROLES)
+ * @param holders Holder of each role
+ * @param renounce Whether the connected account gives up the roles it handed to another holder
+ * @returns Grants and renouncements made, in order
+ * @note DEFAULT_ADMIN_ROLE is handed over last, so the other grants are still authorized
+ */
+export async function assignRoles(
+	contract: ethers.BaseContract,
+	roles: RoleName[],
+	holders: RoleHolders,
+	renounce: boolean = false
+): Promise<RoleChange[]> {
+	const self = await (contract.runner as ethers.Signer | null)?.getAddress();
+	if (!self) {
+		throw new Error("Contract is not connected to a signer");
+	}
+	const ordered = [
+		...roles.filter((role) => role !== "DEFAULT_ADMIN_ROLE"),
+		...roles.filter((role) => role === "DEFAULT_ADMIN_ROLE"),
+	];
+
+	const changes: RoleChange[] = [];
+	for (const role of ordered) {
+		const holder = holders[role];
+		if (!holder) {
+			continue;
+		}
+		const id = roleId(role);
+
+		if (!(await contract.getFunction("hasRole")(id, holder))) {
+			const tx = await contract.getFunction("grantRole")(id, holder);
+			await tx.wait();
+			changes.push({role, account: holder, action: "granted", transactionHash: tx.hash});
+		}
+		if (renounce && holder.toLowerCase() !== self.toLowerCase() && (await contract.getFunction("hasRole")(id, self))) {
+			const tx = await contract.getFunction("renounceRole")(id, self);
+			await tx.wait();
+			changes.push({role, account: self, action: "renounced", transactionHash: tx.hash});
+		}
+	}
+	return changes;
+}
+
+/**
+ * List who holds each role of a contract
+ * @param contract NICAccessControl contract instance (with a provider)
+ * @param roles Roles to audit (default: every role)
+ * @param fromBlock Block to start reading RoleGranted events from (e.g. the deployment block)
+ * @returns Current holders of each role
+ * @note The contracts do not enumerate role members, so candidates are taken from RoleGranted
+ * events and kept only if hasRole still returns true
+ */
+export async function auditRoles(
+	contract: ethers.BaseContract,
+	roles: readonly RoleName[] = ROLE_NAMES,
+	fromBlock: number = 0
+): Promise<Record<RoleName, string[]>> {
+	const audit = {} as Record<RoleName, string[]>;
+	for (const role of roles) {
+		const id = roleId(role);
+		const grants = await contract.queryFilter(contract.filters.RoleGranted(id), fromBlock);
+		const candidates = [
+			...new Set<string>(
+				grants.flatMap((log) => ("args" in log ? [log.args.account] : []))
+			),
+		];
+
+		audit[role] = [];
+		for (const account of candidates) {
+			if (await contract.getFunction("hasRole")(id, account)) {
+				audit[role].push(account);
+			}
+		}
+	}
+	return audit;
+}
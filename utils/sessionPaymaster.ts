@@ -0,0 +1,32 @@
+import {ethers} from "ethers";
+import {types, utils} from "zksync-ethers";
+
+/**
+ * Build the paymasterParams of a transaction sponsored by NICSessionPaymaster
+ * @param paymasterAddress Address of the deployed NICSessionPaymaster
+ * @param originalWallet Registered wallet whose session the sending temporary wallet holds
+ * @returns paymasterParams for the transaction's customData
+ * @note The paymaster uses the "General" flow; its inner input is abi.encode(originalWallet)
+ */
+export function getSessionPaymasterParams(
+	paymasterAddress: string,
+	originalWallet: string
+): types.PaymasterParams {
+	return utils.getPaymasterParams(paymasterAddress, {
+		type: "General",
+		innerInput: ethers.AbiCoder.defaultAbiCoder().encode(["address"], [originalWallet]),
+	});
+}
+
+/**
+ * Build the customData of a transaction sent by a temporary wallet through NICSessionPaymaster
+ * @param paymasterAddress Address of the deployed NICSessionPaymaster
+ * @param originalWallet Registered wallet whose session the sending temporary wallet holds
+ * @returns customData for a zksync-ethers transaction request
+ */
+export function getSessionPaymasterCustomData(paymasterAddress: string, originalWallet: string) {
+	return {
+		gasPerPubdata: utils.DEFAULT_GAS_PER_PUBDATA_LIMIT,
+		paymasterParams: getSessionPaymasterParams(paymasterAddress, originalWallet),
+	};
+}
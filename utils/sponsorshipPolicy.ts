@@ -0,0 +1,121 @@
+import {ethers} from "ethers";
+import type {NICPaymaster} from "../typechain-types";
+
+/**
+ * ZK_ElectionContract functions a session wallet votes with through the paymaster
+ */
+export const SESSION_VOTE_FUNCTIONS = ["castVoteWithNIC", "castVoteWithNICHash"] as const;
+
+/**
+ * Calls a NICPaymaster should sponsor
+ */
+export interface SponsorshipPolicy {
+	/** Election contract whose session votes are sponsored and counted against election caps */
+	electionContract?: {address: string; voteSelectors: string[]};
+	/** Contracts whose every function is sponsored */
+	targets: string[];
+}
+
+/**
+ * Get the selectors of the session vote functions
+ * @param electionInterface ZK_ElectionContract interface
+ */
+export function getSessionVoteSelectors(electionInterface: ethers.Interface): string[] {
+	return SESSION_VOTE_FUNCTIONS.map((name) => electionInterface.getFunction(name)!.selector);
+}
+
+/**
+ * Read the sponsorship policy from the environment
+ * @param electionInterface ZK_ElectionContract interface, for the session vote selectors
+ * @param env Environment to read from (default: process.env)
+ * @returns Policy from ZK_ELECTION_CONTRACT_ADDRESS and SPONSORED_TARGETS (comma-separated)
+ */
+export function getSponsorshipPolicyFromEnv(
+	electionInterface: ethers.Interface,
+	env: NodeJS.ProcessEnv = process.env
+): SponsorshipPolicy {
+	const targets = (env.SPONSORED_TARGETS || "")
+		.split(",")
+		.map((target) => target.trim())
+		.filter((target) => target.length > 0);
+	for (const target of [env.ZK_ELECTION_CONTRACT_ADDRESS, ...targets]) {
+		if (target && !ethers.isAddress(target)) {
+			throw new Error(`Sponsored target ${target} is not an address`);
+		}
+	}
+	const electionContract = env.ZK_ELECTION_CONTRACT_ADDRESS
+		? {
+				address: env.ZK_ELECTION_CONTRACT_ADDRESS,
+				voteSelectors: getSessionVoteSelectors(electionInterface),
+			}
+		: undefined;
+	return {electionContract, targets};
+}
+
+/**
+ * Allowlist the calls of a sponsorship policy
+ * @param paymaster NICPaymaster instance, connected to a TREASURER_ROLE holder
+ * @param policy Calls to sponsor
+ * @returns Hashes of the policy transactions, in order
+ */
+export async function applySponsorshipPolicy(
+	paymaster: NICPaymaster,
+	policy: SponsorshipPolicy
+): Promise<string[]> {
+	const hashes: string[] = [];
+	if (policy.electionContract) {
+		const {address, voteSelectors} = policy.electionContract;
+		let tx = await paymaster.setSponsoredSelectors(address, voteSelectors, true);
+		await tx.wait();
+		hashes.push(tx.hash);
+
+		tx = await paymaster.setElectionContract(address, true);
+		await tx.wait();
+		hashes.push(tx.hash);
+	}
+	for (const target of policy.targets) {
+		const tx = await paymaster.setSponsoredTarget(target, true);
+		await tx.wait();
+		hashes.push(tx.hash);
+	}
+	return hashes;
+}
+
+/**
+ * Make sure the paymaster sponsors a call, allowlisting it if the connected account may
+ * @param paymaster NICPaymaster instance
+ * @param target Contract the call is made to
+ * @param data Call data; only its function is allowlisted (default: every function of the target)
+ * @returns True if the call had to be allowlisted
+ * @throws If the call is not sponsored and the connected account does not hold TREASURER_ROLE
+ */
+export async function ensureSponsored(
+	paymaster: NICPaymaster,
+	target: string,
+	data?: string
+): Promise<boolean> {
+	const selector = data ? ethers.dataSlice(data, 0, 4) : undefined;
+	if (
+		(await paymaster.sponsoredTargets(target)) ||
+		(selector !== undefined && (await paymaster.sponsoredSelectors(target, selector)))
+	) {
+		return false;
+	}
+
+	const runner = paymaster.runner as ethers.Signer | null;
+	if (!runner?.getAddress) {
+		throw new Error("Paymaster is not connected to a signer");
+	}
+	const account = await runner.getAddress();
+	if (!(await paymaster.hasRole(await paymaster.TREASURER_ROLE(), account))) {
+		throw new Error(
+			`Paymaster does not sponsor calls to ${target} and ${account} does not hold TREASURER_ROLE - run configure-sponsorship-policy.ts`
+		);
+	}
+
+	const tx = selector
+		? await paymaster.setSponsoredSelectors(target, [selector], true)
+		: await paymaster.setSponsoredTarget(target, true);
+	await tx.wait();
+	return true;
+}
@@ -0,0 +1,407 @@
+import {ethers} from "ethers";
+import {MerkleTree} from "merkletreejs";
+import * as fs from "fs";
+import * as path from "path";
+import {compile, createFileManager} from "@noir-lang/noir_wasm";
+import {Noir, type CompiledCircuit, type InputMap} from "@noir-lang/noir_js";
+import {BarretenbergBackend, type Backend} from "@noir-lang/backend_barretenberg";
+import {
+	computeIdentityCommitment,
+	computeNullifier,
+	getCircuitMerklePath,
+	getIdentityCircuitMerklePath,
+	getMerkleProof,
+	toFieldElement,
+} from "./merkleTree";
+import {
+	computeBallotCommitment,
+	encryptBallot,
+	type EncryptedBallot,
+	type G1Point,
+} from "./encryptedTally";
+
+/**
+ * Voting circuit project directory (Nargo.toml)
+ */
+export const VOTING_CIRCUIT_DIR = path.join(__dirname, "../circuits/voting-circuit");
+
+/**
+ * Default location of the compiled voting circuit (output of `nargo compile`)
+ */
+export const DEFAULT_CIRCUIT_PATH = path.join(
+	VOTING_CIRCUIT_DIR,
+	"target/voting-circuit.json"
+);
+
+/**
+ * UltraPlonk prover for the voting circuit (generateVoteProof defaults to a BarretenbergBackend)
+ * @note Proofs only verify on an UltraVerifier generated from the same compiled circuit
+ */
+export type VoteProvingBackend = Pick<Backend, "generateProof">;
+
+/**
+ * Values the voting circuit is evaluated on (all hashes as 0x-prefixed hex)
+ * @note commitment and nullifierHash are field elements (see toFieldElement), merkleRoot is the raw tree root
+ */
+export interface VoteWitness {
+	voterSecret: string;
+	registeredWallet: string;
+	identityMode: boolean;
+	electionId: number;
+	merkleRoot: string;
+	commitment: string;
+	nullifierHash: string;
+	path: string[];
+	pathPresent: boolean[];
+}
+
+/**
+ * Voter credentials and tree the voting circuit witness is built from
+ * @note Wallet elections need voterSecret (generateVoterSecret) and registeredWallet (tree from createVoterMerkleTree);
+ * anonymous elections need identitySecret (tree from createIdentityMerkleTree)
+ */
+export interface VoteWitnessRequest {
+	voterSecret?: string;
+	registeredWallet?: string;
+	identitySecret?: string;
+	electionId: number;
+	tree: MerkleTree;
+}
+
+/**
+ * Everything needed to prove a vote
+ * @note tallyPublicKey is the election's Election.tallyPublicKey; chainId and electionContract
+ * bind the ballot proofs to the ZK_ElectionContract deployment (getBallotContext)
+ */
+export interface VoteProofRequest extends VoteWitnessRequest {
+	candidateIndex: number;
+	candidateCount: number;
+	tallyPublicKey: G1Point;
+	chainId: bigint;
+	electionContract: string;
+}
+
+/**
+ * Proof and public values in the argument layout of ZK_ElectionContract.castVoteWithNIC
+ * @note proof is the UltraPlonk proof without its public inputs, which are listed in publicInputs
+ * (ZK_ElectionContract rebuilds them with getPublicInputs); commitment is the ballot commitment
+ * (computeBallotCommitment); merkleProof is empty for anonymous elections (use toCastAnonymousVoteArgs)
+ */
+export interface CastVoteCalldata {
+	electionId: number;
+	nullifierHash: string;
+	commitment: string;
+	ballot: EncryptedBallot;
+	merkleProof: string[];
+	proof: string;
+	publicInputs: string[];
+}
+
+/**
+ * Load the compiled voting circuit
+ * @param filePath Path to the `nargo compile` output (default: circuits/voting-circuit/target)
+ * @returns Compiled circuit (bytecode and ABI)
+ */
+export function loadVotingCircuit(
+	filePath: string = DEFAULT_CIRCUIT_PATH
+): CompiledCircuit {
+	if (!fs.existsSync(filePath)) {
+		throw new Error(
+			`Compiled circuit not found at ${filePath} (run nargo compile in circuits/voting-circuit)`
+		);
+	}
+	const circuit = JSON.parse(fs.readFileSync(filePath, "utf8")) as CompiledCircuit;
+	if (!circuit.bytecode || !circuit.abi) {
+		throw new Error(`Invalid compiled circuit: ${filePath}`);
+	}
+	return circuit;
+}
+
+/**
+ * Compile the voting circuit from source
+ * @param circuitDir Circuit project directory (default: circuits/voting-circuit)
+ * @returns Compiled circuit (bytecode and ABI)
+ * @note Uses the wasm compiler, so nargo does not need to be installed
+ */
+export async function compileVotingCircuit(
+	circuitDir: string = VOTING_CIRCUIT_DIR
+): Promise<CompiledCircuit> {
+	const {program} = await compile(createFileManager(circuitDir));
+	return program as CompiledCircuit;
+}
+
+/**
+ * Build the voting circuit witness for a voter
+ * @param request Election, voter tree and either the voter secret and registered wallet or the identity secret
+ * @param commitment Ballot commitment the proof is bound to (computeBallotCommitment)
+ * @returns Witness values (nullifier derived from the voter secret, or the identity secret in identity mode)
+ */
+export function buildVoteWitness(request: VoteWitnessRequest, commitment: string): VoteWitness {
+	const voterSecret = getVoterSecret(request);
+	let registeredWallet: string;
+	let merklePath: {path: string[]; pathPresent: boolean[]};
+	if (request.identitySecret !== undefined) {
+		registeredWallet = ethers.ZeroAddress;
+		merklePath = getIdentityCircuitMerklePath(
+			request.tree,
+			computeIdentityCommitment(request.identitySecret),
+			request.electionId
+		);
+	} else {
+		registeredWallet = ethers.getAddress(request.registeredWallet!);
+		merklePath = getCircuitMerklePath(
+			request.tree,
+			registeredWallet,
+			request.electionId
+		);
+	}
+
+	return {
+		voterSecret,
+		registeredWallet,
+		identityMode: request.identitySecret !== undefined,
+		electionId: request.electionId,
+		merkleRoot: request.tree.getHexRoot(),
+		commitment,
+		nullifierHash: computeNullifier(voterSecret, request.electionId),
+		path: merklePath.path,
+		pathPresent: merklePath.pathPresent,
+	};
+}
+
+/**
+ * Get the secret a voter's nullifier is derived from
+ * @param request Voter credentials
+ * @returns Identity secret, or the voter secret for wallet elections
+ */
+function getVoterSecret(request: VoteWitnessRequest): string {
+	if (request.identitySecret !== undefined) {
+		return request.identitySecret;
+	}
+	if (request.voterSecret !== undefined && request.registeredWallet !== undefined) {
+		return request.voterSecret;
+	}
+	throw new Error("Vote proof request needs an identity secret, or a voter secret and registered wallet");
+}
+
+/**
+ * Convert a witness into the voting circuit's input map (main.nr parameter names)
+ * @param witness Vote witness
+ * @returns Circuit inputs (byte arrays as decimal strings, public hashes as field hex)
+ */
+export function toCircuitInputs(witness: VoteWitness): InputMap {
+	const bytes = (hex: string) =>
+		Array.from(ethers.getBytes(hex)).map((b) => b.toString());
+	const [merkleRoot, commitment, nullifierHash] = toPublicInputs(witness);
+
+	// noir_js's InputMap type does not model nested arrays (merkle_path)
+	return {
+		private_inputs: {
+			voter_secret: bytes(witness.voterSecret),
+			registered_wallet: bytes(witness.registeredWallet),
+			identity_mode: witness.identityMode,
+			merkle_path: witness.path.map(bytes),
+			merkle_path_present: witness.pathPresent,
+		},
+		public_inputs: {
+			merkle_root: merkleRoot,
+			commitment,
+			nullifier_hash: nullifierHash,
+			election_id: witness.electionId.toString(),
+		},
+	} as unknown as InputMap;
+}
+
+/**
+ * Get the public inputs a vote proof is verified against
+ * @param witness Vote witness
+ * @returns [merkleRoot, commitment, nullifierHash, electionId] as field elements
+ * @note Matches ZK_ElectionContract.getPublicInputs, which builds them from the election's state
+ */
+export function toPublicInputs(witness: VoteWitness): [string, string, string, number] {
+	return [
+		toFieldElement(witness.merkleRoot),
+		witness.commitment,
+		witness.nullifierHash,
+		witness.electionId,
+	];
+}
+
+/**
+ * Solve the voting circuit for a witness
+ * @param circuit Compiled voting circuit
+ * @param witness Vote witness
+ * @returns Compressed solved witness
+ * @note Throws with the circuit's assertion message (e.g. "Invalid nullifier") if a constraint fails
+ */
+export async function solveVoteWitness(
+	circuit: CompiledCircuit,
+	witness: VoteWitness
+): Promise<Uint8Array> {
+	const noir = new Noir(circuit);
+	const {witness: solved} = await noir.execute(toCircuitInputs(witness));
+	return solved;
+}
+
+/**
+ * Encrypt a vote and generate its proof and castVoteWithNIC calldata
+ * @param request Election, candidate, tally key, voter tree and either the NIC and registered wallet or the identity secret
+ * @param circuit Compiled voting circuit (default: loadVotingCircuit())
+ * @param backend UltraPlonk prover (default: a BarretenbergBackend for the circuit)
+ * @returns Calldata for castVoteWithNIC (use toCastVoteWithNICArgs to order it)
+ * @note The default backend downloads the Barretenberg CRS on first use and proves in wasm (takes minutes)
+ */
+export async function generateVoteProof(
+	request: VoteProofRequest,
+	circuit: CompiledCircuit = loadVotingCircuit(),
+	backend?: VoteProvingBackend
+): Promise<CastVoteCalldata> {
+	// The ballot proofs are bound to the voter's nullifier, and the vote proof to the ballot
+	const ballot = encryptBallot(request.candidateIndex, request.candidateCount, request.tallyPublicKey, {
+		chainId: request.chainId,
+		electionContract: request.electionContract,
+		electionId: request.electionId,
+		nullifierHash: computeNullifier(getVoterSecret(request), request.electionId),
+	});
+	const witness = buildVoteWitness(request, computeBallotCommitment(ballot.ciphertexts));
+	const solved = await solveVoteWitness(circuit, witness);
+	const {proof, publicInputs} = backend
+		? await backend.generateProof(solved)
+		: await withBarretenbergBackend(circuit, (barretenberg) =>
+				barretenberg.generateProof(solved)
+			);
+
+	return {
+		electionId: witness.electionId,
+		nullifierHash: witness.nullifierHash,
+		commitment: witness.commitment,
+		ballot,
+		// Anonymous votes prove eligibility in the circuit only
+		merkleProof: witness.identityMode
+			? []
+			: getMerkleProof(request.tree, witness.registeredWallet, witness.electionId),
+		proof: ethers.hexlify(proof),
+		publicInputs,
+	};
+}
+
+/**
+ * Verify a vote proof off-chain, before submitting it
+ * @param calldata Output of generateVoteProof
+ * @param circuit Compiled voting circuit the proof was generated with (default: loadVotingCircuit())
+ * @returns True if the proof is valid for its public inputs
+ * @note Does not check the public inputs against the election: the contract rebuilds them with getPublicInputs
+ */
+export async function verifyVoteProof(
+	calldata: CastVoteCalldata,
+	circuit: CompiledCircuit = loadVotingCircuit()
+): Promise<boolean> {
+	return withBarretenbergBackend(circuit, (barretenberg) =>
+		barretenberg.verifyProof({
+			proof: ethers.getBytes(calldata.proof),
+			publicInputs: calldata.publicInputs,
+		})
+	);
+}
+
+/**
+ * Run a task with a BarretenbergBackend for a circuit, releasing its wasm instance afterwards
+ */
+async function withBarretenbergBackend<T>(
+	circuit: CompiledCircuit,
+	task: (backend: BarretenbergBackend) => Promise<T>
+): Promise<T> {
+	const backend = new BarretenbergBackend(circuit);
+	try {
+		return await task(backend);
+	} finally {
+		await backend.destroy();
+	}
+}
+
+/**
+ * Order vote calldata as the arguments of ZK_ElectionContract.castVoteWithNIC
+ * @param calldata Output of generateVoteProof
+ * @param voterNIC Voter's NIC number
+ * @param originalWallet Voter's registered wallet
+ * @param temporaryWallet Session (temporary) wallet casting the vote
+ * @returns Arguments for interface.encodeFunctionData("castVoteWithNIC", args)
+ */
+export function toCastVoteWithNICArgs(
+	calldata: CastVoteCalldata,
+	voterNIC: string,
+	originalWallet: string,
+	temporaryWallet: string
+) {
+	return [
+		calldata.electionId,
+		voterNIC,
+		originalWallet,
+		temporaryWallet,
+		calldata.nullifierHash,
+		calldata.ballot,
+		calldata.merkleProof,
+		calldata.proof,
+	] as const;
+}
+
+/**
+ * Order vote calldata as the arguments of ZK_ElectionContract.castAnonymousVote
+ * @param calldata Output of generateVoteProof (identity-secret request)
+ * @returns Arguments for interface.encodeFunctionData("castAnonymousVote", args)
+ */
+export function toCastAnonymousVoteArgs(calldata: CastVoteCalldata) {
+	return [
+		calldata.electionId,
+		calldata.nullifierHash,
+		calldata.ballot,
+		calldata.proof,
+	] as const;
+}
+
+/**
+ * Get the default identity secret file for a registered wallet
+ * @param registeredWallet Voter's registered wallet
+ * @param directory Directory holding identity secrets (default: <repo>/identities)
+ * @returns Path to identities/<wallet>.json
+ */
+export function getIdentitySecretPath(
+	registeredWallet: string,
+	directory: string = path.join(__dirname, "..", "identities")
+): string {
+	return path.join(directory, `${ethers.getAddress(registeredWallet)}.json`);
+}
+
+/**
+ * Load a voter's identity secret
+ * @param filePath JSON file written by saveIdentitySecret
+ * @returns Identity secret, or undefined if the file does not exist
+ */
+export function loadIdentitySecret(filePath: string): string | undefined {
+	if (!fs.existsSync(filePath)) {
+		return undefined;
+	}
+	return (JSON.parse(fs.readFileSync(filePath, "utf8")) as {identitySecret: string})
+		.identitySecret;
+}
+
+/**
+ * Save a voter's identity secret (needed to vote in every anonymous election)
+ * @param identitySecret Secret from generateIdentitySecret
+ * @param filePath Output file (e.g. getIdentitySecretPath(wallet))
+ * @returns Path the file was written to
+ * @note The file is written with owner-only permissions: anyone holding the secret can vote as the voter
+ */
+export function saveIdentitySecret(identitySecret: string, filePath: string): string {
+	fs.mkdirSync(path.dirname(filePath), {recursive: true});
+	fs.writeFileSync(
+		filePath,
+		JSON.stringify(
+			{identitySecret, identityCommitment: computeIdentityCommitment(identitySecret)},
+			null,
+			2
+		),
+		{mode: 0o600}
+	);
+	return filePath;
+}